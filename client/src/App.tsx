@@ -1,6 +1,8 @@
+import { useState, useEffect } from 'react';
 import { BrowserRouter, Routes, Route, Navigate } from 'react-router-dom';
 import Login from './Login';
 import Dashboard from './Dashboard';
+import { Session } from './types';
 
 function App() {
   return (
@@ -11,7 +13,7 @@ function App() {
           path="/dashboard" 
           element={
             <ProtectedRoute>
-              <Dashboard />
+              {(session) => <Dashboard session={session} />}
             </ProtectedRoute>
           } 
         />
@@ -21,15 +23,27 @@ function App() {
   );
 }
 
-// Protected Route Component
-function ProtectedRoute({ children }: { children: React.ReactNode }) {
-  const password = localStorage.getItem('appPassword');
-  
-  if (!password) {
+// Protected Route Component: renders its children only with a valid session cookie
+function ProtectedRoute({ children }: { children: (session: Session) => React.ReactNode }) {
+  // undefined = still checking, null = not signed in
+  const [session, setSession] = useState<Session | null | undefined>(undefined);
+
+  useEffect(() => {
+    fetch('/api/auth/session')
+      .then((res) => (res.ok ? res.json() : null))
+      .then((data) => setSession(data?.user ? data : null))
+      .catch(() => setSession(null));
+  }, []);
+
+  if (session === undefined) {
+    return null;
+  }
+
+  if (!session) {
     return <Navigate to="/" replace />;
   }
 
-  return <>{children}</>;
+  return <>{children(session)}</>;
 }
 
 export default App;
@@ -0,0 +1,207 @@
+import { ReactNode, useState } from 'react';
+import { BreachDecision, BreachDuty, BreachResult } from './types';
+
+const ClipboardIcon = () => (
+  <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+    <path d="M16 4h2a2 2 0 0 1 2 2v14a2 2 0 0 1-2 2H6a2 2 0 0 1-2-2V6a2 2 0 0 1 2-2h2"></path>
+    <rect x="8" y="2" width="8" height="4" rx="1" ry="1"></rect>
+  </svg>
+);
+
+const AlertIcon = () => (
+  <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+    <path d="m21.73 18-8-14a2 2 0 0 0-3.48 0l-8 14A2 2 0 0 0 4 21h16a2 2 0 0 0 1.73-3Z"></path>
+    <line x1="12" y1="9" x2="12" y2="13"></line>
+    <line x1="12" y1="17" x2="12.01" y2="17"></line>
+  </svg>
+);
+
+const ShieldIcon = () => (
+  <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+    <path d="M12 22s8-4 8-10V5l-8-3-8 3v7c0 6 8 10 8 10z"></path>
+  </svg>
+);
+
+const FileIcon = () => (
+  <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+    <path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z"></path>
+    <polyline points="14 2 14 8 20 8"></polyline>
+  </svg>
+);
+
+export const BREACH_DECISION_LABELS: Record<BreachDecision, string> = {
+  yes: 'Erforderlich',
+  no: 'Nicht erforderlich',
+  unclear: 'Unklar',
+};
+
+// Titles of the two duties under Art. 24 DSG, also used in the PDF export
+export const BREACH_DUTY_TITLES = {
+  authorityNotification: 'Meldung an den EDÖB (Art. 24 Abs. 1 DSG)',
+  subjectInformation: 'Information der betroffenen Personen (Art. 24 Abs. 4 DSG)',
+};
+
+function DutyCard({ title, duty, renderText }: { title: string; duty: BreachDuty; renderText: (text: string) => ReactNode }) {
+  return (
+    <div className={`breach-duty ${duty.decision}`}>
+      <div className="breach-duty-header">
+        <h3>{title}</h3>
+        <span className={`breach-decision ${duty.decision}`}>{BREACH_DECISION_LABELS[duty.decision]}</span>
+      </div>
+      {duty.reason && <p>{renderText(duty.reason)}</p>}
+    </div>
+  );
+}
+
+function DraftSection({ title, draft, hint }: { title: string; draft: string; hint: string }) {
+  const [copied, setCopied] = useState(false);
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(draft);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch {
+      setCopied(false);
+    }
+  };
+
+  return (
+    <div className="result-section scroll-animate">
+      <div className="section-header">
+        <div className="section-icon">
+          <FileIcon />
+        </div>
+        <h2>{title}</h2>
+        <button className="law-back breach-copy" onClick={handleCopy}>
+          {copied ? 'Kopiert' : 'Kopieren'}
+        </button>
+      </div>
+      <p className="heat-map-legend">{hint}</p>
+      <pre className="full-analysis breach-draft">{draft}</pre>
+    </div>
+  );
+}
+
+// Result of the Art. 24 assessment; renderText turns the cited articles into links
+function BreachAssessment({
+  result,
+  riskIndicator,
+  renderText,
+  onDownloadPdf,
+}: {
+  result: BreachResult;
+  riskIndicator: ReactNode;
+  renderText: (text: string) => ReactNode;
+  onDownloadPdf: () => void;
+}) {
+  return (
+    <div className="results animate-fade-in">
+      <div className="result-section scroll-animate">
+        <div className="section-header">
+          <div className="section-icon">
+            <ClipboardIcon />
+          </div>
+          <h2>Zusammenfassung</h2>
+        </div>
+        <p className="summary-text">{renderText(result.summary)}</p>
+        <div className="breach-duties">
+          <DutyCard title={BREACH_DUTY_TITLES.authorityNotification} duty={result.authorityNotification} renderText={renderText} />
+          <DutyCard title={BREACH_DUTY_TITLES.subjectInformation} duty={result.subjectInformation} renderText={renderText} />
+        </div>
+      </div>
+
+      {result.facts && (
+        <div className="result-section scroll-animate">
+          <div className="section-header">
+            <div className="section-icon">
+              <FileIcon />
+            </div>
+            <h2>Sachverhalt</h2>
+          </div>
+          <div className="summary-text">{renderText(result.facts)}</div>
+        </div>
+      )}
+
+      <div className="result-section scroll-animate">
+        <div className="section-header">
+          <div className="section-icon">
+            <AlertIcon />
+          </div>
+          <h2>Risikobeurteilung</h2>
+        </div>
+        {riskIndicator}
+        {result.riskAssessment && <div className="summary-text">{renderText(result.riskAssessment)}</div>}
+      </div>
+
+      {result.immediateMeasures.length > 0 && (
+        <div className="result-section scroll-animate">
+          <div className="section-header">
+            <div className="section-icon">
+              <ShieldIcon />
+            </div>
+            <h2>Sofortmassnahmen</h2>
+          </div>
+          <ul className="recommendations-list">
+            {result.immediateMeasures.map((measure, index) => (
+              <li key={index} className="recommendation-item">
+                <span className="recommendation-number">{index + 1}</span>
+                <span className="recommendation-text">{renderText(measure)}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {result.authorityDraft && (
+        <DraftSection
+          title="Entwurf der Meldung an den EDÖB"
+          draft={result.authorityDraft}
+          hint="Mindestinhalt nach Art. 15 Abs. 1 DSV. Platzhalter in eckigen Klammern vor dem Versand ergänzen; fehlende Angaben können nachgereicht werden."
+        />
+      )}
+
+      {result.subjectDraft && (
+        <DraftSection
+          title="Entwurf der Information an die betroffenen Personen"
+          draft={result.subjectDraft}
+          hint="In einfacher und verständlicher Sprache (Art. 15 Abs. 3 DSV). Ausnahmen nach Art. 24 Abs. 5 DSG prüfen."
+        />
+      )}
+
+      <details className="result-section scroll-animate">
+        <summary className="details-summary">
+          <div className="details-summary-left">
+            <FileIcon />
+            <span>Vollständige Beurteilung</span>
+          </div>
+          <button
+            className="download-button inline"
+            onClick={(e) => {
+              e.preventDefault();
+              e.stopPropagation();
+              onDownloadPdf();
+            }}
+          >
+            <FileIcon />
+            <span>PDF herunterladen</span>
+          </button>
+        </summary>
+        <pre className="full-analysis">{result.analysis}</pre>
+        {result.contextArticles && result.contextArticles.length > 0 && (
+          <p className="context-articles">
+            DSG-Kontext ({result.retrievalMode === 'full' ? 'alle Artikel' : 'relevante Absätze'}):{' '}
+            {result.contextArticles.join(', ')}
+          </p>
+        )}
+      </details>
+
+      <p className="heat-map-legend">
+        Die Beurteilung wird nicht gespeichert. Dokumentieren Sie den Vorfall mit dem PDF-Export (Art. 15 Abs. 4 DSV:
+        Aufbewahrung mindestens zwei Jahre).
+      </p>
+    </div>
+  );
+}
+
+export default BreachAssessment;
@@ -0,0 +1,64 @@
+import { ReactNode } from 'react';
+import { Adequacy, TransferAssessment } from './types';
+
+export const ADEQUACY_LABELS: Record<Adequacy, { label: string; level: string }> = {
+  adequate: { label: 'Angemessen', level: 'low' },
+  conditional: { label: 'Unter Bedingungen angemessen', level: 'medium' },
+  not_adequate: { label: 'Nicht angemessen', level: 'high' },
+};
+
+// Mirrors UNSPECIFIED_NOTE in crossBorder.ts on the server
+export const UNSPECIFIED_NOTE =
+  'Der Text erwähnt eine Bekanntgabe ins Ausland, ohne das Zielland zu nennen. Ob ein angemessener Schutz besteht ' +
+  '(Art. 16 Abs. 1 DSG) oder Garantien nach Art. 16 Abs. 2 DSG bzw. eine Ausnahme nach Art. 17 Abs. 1 DSG nötig sind, ' +
+  'kann erst mit dem Zielland beurteilt werden.';
+
+export const formatListDate = (value: string): string =>
+  new Intl.DateTimeFormat('de-CH', { dateStyle: 'medium' }).format(new Date(`${value}T00:00:00`));
+
+// Recipient countries found in the input with the mechanism each disclosure needs;
+// renderText turns the cited articles into links
+function CrossBorderTransfers({
+  transfers,
+  renderText,
+}: {
+  transfers: TransferAssessment;
+  renderText: (text: string) => ReactNode;
+}) {
+  return (
+    <div className="transfers">
+      {transfers.unspecified && <p className="transfer-note">{renderText(UNSPECIFIED_NOTE)}</p>}
+      <ul className="transfer-list">
+        {transfers.recipients.map((recipient) => (
+          <li
+            key={recipient.country}
+            className={`transfer-item ${recipient.safeguardInPlace ? '' : 'missing'}`}
+          >
+            <div className="transfer-item-header">
+              <span className="transfer-country">
+                {recipient.countryName}
+                {recipient.providers.length > 0 && (
+                  <span className="transfer-providers"> ({recipient.providers.join(', ')})</span>
+                )}
+              </span>
+              <span className={`history-item-risk ${ADEQUACY_LABELS[recipient.adequacy].level}`}>
+                {ADEQUACY_LABELS[recipient.adequacy].label}
+              </span>
+            </div>
+            <p className="transfer-mechanism">
+              {recipient.safeguardInPlace ? '✓' : '✗'} {renderText(recipient.mechanismLabel)}
+              {!recipient.safeguardInPlace && <span className="measure-overdue">fehlt</span>}
+            </p>
+            <p className="transfer-note">{renderText(recipient.note)}</p>
+          </li>
+        ))}
+      </ul>
+      <p className="heat-map-legend">
+        Automatisch aus dem Text erkannt anhand der Staatenliste in Anhang 1 DSV (Stand {formatListDate(transfers.listDate)}).
+        Prüfen Sie Empfänger und Garantien im Einzelfall.
+      </p>
+    </div>
+  );
+}
+
+export default CrossBorderTransfers;
@@ -2,32 +2,27 @@ import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import jsPDF from 'jspdf';
 import './App.css';
-
-interface LegalReference {
-  law: string;
-  article?: string;
-  paragraph?: string;
-  text: string;
-  url: string;
-}
-
-interface AnalysisResult {
-  summary: string;
-  riskLevel: 'LOW' | 'MEDIUM' | 'HIGH' | 'UNKNOWN';
-  analysis: string;
-  recommendations: string[];
-  legalReferences: LegalReference[];
-  // New DSFA structure fields
-  description?: string;
-  bruttorisiken?: string;
-  massnahmen?: string;
-  nettorisiken?: string;
-  ergebnis?: string;
-  // Missing info fields
-  needsMoreInfo?: boolean;
-  missingInfo?: string[];
-  message?: string;
-}
+import { LegalReference, CitationStatus, AnalysisResult, KnownInfo, AssessmentSummary, StoredAssessment, Session, Permission, PrecheckAnswers, PrecheckResult, Vendor, BreachResult } from './types';
+import VersionHistory from './VersionHistory';
+import LawBrowser from './LawBrowser';
+import ReviewPanel, { STATUS_LABELS } from './ReviewPanel';
+import FollowUpChat from './FollowUpChat';
+import MeasuresTracker from './MeasuresTracker';
+import MeasuresOverview from './MeasuresOverview';
+import RiskRegister from './RiskRegister';
+import CrossBorderTransfers, { ADEQUACY_LABELS, UNSPECIFIED_NOTE, formatListDate } from './CrossBorderTransfers';
+import { LIKELIHOOD_LABELS, RATINGS, SEVERITY_LABELS, getCellLevel, getCellRisks } from './riskRegister';
+import { MEASURE_CATEGORY_LABELS, MEASURE_STATUS_LABELS, formatDueDate, isOverdue } from './measures';
+import QuestionnaireWizard from './QuestionnaireWizard';
+import ThresholdPrecheck, { PrecheckResultView } from './ThresholdPrecheck';
+import ProcessingRegister from './ProcessingRegister';
+import PrivacyNotice from './PrivacyNotice';
+import VendorRegistry, { VENDOR_REQUIREMENT_LABELS, VendorChecks, VendorPicker } from './VendorRegistry';
+import { EMPTY_PRECHECK_ANSWERS, hasPrecheckAnswers } from './precheck';
+import UserAdmin, { ROLE_LABELS } from './UserAdmin';
+import BreachAssessment, { BREACH_DECISION_LABELS, BREACH_DUTY_TITLES } from './BreachAssessment';
+import { readEventStream, splitStreamSections, StreamSection } from './streaming';
+import { formatRetryAfter, getRetryAfter, useRetryCountdown } from './rateLimit';
 
 // Icon Components
 // Scales of Justice - Lucide style
@@ -99,6 +94,30 @@ const WarningIcon = () => (
   </svg>
 );
 
+const GlobeIcon = () => (
+  <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+    <circle cx="12" cy="12" r="10"></circle>
+    <line x1="2" y1="12" x2="22" y2="12"></line>
+    <path d="M12 2a15.3 15.3 0 0 1 4 10 15.3 15.3 0 0 1-4 10 15.3 15.3 0 0 1-4-10 15.3 15.3 0 0 1 4-10z"></path>
+  </svg>
+);
+
+const BuildingIcon = () => (
+  <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+    <rect x="4" y="2" width="16" height="20" rx="2" ry="2"></rect>
+    <path d="M9 22v-4h6v4"></path>
+    <line x1="8" y1="6" x2="8" y2="6.01"></line>
+    <line x1="12" y1="6" x2="12" y2="6.01"></line>
+    <line x1="16" y1="6" x2="16" y2="6.01"></line>
+    <line x1="8" y1="10" x2="8" y2="10.01"></line>
+    <line x1="12" y1="10" x2="12" y2="10.01"></line>
+    <line x1="16" y1="10" x2="16" y2="10.01"></line>
+    <line x1="8" y1="14" x2="8" y2="14.01"></line>
+    <line x1="12" y1="14" x2="12" y2="14.01"></line>
+    <line x1="16" y1="14" x2="16" y2="14.01"></line>
+  </svg>
+);
+
 const MoonIcon = () => (
   <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
     <path d="M21 12.79A9 9 0 1 1 11.21 3 7 7 0 0 0 21 12.79z"></path>
@@ -135,8 +154,107 @@ const LogoutIcon = () => (
   </svg>
 );
 
+const BookIcon = () => (
+  <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+    <path d="M4 19.5A2.5 2.5 0 0 1 6.5 17H20"></path>
+    <path d="M6.5 2H20v20H6.5A2.5 2.5 0 0 1 4 19.5v-15A2.5 2.5 0 0 1 6.5 2z"></path>
+  </svg>
+);
+
+const HistoryIcon = () => (
+  <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+    <path d="M3 12a9 9 0 1 0 9-9 9.75 9.75 0 0 0-6.74 2.74L3 8"></path>
+    <path d="M3 3v5h5"></path>
+    <path d="M12 7v5l4 2"></path>
+  </svg>
+);
+
+const ChecklistIcon = () => (
+  <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+    <polyline points="9 11 12 14 22 4"></polyline>
+    <path d="M21 12v7a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h11"></path>
+  </svg>
+);
+
+const RegisterIcon = () => (
+  <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+    <path d="M16 4h2a2 2 0 0 1 2 2v14a2 2 0 0 1-2 2H6a2 2 0 0 1-2-2V6a2 2 0 0 1 2-2h2"></path>
+    <rect x="8" y="2" width="8" height="4" rx="1" ry="1"></rect>
+    <line x1="8" y1="11" x2="16" y2="11"></line>
+    <line x1="8" y1="15" x2="16" y2="15"></line>
+  </svg>
+);
+
+const UsersIcon = () => (
+  <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+    <path d="M17 21v-2a4 4 0 0 0-4-4H5a4 4 0 0 0-4 4v2"></path>
+    <circle cx="9" cy="7" r="4"></circle>
+    <path d="M23 21v-2a4 4 0 0 0-3-3.87"></path>
+    <path d="M16 3.13a4 4 0 0 1 0 7.75"></path>
+  </svg>
+);
+
+const TrashIcon = () => (
+  <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+    <polyline points="3 6 5 6 21 6"></polyline>
+    <path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"></path>
+  </svg>
+);
+
+const CloseIcon = () => (
+  <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+    <line x1="18" y1="6" x2="6" y2="18"></line>
+    <line x1="6" y1="6" x2="18" y2="18"></line>
+  </svg>
+);
+
+const CITATION_STATUS_LABELS: Record<CitationStatus, string> = {
+  verified: 'Geprüft',
+  invalid: 'Ungültig',
+  unverifiable: 'Nicht prüfbar',
+};
+
+// Citations of loaded laws can be opened in the article drawer (invalid articles do not exist there)
+const isBrowsableReference = (ref: LegalReference): boolean =>
+  Boolean(ref.article) &&
+  Boolean(ref.lawId) &&
+  ref.status !== 'unverifiable' &&
+  (ref.status !== 'invalid' || Boolean(ref.heading));
+
+// Tooltip for a citation: the cited wording if verified, otherwise the reason
+const getCitationTitle = (ref: LegalReference): string => {
+  if (ref.status === 'verified' && ref.sourceText) {
+    return `${ref.text}${ref.heading ? ` – ${ref.heading}` : ''}: ${ref.sourceText}`;
+  }
+  if (ref.statusNote) {
+    return ref.statusNote;
+  }
+  return isBrowsableReference(ref) ? `${ref.text} im Gesetzestext anzeigen` : `Öffnet ${ref.text} auf fedlex.admin.ch`;
+};
+
+// Open the drawer on a plain click; modifier clicks still open fedlex in a new tab
+const handleCitationClick = (
+  event: React.MouseEvent<HTMLAnchorElement>,
+  ref: LegalReference,
+  onOpenArticle?: (ref: LegalReference) => void
+) => {
+  if (!onOpenArticle || !isBrowsableReference(ref) || event.metaKey || event.ctrlKey || event.shiftKey) {
+    return;
+  }
+  event.preventDefault();
+  onOpenArticle(ref);
+};
+
 // Component to render text with clickable legal citations
-function TextWithCitations({ text, references }: { text: string; references: LegalReference[] }) {
+function TextWithCitations({
+  text,
+  references,
+  onOpenArticle,
+}: {
+  text: string;
+  references: LegalReference[];
+  onOpenArticle?: (ref: LegalReference) => void;
+}) {
   if (references.length === 0) {
     return <>{text}</>;
   }
@@ -188,9 +306,11 @@ function TextWithCitations({ text, references }: { text: string; references: Leg
         href={match.ref.url}
         target="_blank"
         rel="noopener noreferrer"
-        className="legal-citation"
-        title={`Öffnet ${match.ref.text} auf fedlex.admin.ch`}
+        className={`legal-citation ${match.ref.status && match.ref.status !== 'verified' ? match.ref.status : ''}`}
+        title={getCitationTitle(match.ref)}
+        onClick={(event) => handleCitationClick(event, match.ref, onOpenArticle)}
       >
+        {match.ref.status === 'invalid' && <WarningIcon />}
         {citationText}
         <ExternalLinkIcon />
       </a>
@@ -207,7 +327,9 @@ function TextWithCitations({ text, references }: { text: string; references: Leg
   return <>{parts.length > 0 ? parts : text}</>;
 }
 
-function Dashboard() {
+function Dashboard({ session }: { session: Session }) {
+  const { user, permissions } = session;
+  const can = (permission: Permission) => permissions.includes(permission);
   const navigate = useNavigate();
   const [text, setText] = useState('');
   const [loading, setLoading] = useState(false);
@@ -215,7 +337,6 @@ function Dashboard() {
   const [error, setError] = useState<string | null>(null);
   const [model, setModel] = useState('x-ai/grok-4.1-fast:free');
   const [availableModels, setAvailableModels] = useState<string[]>(['x-ai/grok-4.1-fast:free']);
-  const password = localStorage.getItem('appPassword') || '';
   const [darkMode, setDarkMode] = useState(() => {
     const saved = localStorage.getItem('darkMode');
     return saved ? JSON.parse(saved) : false;
@@ -224,22 +345,64 @@ function Dashboard() {
   const [needsMoreInfo, setNeedsMoreInfo] = useState(false);
   const [missingInfo, setMissingInfo] = useState<string[]>([]);
   const [infoMessage, setInfoMessage] = useState<string>('');
+  const [knownInfo, setKnownInfo] = useState<KnownInfo | undefined>(undefined);
+  // The questionnaire opens for every missing-info answer; the key resets its fields
+  const [wizardOpen, setWizardOpen] = useState(true);
+  const [wizardKey, setWizardKey] = useState(0);
+  // Art. 22 pre-check of new assessments
+  const [precheckAnswers, setPrecheckAnswers] = useState<PrecheckAnswers>(EMPTY_PRECHECK_ANSWERS);
+  const [precheckResult, setPrecheckResult] = useState<PrecheckResult | null>(null);
+  // History state
+  const [historyOpen, setHistoryOpen] = useState(false);
+  const [userAdminOpen, setUserAdminOpen] = useState(false);
+  const [measuresOpen, setMeasuresOpen] = useState(false);
+  const [registerOpen, setRegisterOpen] = useState(false);
+  const [noticeOpen, setNoticeOpen] = useState(false);
+  // Vendor registry and the processors the next analysis takes into account
+  const [vendorsOpen, setVendorsOpen] = useState(false);
+  const [vendors, setVendors] = useState<Vendor[]>([]);
+  const [vendorIds, setVendorIds] = useState<string[]>([]);
+  // Law drawer: null = closed, article null = searchable article list
+  const [lawDrawer, setLawDrawer] = useState<{ law: string; article: string | null; paragraph?: string } | null>(null);
+  const [history, setHistory] = useState<AssessmentSummary[]>([]);
+  // Active assessment state (the shown result belongs to this assessment/version)
+  const [activeAssessment, setActiveAssessment] = useState<StoredAssessment | null>(null);
+  const [activeVersion, setActiveVersion] = useState<number | null>(null);
+  // Authors create assessments and add versions, reviewers and the DPO only read and comment.
+  // While the DPO reviews an assessment no new version can be added.
+  const canWrite = activeAssessment
+    ? can('assessment:edit') && activeAssessment.status !== 'in_review'
+    : can('assessment:create');
+  const [changeNote, setChangeNote] = useState('');
+  // Analysis mode: DSFA of a planned processing or assessment of a Verletzung der Datensicherheit
+  const [mode, setMode] = useState<'dsfa' | 'breach'>('dsfa');
+  const [breachText, setBreachText] = useState('');
+  const [breachResult, setBreachResult] = useState<BreachResult | null>(null);
+  const isBreachMode = mode === 'breach';
+  const canSubmit = isBreachMode ? can('assessment:create') : canWrite;
+  // Streaming state: partial model answer while the analysis is running
+  const [streamingEnabled, setStreamingEnabled] = useState(() => {
+    const saved = localStorage.getItem('streamingEnabled');
+    return saved ? JSON.parse(saved) : true;
+  });
+  const [streamText, setStreamText] = useState('');
+  // Set when the server retries with another model after a failed attempt
+  const [streamNotice, setStreamNotice] = useState<string | null>(null);
+  // Set while the analysis rate limit is exhausted (429)
+  const [retryAfter, startRetryCountdown] = useRetryCountdown();
 
-  const handleLogout = () => {
-    localStorage.removeItem('appPassword');
+  const handleLogout = async () => {
+    try {
+      await fetch('/api/auth/logout', { method: 'POST' });
+    } catch (err) {
+      console.warn('Logout request failed:', err);
+    }
     navigate('/');
   };
 
   // Load available models from server on mount
   useEffect(() => {
-    const password = localStorage.getItem('appPassword');
-    if (!password) return;
-    
-    fetch('/api/models', {
-      headers: {
-        'X-App-Password': password,
-      },
-    })
+    fetch('/api/models')
       .then(res => {
         if (!res.ok) {
           throw new Error('Unauthorized');
@@ -260,6 +423,42 @@ function Dashboard() {
       });
   }, []);
 
+  const loadHistory = async () => {
+    try {
+      const response = await fetch('/api/assessments');
+      if (!response.ok) {
+        throw new Error('Unauthorized');
+      }
+      const data = await response.json();
+      setHistory(data.assessments || []);
+    } catch (err) {
+      console.warn('Could not load assessment history:', err);
+    }
+  };
+
+  const loadVendors = async () => {
+    try {
+      const response = await fetch('/api/vendors');
+      if (!response.ok) {
+        throw new Error('Unauthorized');
+      }
+      const data = await response.json();
+      setVendors(data.vendors || []);
+    } catch (err) {
+      console.warn('Could not load vendor registry:', err);
+    }
+  };
+
+  // Load stored assessments and the vendor registry on mount
+  useEffect(() => {
+    loadHistory();
+    loadVendors();
+  }, []);
+
+  useEffect(() => {
+    localStorage.setItem('streamingEnabled', JSON.stringify(streamingEnabled));
+  }, [streamingEnabled]);
+
   useEffect(() => {
     if (darkMode) {
       document.documentElement.classList.add('dark');
@@ -293,14 +492,104 @@ function Dashboard() {
     };
   }, [result]);
 
-  const handleAnalyze = async () => {
-    if (!text.trim()) {
-      setError('Bitte geben Sie einen Text zur Analyse ein');
+  const showResult = (data: AnalysisResult) => {
+    // Check if more information is needed
+    if (data.needsMoreInfo) {
+      setNeedsMoreInfo(true);
+      setMissingInfo(data.missingInfo || []);
+      setInfoMessage(data.message || 'Für eine vollständige DSFA benötigen wir noch zusätzliche Informationen.');
+      setKnownInfo(data.knownInfo);
+      setWizardOpen(true);
+      setWizardKey((key) => key + 1);
+      setResult(null);
+    } else {
+      setNeedsMoreInfo(false);
+      setMissingInfo([]);
+      setInfoMessage('');
+      setResult(data);
+    }
+  };
+
+  const fetchAssessment = async (id: string): Promise<StoredAssessment> => {
+    const response = await fetch(`/api/assessments/${id}`);
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Analyse konnte nicht geladen werden');
+    }
+    return response.json();
+  };
+
+  // Show one version of an assessment without calling the model again
+  const showVersion = (assessment: StoredAssessment, versionNumber: number) => {
+    const version = assessment.versions.find((v) => v.version === versionNumber);
+    if (!version) return;
+    setText(version.inputText);
+    if (availableModels.includes(version.model)) {
+      setModel(version.model);
+    }
+    showResult(version.result);
+    setActiveVersion(version.version);
+  };
+
+  // Reopen a stored assessment (latest version)
+  const handleOpenAssessment = async (id: string) => {
+    setError(null);
+    try {
+      const assessment = await fetchAssessment(id);
+      setMode('dsfa');
+      setActiveAssessment(assessment);
+      setChangeNote('');
+      // New versions keep the processors of the latest one unless the selection is changed
+      setVendorIds((assessment.versions[assessment.versions.length - 1].result.vendors || []).map((check) => check.vendorId));
+      showVersion(assessment, assessment.versions[assessment.versions.length - 1].version);
+      setHistoryOpen(false);
+    } catch (err: any) {
+      setError(err.message || 'Analyse konnte nicht geladen werden');
+    }
+  };
+
+  // Start a fresh assessment instead of adding a version to the open one
+  const handleNewAssessment = () => {
+    setActiveAssessment(null);
+    setActiveVersion(null);
+    setChangeNote('');
+    setText('');
+    setResult(null);
+    setError(null);
+    setPrecheckAnswers(EMPTY_PRECHECK_ANSWERS);
+    setPrecheckResult(null);
+    setVendorIds([]);
+    setNeedsMoreInfo(false);
+    setMissingInfo([]);
+    setInfoMessage('');
+  };
+
+  const handleDeleteAssessment = async (id: string) => {
+    if (!window.confirm('Diese Analyse endgültig löschen?')) {
       return;
     }
+    try {
+      const response = await fetch(`/api/assessments/${id}`, {
+        method: 'DELETE',
+      });
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Analyse konnte nicht gelöscht werden');
+      }
+      if (activeAssessment?.id === id) {
+        setActiveAssessment(null);
+        setActiveVersion(null);
+      }
+      setHistory((prev) => prev.filter((item) => item.id !== id));
+    } catch (err: any) {
+      setError(err.message || 'Analyse konnte nicht gelöscht werden');
+    }
+  };
 
-    if (!password) {
-      setError('Bitte melden Sie sich an');
+  // The questionnaire passes its composed text, since the text state is not updated yet
+  const handleAnalyze = async (inputText: string = text) => {
+    if (!inputText.trim()) {
+      setError('Bitte geben Sie einen Text zur Analyse ein');
       return;
     }
 
@@ -310,40 +599,74 @@ function Dashboard() {
     setNeedsMoreInfo(false);
     setMissingInfo([]);
     setInfoMessage('');
+    setStreamText('');
+    setStreamNotice(null);
 
     try {
-      const response = await fetch('/api/analyze', {
+      const response = await fetch(streamingEnabled ? '/api/analyze/stream' : '/api/analyze', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'X-App-Password': password,
         },
-        body: JSON.stringify({ text, password, model }),
+        body: JSON.stringify({
+          text: inputText,
+          model,
+          assessmentId: activeAssessment?.id,
+          changeNote: activeAssessment ? changeNote : undefined,
+          // Processors removed from the registry in the meantime cannot be attached again
+          vendorIds: vendorIds.filter((id) => vendors.some((vendor) => vendor.id === id)),
+        }),
       });
 
       if (!response.ok) {
         const errorData = await response.json();
-        if (errorData.requiresPassword || response.status === 401) {
-          localStorage.removeItem('appPassword');
-          window.location.href = '/';
+        if (errorData.requiresLogin || response.status === 401) {
+          navigate('/');
+        }
+        if (response.status === 429) {
+          startRetryCountdown(getRetryAfter(response, errorData));
         }
         throw new Error(errorData.error || 'Failed to analyze text');
       }
 
-      const data = await response.json();
-      
-      // Check if more information is needed
-      if (data.needsMoreInfo) {
-        setNeedsMoreInfo(true);
-        setMissingInfo(data.missingInfo || []);
-        setInfoMessage(data.message || 'Für eine vollständige DSFA benötigen wir noch zusätzliche Informationen.');
-        setResult(null);
+      let data: AnalysisResult | null = null;
+      if (streamingEnabled) {
+        // Render sections while tokens arrive; the parsed result is the terminal event
+        let streamError: string | null = null;
+        await readEventStream(response, ({ event, data: eventData }) => {
+          if (event === 'delta') {
+            setStreamText((prev) => prev + eventData.text);
+          } else if (event === 'retry') {
+            setStreamText('');
+            setStreamNotice(`Erneuter Versuch mit Modell ${eventData.model}...`);
+          } else if (event === 'result') {
+            data = eventData;
+          } else if (event === 'error') {
+            streamError = eventData.error;
+          }
+        });
+        if (streamError) {
+          throw new Error(streamError);
+        }
+        if (!data) {
+          throw new Error('Die Verbindung wurde vor Abschluss der Analyse unterbrochen');
+        }
       } else {
-        setNeedsMoreInfo(false);
-        setMissingInfo([]);
-        setInfoMessage('');
-        setResult(data);
+        data = await response.json();
+      }
+      if (!data) return;
+
+      showResult(data);
+      setChangeNote('');
+      if (data.assessmentId) {
+        try {
+          setActiveAssessment(await fetchAssessment(data.assessmentId));
+          setActiveVersion(data.version || null);
+        } catch (err) {
+          console.warn('Could not load stored assessment:', err);
+        }
       }
+      loadHistory();
     } catch (err: any) {
       setError(err.message || 'An error occurred while analyzing the text');
       setNeedsMoreInfo(false);
@@ -351,11 +674,88 @@ function Dashboard() {
       setInfoMessage('');
     } finally {
       setLoading(false);
+      setStreamText('');
+      setStreamNotice(null);
+    }
+  };
+
+  // Incidents are assessed without streaming and are not stored as assessments
+  const handleAnalyzeBreach = async () => {
+    if (!breachText.trim()) {
+      setError('Bitte beschreiben Sie den Vorfall');
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    setBreachResult(null);
+
+    try {
+      const response = await fetch('/api/breach', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ text: breachText, model }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        if (data.requiresLogin || response.status === 401) {
+          navigate('/');
+        }
+        if (response.status === 429) {
+          startRetryCountdown(getRetryAfter(response, data));
+        }
+        throw new Error(data.error || 'Der Vorfall konnte nicht beurteilt werden');
+      }
+      setBreachResult(data);
+    } catch (err: any) {
+      setError(err.message || 'Der Vorfall konnte nicht beurteilt werden');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // New assessments with pre-check answers are only analyzed if a DSFA may be required
+  const handleSubmit = async () => {
+    setPrecheckResult(null);
+    if (!activeAssessment && hasPrecheckAnswers(precheckAnswers)) {
+      setLoading(true);
+      setError(null);
+      try {
+        const response = await fetch('/api/precheck', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify({ answers: precheckAnswers }),
+        });
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Die Vorprüfung ist fehlgeschlagen');
+        }
+        setPrecheckResult(data);
+        if (!data.proceed) {
+          setResult(null);
+          return;
+        }
+      } catch (err: any) {
+        setError(err.message || 'Die Vorprüfung ist fehlgeschlagen');
+        return;
+      } finally {
+        setLoading(false);
+      }
     }
+    handleAnalyze();
+  };
+
+  const handleOpenCitation = (ref: LegalReference) => {
+    setLawDrawer({ law: ref.lawId || 'dsg', article: ref.article || null, paragraph: ref.paragraph });
   };
 
   const handleDownloadPdf = () => {
-    if (!result) {
+    const breach = isBreachMode ? breachResult : null;
+    if (!breach && !result) {
       return;
     }
 
@@ -479,6 +879,76 @@ function Dashboard() {
       });
     };
 
+    const addRiskLevel = (riskLevel: AnalysisResult['riskLevel']) => {
+      const riskStyles: Record<
+        AnalysisResult['riskLevel'],
+        { label: string; description: string; color: [number, number, number]; background: [number, number, number] }
+      > = {
+        LOW: { label: 'Niedrig', description: 'Geringes Risiko basierend auf der Modellbewertung', color: [87, 185, 255], background: [232, 244, 253] },
+        MEDIUM: { label: 'Mittel', description: 'Moderates Risiko mit empfohlenen Folgeaktionen', color: [119, 177, 212], background: [208, 232, 245] },
+        HIGH: { label: 'Hoch', description: 'Hohes Risiko – sofortige Maßnahmen empfohlen', color: [239, 68, 68], background: [254, 226, 226] },
+        UNKNOWN: { label: 'Unbekannt', description: 'Risikostufe konnte nicht bestimmt werden', color: [119, 177, 212], background: [232, 244, 253] },
+      };
+
+      const riskConfig = riskStyles[riskLevel] || riskStyles.UNKNOWN;
+
+      ensureSpace(110);
+      doc.setFillColor(...riskConfig.background);
+      doc.roundedRect(marginX, cursorY, contentWidth, 80, 12, 12, 'F');
+      doc.setFont('helvetica', 'bold');
+      doc.setFontSize(14);
+      doc.setTextColor(...riskConfig.color);
+      doc.text('Risikobewertung', marginX + 20, cursorY + 28);
+      doc.setFontSize(24);
+      doc.text(riskConfig.label, marginX + 20, cursorY + 52);
+      doc.setFont('helvetica', 'normal');
+      doc.setFontSize(12);
+      doc.setTextColor(26, 46, 58);
+      doc.text(riskConfig.description, marginX + 20, cursorY + 70);
+      cursorY += 105;
+    };
+
+    const addLegalReferences = (references: LegalReference[]) => {
+      if (!references?.length) {
+        return;
+      }
+      addSectionTitle('Rechtliche Verweise');
+      references.forEach((ref) => {
+        doc.setFont('helvetica', 'bold');
+        doc.setFontSize(12);
+        if (ref.status === 'invalid') {
+          doc.setTextColor(153, 27, 27);
+        } else {
+          doc.setTextColor(26, 46, 58);
+        }
+        const statusLabel = ref.status ? ` [${CITATION_STATUS_LABELS[ref.status]}]` : '';
+        addParagraph(`${ref.text} – ${ref.law}${statusLabel}`);
+        doc.setFont('helvetica', 'normal');
+        doc.setFontSize(10);
+        if (ref.status && ref.status !== 'verified' && ref.statusNote) {
+          doc.setTextColor(153, 27, 27);
+          writeLines(doc.splitTextToSize(ref.statusNote, contentWidth), 10);
+        } else if (ref.sourceText) {
+          doc.setTextColor(90, 90, 90);
+          const excerpt = ref.sourceText.length > 400 ? `${ref.sourceText.slice(0, 400)}…` : ref.sourceText;
+          writeLines(doc.splitTextToSize(`«${excerpt}»`, contentWidth), 10);
+        }
+        doc.setTextColor(81, 120, 145);
+        const linkLines = doc.splitTextToSize(ref.url, contentWidth);
+        writeLines(linkLines, 10);
+        cursorY += 6;
+      });
+    };
+
+    const addInputPreview = (inputText: string) => {
+      const previewText = inputText.trim();
+      if (previewText) {
+        addSectionTitle('Ausgangstext (Auszug)');
+        const preview = previewText.length > 1200 ? `${previewText.slice(0, 1200)}…` : previewText;
+        addMultilineBlock(preview);
+      }
+    };
+
     // Header
     doc.setFillColor(240, 248, 255);
     doc.rect(0, 0, pageWidth, 105, 'F');
@@ -494,9 +964,105 @@ function Dashboard() {
       timeStyle: 'short',
     }).format(new Date());
     doc.text(`Erstellt am ${timestamp}`, marginX, 70);
-    doc.text('Datenschutz-Folgenabschätzung basierend auf Schweizer Recht', marginX, 88);
+    doc.text(
+      breach
+        ? 'Beurteilung einer Verletzung der Datensicherheit (Art. 24 DSG)'
+        : 'Datenschutz-Folgenabschätzung basierend auf Schweizer Recht',
+      marginX,
+      88
+    );
     cursorY = 130;
 
+    if (breach) {
+      addSectionTitle('Zusammenfassung');
+      addParagraph(breach.summary);
+
+      addSectionTitle('Meldepflichten');
+      ([
+        [BREACH_DUTY_TITLES.authorityNotification, breach.authorityNotification],
+        [BREACH_DUTY_TITLES.subjectInformation, breach.subjectInformation],
+      ] as const).forEach(([title, duty]) => {
+        doc.setFont('helvetica', 'bold');
+        doc.setFontSize(12);
+        if (duty.decision === 'yes') {
+          doc.setTextColor(185, 28, 28);
+        } else {
+          doc.setTextColor(26, 46, 58);
+        }
+        writeLines(doc.splitTextToSize(`${title}: ${BREACH_DECISION_LABELS[duty.decision]}`, contentWidth));
+        addParagraph(duty.reason);
+      });
+
+      if (breach.facts) {
+        addSectionTitle('Sachverhalt');
+        addMultilineBlock(breach.facts);
+      }
+
+      if (breach.riskAssessment) {
+        addSectionTitle('Risikobeurteilung');
+        addMultilineBlock(breach.riskAssessment);
+      }
+      addRiskLevel(breach.riskLevel);
+
+      if (breach.immediateMeasures.length > 0) {
+        addSectionTitle('Sofortmassnahmen');
+        addNumberedList(breach.immediateMeasures);
+      }
+
+      // Drafts keep their line breaks, since they are meant to be copied as they are
+      if (breach.authorityDraft) {
+        addSectionTitle('Entwurf der Meldung an den EDÖB');
+        addParagraph(breach.authorityDraft);
+      }
+
+      if (breach.subjectDraft) {
+        addSectionTitle('Entwurf der Information an die betroffenen Personen');
+        addParagraph(breach.subjectDraft);
+      }
+
+      addLegalReferences(breach.legalReferences);
+
+      addSectionTitle('Vollständige Beurteilung');
+      addMultilineBlock(breach.analysis);
+      addInputPreview(breachText);
+
+      addSectionTitle('Dokumentation');
+      addParagraph('Dokumentation der Verletzung nach Art. 15 Abs. 4 DSV; mindestens zwei Jahre aufzubewahren.');
+
+      doc.save('datenschutzverletzung.pdf');
+      return;
+    }
+
+    if (!result) {
+      return;
+    }
+
+    // Approval status of the exported version
+    addSectionTitle('Freigabestatus');
+    if (activeAssessment && activeVersion !== null) {
+      const approval = activeAssessment.approval;
+      const formatDateTime = (value: string) =>
+        new Intl.DateTimeFormat('de-CH', { dateStyle: 'medium', timeStyle: 'short' }).format(new Date(value));
+      addParagraph(`Status: ${STATUS_LABELS[activeAssessment.status]} (Version ${activeVersion} von ${activeAssessment.versions.length})`);
+      if (approval && approval.version === activeVersion) {
+        addParagraph(`Freigegeben durch ${approval.approvedBy.name} am ${formatDateTime(approval.approvedAt)}`);
+        if (approval.note) {
+          addParagraph(`Begründung der Freigabe: ${approval.note}`);
+        }
+      } else {
+        const warning = approval
+          ? `Diese Version ist nicht freigegeben. Freigegeben ist Version ${approval.version} (${approval.approvedBy.name}, ${formatDateTime(approval.approvedAt)}).`
+          : 'Diese Version ist nicht freigegeben.';
+        doc.setFont('helvetica', 'bold');
+        doc.setFontSize(12);
+        doc.setTextColor(185, 28, 28);
+        writeLines(doc.splitTextToSize(warning, contentWidth));
+        cursorY += 6;
+      }
+    } else {
+      addParagraph('Nicht gespeicherte Analyse – nicht freigegeben.');
+    }
+
     addSectionTitle('Zusammenfassung');
     addParagraph(result.summary);
 
@@ -506,6 +1072,42 @@ function Dashboard() {
       addMultilineBlock(result.description);
     }
 
+    if (result.transfers) {
+      const transfers = result.transfers;
+      addSectionTitle('Bekanntgabe ins Ausland');
+      if (transfers.unspecified) {
+        addParagraph(UNSPECIFIED_NOTE);
+      }
+      transfers.recipients.forEach((recipient) => {
+        const providers = recipient.providers.length > 0 ? ` (${recipient.providers.join(', ')})` : '';
+        addParagraph(
+          `${recipient.countryName}${providers}: ${ADEQUACY_LABELS[recipient.adequacy].label}. ` +
+          `Erforderlich: ${recipient.mechanismLabel} – ${recipient.safeguardInPlace ? 'im Text genannt' : 'fehlt'}.`
+        );
+        addParagraph(recipient.note);
+      });
+      addParagraph(`Grundlage: Staatenliste in Anhang 1 DSV, Stand ${formatListDate(transfers.listDate)}.`);
+    }
+
+    if (result.vendors) {
+      addSectionTitle('Auftragsbearbeiter');
+      result.vendors.forEach(({ vendor, gaps }) => {
+        const details = [
+          `Sitz: ${vendor.seat}`,
+          vendor.hostingLocations.length > 0 ? `Hosting: ${vendor.hostingLocations.join(', ')}` : '',
+          vendor.subProcessors.length > 0
+            ? `Unterauftragsbearbeiter: ${vendor.subProcessors.map((item) => `${item.name} (${item.country})`).join(', ')}`
+            : '',
+          vendor.certifications.length > 0 ? `Zertifizierungen: ${vendor.certifications.join(', ')}` : '',
+        ].filter(Boolean);
+        addParagraph(`${vendor.name} – ${details.join('; ')}.`);
+        if (gaps.length === 0) {
+          addParagraph('Anforderungen nach Art. 9 DSG erfüllt.');
+        }
+        gaps.forEach((gap) => addParagraph(`Fehlende Massnahme (${VENDOR_REQUIREMENT_LABELS[gap.requirement]}): ${gap.measure}`));
+      });
+    }
+
     if (result.bruttorisiken) {
       addSectionTitle('Potentiell hohe Bruttorisiken');
       addMultilineBlock(result.bruttorisiken);
@@ -516,71 +1118,134 @@ function Dashboard() {
       addMultilineBlock(result.massnahmen);
     }
 
+    if (activeAssessment && activeAssessment.measures.length > 0) {
+      const measures = activeAssessment.measures;
+      const latestVersion = activeAssessment.versions[activeAssessment.versions.length - 1].version;
+      addSectionTitle('Umsetzungsstand der Massnahmen');
+      if (activeVersion !== latestVersion) {
+        addParagraph(`Stand der Massnahmen aus der aktuellen Version ${latestVersion}.`);
+      }
+      measures.forEach((measure) => {
+        const details = [
+          MEASURE_STATUS_LABELS[measure.status],
+          measure.owner ? `verantwortlich: ${measure.owner}` : 'keine verantwortliche Person',
+          measure.dueDate ? `fällig am ${formatDueDate(measure.dueDate)}${isOverdue(measure) ? ' (überfällig)' : ''}` : null,
+        ].filter(Boolean).join(', ');
+        addParagraph(`${MEASURE_CATEGORY_LABELS[measure.category]}: ${measure.description} – ${details}`);
+      });
+    }
+
     if (result.nettorisiken) {
       addSectionTitle('Verbleibende Nettorisiken');
       addMultilineBlock(result.nettorisiken);
     }
 
-    if (result.ergebnis) {
-      addSectionTitle('Ergebnis');
-      addMultilineBlock(result.ergebnis);
-    }
-
-    const riskStyles: Record<
-      AnalysisResult['riskLevel'],
-      { label: string; description: string; color: [number, number, number]; background: [number, number, number] }
-    > = {
-      LOW: { label: 'Niedrig', description: 'Geringes Risiko basierend auf der Modellbewertung', color: [87, 185, 255], background: [232, 244, 253] },
-      MEDIUM: { label: 'Mittel', description: 'Moderates Risiko mit empfohlenen Folgeaktionen', color: [119, 177, 212], background: [208, 232, 245] },
-      HIGH: { label: 'Hoch', description: 'Hohes Risiko – sofortige Maßnahmen empfohlen', color: [239, 68, 68], background: [254, 226, 226] },
-      UNKNOWN: { label: 'Unbekannt', description: 'Risikostufe konnte nicht bestimmt werden', color: [119, 177, 212], background: [232, 244, 253] },
-    };
-
-    const riskConfig = riskStyles[result.riskLevel] || riskStyles.UNKNOWN;
-
-    ensureSpace(110);
-    doc.setFillColor(...riskConfig.background);
-    doc.roundedRect(marginX, cursorY, contentWidth, 80, 12, 12, 'F');
-    doc.setFont('helvetica', 'bold');
-    doc.setFontSize(14);
-    doc.setTextColor(...riskConfig.color);
-    doc.text('Risikobewertung', marginX + 20, cursorY + 28);
-    doc.setFontSize(24);
-    doc.text(riskConfig.label, marginX + 20, cursorY + 52);
-    doc.setFont('helvetica', 'normal');
-    doc.setFontSize(12);
-    doc.setTextColor(26, 46, 58);
-    doc.text(riskConfig.description, marginX + 20, cursorY + 70);
-    cursorY += 105;
+    if (result.risks && result.risks.length > 0) {
+      const risks = result.risks;
+      const cellStyles = {
+        LOW: { label: 'Niedrig', fill: [232, 244, 253] as [number, number, number], text: [87, 185, 255] as [number, number, number] },
+        MEDIUM: { label: 'Mittel', fill: [255, 244, 194] as [number, number, number], text: [138, 109, 0] as [number, number, number] },
+        HIGH: { label: 'Hoch', fill: [254, 226, 226] as [number, number, number], text: [239, 68, 68] as [number, number, number] },
+      };
+      const cellSize = 36;
+      const axisWidth = 64;
+      const mapWidth = axisWidth + cellSize * 4;
+      const mapHeight = 20 + cellSize * 4 + 28;
+
+      // 4×4 matrix: severity from top (4) to bottom (1), likelihood from left (1) to right (4)
+      const drawHeatMap = (title: string, residual: boolean, x: number, y: number) => {
+        doc.setFont('helvetica', 'bold');
+        doc.setFontSize(11);
+        doc.setTextColor(26, 46, 58);
+        doc.text(title, x, y);
+        const gridY = y + 10;
+        [...RATINGS].reverse().forEach((severity, row) => {
+          const cellY = gridY + row * cellSize;
+          doc.setFont('helvetica', 'normal');
+          doc.setFontSize(7);
+          doc.setTextColor(81, 120, 145);
+          doc.text(SEVERITY_LABELS[severity], x, cellY + cellSize / 2 + 2);
+          RATINGS.forEach((likelihood, column) => {
+            const cellX = x + axisWidth + column * cellSize;
+            const style = cellStyles[getCellLevel(likelihood, severity)];
+            doc.setFillColor(...style.fill);
+            doc.setDrawColor(255, 255, 255);
+            doc.setLineWidth(1);
+            doc.rect(cellX, cellY, cellSize, cellSize, 'FD');
+            const ids = getCellRisks(risks, residual, likelihood, severity);
+            if (ids.length > 0) {
+              doc.setFont('helvetica', 'bold');
+              doc.setFontSize(8);
+              doc.setTextColor(...style.text);
+              doc.text(doc.splitTextToSize(ids.join(' '), cellSize - 6), cellX + 3, cellY + 12);
+            }
+          });
+        });
+        doc.setFont('helvetica', 'normal');
+        doc.setFontSize(7);
+        doc.setTextColor(81, 120, 145);
+        RATINGS.forEach((likelihood, column) => {
+          doc.text(
+            doc.splitTextToSize(LIKELIHOOD_LABELS[likelihood], cellSize - 2),
+            x + axisWidth + column * cellSize + 1,
+            gridY + cellSize * 4 + 10
+          );
+        });
+      };
 
-    addSectionTitle('Empfehlungen');
-    addNumberedList(result.recommendations);
+      addSectionTitle('Risikoregister');
+      ensureSpace(mapHeight + lineHeight);
+      drawHeatMap('Vor Massnahmen (Bruttorisiko)', false, marginX, cursorY);
+      drawHeatMap('Nach Massnahmen (Nettorisiko)', true, marginX + mapWidth + 24, cursorY);
+      cursorY += mapHeight;
+      doc.setFont('helvetica', 'normal');
+      doc.setFontSize(9);
+      doc.setTextColor(81, 120, 145);
+      writeLines(['Vertikal: Schwere · Horizontal: Eintrittswahrscheinlichkeit']);
+      cursorY += 6;
 
-    if (result.legalReferences && result.legalReferences.length > 0) {
-      addSectionTitle('Rechtliche Verweise');
-      result.legalReferences.forEach((ref) => {
+      risks.forEach((risk) => {
+        const before = cellStyles[getCellLevel(risk.likelihood, risk.severity)].label;
+        const after = cellStyles[getCellLevel(risk.residualLikelihood, risk.residualSeverity)].label;
         doc.setFont('helvetica', 'bold');
         doc.setFontSize(12);
         doc.setTextColor(26, 46, 58);
-        addParagraph(`${ref.text} – ${ref.law}`);
+        const category = risk.category === 'primär' ? 'Primärrisiko' : 'Sekundärrisiko';
+        writeLines(doc.splitTextToSize(`${risk.id} (${category}): ${risk.description}`, contentWidth));
         doc.setFont('helvetica', 'normal');
         doc.setFontSize(10);
-        doc.setTextColor(81, 120, 145);
-        const linkLines = doc.splitTextToSize(ref.url, contentWidth);
-        writeLines(linkLines, 10);
+        writeLines(
+          doc.splitTextToSize(
+            [
+              `Betroffene Personen: ${risk.affectedPersons || '–'}`,
+              `Vor Massnahmen: Wahrscheinlichkeit ${risk.likelihood} × Schwere ${risk.severity} (${before})`,
+              `Massnahmen: ${risk.measures.join('; ') || '–'}`,
+              `Nach Massnahmen: Wahrscheinlichkeit ${risk.residualLikelihood} × Schwere ${risk.residualSeverity} (${after})`,
+            ].join('\n'),
+            contentWidth - 10
+          ),
+          10
+        );
         cursorY += 6;
       });
     }
 
+    if (result.ergebnis) {
+      addSectionTitle('Ergebnis');
+      addMultilineBlock(result.ergebnis);
+    }
+
+    addRiskLevel(result.riskLevel);
+
+    addSectionTitle('Empfehlungen');
+    addNumberedList(result.recommendations);
+
+    addLegalReferences(result.legalReferences);
+
     addSectionTitle('Vollständige Analyse');
     addMultilineBlock(result.analysis);
 
-    const previewText = text.trim();
-    if (previewText) {
-      addSectionTitle('Ausgangstext (Auszug)');
-      const preview = previewText.length > 1200 ? `${previewText.slice(0, 1200)}…` : previewText;
-      addMultilineBlock(preview);
-    }
+    addInputPreview(text);
 
     doc.save('datenschutz-analyse.pdf');
   };
@@ -589,11 +1254,67 @@ function Dashboard() {
     <div className="app">
       <div className="container">
         <div className="header-controls">
+          <button
+            className="logout-button history-button"
+            onClick={() => setHistoryOpen(!historyOpen)}
+            aria-label="Verlauf"
+            title="Verlauf"
+          >
+            <HistoryIcon />
+            <span>Verlauf</span>
+          </button>
+          <button
+            className="logout-button history-button"
+            onClick={() => setLawDrawer(lawDrawer ? null : { law: 'dsg', article: null })}
+            aria-label="Gesetz"
+            title="Gesetze durchsuchen"
+          >
+            <BookIcon />
+            <span>Gesetz</span>
+          </button>
+          <button
+            className="logout-button history-button"
+            onClick={() => setMeasuresOpen(!measuresOpen)}
+            aria-label="Massnahmen"
+            title="Offene Massnahmen aller Analysen"
+          >
+            <ChecklistIcon />
+            <span>Massnahmen</span>
+          </button>
+          <button
+            className="logout-button history-button"
+            onClick={() => setRegisterOpen(!registerOpen)}
+            aria-label="Bearbeitungsverzeichnis"
+            title="Verzeichnis der Bearbeitungstätigkeiten (Art. 12 DSG)"
+          >
+            <RegisterIcon />
+            <span>Verzeichnis</span>
+          </button>
+          <button
+            className="logout-button history-button"
+            onClick={() => setVendorsOpen(!vendorsOpen)}
+            aria-label="Auftragsbearbeiter"
+            title="Verzeichnis der Auftragsbearbeiter"
+          >
+            <BuildingIcon />
+            <span>Auftragsbearbeiter</span>
+          </button>
+          {can('users:manage') && (
+            <button
+              className="logout-button history-button"
+              onClick={() => setUserAdminOpen(!userAdminOpen)}
+              aria-label="Benutzer"
+              title="Benutzer und Rollen verwalten"
+            >
+              <UsersIcon />
+              <span>Benutzer</span>
+            </button>
+          )}
           <button
             className="logout-button"
             onClick={handleLogout}
             aria-label="Abmelden"
-            title="Abmelden"
+            title={`Abmelden (angemeldet als ${user.displayName}, ${user.roles.map((role) => ROLE_LABELS[role]).join(', ')})`}
           >
             <LogoutIcon />
             <span>Abmelden</span>
@@ -607,6 +1328,67 @@ function Dashboard() {
           </button>
         </div>
 
+        {historyOpen && (
+          <HistorySidebar
+            items={history}
+            activeId={activeAssessment?.id || null}
+            onOpen={handleOpenAssessment}
+            onDelete={can('assessment:delete') ? handleDeleteAssessment : undefined}
+            onClose={() => setHistoryOpen(false)}
+          />
+        )}
+
+        {measuresOpen && (
+          <MeasuresOverview
+            onOpenAssessment={(id) => {
+              setMeasuresOpen(false);
+              handleOpenAssessment(id);
+            }}
+            onClose={() => setMeasuresOpen(false)}
+          />
+        )}
+
+        {registerOpen && (
+          <ProcessingRegister
+            canEdit={can('register:edit')}
+            onOpenAssessment={(id) => {
+              setRegisterOpen(false);
+              handleOpenAssessment(id);
+            }}
+            onClose={() => setRegisterOpen(false)}
+          />
+        )}
+
+        {noticeOpen && activeAssessment && (
+          <PrivacyNotice
+            assessmentId={activeAssessment.id}
+            canEdit={can('notice:edit')}
+            onClose={() => setNoticeOpen(false)}
+          />
+        )}
+
+        {vendorsOpen && (
+          <VendorRegistry
+            vendors={vendors}
+            canManage={can('vendors:manage')}
+            onChange={setVendors}
+            onClose={() => setVendorsOpen(false)}
+          />
+        )}
+
+        {userAdminOpen && <UserAdmin currentUserId={user.id} onClose={() => setUserAdminOpen(false)} />}
+
+        {lawDrawer && (
+          <LawBrowser
+            law={lawDrawer.law}
+            articleNumber={lawDrawer.article}
+            highlightParagraph={lawDrawer.paragraph}
+            onSelectLaw={(law) => setLawDrawer({ law, article: null })}
+            onSelectArticle={(article) => setLawDrawer({ law: lawDrawer.law, article })}
+            onClose={() => setLawDrawer(null)}
+          />
+        )}
+
         <header>
           <div className="header-icon">
             <SwissLegalIcon />
@@ -616,6 +1398,29 @@ function Dashboard() {
         </header>
 
         <div className="input-section">
+          {can('assessment:create') && (
+            <div className="analysis-mode" role="group" aria-label="Art der Analyse">
+              <button
+                className={`analysis-mode-option ${!isBreachMode ? 'selected' : ''}`}
+                onClick={() => setMode('dsfa')}
+                disabled={loading}
+                aria-pressed={!isBreachMode}
+              >
+                Datenschutz-Folgenabschätzung
+              </button>
+              <button
+                className={`analysis-mode-option ${isBreachMode ? 'selected' : ''}`}
+                onClick={() => {
+                  setMode('breach');
+                  setError(null);
+                }}
+                disabled={loading}
+                aria-pressed={isBreachMode}
+              >
+                Verletzung der Datensicherheit
+              </button>
+            </div>
+          )}
           <div className="model-select-wrapper">
             <label htmlFor="model-select" className="model-label">
               Modell wählen
@@ -638,36 +1443,135 @@ function Dashboard() {
                 );
               })}
             </select>
+            {!isBreachMode && (
+              <label className="streaming-toggle">
+                <input
+                  type="checkbox"
+                  checked={streamingEnabled}
+                  onChange={(e) => setStreamingEnabled(e.target.checked)}
+                  disabled={loading}
+                />
+                <span>Ergebnis live anzeigen (Streaming)</span>
+              </label>
+            )}
           </div>
+          {isBreachMode && (
+            <p className="wizard-prefill">
+              Beschreiben Sie den Vorfall: was geschehen ist, wann er entdeckt wurde, welche Personendaten und wie viele
+              Personen betroffen sind und welche Massnahmen bereits ergriffen wurden. Die Beurteilung prüft die Meldung an
+              den EDÖB und die Information der betroffenen Personen nach Art. 24 DSG.
+            </p>
+          )}
+          {!isBreachMode && activeAssessment && (
+            <div className="active-assessment-bar">
+              <span>
+                {canWrite
+                  ? <>Neue Analyse wird als Version {activeAssessment.versions[activeAssessment.versions.length - 1].version + 1} von «{activeAssessment.title}» gespeichert.</>
+                  : <>«{activeAssessment.title}» ist geöffnet (nur Lesezugriff).</>}
+              </span>
+              {can('assessment:create') && (
+                <button className="active-assessment-new" onClick={handleNewAssessment} disabled={loading}>
+                  Neue Analyse beginnen
+                </button>
+              )}
+            </div>
+          )}
+          {!isBreachMode && activeAssessment?.status === 'in_review' && can('assessment:edit') && (
+            <div className="model-notice">
+              Die Analyse ist in Prüfung. Neue Versionen sind erst nach dem Entscheid der Datenschutzberatung möglich.
+            </div>
+          )}
+          {!isBreachMode && !canWrite && !activeAssessment && (
+            <div className="model-notice">
+              Ihre Rolle erlaubt keine neuen Analysen. Öffnen Sie eine gespeicherte Analyse im Verlauf, um sie zu prüfen oder zu kommentieren.
+            </div>
+          )}
           <div className="textarea-wrapper">
             <textarea
-              value={text}
-              onChange={(e) => setText(e.target.value)}
-              placeholder="Geben Sie hier den Text ein, der im Hinblick auf Schweizer Recht analysiert werden soll..."
+              value={isBreachMode ? breachText : text}
+              onChange={(e) => (isBreachMode ? setBreachText(e.target.value) : setText(e.target.value))}
+              placeholder={
+                isBreachMode
+                  ? 'Beschreiben Sie hier die Verletzung der Datensicherheit...'
+                  : 'Geben Sie hier den Text ein, der im Hinblick auf Schweizer Recht analysiert werden soll...'
+              }
               rows={8}
-              disabled={!password}
-              readOnly={loading}
+              readOnly={loading || !canSubmit}
             />
           </div>
+          {!isBreachMode && activeAssessment && canWrite && (
+            <input
+              type="text"
+              value={changeNote}
+              onChange={(e) => setChangeNote(e.target.value)}
+              placeholder="Änderungsgrund für die neue Version (optional), z.B. Hosting in die Schweiz verlegt"
+              className="change-note-input"
+              readOnly={loading}
+            />
+          )}
+          {!isBreachMode && canWrite && (
+            <VendorPicker
+              vendors={vendors}
+              selectedIds={vendorIds}
+              disabled={loading}
+              onChange={setVendorIds}
+              onManage={() => setVendorsOpen(true)}
+            />
+          )}
+          {!isBreachMode && !activeAssessment && canWrite && (
+            <ThresholdPrecheck answers={precheckAnswers} disabled={loading} onChange={setPrecheckAnswers} />
+          )}
           <button
-            onClick={handleAnalyze}
-            disabled={loading || !text.trim() || !password}
+            onClick={isBreachMode ? handleAnalyzeBreach : handleSubmit}
+            disabled={loading || retryAfter > 0 || !(isBreachMode ? breachText : text).trim() || !canSubmit}
             className={`analyze-button ${loading ? 'loading' : ''}`}
           >
             {loading ? (
               <>
                 <span className="button-spinner"></span>
-                <span>Analysiere...</span>
+                <span>{isBreachMode ? 'Beurteile...' : 'Analysiere...'}</span>
               </>
             ) : (
               <>
                 <SearchIcon />
-                <span>Analysieren</span>
+                <span>{isBreachMode ? 'Vorfall beurteilen' : 'Analysieren'}</span>
               </>
             )}
           </button>
         </div>
 
+        {!isBreachMode && precheckResult && !activeAssessment && (
+          <PrecheckResultView
+            result={precheckResult}
+            canAnalyze={canWrite && !loading && retryAfter === 0}
+            renderText={(reason) => (
+              <TextWithCitations text={reason} references={precheckResult.legalReferences} onOpenArticle={handleOpenCitation} />
+            )}
+            onAnalyze={() => handleAnalyze()}
+          />
+        )}
+
+        {!isBreachMode && activeAssessment && activeVersion !== null && (
+          <VersionHistory
+            assessment={activeAssessment}
+            activeVersion={activeVersion}
+            onSelectVersion={(version) => showVersion(activeAssessment, version)}
+          />
+        )}
+
+        {!isBreachMode && activeAssessment && activeVersion !== null && (
+          <ReviewPanel
+            assessment={activeAssessment}
+            activeVersion={activeVersion}
+            permissions={permissions}
+            currentUserId={user.id}
+            onUpdate={(updated) => {
+              setActiveAssessment(updated);
+              loadHistory();
+            }}
+          />
+        )}
+
         {error && (
           <div className="error-message animate-slide-in">
             <div className="error-icon">
@@ -675,11 +1579,24 @@ function Dashboard() {
             </div>
             <div>
               <strong>Fehler:</strong> {error}
+              {retryAfter > 0 && (
+                <span className="retry-countdown">
+                  Neue Analysen sind in {formatRetryAfter(retryAfter)} wieder möglich.
+                </span>
+              )}
             </div>
           </div>
         )}
 
-        {needsMoreInfo && (
+        {loading && streamNotice && (
+          <div className="model-notice animate-fade-in">{streamNotice}</div>
+        )}
+
+        {loading && streamText && (
+          <StreamingPreview sections={splitStreamSections(streamText)} />
+        )}
+
+        {!isBreachMode && needsMoreInfo && (
           <div className="missing-info-view animate-fade-in">
             <div className="missing-info-header">
               <div className="missing-info-icon">
@@ -708,32 +1625,63 @@ function Dashboard() {
               </div>
             )}
             
-            <div className="missing-info-actions">
-              <p className="missing-info-hint">
-                Bitte ergänzen Sie den Text mit den fehlenden Informationen und klicken Sie dann auf "Erneut analysieren".
-              </p>
-              <button
-                onClick={handleAnalyze}
-                disabled={loading || !text.trim() || !password}
-                className={`analyze-button re-analyze-button ${loading ? 'loading' : ''}`}
-              >
-                {loading ? (
-                  <>
-                    <span className="button-spinner"></span>
-                    <span>Analysiere...</span>
-                  </>
-                ) : (
-                  <>
-                    <SearchIcon />
-                    <span>Erneut analysieren</span>
-                  </>
+            {wizardOpen && canWrite ? (
+              <QuestionnaireWizard
+                key={wizardKey}
+                baseText={text}
+                knownInfo={knownInfo}
+                missingInfo={missingInfo}
+                disabled={loading || retryAfter > 0}
+                onApply={(composed, analyze) => {
+                  setText(composed);
+                  if (analyze) {
+                    handleAnalyze(composed);
+                  } else {
+                    setWizardOpen(false);
+                  }
+                }}
+                onClose={() => setWizardOpen(false)}
+              />
+            ) : (
+              <div className="missing-info-actions">
+                <p className="missing-info-hint">
+                  Bitte ergänzen Sie den Text mit den fehlenden Informationen und klicken Sie dann auf "Erneut analysieren".
+                </p>
+                <button
+                  onClick={() => handleAnalyze()}
+                  disabled={loading || retryAfter > 0 || !text.trim() || !canWrite}
+                  className={`analyze-button re-analyze-button ${loading ? 'loading' : ''}`}
+                >
+                  {loading ? (
+                    <>
+                      <span className="button-spinner"></span>
+                      <span>Analysiere...</span>
+                    </>
+                  ) : (
+                    <>
+                      <SearchIcon />
+                      <span>Erneut analysieren</span>
+                    </>
+                  )}
+                </button>
+                {canWrite && (
+                  <button className="law-back" onClick={() => setWizardOpen(true)}>
+                    Fragebogen öffnen
+                  </button>
                 )}
-              </button>
-            </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        {!isBreachMode && result && !needsMoreInfo && result.model && result.requestedModel && result.model !== result.requestedModel && (
+          <div className="model-notice animate-fade-in">
+            Diese Analyse wurde mit <strong>{result.model}</strong> erstellt, da{' '}
+            <strong>{result.requestedModel}</strong> nicht verfügbar war oder keine auswertbare Antwort geliefert hat.
           </div>
         )}
 
-        {result && !needsMoreInfo && (
+        {!isBreachMode && result && !needsMoreInfo && (
           <div className="results animate-fade-in">
             <div className="result-section scroll-animate">
               <div className="section-header">
@@ -743,7 +1691,7 @@ function Dashboard() {
                 <h2>Zusammenfassung</h2>
               </div>
               <p className="summary-text">
-                <TextWithCitations text={result.summary} references={result.legalReferences || []} />
+                <TextWithCitations text={result.summary} references={result.legalReferences || []} onOpenArticle={handleOpenCitation} />
               </p>
             </div>
 
@@ -757,8 +1705,41 @@ function Dashboard() {
                   <h2>Beschreibung der geplanten Bearbeitung</h2>
                 </div>
                 <div className="summary-text">
-                  <TextWithCitations text={result.description} references={result.legalReferences || []} />
+                  <TextWithCitations text={result.description} references={result.legalReferences || []} onOpenArticle={handleOpenCitation} />
+                </div>
+              </div>
+            )}
+
+            {result.transfers && (
+              <div className="result-section scroll-animate">
+                <div className="section-header">
+                  <div className="section-icon">
+                    <GlobeIcon />
+                  </div>
+                  <h2>Bekanntgabe ins Ausland</h2>
+                </div>
+                <CrossBorderTransfers
+                  transfers={result.transfers}
+                  renderText={(value) => (
+                    <TextWithCitations text={value} references={result.transfers?.legalReferences || []} onOpenArticle={handleOpenCitation} />
+                  )}
+                />
+              </div>
+            )}
+
+            {result.vendors && (
+              <div className="result-section scroll-animate">
+                <div className="section-header">
+                  <div className="section-icon">
+                    <BuildingIcon />
+                  </div>
+                  <h2>Auftragsbearbeiter</h2>
                 </div>
+                <VendorChecks checks={result.vendors} />
+                <p className="heat-map-legend">
+                  Geprüft nach Art. 9 DSG mit den Angaben aus dem Verzeichnis zum Zeitpunkt der Analyse. Die Lücken werden
+                  als Massnahmen erfasst.
+                </p>
               </div>
             )}
 
@@ -771,7 +1752,7 @@ function Dashboard() {
                   <h2>Potentiell hohe Bruttorisiken</h2>
                 </div>
                 <div className="summary-text">
-                  <TextWithCitations text={result.bruttorisiken} references={result.legalReferences || []} />
+                  <TextWithCitations text={result.bruttorisiken} references={result.legalReferences || []} onOpenArticle={handleOpenCitation} />
                 </div>
               </div>
             )}
@@ -785,8 +1766,16 @@ function Dashboard() {
                   <h2>Geplante Massnahmen zur Senkung der Bruttorisiken</h2>
                 </div>
                 <div className="summary-text">
-                  <TextWithCitations text={result.massnahmen} references={result.legalReferences || []} />
+                  <TextWithCitations text={result.massnahmen} references={result.legalReferences || []} onOpenArticle={handleOpenCitation} />
                 </div>
+                {activeAssessment && activeVersion !== null && (
+                  <MeasuresTracker
+                    assessment={activeAssessment}
+                    activeVersion={activeVersion}
+                    canEdit={can('measures:edit')}
+                    onUpdate={setActiveAssessment}
+                  />
+                )}
               </div>
             )}
 
@@ -799,8 +1788,20 @@ function Dashboard() {
                   <h2>Verbleibende Nettorisiken</h2>
                 </div>
                 <div className="summary-text">
-                  <TextWithCitations text={result.nettorisiken} references={result.legalReferences || []} />
+                  <TextWithCitations text={result.nettorisiken} references={result.legalReferences || []} onOpenArticle={handleOpenCitation} />
+                </div>
+              </div>
+            )}
+
+            {result.risks && result.risks.length > 0 && (
+              <div className="result-section scroll-animate">
+                <div className="section-header">
+                  <div className="section-icon">
+                    <WarningIcon />
+                  </div>
+                  <h2>Risikoregister</h2>
                 </div>
+                <RiskRegister risks={result.risks} />
               </div>
             )}
 
@@ -813,11 +1814,29 @@ function Dashboard() {
                   <h2>Ergebnis</h2>
                 </div>
                 <div className="summary-text">
-                  <TextWithCitations text={result.ergebnis} references={result.legalReferences || []} />
+                  <TextWithCitations text={result.ergebnis} references={result.legalReferences || []} onOpenArticle={handleOpenCitation} />
                 </div>
               </div>
             )}
 
+            {activeAssessment?.processingRecord && (
+              <div className="result-section scroll-animate">
+                <div className="section-header">
+                  <div className="section-icon">
+                    <FileIcon />
+                  </div>
+                  <h2>Datenschutzerklärung</h2>
+                  <button className="law-back notice-open" onClick={() => setNoticeOpen(true)}>
+                    Entwurf öffnen
+                  </button>
+                </div>
+                <p className="heat-map-legend">
+                  Entwurf der Information der betroffenen Personen nach Art. 19 DSG aus dem Bearbeitungsverzeichnis, mit
+                  Export als HTML, Markdown oder PDF.
+                </p>
+              </div>
+            )}
+
             <div className="result-section scroll-animate">
               <div className="section-header">
                 <div className="section-icon">
@@ -826,6 +1845,11 @@ function Dashboard() {
                 <h2>Risikobewertung</h2>
               </div>
               <RiskLevelIndicator riskLevel={result.riskLevel} />
+              {result.risks && result.risks.length > 0 && (
+                <p className="risk-level-source">
+                  Abgeleitet aus der höchsten Bewertung nach Massnahmen im Risikoregister.
+                </p>
+              )}
             </div>
 
             <div className="result-section scroll-animate">
@@ -840,7 +1864,7 @@ function Dashboard() {
                   <li key={index} className="recommendation-item scroll-animate" style={{ animationDelay: `${index * 0.1}s` }}>
                     <span className="recommendation-number">{index + 1}</span>
                     <span className="recommendation-text">
-                      <TextWithCitations text={rec} references={result.legalReferences || []} />
+                      <TextWithCitations text={rec} references={result.legalReferences || []} onOpenArticle={handleOpenCitation} />
                     </span>
                   </li>
                 ))}
@@ -859,19 +1883,47 @@ function Dashboard() {
                   <p className="legal-references-intro">
                     Die folgenden Rechtsquellen wurden in der Analyse zitiert:
                   </p>
+                  {result.legalReferences.some((ref) => ref.status === 'invalid') && (
+                    <div className="citation-warning">
+                      <WarningIcon />
+                      <span>
+                        {result.legalReferences.filter((ref) => ref.status === 'invalid').length} Zitat(e) konnten im
+                        Gesetzestext nicht gefunden werden. Bitte prüfen Sie diese Verweise vor der Verwendung.
+                      </span>
+                    </div>
+                  )}
                   <ul className="legal-references-list">
                     {result.legalReferences.map((ref, index) => (
-                      <li key={index} className="legal-reference-item scroll-animate" style={{ animationDelay: `${index * 0.05}s` }}>
-                        <a
-                          href={ref.url}
-                          target="_blank"
-                          rel="noopener noreferrer"
-                          className="legal-reference-link"
-                        >
-                          <span className="legal-reference-text">{ref.text}</span>
-                          <ExternalLinkIcon />
-                        </a>
-                        <span className="legal-reference-law">{ref.law}</span>
+                      <li
+                        key={index}
+                        className={`legal-reference-item scroll-animate ${ref.status || ''}`}
+                        style={{ animationDelay: `${index * 0.05}s` }}
+                      >
+                        <div className="legal-reference-main">
+                          <a
+                            href={ref.url}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="legal-reference-link"
+                            onClick={(event) => handleCitationClick(event, ref, handleOpenCitation)}
+                          >
+                            <span className="legal-reference-text">{ref.text}</span>
+                            <ExternalLinkIcon />
+                          </a>
+                          {ref.status && (
+                            <span className={`citation-status ${ref.status}`}>{CITATION_STATUS_LABELS[ref.status]}</span>
+                          )}
+                          <span className="legal-reference-law">{ref.law}</span>
+                        </div>
+                        {ref.status && ref.status !== 'verified' && ref.statusNote && (
+                          <p className="legal-reference-note">{ref.statusNote}</p>
+                        )}
+                        {ref.status === 'verified' && ref.sourceText && (
+                          <details className="legal-reference-source">
+                            <summary>Wortlaut{ref.heading ? ` – ${ref.heading}` : ''}</summary>
+                            <p>{ref.sourceText}</p>
+                          </details>
+                        )}
                       </li>
                     ))}
                   </ul>
@@ -898,14 +1950,152 @@ function Dashboard() {
                 </button>
               </summary>
               <pre className="full-analysis">{result.analysis}</pre>
+              {result.contextArticles && result.contextArticles.length > 0 && (
+                <p className="context-articles">
+                  DSG-Kontext ({result.retrievalMode === 'full' ? 'alle Artikel' : 'relevante Absätze'}):{' '}
+                  {result.contextArticles.join(', ')}
+                </p>
+              )}
             </details>
+
+            {activeAssessment && activeVersion !== null && (
+              <FollowUpChat
+                assessment={activeAssessment}
+                activeVersion={activeVersion}
+                canAsk={can('assessment:comment')}
+                canApply={can('assessment:edit') && activeAssessment.status !== 'in_review'}
+                onUpdate={setActiveAssessment}
+                onApplied={(updated, version) => {
+                  setActiveAssessment(updated);
+                  showVersion(updated, version);
+                  loadHistory();
+                }}
+              />
+            )}
           </div>
         )}
+
+        {isBreachMode && breachResult?.model && breachResult.requestedModel && breachResult.model !== breachResult.requestedModel && (
+          <div className="model-notice animate-fade-in">
+            Diese Beurteilung wurde mit <strong>{breachResult.model}</strong> erstellt, da{' '}
+            <strong>{breachResult.requestedModel}</strong> nicht verfügbar war oder keine auswertbare Antwort geliefert hat.
+          </div>
+        )}
+
+        {isBreachMode && breachResult && (
+          <BreachAssessment
+            result={breachResult}
+            riskIndicator={<RiskLevelIndicator riskLevel={breachResult.riskLevel} />}
+            renderText={(value) => (
+              <TextWithCitations text={value} references={breachResult.legalReferences} onOpenArticle={handleOpenCitation} />
+            )}
+            onDownloadPdf={handleDownloadPdf}
+          />
+        )}
       </div>
     </div>
   );
 }
 
+// Progressive rendering of the DSFA sections received so far
+function StreamingPreview({ sections }: { sections: StreamSection[] }) {
+  if (sections.length === 0) {
+    return (
+      <div className="results streaming-preview">
+        <p className="streaming-waiting">Antwort wird empfangen...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="results streaming-preview">
+      {sections.map((section, index) => (
+        <div key={section.key} className="result-section animate-fade-in">
+          <div className="section-header">
+            <h2>{section.title}</h2>
+          </div>
+          <div className="summary-text streaming-text">
+            {section.content}
+            {index === sections.length - 1 && <span className="streaming-cursor"></span>}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function HistorySidebar({
+  items,
+  activeId,
+  onOpen,
+  onDelete,
+  onClose,
+}: {
+  items: AssessmentSummary[];
+  activeId: string | null;
+  onOpen: (id: string) => void;
+  // Omitted for users without permission to delete
+  onDelete?: (id: string) => void;
+  onClose: () => void;
+}) {
+  const riskLabels: Record<AnalysisResult['riskLevel'], string> = {
+    LOW: 'Niedrig',
+    MEDIUM: 'Mittel',
+    HIGH: 'Hoch',
+    UNKNOWN: 'Unbekannt',
+  };
+
+  const formatDate = (value: string) =>
+    new Intl.DateTimeFormat('de-CH', { dateStyle: 'medium', timeStyle: 'short' }).format(new Date(value));
+
+  return (
+    <>
+      <div className="history-backdrop" onClick={onClose}></div>
+      <aside className="history-sidebar animate-slide-in">
+        <div className="history-header">
+          <h2>Verlauf</h2>
+          <button className="history-close" onClick={onClose} aria-label="Verlauf schliessen">
+            <CloseIcon />
+          </button>
+        </div>
+        {items.length === 0 ? (
+          <p className="history-empty">Noch keine gespeicherten Analysen.</p>
+        ) : (
+          <ul className="history-list">
+            {items.map((item) => (
+              <li key={item.id} className={`history-item ${item.id === activeId ? 'active' : ''}`}>
+                <button className="history-item-open" onClick={() => onOpen(item.id)}>
+                  <span className="history-item-title">{item.title}</span>
+                  <span className="history-item-meta">
+                    {formatDate(item.updatedAt)} · {item.model}
+                    {item.versionCount > 1 && ` · ${item.versionCount} Versionen`}
+                    {item.createdBy && ` · ${item.createdBy}`}
+                    {item.status && ` · ${STATUS_LABELS[item.status]}`}
+                    {item.approvedVersion !== undefined && item.status !== 'approved' && ` · zuletzt freigegeben: V${item.approvedVersion}`}
+                  </span>
+                  <span className={`history-item-risk ${item.needsMoreInfo ? 'info' : item.riskLevel.toLowerCase()}`}>
+                    {item.needsMoreInfo ? 'Informationen fehlen' : riskLabels[item.riskLevel] || item.riskLevel}
+                  </span>
+                </button>
+                {onDelete && (
+                  <button
+                    className="history-item-delete"
+                    onClick={() => onDelete(item.id)}
+                    aria-label="Analyse löschen"
+                    title="Analyse löschen"
+                  >
+                    <TrashIcon />
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </aside>
+    </>
+  );
+}
+
 function RiskLevelIndicator({ riskLevel }: { riskLevel: string }) {
   const config = (() => {
     switch (riskLevel) {
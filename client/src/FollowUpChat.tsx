@@ -0,0 +1,190 @@
+import { useState } from 'react';
+import { AnalysisResult, FollowUpMessage, StoredAssessment } from './types';
+import { formatRetryAfter, getRetryAfter, useRetryCountdown } from './rateLimit';
+
+const ChatIcon = () => (
+  <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+    <path d="M21 11.5a8.38 8.38 0 0 1-.9 3.8 8.5 8.5 0 0 1-7.6 4.7 8.38 8.38 0 0 1-3.8-.9L3 21l1.9-5.7a8.38 8.38 0 0 1-.9-3.8 8.5 8.5 0 0 1 4.7-7.6 8.38 8.38 0 0 1 3.8-.9h.5a8.48 8.48 0 0 1 8 8v.5z"></path>
+  </svg>
+);
+
+const RISK_LABELS: Record<AnalysisResult['riskLevel'], string> = {
+  LOW: 'Niedrig',
+  MEDIUM: 'Mittel',
+  HIGH: 'Hoch',
+  UNKNOWN: 'Unbekannt',
+};
+
+const formatDate = (value: string) =>
+  new Intl.DateTimeFormat('de-CH', { dateStyle: 'medium', timeStyle: 'short' }).format(new Date(value));
+
+// Follow-up questions on the shown version. The model answers with the original
+// prompt, DSG context and DSFA as history; if a question changes the planned
+// processing, the answer carries a revised DSFA that can be saved as a new version.
+function FollowUpChat({
+  assessment,
+  activeVersion,
+  canAsk,
+  canApply,
+  onUpdate,
+  onApplied,
+}: {
+  assessment: StoredAssessment;
+  activeVersion: number;
+  canAsk: boolean;
+  // False without edit permission or while the assessment is in review
+  canApply: boolean;
+  onUpdate: (assessment: StoredAssessment) => void;
+  onApplied: (assessment: StoredAssessment, version: number) => void;
+}) {
+  const [question, setQuestion] = useState('');
+  const [sending, setSending] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [retryAfter, startRetryCountdown] = useRetryCountdown();
+
+  const version = assessment.versions.find((v) => v.version === activeVersion);
+  const messages = (assessment.followUps || []).filter((message) => message.version === activeVersion);
+
+  const post = async (url: string, body: object | undefined, fallbackError: string) => {
+    setSending(true);
+    setError(null);
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        if (response.status === 429) {
+          startRetryCountdown(getRetryAfter(response, data));
+        }
+        throw new Error(data.error || fallbackError);
+      }
+      return data as StoredAssessment;
+    } catch (err: any) {
+      setError(err.message || fallbackError);
+      return null;
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleAsk = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!question.trim()) return;
+    const updated = await post(
+      `/api/assessments/${assessment.id}/chat`,
+      { message: question.trim(), version: activeVersion },
+      'Die Rückfrage konnte nicht beantwortet werden'
+    );
+    if (updated) {
+      setQuestion('');
+      onUpdate(updated);
+    }
+  };
+
+  const handleApply = async (message: FollowUpMessage) => {
+    const updated = await post(
+      `/api/assessments/${assessment.id}/chat/${message.id}/apply`,
+      undefined,
+      'Die Überarbeitung konnte nicht übernommen werden'
+    );
+    const applied = updated?.followUps?.find((item) => item.id === message.id)?.appliedVersion;
+    if (updated && applied) {
+      onApplied(updated, applied);
+    }
+  };
+
+  if (!version || version.result.needsMoreInfo) {
+    return null;
+  }
+
+  return (
+    <div className="result-section follow-up-chat animate-fade-in">
+      <div className="section-header">
+        <div className="section-icon">
+          <ChatIcon />
+        </div>
+        <h2>Rückfragen zur DSFA</h2>
+      </div>
+
+      {messages.length === 0 ? (
+        <p className="review-empty">
+          Stellen Sie Rückfragen zu Version {activeVersion}, z.B. «Was ändert sich, wenn die Daten in der Schweiz
+          gespeichert werden?». Beschreibt eine Frage eine Änderung, schlägt das Modell eine überarbeitete DSFA vor.
+        </p>
+      ) : (
+        <ul className="comment-list">
+          {messages.map((message) => (
+            <li key={message.id} className={`comment-item chat-message ${message.role}`}>
+              <span className="comment-meta">
+                {message.role === 'user' ? message.author?.name || 'Frage' : `Antwort (${message.model})`}
+                {' · '}{formatDate(message.createdAt)}
+              </span>
+              <p>{message.content}</p>
+              {message.revisedResult && (
+                <div className="chat-revision">
+                  <span>
+                    Überarbeitete DSFA: Risiko {RISK_LABELS[version.result.riskLevel]} →{' '}
+                    <strong className={`history-item-risk ${message.revisedResult.riskLevel.toLowerCase()}`}>
+                      {RISK_LABELS[message.revisedResult.riskLevel]}
+                    </strong>
+                  </span>
+                  <details>
+                    <summary>Überarbeitete DSFA anzeigen</summary>
+                    <pre className="full-analysis">{message.revisedResult.analysis}</pre>
+                  </details>
+                  {message.appliedVersion ? (
+                    <span className="chat-revision-applied">Als Version {message.appliedVersion} übernommen.</span>
+                  ) : canApply && (
+                    <button
+                      className="download-button inline"
+                      onClick={() => handleApply(message)}
+                      disabled={sending}
+                    >
+                      Als neue Version übernehmen
+                    </button>
+                  )}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {canAsk && (
+        <form className="comment-form" onSubmit={handleAsk}>
+          <textarea
+            value={question}
+            onChange={(e) => setQuestion(e.target.value)}
+            placeholder={`Rückfrage zu Version ${activeVersion}...`}
+            rows={3}
+            maxLength={4000}
+            disabled={sending}
+          />
+          <button
+            type="submit"
+            className="download-button inline"
+            disabled={sending || !question.trim() || retryAfter > 0}
+          >
+            {sending ? 'Antwort wird erstellt...' : 'Frage senden'}
+          </button>
+        </form>
+      )}
+
+      {error && (
+        <div className="login-error">
+          {error}
+          {retryAfter > 0 && (
+            <span className="retry-countdown">Neue Rückfragen sind in {formatRetryAfter(retryAfter)} wieder möglich.</span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default FollowUpChat;
@@ -0,0 +1,215 @@
+import { useState, useEffect, useRef } from 'react';
+import { LawArticle, LawArticleSummary, LawSummary } from './types';
+
+const CloseIcon = () => (
+  <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+    <line x1="18" y1="6" x2="6" y2="18"></line>
+    <line x1="6" y1="6" x2="18" y2="18"></line>
+  </svg>
+);
+
+const ArrowLeftIcon = () => (
+  <svg width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+    <line x1="19" y1="12" x2="5" y2="12"></line>
+    <polyline points="12 19 5 12 12 5"></polyline>
+  </svg>
+);
+
+const ExternalLinkIcon = () => (
+  <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+    <path d="M18 13v6a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2V8a2 2 0 0 1 2-2h6"></path>
+    <polyline points="15 3 21 3 21 9"></polyline>
+    <line x1="10" y1="14" x2="21" y2="3"></line>
+  </svg>
+);
+
+const SEARCH_DELAY_MS = 250;
+
+// Side drawer with a searchable article list and the text of a single article.
+// Opened from the header or by clicking a citation of a loaded law in the analysis.
+function LawBrowser({
+  law,
+  articleNumber,
+  highlightParagraph,
+  onSelectLaw,
+  onSelectArticle,
+  onClose,
+}: {
+  law: string;
+  articleNumber: string | null;
+  highlightParagraph?: string;
+  onSelectLaw: (law: string) => void;
+  onSelectArticle: (number: string | null) => void;
+  onClose: () => void;
+}) {
+  const [laws, setLaws] = useState<LawSummary[]>([]);
+  const [query, setQuery] = useState('');
+  const [articles, setArticles] = useState<LawArticleSummary[]>([]);
+  const [article, setArticle] = useState<LawArticle | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const highlightRef = useRef<HTMLLIElement | null>(null);
+
+  const fetchJson = async (url: string) => {
+    const response = await fetch(url);
+    if (!response.ok) {
+      const errorData = await response.json();
+      throw new Error(errorData.error || 'Gesetzestext konnte nicht geladen werden');
+    }
+    return response.json();
+  };
+
+  // Loaded law corpora for the law selector
+  useEffect(() => {
+    fetchJson('/api/law')
+      .then((data) => setLaws(data.laws || []))
+      .catch(() => setLaws([]));
+  }, []);
+
+  const lawName = laws.find((item) => item.id === law)?.abbreviation || law.toUpperCase();
+
+  // Search the article list (debounced while typing)
+  useEffect(() => {
+    if (articleNumber) return;
+    const timeout = setTimeout(async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const params = query.trim() ? `?q=${encodeURIComponent(query.trim())}` : '';
+        const data = await fetchJson(`/api/law/${law}/articles${params}`);
+        setArticles(data.articles || []);
+      } catch (err: any) {
+        setError(err.message);
+      } finally {
+        setLoading(false);
+      }
+    }, SEARCH_DELAY_MS);
+    return () => clearTimeout(timeout);
+  }, [law, query, articleNumber]);
+
+  useEffect(() => {
+    if (!articleNumber) {
+      setArticle(null);
+      return;
+    }
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+    fetchJson(`/api/law/${law}/articles/${encodeURIComponent(articleNumber)}`)
+      .then((data) => {
+        if (!cancelled) setArticle(data);
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setArticle(null);
+          setError(err.message);
+        }
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [law, articleNumber]);
+
+  // Bring the cited paragraph into view
+  useEffect(() => {
+    highlightRef.current?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+  }, [article, highlightParagraph]);
+
+  return (
+    <>
+      <div className="law-backdrop" onClick={onClose}></div>
+      <aside className="law-drawer animate-slide-in" aria-label="Gesetzestext">
+        <div className="history-header">
+          <h2>{articleNumber ? `Art. ${articleNumber} ${lawName}` : `${lawName} durchsuchen`}</h2>
+          <button className="history-close" onClick={onClose} aria-label="Gesetzestext schliessen">
+            <CloseIcon />
+          </button>
+        </div>
+
+        {articleNumber ? (
+          <>
+            <button className="law-back" onClick={() => onSelectArticle(null)}>
+              <ArrowLeftIcon />
+              <span>Alle Artikel</span>
+            </button>
+            {loading && <p className="law-status">Artikel wird geladen...</p>}
+            {error && <p className="law-status error">{error}</p>}
+            {article && (
+              <div className="law-article">
+                <h3>{article.heading}</h3>
+                <ol className="law-paragraphs">
+                  {article.paragraphs.map((paragraph, index) => {
+                    const highlighted = Boolean(highlightParagraph) && paragraph.number === highlightParagraph;
+                    return (
+                      <li
+                        key={`${paragraph.number}-${index}`}
+                        ref={highlighted ? highlightRef : undefined}
+                        className={`law-paragraph ${highlighted ? 'highlighted' : ''}`}
+                      >
+                        {paragraph.number && <span className="law-paragraph-number">Abs. {paragraph.number}</span>}
+                        <p>{paragraph.text}</p>
+                      </li>
+                    );
+                  })}
+                </ol>
+                {article.url && (
+                  <a href={article.url} target="_blank" rel="noopener noreferrer" className="law-external-link">
+                    <span>Auf fedlex.admin.ch öffnen</span>
+                    <ExternalLinkIcon />
+                  </a>
+                )}
+              </div>
+            )}
+          </>
+        ) : (
+          <>
+            {laws.length > 1 && (
+              <select
+                className="law-select"
+                value={law}
+                onChange={(e) => onSelectLaw(e.target.value)}
+                aria-label="Gesetz auswählen"
+              >
+                {laws.map((item) => (
+                  <option key={item.id} value={item.id}>
+                    {item.abbreviation} – {item.title}
+                    {item.excerpt ? ' (Auszug)' : ''}
+                  </option>
+                ))}
+              </select>
+            )}
+            <input
+              type="search"
+              className="law-search"
+              placeholder="Artikel, Titel oder Stichwort suchen..."
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              autoFocus
+            />
+            {error && <p className="law-status error">{error}</p>}
+            {!loading && !error && articles.length === 0 && (
+              <p className="law-status">Keine Artikel gefunden.</p>
+            )}
+            <ul className="law-article-list">
+              {articles.map((item) => (
+                <li key={item.id}>
+                  <button className="law-article-item" onClick={() => onSelectArticle(item.number)}>
+                    <span className="law-article-title">
+                      {item.id} – {item.heading}
+                    </span>
+                    {item.snippet && <span className="law-article-snippet">{item.snippet}</span>}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </>
+        )}
+      </aside>
+    </>
+  );
+}
+
+export default LawBrowser;
@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
+import { formatRetryAfter, getRetryAfter, useRetryCountdown } from './rateLimit';
 import './App.css';
 
 // Swiss Legal Logo
@@ -21,6 +22,14 @@ const LockIcon = () => (
   </svg>
 );
 
+// User Icon
+const UserIcon = () => (
+  <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+    <path d="M20 21v-2a4 4 0 0 0-4-4H8a4 4 0 0 0-4 4v2"></path>
+    <circle cx="12" cy="7" r="4"></circle>
+  </svg>
+);
+
 const MoonIcon = () => (
   <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
     <path d="M21 12.79A9 9 0 1 1 11.21 3 7 7 0 0 0 21 12.79z"></path>
@@ -42,9 +51,12 @@ const SunIcon = () => (
 );
 
 function Login() {
+  const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
   const [error, setError] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
+  // Set while the server blocks further attempts (429 after too many failed logins)
+  const [retryAfter, startRetryCountdown] = useRetryCountdown();
   const [darkMode, setDarkMode] = useState(() => {
     const saved = localStorage.getItem('darkMode');
     return saved ? JSON.parse(saved) : false;
@@ -60,76 +72,59 @@ function Login() {
     localStorage.setItem('darkMode', JSON.stringify(darkMode));
   }, [darkMode]);
 
-  // Check if already authenticated
+  // Check if already authenticated (session cookie)
   useEffect(() => {
-    const savedPassword = localStorage.getItem('appPassword');
-    if (savedPassword) {
-      // Verify password is still valid
-      verifyPassword(savedPassword);
-    }
-  }, []);
+    // Older versions kept the shared password in localStorage
+    localStorage.removeItem('appPassword');
 
-  const verifyPassword = async (passwordToVerify: string) => {
-    try {
-      const response = await fetch('/api/auth/verify', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'X-App-Password': passwordToVerify,
-        },
-        body: JSON.stringify({ password: passwordToVerify }),
-      });
-      if (response.ok) {
-        const data = await response.json();
-        if (data.success) {
+    fetch('/api/auth/session')
+      .then((response) => {
+        if (response.ok) {
           navigate('/dashboard');
-          return;
         }
-      }
-      // Password invalid, stay on login page
-      localStorage.removeItem('appPassword');
-    } catch (err) {
-      // Password invalid, stay on login page
-      localStorage.removeItem('appPassword');
-    }
-  };
+      })
+      .catch(() => {
+        // Not signed in, stay on login page
+      });
+  }, []);
 
   const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
     setLoading(true);
 
-    if (!password.trim()) {
-      setError('Bitte geben Sie ein Passwort ein');
+    if (!username.trim() || !password) {
+      setError('Bitte geben Sie Benutzername und Passwort ein');
       setLoading(false);
       return;
     }
 
     try {
-      // Verify password using dedicated auth endpoint
-      const response = await fetch('/api/auth/verify', {
+      // The server answers with an HttpOnly session cookie
+      const response = await fetch('/api/auth/login', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'X-App-Password': password.trim(),
         },
-        body: JSON.stringify({ password: password.trim() }),
+        body: JSON.stringify({ username: username.trim(), password }),
       });
 
       if (response.ok) {
-        // Password is correct
         const data = await response.json();
         if (data.success) {
-          localStorage.setItem('appPassword', password.trim());
           navigate('/dashboard');
           return;
         }
       }
 
-      // Password is incorrect - show error message
-      let errorMessage = 'Ungültiges Passwort. Bitte versuchen Sie es erneut.';
+      // Credentials are incorrect - show error message
+      let errorMessage = 'Ungültiger Benutzername oder Passwort. Bitte versuchen Sie es erneut.';
       
-      if (response.status === 401) {
+      if (response.status === 429) {
+        const errorData = await response.json().catch(() => ({}));
+        startRetryCountdown(getRetryAfter(response, errorData));
+        errorMessage = errorData.error || 'Zu viele Anmeldeversuche.';
+      } else if (response.status === 401 || response.status === 400) {
         try {
           const errorData = await response.json();
           if (errorData.error) {
@@ -137,7 +132,6 @@ function Login() {
           }
         } catch {
           // If JSON parsing fails, use default message
-          errorMessage = 'Ungültiges Passwort. Bitte versuchen Sie es erneut.';
         }
       } else {
         errorMessage = 'Verbindungsfehler. Bitte versuchen Sie es später erneut.';
@@ -175,6 +169,24 @@ function Login() {
           </div>
 
           <form onSubmit={handleLogin} className="login-form">
+            <div className="login-input-group">
+              <label htmlFor="login-username" className="login-label">
+                <UserIcon />
+                <span>Benutzername</span>
+              </label>
+              <input
+                id="login-username"
+                type="text"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+                placeholder="Benutzername eingeben..."
+                className="login-input"
+                autoComplete="username"
+                disabled={loading}
+                autoFocus
+              />
+            </div>
+
             <div className="login-input-group">
               <label htmlFor="login-password" className="login-label">
                 <LockIcon />
@@ -187,20 +199,25 @@ function Login() {
                 onChange={(e) => setPassword(e.target.value)}
                 placeholder="Passwort eingeben..."
                 className="login-input"
+                autoComplete="current-password"
                 disabled={loading}
-                autoFocus
               />
             </div>
 
             {error && (
               <div className="login-error">
                 {error}
+                {retryAfter > 0 && (
+                  <span className="retry-countdown">
+                    Erneuter Versuch möglich in {formatRetryAfter(retryAfter)}.
+                  </span>
+                )}
               </div>
             )}
 
             <button
               type="submit"
-              disabled={loading || !password.trim()}
+              disabled={loading || retryAfter > 0 || !username.trim() || !password}
               className={`login-button ${loading ? 'loading' : ''}`}
             >
               {loading ? (
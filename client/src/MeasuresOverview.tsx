@@ -0,0 +1,118 @@
+import { useEffect, useState } from 'react';
+import { MeasureOverviewItem } from './types';
+import { MEASURE_CATEGORY_LABELS, MEASURE_STATUSES, MEASURE_STATUS_LABELS, formatDueDate } from './measures';
+
+const CloseIcon = () => (
+  <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+    <line x1="18" y1="6" x2="6" y2="18"></line>
+    <line x1="6" y1="6" x2="18" y2="18"></line>
+  </svg>
+);
+
+// Open measures of all assessments, earliest due date first, with CSV export
+function MeasuresOverview({
+  onOpenAssessment,
+  onClose,
+}: {
+  onOpenAssessment: (id: string) => void;
+  onClose: () => void;
+}) {
+  const [measures, setMeasures] = useState<MeasureOverviewItem[]>([]);
+  const [status, setStatus] = useState('');
+  const [owner, setOwner] = useState('');
+  const [overdueOnly, setOverdueOnly] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const params = new URLSearchParams();
+  if (status) params.set('status', status);
+  if (owner.trim()) params.set('owner', owner.trim());
+  if (overdueOnly) params.set('overdue', 'true');
+  const query = params.toString();
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setLoading(true);
+    fetch(`/api/measures?${query}`, { signal: controller.signal })
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Massnahmen konnten nicht geladen werden');
+        }
+        setMeasures(data.measures || []);
+        setError(null);
+      })
+      .catch((err) => {
+        if (err.name !== 'AbortError') setError(err.message);
+      })
+      .finally(() => setLoading(false));
+    return () => controller.abort();
+  }, [query]);
+
+  return (
+    <>
+      <div className="law-backdrop" onClick={onClose}></div>
+      <aside className="law-drawer measures-overview animate-slide-in" aria-label="Massnahmen">
+        <div className="history-header">
+          <h2>Massnahmen</h2>
+          <button className="history-close" onClick={onClose} aria-label="Massnahmen schliessen">
+            <CloseIcon />
+          </button>
+        </div>
+
+        <select className="law-select" value={status} onChange={(e) => setStatus(e.target.value)} aria-label="Status">
+          <option value="">Offen und in Umsetzung</option>
+          <option value="all">Alle</option>
+          {MEASURE_STATUSES.map((value) => (
+            <option key={value} value={value}>{MEASURE_STATUS_LABELS[value]}</option>
+          ))}
+        </select>
+        <input
+          type="search"
+          className="law-search"
+          placeholder="Verantwortliche Person"
+          value={owner}
+          onChange={(e) => setOwner(e.target.value)}
+        />
+        <div className="measures-overview-actions">
+          <label className="user-role">
+            <input type="checkbox" checked={overdueOnly} onChange={(e) => setOverdueOnly(e.target.checked)} />
+            <span>Nur überfällige</span>
+          </label>
+          <a className="law-back" href={`/api/measures/export?${query}`} download>
+            CSV exportieren
+          </a>
+        </div>
+
+        {error && <p className="law-status error">{error}</p>}
+        {!error && loading && <p className="law-status">Massnahmen werden geladen...</p>}
+        {!error && !loading && measures.length === 0 && <p className="law-status">Keine Massnahmen gefunden.</p>}
+
+        <ul className="measure-list">
+          {measures.map((measure) => (
+            <li
+              key={`${measure.assessmentId}-${measure.id}`}
+              className={`measure-item status-${measure.status} ${measure.overdue ? 'overdue' : ''}`}
+            >
+              <button className="measure-assessment" onClick={() => onOpenAssessment(measure.assessmentId)}>
+                {measure.assessmentTitle}
+              </button>
+              <div className="measure-item-header">
+                <span className="measure-category">{MEASURE_CATEGORY_LABELS[measure.category]}</span>
+                {measure.overdue && <span className="measure-overdue">Überfällig</span>}
+              </div>
+              <p className="measure-description">{measure.description}</p>
+              <p className="measure-meta">
+                {MEASURE_STATUS_LABELS[measure.status]}
+                {' · '}{measure.owner || 'keine verantwortliche Person'}
+                {measure.dueDate && ` · fällig am ${formatDueDate(measure.dueDate)}`}
+              </p>
+            </li>
+          ))}
+        </ul>
+      </aside>
+    </>
+  );
+}
+
+export default MeasuresOverview;
@@ -0,0 +1,148 @@
+import { useEffect, useState } from 'react';
+import { MeasureStatus, StoredAssessment, TrackedMeasure } from './types';
+import { MEASURE_CATEGORY_LABELS, MEASURE_STATUSES, MEASURE_STATUS_LABELS, formatDueDate, isOverdue } from './measures';
+
+type MeasureChanges = { owner?: string; dueDate?: string; status?: MeasureStatus };
+
+function MeasureRow({
+  measure,
+  canEdit,
+  saving,
+  onSave,
+}: {
+  measure: TrackedMeasure;
+  canEdit: boolean;
+  saving: boolean;
+  onSave: (changes: MeasureChanges) => void;
+}) {
+  const [owner, setOwner] = useState(measure.owner || '');
+
+  useEffect(() => {
+    setOwner(measure.owner || '');
+  }, [measure.owner]);
+
+  const overdue = isOverdue(measure);
+
+  return (
+    <li className={`measure-item status-${measure.status} ${overdue ? 'overdue' : ''}`}>
+      <div className="measure-item-header">
+        <span className="measure-category">{MEASURE_CATEGORY_LABELS[measure.category]}</span>
+        {measure.riskIds.length > 0 && <span className="measure-meta">Risiken: {measure.riskIds.join(', ')}</span>}
+        {measure.legalBasis.length > 0 && <span className="measure-meta">{measure.legalBasis.join(', ')}</span>}
+        {overdue && <span className="measure-overdue">Überfällig</span>}
+      </div>
+      <p className="measure-description">{measure.description}</p>
+      {canEdit ? (
+        <div className="measure-fields">
+          <input
+            type="text"
+            value={owner}
+            onChange={(e) => setOwner(e.target.value)}
+            onBlur={() => owner.trim() !== (measure.owner || '') && onSave({ owner: owner.trim() })}
+            placeholder="Verantwortlich"
+            maxLength={100}
+            disabled={saving}
+            aria-label="Verantwortlich"
+          />
+          <input
+            type="date"
+            value={measure.dueDate || ''}
+            onChange={(e) => onSave({ dueDate: e.target.value })}
+            disabled={saving}
+            aria-label="Fällig am"
+          />
+          <select
+            value={measure.status}
+            onChange={(e) => onSave({ status: e.target.value as MeasureStatus })}
+            disabled={saving}
+            aria-label="Status"
+          >
+            {MEASURE_STATUSES.map((status) => (
+              <option key={status} value={status}>{MEASURE_STATUS_LABELS[status]}</option>
+            ))}
+          </select>
+        </div>
+      ) : (
+        <p className="measure-meta">
+          {MEASURE_STATUS_LABELS[measure.status]}
+          {measure.owner && ` · ${measure.owner}`}
+          {measure.dueDate && ` · fällig am ${formatDueDate(measure.dueDate)}`}
+        </p>
+      )}
+    </li>
+  );
+}
+
+// Implementation state of the measures of an assessment: owner, due date and status.
+// The measures belong to the latest version; unchanged measures keep their state
+// when a new version is created.
+function MeasuresTracker({
+  assessment,
+  activeVersion,
+  canEdit,
+  onUpdate,
+}: {
+  assessment: StoredAssessment;
+  activeVersion: number;
+  canEdit: boolean;
+  onUpdate: (assessment: StoredAssessment) => void;
+}) {
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const measures = assessment.measures;
+  const latestVersion = assessment.versions[assessment.versions.length - 1].version;
+  const done = measures.filter((measure) => measure.status === 'done' || measure.status === 'not_applicable').length;
+
+  const handleSave = async (measure: TrackedMeasure, changes: MeasureChanges) => {
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/assessments/${assessment.id}/measures/${measure.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(changes),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Massnahme konnte nicht gespeichert werden');
+      }
+      onUpdate(data);
+    } catch (err: any) {
+      setError(err.message || 'Massnahme konnte nicht gespeichert werden');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (measures.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="measures-tracker">
+      <h3 className="review-subtitle">
+        Umsetzungsstand ({done} von {measures.length} erledigt)
+      </h3>
+      {activeVersion !== latestVersion && (
+        <p className="review-empty">Der Umsetzungsstand bezieht sich auf die Massnahmen der aktuellen Version {latestVersion}.</p>
+      )}
+      <ul className="measure-list">
+        {measures.map((measure) => (
+          <MeasureRow
+            key={measure.id}
+            measure={measure}
+            canEdit={canEdit}
+            saving={saving}
+            onSave={(changes) => handleSave(measure, changes)}
+          />
+        ))}
+      </ul>
+      {error && <div className="login-error">{error}</div>}
+    </div>
+  );
+}
+
+export default MeasuresTracker;
@@ -0,0 +1,246 @@
+import { useEffect, useState } from 'react';
+import jsPDF from 'jspdf';
+import { NoticeSection, PrivacyNotice as Notice } from './types';
+
+const CloseIcon = () => (
+  <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+    <line x1="18" y1="6" x2="6" y2="18"></line>
+    <line x1="6" y1="6" x2="18" y2="18"></line>
+  </svg>
+);
+
+// Mirrors NOTICE_SECTION_TITLES in privacyNotice.ts on the server
+const NOTICE_SECTION_TITLES: Record<NoticeSection, string> = {
+  intro: 'Einleitung',
+  controller: 'Verantwortlicher und Kontakt',
+  purpose: 'Zweck der Bearbeitung',
+  dataCategories: 'Bearbeitete Personendaten',
+  recipients: 'Empfängerinnen und Empfänger',
+  transfers: 'Bekanntgabe ins Ausland',
+  retention: 'Aufbewahrungsdauer',
+  rights: 'Ihre Rechte',
+};
+
+// Provision each section is based on, shown next to the title while editing
+const NOTICE_SECTION_BASIS: Record<NoticeSection, string> = {
+  intro: 'Art. 19 Abs. 1 DSG',
+  controller: 'Art. 19 Abs. 2 Bst. a DSG',
+  purpose: 'Art. 19 Abs. 2 Bst. b DSG',
+  dataCategories: 'Art. 19 Abs. 3 DSG',
+  recipients: 'Art. 19 Abs. 2 Bst. c DSG',
+  transfers: 'Art. 19 Abs. 4 DSG',
+  retention: 'Art. 6 Abs. 4 DSG',
+  rights: 'Art. 25–32 DSG',
+};
+
+const NOTICE_SECTIONS = Object.keys(NOTICE_SECTION_TITLES) as NoticeSection[];
+
+const readError = async (response: Response, fallback: string): Promise<string> => {
+  try {
+    const data = await response.json();
+    return data.error || fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+const downloadPdf = (notice: Notice) => {
+  const doc = new jsPDF({ unit: 'pt', format: 'a4' });
+  const marginX = 48;
+  const marginY = 60;
+  const lineHeight = 18;
+  const contentWidth = doc.internal.pageSize.getWidth() - marginX * 2;
+  let cursorY = marginY;
+
+  const writeLines = (lines: string[]) => {
+    lines.forEach((line) => {
+      if (cursorY + lineHeight > doc.internal.pageSize.getHeight() - marginY) {
+        doc.addPage();
+        cursorY = marginY;
+      }
+      doc.text(line, marginX, cursorY);
+      cursorY += lineHeight;
+    });
+  };
+
+  doc.setTextColor(26, 46, 58);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(18);
+  writeLines(doc.splitTextToSize(notice.title, contentWidth));
+  cursorY += lineHeight / 2;
+
+  NOTICE_SECTIONS.filter((section) => notice.sections[section].trim()).forEach((section) => {
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(13);
+    cursorY += 6;
+    writeLines([NOTICE_SECTION_TITLES[section]]);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(11);
+    writeLines(doc.splitTextToSize(notice.sections[section].trim(), contentWidth));
+  });
+
+  doc.setFontSize(9);
+  doc.setTextColor(81, 120, 145);
+  cursorY += lineHeight / 2;
+  writeLines([`Stand: ${new Date().toLocaleDateString('de-CH', { dateStyle: 'long' })}`]);
+  doc.save('datenschutzerklaerung.pdf');
+};
+
+// Draft Datenschutzerklärung (Art. 19 DSG) generated from the register entry of an assessment
+function PrivacyNotice({
+  assessmentId,
+  canEdit,
+  onClose,
+}: {
+  assessmentId: string;
+  canEdit: boolean;
+  onClose: () => void;
+}) {
+  const [notice, setNotice] = useState<Notice | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editing, setEditing] = useState<Record<NoticeSection, string> | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetch(`/api/assessments/${assessmentId}/notice`)
+      .then(async (response) => {
+        if (!response.ok) {
+          throw new Error(await readError(response, 'Datenschutzerklärung konnte nicht erstellt werden'));
+        }
+        setNotice(await response.json());
+      })
+      .catch((err) => setError(err.message))
+      .finally(() => setLoading(false));
+  }, [assessmentId]);
+
+  // null resets a section to the text generated from the DSFA
+  const saveSections = async (sections: Partial<Record<NoticeSection, string | null>>) => {
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/assessments/${assessmentId}/notice`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ sections }),
+      });
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Datenschutzerklärung konnte nicht gespeichert werden'));
+      }
+      setNotice(await response.json());
+      setEditing(null);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSave = () => {
+    if (!notice || !editing) return;
+    const changed = NOTICE_SECTIONS.filter((section) => editing[section].trim() !== notice.sections[section]);
+    if (changed.length === 0) {
+      setEditing(null);
+      return;
+    }
+    saveSections(Object.fromEntries(changed.map((section) => [section, editing[section]])));
+  };
+
+  const exportUrl = `/api/assessments/${assessmentId}/notice/export`;
+
+  return (
+    <>
+      <div className="law-backdrop" onClick={onClose}></div>
+      <aside className="law-drawer privacy-notice animate-slide-in" aria-label="Datenschutzerklärung">
+        <div className="history-header">
+          <h2>Datenschutzerklärung</h2>
+          <button className="history-close" onClick={onClose} aria-label="Datenschutzerklärung schliessen">
+            <CloseIcon />
+          </button>
+        </div>
+
+        <p className="wizard-prefill">
+          Entwurf nach Art. 19 DSG aus dem Eintrag im Bearbeitungsverzeichnis. Vor der Veröffentlichung prüfen, ob eine
+          Ausnahme nach Art. 20 DSG vorliegt, und Platzhalter in eckigen Klammern ergänzen.
+        </p>
+
+        {error && <p className="law-status error">{error}</p>}
+        {!error && loading && <p className="law-status">Datenschutzerklärung wird erstellt...</p>}
+
+        {notice && (
+          <>
+            <div className="measures-overview-actions">
+              <a className="law-back" href={`${exportUrl}?format=html`} download>
+                HTML exportieren
+              </a>
+              <a className="law-back" href={`${exportUrl}?format=md`} download>
+                Markdown exportieren
+              </a>
+              <button className="law-back" onClick={() => downloadPdf(notice)}>
+                PDF exportieren
+              </button>
+            </div>
+            <p className="measure-meta">
+              {notice.title} · aus Version {notice.version}
+              {notice.missingSections.length > 0 && (
+                <span className="measure-overdue">{notice.missingSections.length} Abschnitte fehlen</span>
+              )}
+            </p>
+
+            <dl className="record-fields notice-sections">
+              {NOTICE_SECTIONS.map((section) => (
+                <div key={section} className="record-field">
+                  <dt>
+                    {NOTICE_SECTION_TITLES[section]}
+                    <span className="notice-basis"> · {NOTICE_SECTION_BASIS[section]}</span>
+                    {notice.editedSections.includes(section) && <span className="record-edited"> · angepasst</span>}
+                  </dt>
+                  <dd>
+                    {editing ? (
+                      <textarea
+                        className="law-search"
+                        rows={4}
+                        value={editing[section]}
+                        onChange={(e) => setEditing({ ...editing, [section]: e.target.value })}
+                      />
+                    ) : (
+                      notice.sections[section] || <span className="review-empty">fehlt – im Bearbeitungsverzeichnis oder hier ergänzen</span>
+                    )}
+                    {editing && notice.editedSections.includes(section) && (
+                      <button className="law-back" onClick={() => saveSections({ [section]: null })} disabled={saving}>
+                        Aus DSFA übernehmen
+                      </button>
+                    )}
+                  </dd>
+                </div>
+              ))}
+            </dl>
+
+            {canEdit && (
+              <div className="vendor-actions">
+                {editing ? (
+                  <>
+                    <button className="download-button inline" onClick={handleSave} disabled={saving}>
+                      Speichern
+                    </button>
+                    <button className="download-button inline secondary" onClick={() => setEditing(null)}>
+                      Abbrechen
+                    </button>
+                  </>
+                ) : (
+                  <button className="law-back" onClick={() => setEditing({ ...notice.sections })}>
+                    Bearbeiten
+                  </button>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </aside>
+    </>
+  );
+}
+
+export default PrivacyNotice;
@@ -0,0 +1,228 @@
+import { useEffect, useState } from 'react';
+import { ProcessingRecord, RecordField, RegisterEntry } from './types';
+import { STATUS_LABELS } from './ReviewPanel';
+
+const CloseIcon = () => (
+  <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+    <line x1="18" y1="6" x2="6" y2="18"></line>
+    <line x1="6" y1="6" x2="18" y2="18"></line>
+  </svg>
+);
+
+// Mirrors RECORD_FIELD_LABELS in processingRecord.ts on the server (Art. 12 Abs. 2 DSG)
+export const RECORD_FIELD_LABELS: Record<RecordField, string> = {
+  controller: 'Verantwortlicher',
+  purpose: 'Bearbeitungszweck',
+  dataSubjects: 'Kategorien betroffener Personen',
+  dataCategories: 'Kategorien bearbeiteter Personendaten',
+  recipients: 'Kategorien der Empfängerinnen und Empfänger',
+  retention: 'Aufbewahrungsdauer',
+  security: 'Massnahmen zur Datensicherheit',
+  transfers: 'Bekanntgabe ins Ausland',
+};
+
+const RECORD_FIELDS = Object.keys(RECORD_FIELD_LABELS) as RecordField[];
+
+const readError = async (response: Response, fallback: string): Promise<string> => {
+  try {
+    const data = await response.json();
+    return data.error || fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+// Verzeichnis der Bearbeitungstätigkeiten: one entry per complete assessment, with CSV and XLSX export
+function ProcessingRegister({
+  canEdit,
+  onOpenAssessment,
+  onClose,
+}: {
+  canEdit: boolean;
+  onOpenAssessment: (id: string) => void;
+  onClose: () => void;
+}) {
+  const [entries, setEntries] = useState<RegisterEntry[]>([]);
+  const [search, setSearch] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editing, setEditing] = useState<{ id: string; fields: Record<RecordField, string> } | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetch('/api/register')
+      .then(async (response) => {
+        if (!response.ok) {
+          throw new Error(await readError(response, 'Verzeichnis konnte nicht geladen werden'));
+        }
+        const data = await response.json();
+        setEntries(data.entries || []);
+      })
+      .catch((err) => setError(err.message))
+      .finally(() => setLoading(false));
+  }, []);
+
+  // null resets a field to the text generated from the DSFA
+  const saveFields = async (entry: RegisterEntry, fields: Partial<Record<RecordField, string | null>>) => {
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/assessments/${entry.assessmentId}/record`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ fields }),
+      });
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Eintrag konnte nicht gespeichert werden'));
+      }
+      const record: ProcessingRecord = await response.json();
+      setEntries((prev) =>
+        prev.map((item) =>
+          item.assessmentId === entry.assessmentId
+            ? { ...item, ...record, missingFields: RECORD_FIELDS.filter((field) => !record.fields[field].trim()) }
+            : item
+        )
+      );
+      setEditing(null);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSave = (entry: RegisterEntry) => {
+    if (!editing) return;
+    const changed = RECORD_FIELDS.filter((field) => editing.fields[field].trim() !== entry.fields[field]);
+    if (changed.length === 0) {
+      setEditing(null);
+      return;
+    }
+    saveFields(entry, Object.fromEntries(changed.map((field) => [field, editing.fields[field]])));
+  };
+
+  const query = search.trim().toLowerCase();
+  const shown = query
+    ? entries.filter((entry) =>
+        [entry.assessmentTitle, ...RECORD_FIELDS.map((field) => entry.fields[field])].some((value) =>
+          value.toLowerCase().includes(query)
+        )
+      )
+    : entries;
+
+  return (
+    <>
+      <div className="law-backdrop" onClick={onClose}></div>
+      <aside className="law-drawer processing-register animate-slide-in" aria-label="Verzeichnis der Bearbeitungstätigkeiten">
+        <div className="history-header">
+          <h2>Bearbeitungsverzeichnis</h2>
+          <button className="history-close" onClick={onClose} aria-label="Verzeichnis schliessen">
+            <CloseIcon />
+          </button>
+        </div>
+
+        <p className="wizard-prefill">
+          Einträge nach Art. 12 Abs. 2 DSG, erzeugt aus den vollständigen DSFA. Jede neue Version aktualisiert den Eintrag;
+          von Hand angepasste Felder bleiben erhalten.
+        </p>
+        <input
+          type="search"
+          className="law-search"
+          placeholder="Einträge durchsuchen"
+          value={search}
+          onChange={(e) => setSearch(e.target.value)}
+        />
+        <div className="measures-overview-actions">
+          <a className="law-back" href="/api/register/export?format=csv" download>
+            CSV exportieren
+          </a>
+          <a className="law-back" href="/api/register/export?format=xlsx" download>
+            XLSX exportieren
+          </a>
+        </div>
+
+        {error && <p className="law-status error">{error}</p>}
+        {!error && loading && <p className="law-status">Verzeichnis wird geladen...</p>}
+        {!error && !loading && shown.length === 0 && <p className="law-status">Keine Einträge gefunden.</p>}
+
+        <ul className="user-list">
+          {shown.map((entry) => {
+            const isEditing = editing?.id === entry.assessmentId;
+            return (
+              <li key={entry.assessmentId} className="user-item record-item">
+                <button className="measure-assessment" onClick={() => onOpenAssessment(entry.assessmentId)}>
+                  {entry.assessmentTitle}
+                </button>
+                <p className="measure-meta">
+                  {STATUS_LABELS[entry.assessmentStatus]} · aus Version {entry.version}
+                  {entry.approvedVersion && ` · freigegeben: Version ${entry.approvedVersion}`}
+                  {entry.missingFields.length > 0 && (
+                    <span className="measure-overdue">{entry.missingFields.length} Angaben fehlen</span>
+                  )}
+                </p>
+                <dl className="record-fields">
+                  {RECORD_FIELDS.map((field) => (
+                    <div key={field} className="record-field">
+                      <dt>
+                        {RECORD_FIELD_LABELS[field]}
+                        {entry.editedFields.includes(field) && <span className="record-edited"> · angepasst</span>}
+                      </dt>
+                      <dd>
+                        {isEditing ? (
+                          <textarea
+                            className="law-search"
+                            rows={2}
+                            value={editing.fields[field]}
+                            onChange={(e) =>
+                              setEditing({ id: entry.assessmentId, fields: { ...editing.fields, [field]: e.target.value } })
+                            }
+                          />
+                        ) : (
+                          entry.fields[field] || <span className="review-empty">fehlt</span>
+                        )}
+                        {isEditing && entry.editedFields.includes(field) && (
+                          <button
+                            className="law-back"
+                            onClick={() => saveFields(entry, { [field]: null })}
+                            disabled={saving}
+                          >
+                            Aus DSFA übernehmen
+                          </button>
+                        )}
+                      </dd>
+                    </div>
+                  ))}
+                </dl>
+                {canEdit && (
+                  <div className="vendor-actions">
+                    {isEditing ? (
+                      <>
+                        <button className="download-button inline" onClick={() => handleSave(entry)} disabled={saving}>
+                          Speichern
+                        </button>
+                        <button className="download-button inline secondary" onClick={() => setEditing(null)}>
+                          Abbrechen
+                        </button>
+                      </>
+                    ) : (
+                      <button
+                        className="law-back"
+                        onClick={() => setEditing({ id: entry.assessmentId, fields: { ...entry.fields } })}
+                      >
+                        Bearbeiten
+                      </button>
+                    )}
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ul>
+      </aside>
+    </>
+  );
+}
+
+export default ProcessingRegister;
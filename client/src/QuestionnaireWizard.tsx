@@ -0,0 +1,555 @@
+import { useState } from 'react';
+import { KnownInfo } from './types';
+
+// --- DSFA questionnaire ---
+// Asks for the six inputs the model needs (Zweck, betroffene Personen, Datenkategorien,
+// Umfang, technische Umsetzung, Rechtfertigungsgrund) step by step and composes them
+// into the analysis input. Fields are pre-filled with what the model already found.
+
+type StepKey = keyof KnownInfo;
+
+type Answers = {
+  zweck: string;
+  betroffeneGruppen: string[];
+  betroffeneWeitere: string;
+  datenkategorien: string[];
+  besondereKategorien: string[];
+  keineBesonderenKategorien: boolean;
+  datenkategorienWeitere: string;
+  anzahlPersonen: string;
+  aufbewahrung: string;
+  umfangWeitere: string;
+  betrieb: string;
+  hostingLand: string;
+  technikWeitere: string;
+  rechtfertigung: string[];
+  rechtfertigungWeitere: string;
+};
+
+type Option = {
+  label: string;
+  // Lower-case word starts that pre-select the option when the model found them
+  keywords: string[];
+};
+
+const STEPS: { key: StepKey; title: string; question: string }[] = [
+  { key: 'zweck', title: 'Zweck', question: 'Wozu werden die Personendaten bearbeitet?' },
+  { key: 'betroffenePersonen', title: 'Betroffene Personen', question: 'Wessen Personendaten werden bearbeitet?' },
+  { key: 'datenkategorien', title: 'Datenkategorien', question: 'Welche Personendaten werden bearbeitet?' },
+  { key: 'umfang', title: 'Umfang', question: 'Wie viele Personen sind betroffen und wie lange werden die Daten aufbewahrt?' },
+  {
+    key: 'technischeUmsetzung',
+    title: 'Technische Umsetzung',
+    question: 'Wo und mit welchen Systemen werden die Daten gespeichert und bearbeitet?',
+  },
+  {
+    key: 'rechtfertigungsgrund',
+    title: 'Rechtfertigungsgrund',
+    question: 'Worauf stützt sich die Bearbeitung?',
+  },
+];
+
+const PERSON_GROUPS: Option[] = [
+  { label: 'Mitarbeitende', keywords: ['mitarbeit', 'angestellt', 'personal', 'arbeitnehm'] },
+  { label: 'Bewerberinnen und Bewerber', keywords: ['bewerb'] },
+  { label: 'Kundinnen und Kunden', keywords: ['kund'] },
+  { label: 'Patientinnen und Patienten', keywords: ['patient'] },
+  { label: 'Kinder und Jugendliche', keywords: ['kind', 'minderjährig', 'jugendlich', 'schüler'] },
+  { label: 'Lieferanten und Geschäftspartner', keywords: ['lieferant', 'geschäftspartner'] },
+  { label: 'Besucherinnen und Besucher, Öffentlichkeit', keywords: ['besucher', 'öffentlichkeit', 'passant'] },
+];
+
+const DATA_CATEGORIES: Option[] = [
+  { label: 'Kontakt- und Identifikationsdaten', keywords: ['kontakt', 'name', 'adress', 'e mail', 'telefon'] },
+  { label: 'Vertrags- und Finanzdaten', keywords: ['vertrag', 'finanz', 'zahlung', 'bank', 'lohn'] },
+  { label: 'Personal- und Leistungsdaten', keywords: ['personaldat', 'leistung', 'arbeitszeit', 'qualifikation'] },
+  { label: 'Standortdaten', keywords: ['standort', 'gps', 'ortung'] },
+  { label: 'Nutzungs- und Verhaltensdaten', keywords: ['nutzung', 'verhalten', 'tracking', 'logdat', 'cookie'] },
+  { label: 'Bild- und Tonaufnahmen', keywords: ['video', 'bild', 'foto', 'kamera', 'aufnahme'] },
+];
+
+// Besonders schützenswerte Personendaten according to Art. 5 lit. c DSG
+const SPECIAL_CATEGORIES: Option[] = [
+  {
+    label: 'Religiöse, weltanschauliche, politische oder gewerkschaftliche Ansichten oder Tätigkeiten',
+    keywords: ['religi', 'weltanschau', 'politisch', 'gewerkschaft'],
+  },
+  {
+    label: 'Gesundheit, Intimsphäre oder Zugehörigkeit zu einer Rasse oder Ethnie',
+    keywords: ['gesundheit', 'krank', 'medizin', 'diagnos', 'intim', 'ethni'],
+  },
+  { label: 'Genetische Daten', keywords: ['genetisch'] },
+  { label: 'Biometrische Daten, die eine Person eindeutig identifizieren', keywords: ['biometri', 'fingerabdr', 'gesichtserkennung'] },
+  { label: 'Verwaltungs- und strafrechtliche Verfolgungen oder Sanktionen', keywords: ['strafrecht', 'straf', 'sanktion', 'betreibung'] },
+  { label: 'Massnahmen der sozialen Hilfe', keywords: ['sozialhilfe', 'soziale hilfe'] },
+];
+
+const HEADCOUNT_RANGES = ['unter 100', "100 bis 1'000", "1'000 bis 10'000", "10'000 bis 100'000", "über 100'000"];
+
+const OPERATION_MODES: Option[] = [
+  { label: 'Eigene Server (On-Premises)', keywords: ['eigene server', 'on premise', 'rechenzentrum', 'lokal'] },
+  { label: 'Cloud-Dienst (SaaS / IaaS)', keywords: ['cloud', 'saas', 'aws', 'azure', 'google', 'microsoft 365'] },
+  { label: 'Externer Dienstleister (Auftragsbearbeiter)', keywords: ['dienstleister', 'auftragsbearbeit', 'outsourc'] },
+];
+
+// Countries outside Switzerland and the EU/EEA need a check under Art. 16 DSG
+const HOSTING_COUNTRIES: (Option & { adequate: boolean })[] = [
+  { label: 'Schweiz', keywords: ['schweiz', 'ch '], adequate: true },
+  { label: 'Deutschland', keywords: ['deutschland'], adequate: true },
+  { label: 'Österreich', keywords: ['österreich'], adequate: true },
+  { label: 'Frankreich', keywords: ['frankreich'], adequate: true },
+  { label: 'Irland', keywords: ['irland'], adequate: true },
+  { label: 'Niederlande', keywords: ['niederlande'], adequate: true },
+  { label: 'Anderer EU/EWR-Staat', keywords: ['eu ', 'ewr'], adequate: true },
+  { label: 'Vereinigtes Königreich', keywords: ['vereinigtes königreich', 'grossbritannien', 'uk '], adequate: true },
+  { label: 'USA', keywords: ['usa', 'vereinigte staaten', 'us '], adequate: false },
+  { label: 'Indien', keywords: ['indien'], adequate: false },
+  { label: 'Anderes Land', keywords: [], adequate: false },
+];
+
+const LEGAL_BASES: Option[] = [
+  { label: 'Einwilligung der betroffenen Personen (Art. 31 Abs. 1 DSG)', keywords: ['einwillig', 'zustimm'] },
+  { label: 'Abschluss oder Abwicklung eines Vertrags (Art. 31 Abs. 2 lit. a DSG)', keywords: ['vertrag'] },
+  { label: 'Arbeitsverhältnis (Art. 328b OR)', keywords: ['arbeitsverhältnis', 'arbeitsvertrag', '328b'] },
+  { label: 'Gesetzliche Pflicht oder Grundlage', keywords: ['gesetzlich', 'gesetzes', 'rechtsgrundlage'] },
+  { label: 'Überwiegendes privates Interesse (Art. 31 Abs. 1 DSG)', keywords: ['privates interesse', 'berechtigtes interesse'] },
+  { label: 'Überwiegendes öffentliches Interesse (Art. 31 Abs. 1 DSG)', keywords: ['öffentliches interesse'] },
+];
+
+// Heading of the composed block; a second run of the wizard replaces the previous block
+const QUESTIONNAIRE_MARKER = 'Ergänzende Angaben aus dem DSFA-Fragebogen:';
+
+const normalize = (value: string) => ` ${value.toLowerCase().replace(/[^a-zäöüß0-9]+/g, ' ')} `;
+
+const matchOptions = (options: Option[], value: string): string[] => {
+  const text = normalize(value);
+  return options
+    .filter((option) => option.keywords.some((keyword) => text.includes(` ${keyword}`)))
+    .map((option) => option.label);
+};
+
+const createAnswers = (known: KnownInfo): Answers => {
+  const special = matchOptions(SPECIAL_CATEGORIES, known.datenkategorien);
+  return {
+    zweck: known.zweck,
+    betroffeneGruppen: matchOptions(PERSON_GROUPS, known.betroffenePersonen),
+    betroffeneWeitere: known.betroffenePersonen,
+    datenkategorien: matchOptions(DATA_CATEGORIES, known.datenkategorien),
+    besondereKategorien: special,
+    keineBesonderenKategorien: false,
+    datenkategorienWeitere: known.datenkategorien,
+    anzahlPersonen: '',
+    aufbewahrung: '',
+    umfangWeitere: known.umfang,
+    betrieb: matchOptions(OPERATION_MODES, known.technischeUmsetzung)[0] || '',
+    hostingLand: matchOptions(HOSTING_COUNTRIES, known.technischeUmsetzung)[0] || '',
+    technikWeitere: known.technischeUmsetzung,
+    rechtfertigung: matchOptions(LEGAL_BASES, known.rechtfertigungsgrund),
+    rechtfertigungWeitere: known.rechtfertigungsgrund,
+  };
+};
+
+const joinParts = (parts: string[]): string => parts.map((part) => part.trim()).filter(Boolean).join('; ');
+
+// Text of one step in the composed input, empty if nothing was answered
+const composeStep = (key: StepKey, answers: Answers): string => {
+  switch (key) {
+    case 'zweck':
+      return answers.zweck.trim();
+    case 'betroffenePersonen':
+      return joinParts([answers.betroffeneGruppen.join(', '), answers.betroffeneWeitere]);
+    case 'datenkategorien':
+      return joinParts([
+        answers.datenkategorien.join(', '),
+        answers.besondereKategorien.length > 0
+          ? `besonders schützenswerte Personendaten (Art. 5 lit. c DSG): ${answers.besondereKategorien.join(', ')}`
+          : answers.keineBesonderenKategorien
+            ? 'keine besonders schützenswerten Personendaten (Art. 5 lit. c DSG)'
+            : '',
+        answers.datenkategorienWeitere,
+      ]);
+    case 'umfang':
+      return joinParts([
+        answers.anzahlPersonen ? `Anzahl betroffener Personen: ${answers.anzahlPersonen}` : '',
+        answers.aufbewahrung ? `Aufbewahrungsdauer: ${answers.aufbewahrung}` : '',
+        answers.umfangWeitere,
+      ]);
+    case 'technischeUmsetzung':
+      return joinParts([
+        answers.betrieb ? `Betrieb: ${answers.betrieb}` : '',
+        answers.hostingLand ? `Speicherort der Daten: ${answers.hostingLand}` : '',
+        answers.technikWeitere,
+      ]);
+    case 'rechtfertigungsgrund':
+      return joinParts([answers.rechtfertigung.join(', '), answers.rechtfertigungWeitere]);
+  }
+};
+
+const composeQuestionnaireText = (baseText: string, answers: Answers): string => {
+  const original = baseText.split(QUESTIONNAIRE_MARKER)[0].trim();
+  const lines = STEPS.map((step) => ({ step, value: composeStep(step.key, answers) }))
+    .filter(({ value }) => value)
+    .map(({ step, value }) => `- ${step.title}: ${value}`);
+  return [original, lines.length > 0 ? `${QUESTIONNAIRE_MARKER}\n${lines.join('\n')}` : '']
+    .filter(Boolean)
+    .join('\n\n');
+};
+
+// Steps the model reported as missing, matched by the step title in the missing-info items
+const findMissingSteps = (missingInfo: string[], known: KnownInfo): StepKey[] => {
+  const items = missingInfo.map(normalize);
+  const stepWords: Record<StepKey, string[]> = {
+    zweck: ['zweck'],
+    betroffenePersonen: ['betroffen', 'personenkreis'],
+    datenkategorien: ['kategorie', 'datenart', 'schützenswert'],
+    umfang: ['umfang', 'anzahl', 'dauer', 'aufbewahr'],
+    technischeUmsetzung: ['technisch', 'speicher', 'cloud', 'server', 'hosting'],
+    rechtfertigungsgrund: ['rechtfertigung', 'rechtsgrundlage', 'rechtliche grundlage', 'einwilligung'],
+  };
+  return STEPS.map((step) => step.key).filter(
+    (key) => !known[key] || items.some((item) => stepWords[key].some((word) => item.includes(` ${word}`)))
+  );
+};
+
+const CheckboxGroup = ({
+  options,
+  selected,
+  onChange,
+  disabled,
+}: {
+  options: Option[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+  disabled?: boolean;
+}) => (
+  <div className="wizard-options">
+    {options.map((option) => (
+      <label key={option.label} className="wizard-option">
+        <input
+          type="checkbox"
+          checked={selected.includes(option.label)}
+          disabled={disabled}
+          onChange={() =>
+            onChange(
+              selected.includes(option.label)
+                ? selected.filter((label) => label !== option.label)
+                : [...selected, option.label]
+            )
+          }
+        />
+        <span>{option.label}</span>
+      </label>
+    ))}
+  </div>
+);
+
+function QuestionnaireWizard({
+  baseText,
+  knownInfo,
+  missingInfo,
+  disabled,
+  onApply,
+  onClose,
+}: {
+  baseText: string;
+  knownInfo?: KnownInfo;
+  missingInfo: string[];
+  disabled: boolean;
+  onApply: (text: string, analyze: boolean) => void;
+  onClose: () => void;
+}) {
+  const known: KnownInfo = knownInfo || {
+    zweck: '',
+    betroffenePersonen: '',
+    datenkategorien: '',
+    umfang: '',
+    technischeUmsetzung: '',
+    rechtfertigungsgrund: '',
+  };
+  const [answers, setAnswers] = useState<Answers>(() => createAnswers(known));
+  const [missingSteps] = useState<StepKey[]>(() => findMissingSteps(missingInfo, known));
+  // Start with the first step the model could not answer; STEPS.length is the summary
+  const [stepIndex, setStepIndex] = useState(() =>
+    Math.max(0, STEPS.findIndex((step) => missingSteps.includes(step.key)))
+  );
+
+  const update = <K extends keyof Answers>(key: K, value: Answers[K]) =>
+    setAnswers((prev) => ({ ...prev, [key]: value }));
+
+  const step = STEPS[stepIndex];
+  const composedText = composeQuestionnaireText(baseText, answers);
+  const unanswered = STEPS.filter((s) => !composeStep(s.key, answers));
+  const hostingCountry = HOSTING_COUNTRIES.find((country) => country.label === answers.hostingLand);
+
+  const prefillNote = (key: StepKey) =>
+    known[key] ? <p className="wizard-prefill">Aus Ihrer Beschreibung übernommen – bitte prüfen und ergänzen.</p> : null;
+
+  const renderStep = () => {
+    switch (step.key) {
+      case 'zweck':
+        return (
+          <>
+            {prefillNote('zweck')}
+            <textarea
+              className="wizard-textarea"
+              value={answers.zweck}
+              onChange={(e) => update('zweck', e.target.value)}
+              placeholder="z.B. Verwaltung der Arbeitszeiten und Absenzen der Mitarbeitenden"
+              rows={4}
+              disabled={disabled}
+            />
+          </>
+        );
+      case 'betroffenePersonen':
+        return (
+          <>
+            <CheckboxGroup
+              options={PERSON_GROUPS}
+              selected={answers.betroffeneGruppen}
+              onChange={(value) => update('betroffeneGruppen', value)}
+              disabled={disabled}
+            />
+            {prefillNote('betroffenePersonen')}
+            <textarea
+              className="wizard-textarea"
+              value={answers.betroffeneWeitere}
+              onChange={(e) => update('betroffeneWeitere', e.target.value)}
+              placeholder="Weitere betroffene Personen oder Präzisierungen"
+              rows={2}
+              disabled={disabled}
+            />
+          </>
+        );
+      case 'datenkategorien':
+        return (
+          <>
+            <CheckboxGroup
+              options={DATA_CATEGORIES}
+              selected={answers.datenkategorien}
+              onChange={(value) => update('datenkategorien', value)}
+              disabled={disabled}
+            />
+            <h4 className="wizard-subtitle">Besonders schützenswerte Personendaten (Art. 5 lit. c DSG)</h4>
+            <CheckboxGroup
+              options={SPECIAL_CATEGORIES}
+              selected={answers.besondereKategorien}
+              onChange={(value) => {
+                update('besondereKategorien', value);
+                if (value.length > 0) update('keineBesonderenKategorien', false);
+              }}
+              disabled={disabled}
+            />
+            <label className="wizard-option">
+              <input
+                type="checkbox"
+                checked={answers.keineBesonderenKategorien}
+                disabled={disabled || answers.besondereKategorien.length > 0}
+                onChange={(e) => update('keineBesonderenKategorien', e.target.checked)}
+              />
+              <span>Es werden keine besonders schützenswerten Personendaten bearbeitet</span>
+            </label>
+            {prefillNote('datenkategorien')}
+            <textarea
+              className="wizard-textarea"
+              value={answers.datenkategorienWeitere}
+              onChange={(e) => update('datenkategorienWeitere', e.target.value)}
+              placeholder="Weitere Datenkategorien oder Präzisierungen"
+              rows={2}
+              disabled={disabled}
+            />
+          </>
+        );
+      case 'umfang':
+        return (
+          <>
+            <label className="wizard-field">
+              <span>Anzahl betroffener Personen</span>
+              <select
+                value={answers.anzahlPersonen}
+                onChange={(e) => update('anzahlPersonen', e.target.value)}
+                disabled={disabled}
+              >
+                <option value="">Bitte wählen</option>
+                {HEADCOUNT_RANGES.map((range) => (
+                  <option key={range} value={range}>
+                    {range}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="wizard-field">
+              <span>Aufbewahrungsdauer</span>
+              <input
+                type="text"
+                value={answers.aufbewahrung}
+                onChange={(e) => update('aufbewahrung', e.target.value)}
+                placeholder="z.B. bis 2 Jahre nach Austritt"
+                disabled={disabled}
+              />
+            </label>
+            {prefillNote('umfang')}
+            <textarea
+              className="wizard-textarea"
+              value={answers.umfangWeitere}
+              onChange={(e) => update('umfangWeitere', e.target.value)}
+              placeholder="Datenvolumen, Häufigkeit, Dauer des Projekts"
+              rows={2}
+              disabled={disabled}
+            />
+          </>
+        );
+      case 'technischeUmsetzung':
+        return (
+          <>
+            <label className="wizard-field">
+              <span>Betrieb</span>
+              <select value={answers.betrieb} onChange={(e) => update('betrieb', e.target.value)} disabled={disabled}>
+                <option value="">Bitte wählen</option>
+                {OPERATION_MODES.map((mode) => (
+                  <option key={mode.label} value={mode.label}>
+                    {mode.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="wizard-field">
+              <span>Speicherort (Land)</span>
+              <select
+                value={answers.hostingLand}
+                onChange={(e) => update('hostingLand', e.target.value)}
+                disabled={disabled}
+              >
+                <option value="">Bitte wählen</option>
+                {HOSTING_COUNTRIES.map((country) => (
+                  <option key={country.label} value={country.label}>
+                    {country.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+            {hostingCountry && !hostingCountry.adequate && (
+              <p className="wizard-warning">
+                Bekanntgabe ins Ausland: Für dieses Land ist zu prüfen, ob ein angemessener Schutz besteht oder geeignete
+                Garantien vorliegen (Art. 16 DSG).
+              </p>
+            )}
+            {prefillNote('technischeUmsetzung')}
+            <textarea
+              className="wizard-textarea"
+              value={answers.technikWeitere}
+              onChange={(e) => update('technikWeitere', e.target.value)}
+              placeholder="Eingesetzte Software, Anbieter, Schnittstellen, Zugriffe"
+              rows={3}
+              disabled={disabled}
+            />
+          </>
+        );
+      case 'rechtfertigungsgrund':
+        return (
+          <>
+            <CheckboxGroup
+              options={LEGAL_BASES}
+              selected={answers.rechtfertigung}
+              onChange={(value) => update('rechtfertigung', value)}
+              disabled={disabled}
+            />
+            {prefillNote('rechtfertigungsgrund')}
+            <textarea
+              className="wizard-textarea"
+              value={answers.rechtfertigungWeitere}
+              onChange={(e) => update('rechtfertigungWeitere', e.target.value)}
+              placeholder="Begründung, z.B. welches Interesse überwiegt oder welches Gesetz die Bearbeitung vorsieht"
+              rows={2}
+              disabled={disabled}
+            />
+          </>
+        );
+    }
+  };
+
+  return (
+    <div className="wizard">
+      <ol className="wizard-steps">
+        {STEPS.map((s, index) => {
+          const answered = Boolean(composeStep(s.key, answers));
+          return (
+            <li key={s.key}>
+              <button
+                className={`wizard-step-button ${index === stepIndex ? 'active' : ''} ${
+                  answered ? 'done' : missingSteps.includes(s.key) ? 'missing' : ''
+                }`}
+                onClick={() => setStepIndex(index)}
+              >
+                <span className="wizard-step-number">{answered ? '✓' : index + 1}</span>
+                <span>{s.title}</span>
+              </button>
+            </li>
+          );
+        })}
+        <li>
+          <button
+            className={`wizard-step-button ${stepIndex === STEPS.length ? 'active' : ''}`}
+            onClick={() => setStepIndex(STEPS.length)}
+          >
+            <span className="wizard-step-number">✎</span>
+            <span>Übersicht</span>
+          </button>
+        </li>
+      </ol>
+
+      {step ? (
+        <div className="wizard-step">
+          <h3>
+            {stepIndex + 1}. {step.title}
+            {missingSteps.includes(step.key) && <span className="wizard-badge">fehlt</span>}
+          </h3>
+          <p className="wizard-question">{step.question}</p>
+          {renderStep()}
+        </div>
+      ) : (
+        <div className="wizard-step">
+          <h3>Übersicht</h3>
+          {unanswered.length > 0 && (
+            <p className="wizard-warning">
+              Noch ohne Angaben: {unanswered.map((s) => s.title).join(', ')}. Die Analyse fragt sonst erneut nach.
+            </p>
+          )}
+          <pre className="wizard-preview">{composedText}</pre>
+        </div>
+      )}
+
+      <div className="wizard-nav">
+        <button className="law-back" onClick={onClose}>
+          Text selbst ergänzen
+        </button>
+        <div className="wizard-nav-buttons">
+          {stepIndex > 0 && (
+            <button className="download-button inline secondary" onClick={() => setStepIndex(stepIndex - 1)}>
+              Zurück
+            </button>
+          )}
+          {step ? (
+            <button className="download-button inline" onClick={() => setStepIndex(stepIndex + 1)}>
+              Weiter
+            </button>
+          ) : (
+            <>
+              <button
+                className="download-button inline secondary"
+                onClick={() => onApply(composedText, false)}
+                disabled={disabled}
+              >
+                In Texteingabe übernehmen
+              </button>
+              <button className="download-button inline" onClick={() => onApply(composedText, true)} disabled={disabled}>
+                Übernehmen und analysieren
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export default QuestionnaireWizard;
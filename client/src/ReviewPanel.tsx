@@ -0,0 +1,240 @@
+import { useState } from 'react';
+import { AssessmentStatus, Permission, StoredAssessment } from './types';
+
+const MessageIcon = () => (
+  <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+    <path d="M21 15a2 2 0 0 1-2 2H7l-4 4V5a2 2 0 0 1 2-2h14a2 2 0 0 1 2 2z"></path>
+  </svg>
+);
+
+export const STATUS_LABELS: Record<AssessmentStatus, string> = {
+  draft: 'Entwurf',
+  in_review: 'In Prüfung',
+  approved: 'Freigegeben',
+  rejected: 'Zurückgewiesen',
+  revision: 'Überarbeitung',
+};
+
+type StatusAction = {
+  to: AssessmentStatus;
+  label: string;
+  permission: Permission;
+};
+
+// Mirrors the transitions allowed by the server (workflow.ts)
+const STATUS_ACTIONS: Record<AssessmentStatus, StatusAction[]> = {
+  draft: [{ to: 'in_review', label: 'Zur Prüfung einreichen', permission: 'assessment:edit' }],
+  in_review: [
+    { to: 'approved', label: 'Freigeben', permission: 'assessment:approve' },
+    { to: 'rejected', label: 'Zurückweisen', permission: 'assessment:approve' },
+  ],
+  approved: [{ to: 'revision', label: 'Überarbeitung beginnen', permission: 'assessment:edit' }],
+  rejected: [{ to: 'revision', label: 'Überarbeitung beginnen', permission: 'assessment:edit' }],
+  revision: [{ to: 'in_review', label: 'Erneut zur Prüfung einreichen', permission: 'assessment:edit' }],
+};
+
+const formatDate = (value: string) =>
+  new Intl.DateTimeFormat('de-CH', { dateStyle: 'medium', timeStyle: 'short' }).format(new Date(value));
+
+// Review workflow of an assessment: status with its history, the actions the
+// user's roles allow, and review comments. Only the DPO approves or rejects.
+function ReviewPanel({
+  assessment,
+  activeVersion,
+  permissions,
+  currentUserId,
+  onUpdate,
+}: {
+  assessment: StoredAssessment;
+  activeVersion: number;
+  permissions: Permission[];
+  currentUserId: string;
+  onUpdate: (assessment: StoredAssessment) => void;
+}) {
+  const [comment, setComment] = useState('');
+  const [statusNote, setStatusNote] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canComment = permissions.includes('assessment:comment');
+  const latest = assessment.versions[assessment.versions.length - 1];
+  const approval = assessment.approval;
+  const comments = assessment.comments || [];
+  const actions = STATUS_ACTIONS[assessment.status].filter((action) => permissions.includes(action.permission));
+  const isDecision = assessment.status === 'in_review' && actions.length > 0;
+  // Four-eyes principle, checked again on the server
+  const submission = [...assessment.transitions].reverse().find((transition) => transition.to === 'in_review');
+  const ownReview = isDecision && [submission?.by.id, latest.createdBy?.id].includes(currentUserId);
+  // Approving a high risk needs a justification (Art. 23 DSG), rejecting always needs a reason
+  const justificationRequired = isDecision && latest.result.riskLevel === 'HIGH';
+
+  const post = async (url: string, body: object, fallbackError: string) => {
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(body),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || fallbackError);
+      }
+      onUpdate(data);
+      return true;
+    } catch (err: any) {
+      setError(err.message || fallbackError);
+      return false;
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleComment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!comment.trim()) return;
+    const saved = await post(
+      `/api/assessments/${assessment.id}/comments`,
+      { text: comment.trim(), version: activeVersion },
+      'Kommentar konnte nicht gespeichert werden'
+    );
+    if (saved) setComment('');
+  };
+
+  const handleStatusChange = async (action: StatusAction) => {
+    if (action.to === 'approved' && !window.confirm(`Version ${latest.version} dieser DSFA freigeben?`)) {
+      return;
+    }
+    const saved = await post(
+      `/api/assessments/${assessment.id}/status`,
+      { status: action.to, note: statusNote.trim() || undefined },
+      'Status konnte nicht geändert werden'
+    );
+    if (saved) setStatusNote('');
+  };
+
+  return (
+    <div className="result-section review-panel animate-fade-in">
+      <div className="section-header">
+        <div className="section-icon">
+          <MessageIcon />
+        </div>
+        <h2>Prüfung und Freigabe</h2>
+      </div>
+
+      <div className={`approval-status status-${assessment.status}`}>
+        <strong>Status: {STATUS_LABELS[assessment.status]}</strong>
+        {approval && (
+          <span>
+            Freigegeben: Version {approval.version} durch {approval.approvedBy.name} am {formatDate(approval.approvedAt)}
+          </span>
+        )}
+        {approval?.note && <span className="approval-note">Begründung: {approval.note}</span>}
+        {approval && approval.version < latest.version && (
+          <span className="approval-outdated">
+            Die aktuelle Version {latest.version} ist noch nicht freigegeben.
+          </span>
+        )}
+      </div>
+
+      {actions.length > 0 && (
+        <div className="approval-form">
+          <input
+            type="text"
+            value={statusNote}
+            onChange={(e) => setStatusNote(e.target.value)}
+            placeholder={
+              justificationRequired
+                ? 'Begründung (bei hohem Risiko für die Freigabe erforderlich)'
+                : isDecision
+                  ? 'Begründung (für die Zurückweisung erforderlich)'
+                  : 'Bemerkung (optional)'
+            }
+            className="change-note-input"
+            disabled={saving}
+          />
+          {actions.map((action) => (
+            <button
+              key={action.to}
+              className={`download-button inline ${action.to === 'rejected' ? 'danger' : ''}`}
+              onClick={() => handleStatusChange(action)}
+              disabled={
+                saving ||
+                (action.to !== 'in_review' && ownReview) ||
+                (action.to === 'in_review' && Boolean(latest.result.needsMoreInfo)) ||
+                (action.to === 'approved' && justificationRequired && !statusNote.trim()) ||
+                (action.to === 'rejected' && !statusNote.trim())
+              }
+              title={
+                action.to === 'in_review' && latest.result.needsMoreInfo
+                  ? 'Analysen mit fehlenden Informationen können nicht eingereicht werden'
+                  : action.to !== 'in_review' && ownReview
+                    ? 'Eine selbst eingereichte oder erstellte DSFA muss von einer anderen Person geprüft werden'
+                    : undefined
+              }
+            >
+              {action.label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {assessment.transitions.length > 0 && (
+        <>
+          <h3 className="review-subtitle">Verlauf</h3>
+          <ol className="status-history">
+            {assessment.transitions.map((transition, index) => (
+              <li key={index}>
+                <span className="comment-meta">
+                  {formatDate(transition.at)} · {transition.by.name} · Version {transition.version}
+                </span>
+                <span>
+                  {STATUS_LABELS[transition.from]} → <strong>{STATUS_LABELS[transition.to]}</strong>
+                </span>
+                {transition.note && <span className="approval-note">{transition.note}</span>}
+              </li>
+            ))}
+          </ol>
+        </>
+      )}
+
+      <h3 className="review-subtitle">Kommentare</h3>
+      {comments.length === 0 ? (
+        <p className="review-empty">Noch keine Kommentare.</p>
+      ) : (
+        <ul className="comment-list">
+          {comments.map((item) => (
+            <li key={item.id} className={`comment-item ${item.version === activeVersion ? 'active' : ''}`}>
+              <span className="comment-meta">
+                {item.author.name} · {formatDate(item.createdAt)} · Version {item.version}
+              </span>
+              <p>{item.text}</p>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {canComment && (
+        <form className="comment-form" onSubmit={handleComment}>
+          <textarea
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            placeholder={`Kommentar zu Version ${activeVersion}...`}
+            rows={3}
+            disabled={saving}
+          />
+          <button type="submit" className="download-button inline" disabled={saving || !comment.trim()}>
+            Kommentieren
+          </button>
+        </form>
+      )}
+
+      {error && <div className="login-error">{error}</div>}
+    </div>
+  );
+}
+
+export default ReviewPanel;
@@ -0,0 +1,113 @@
+import { RiskEntry } from './types';
+import {
+  LIKELIHOOD_LABELS,
+  RATINGS,
+  SEVERITY_LABELS,
+  getCellLevel,
+  getCellRisks,
+  getRating,
+} from './riskRegister';
+
+const LEVEL_LABELS = { LOW: 'Niedrig', MEDIUM: 'Mittel', HIGH: 'Hoch' };
+
+// 4×4 matrix with severity on the vertical and likelihood on the horizontal axis
+function HeatMap({ title, risks, residual }: { title: string; risks: RiskEntry[]; residual: boolean }) {
+  return (
+    <figure className="heat-map">
+      <figcaption className="heat-map-title">{title}</figcaption>
+      <div className="heat-map-grid">
+        {[...RATINGS].reverse().map((severity) => (
+          <div key={severity} className="heat-map-row">
+            <span className="heat-map-axis">{SEVERITY_LABELS[severity]}</span>
+            {RATINGS.map((likelihood) => {
+              const level = getCellLevel(likelihood, severity);
+              const ids = getCellRisks(risks, residual, likelihood, severity);
+              return (
+                <div
+                  key={likelihood}
+                  className={`heat-map-cell ${level.toLowerCase()}`}
+                  title={`${LIKELIHOOD_LABELS[likelihood]} × ${SEVERITY_LABELS[severity]}: ${LEVEL_LABELS[level]}`}
+                >
+                  {ids.map((id) => (
+                    <span key={id} className="heat-map-risk">{id}</span>
+                  ))}
+                </div>
+              );
+            })}
+          </div>
+        ))}
+        <div className="heat-map-row">
+          <span className="heat-map-axis"></span>
+          {RATINGS.map((likelihood) => (
+            <span key={likelihood} className="heat-map-axis horizontal">{LIKELIHOOD_LABELS[likelihood]}</span>
+          ))}
+        </div>
+      </div>
+      <p className="heat-map-legend">Vertikal: Schwere · Horizontal: Eintrittswahrscheinlichkeit</p>
+    </figure>
+  );
+}
+
+// Risk register with heat maps before and after the measures
+function RiskRegister({ risks }: { risks: RiskEntry[] }) {
+  return (
+    <div className="risk-register">
+      <div className="heat-maps">
+        <HeatMap title="Vor Massnahmen (Bruttorisiko)" risks={risks} residual={false} />
+        <HeatMap title="Nach Massnahmen (Nettorisiko)" risks={risks} residual />
+      </div>
+
+      <div className="risk-register-table-wrapper">
+        <table className="risk-register-table">
+          <thead>
+            <tr>
+              <th>ID</th>
+              <th>Risiko</th>
+              <th>Betroffene Personen</th>
+              <th>Brutto (W × S)</th>
+              <th>Massnahmen</th>
+              <th>Netto (W × S)</th>
+            </tr>
+          </thead>
+          <tbody>
+            {risks.map((risk) => {
+              const before = getRating(risk, false);
+              const after = getRating(risk, true);
+              const beforeLevel = getCellLevel(before.likelihood, before.severity);
+              const afterLevel = getCellLevel(after.likelihood, after.severity);
+              return (
+                <tr key={risk.id}>
+                  <td><strong>{risk.id}</strong></td>
+                  <td>
+                    {risk.description}
+                    <span className="risk-category">{risk.category === 'primär' ? 'Primärrisiko' : 'Sekundärrisiko'}</span>
+                  </td>
+                  <td>{risk.affectedPersons || '–'}</td>
+                  <td>
+                    <span className={`history-item-risk ${beforeLevel.toLowerCase()}`}>
+                      {before.likelihood} × {before.severity} · {LEVEL_LABELS[beforeLevel]}
+                    </span>
+                  </td>
+                  <td>
+                    {risk.measures.length > 0 ? (
+                      <ul className="risk-measures">
+                        {risk.measures.map((measure, index) => <li key={index}>{measure}</li>)}
+                      </ul>
+                    ) : '–'}
+                  </td>
+                  <td>
+                    <span className={`history-item-risk ${afterLevel.toLowerCase()}`}>
+                      {after.likelihood} × {after.severity} · {LEVEL_LABELS[afterLevel]}
+                    </span>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+export default RiskRegister;
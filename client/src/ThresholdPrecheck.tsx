@@ -0,0 +1,89 @@
+import { ReactNode } from 'react';
+import { PrecheckAnswer, PrecheckAnswers, PrecheckResult } from './types';
+import { PRECHECK_ANSWER_LABELS, PRECHECK_GROUPS, PRECHECK_QUESTIONS, hasPrecheckAnswers } from './precheck';
+
+const ANSWERS: PrecheckAnswer[] = ['yes', 'no', 'unknown'];
+
+// Questions of the Art. 22 pre-check. Once a question is answered, "Analysieren"
+// first evaluates the rules on the server and only calls the model if needed.
+function ThresholdPrecheck({
+  answers,
+  disabled,
+  onChange,
+}: {
+  answers: PrecheckAnswers;
+  disabled: boolean;
+  onChange: (answers: PrecheckAnswers) => void;
+}) {
+  return (
+    <details className="precheck" open={hasPrecheckAnswers(answers) || undefined}>
+      <summary>Vorprüfung: Ist eine DSFA erforderlich? (Art. 22 DSG)</summary>
+      <p className="wizard-prefill">
+        Beantworten Sie die Fragen, wenn unklar ist, ob eine DSFA nötig ist. Die Analyse wird dann nur gestartet, wenn
+        eine DSFA erforderlich oder die Lage unklar ist.
+      </p>
+      {PRECHECK_GROUPS.map((group) => (
+        <fieldset key={group.title} className="precheck-group" disabled={disabled}>
+          <legend className="wizard-subtitle">{group.title}</legend>
+          {group.questions.map((id) => (
+            <div key={id} className="precheck-question">
+              <span>{PRECHECK_QUESTIONS[id]}</span>
+              <div className="precheck-answers" role="radiogroup" aria-label={PRECHECK_QUESTIONS[id]}>
+                {ANSWERS.map((answer) => (
+                  <label key={answer} className={`precheck-answer ${answers[id] === answer ? 'selected' : ''}`}>
+                    <input
+                      type="radio"
+                      name={`precheck-${id}`}
+                      checked={answers[id] === answer}
+                      onChange={() => onChange({ ...answers, [id]: answer })}
+                    />
+                    {PRECHECK_ANSWER_LABELS[answer]}
+                  </label>
+                ))}
+              </div>
+            </div>
+          ))}
+        </fieldset>
+      ))}
+    </details>
+  );
+}
+
+// Outcome with reasons; renderText turns the cited articles into links
+export function PrecheckResultView({
+  result,
+  canAnalyze,
+  renderText,
+  onAnalyze,
+}: {
+  result: PrecheckResult;
+  canAnalyze: boolean;
+  renderText: (text: string) => ReactNode;
+  onAnalyze: () => void;
+}) {
+  return (
+    <div className={`precheck-result ${result.outcome} animate-fade-in`}>
+      <h3>Vorprüfung: {result.label}</h3>
+      <ul>
+        {result.reasons.map((reason) => (
+          <li key={reason}>{renderText(reason)}</li>
+        ))}
+      </ul>
+      {result.outcome === 'not_required' && (
+        <div className="precheck-actions">
+          <p className="review-empty">
+            Die Analyse wurde nicht gestartet. Halten Sie den Entscheid und seine Begründung fest, z.B. im Verzeichnis der
+            Bearbeitungstätigkeiten.
+          </p>
+          {canAnalyze && (
+            <button className="download-button inline secondary" onClick={onAnalyze}>
+              Trotzdem DSFA erstellen
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default ThresholdPrecheck;
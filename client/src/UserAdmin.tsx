@@ -0,0 +1,216 @@
+import { useState, useEffect } from 'react';
+import { Role, SessionUser } from './types';
+
+const CloseIcon = () => (
+  <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+    <line x1="18" y1="6" x2="6" y2="18"></line>
+    <line x1="6" y1="6" x2="18" y2="18"></line>
+  </svg>
+);
+
+export const ROLE_LABELS: Record<Role, string> = {
+  author: 'Autor/in',
+  reviewer: 'Prüfer/in',
+  dpo: 'Datenschutzberater/in',
+  admin: 'Administrator/in',
+};
+
+const ROLES: Role[] = ['author', 'reviewer', 'dpo', 'admin'];
+
+const readError = async (response: Response, fallback: string): Promise<string> => {
+  try {
+    const data = await response.json();
+    return data.error || fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+// Account management for administrators: create accounts and assign roles
+function UserAdmin({ currentUserId, onClose }: { currentUserId: string; onClose: () => void }) {
+  const [users, setUsers] = useState<SessionUser[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [username, setUsername] = useState('');
+  const [displayName, setDisplayName] = useState('');
+  const [password, setPassword] = useState('');
+  const [roles, setRoles] = useState<Role[]>(['author']);
+
+  const loadUsers = async () => {
+    try {
+      const response = await fetch('/api/users');
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Benutzer konnten nicht geladen werden'));
+      }
+      const data = await response.json();
+      setUsers(data.users || []);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  useEffect(() => {
+    loadUsers();
+  }, []);
+
+  const updateUser = async (id: string, update: { roles?: Role[]; password?: string }) => {
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/users/${id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(update),
+      });
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Benutzer konnte nicht gespeichert werden'));
+      }
+      const updated: SessionUser = await response.json();
+      setUsers((prev) => prev.map((user) => (user.id === id ? updated : user)));
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const toggleRole = (user: SessionUser, role: Role) => {
+    const next = user.roles.includes(role) ? user.roles.filter((r) => r !== role) : [...user.roles, role];
+    if (next.length === 0) {
+      setError('Jedes Konto braucht mindestens eine Rolle.');
+      return;
+    }
+    updateUser(user.id, { roles: next });
+  };
+
+  const handleResetPassword = (user: SessionUser) => {
+    const newPassword = window.prompt(`Neues Passwort für ${user.displayName} (mindestens 10 Zeichen):`);
+    if (newPassword) {
+      updateUser(user.id, { password: newPassword });
+    }
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/users', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ username: username.trim(), displayName: displayName.trim(), password, roles }),
+      });
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Benutzer konnte nicht angelegt werden'));
+      }
+      const created: SessionUser = await response.json();
+      setUsers((prev) => [...prev, created].sort((a, b) => a.username.localeCompare(b.username)));
+      setUsername('');
+      setDisplayName('');
+      setPassword('');
+      setRoles(['author']);
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <div className="law-backdrop" onClick={onClose}></div>
+      <aside className="law-drawer user-admin animate-slide-in" aria-label="Benutzerverwaltung">
+        <div className="history-header">
+          <h2>Benutzer</h2>
+          <button className="history-close" onClick={onClose} aria-label="Benutzerverwaltung schliessen">
+            <CloseIcon />
+          </button>
+        </div>
+
+        {error && <p className="law-status error">{error}</p>}
+
+        <ul className="user-list">
+          {users.map((user) => (
+            <li key={user.id} className="user-item">
+              <div className="user-item-header">
+                <span className="user-item-name">
+                  {user.displayName} <span className="user-item-username">({user.username})</span>
+                </span>
+                <button className="law-back" onClick={() => handleResetPassword(user)} disabled={saving}>
+                  Passwort zurücksetzen
+                </button>
+              </div>
+              <div className="user-roles">
+                {ROLES.map((role) => (
+                  <label key={role} className="user-role">
+                    <input
+                      type="checkbox"
+                      checked={user.roles.includes(role)}
+                      onChange={() => toggleRole(user, role)}
+                      disabled={saving || (role === 'admin' && user.id === currentUserId)}
+                    />
+                    <span>{ROLE_LABELS[role]}</span>
+                  </label>
+                ))}
+              </div>
+            </li>
+          ))}
+        </ul>
+
+        <form className="user-create" onSubmit={handleCreate}>
+          <h3>Neues Konto</h3>
+          <input
+            type="text"
+            className="law-search"
+            placeholder="Benutzername"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            autoComplete="off"
+          />
+          <input
+            type="text"
+            className="law-search"
+            placeholder="Anzeigename"
+            value={displayName}
+            onChange={(e) => setDisplayName(e.target.value)}
+          />
+          <input
+            type="password"
+            className="law-search"
+            placeholder="Passwort (mindestens 10 Zeichen)"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoComplete="new-password"
+          />
+          <div className="user-roles">
+            {ROLES.map((role) => (
+              <label key={role} className="user-role">
+                <input
+                  type="checkbox"
+                  checked={roles.includes(role)}
+                  onChange={() =>
+                    setRoles((prev) => (prev.includes(role) ? prev.filter((r) => r !== role) : [...prev, role]))
+                  }
+                />
+                <span>{ROLE_LABELS[role]}</span>
+              </label>
+            ))}
+          </div>
+          <button
+            type="submit"
+            className="download-button inline"
+            disabled={saving || !username.trim() || !password || roles.length === 0}
+          >
+            Konto anlegen
+          </button>
+        </form>
+      </aside>
+    </>
+  );
+}
+
+export default UserAdmin;
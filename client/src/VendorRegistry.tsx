@@ -0,0 +1,353 @@
+import { useState } from 'react';
+import { Vendor, VendorCheck, VendorGap, VendorProfile } from './types';
+
+const CloseIcon = () => (
+  <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+    <line x1="18" y1="6" x2="6" y2="18"></line>
+    <line x1="6" y1="6" x2="18" y2="18"></line>
+  </svg>
+);
+
+export const VENDOR_REQUIREMENT_LABELS: Record<VendorGap['requirement'], string> = {
+  contract: 'Vertrag',
+  security: 'Datensicherheit',
+  subprocessors: 'Unterauftragsbearbeiter',
+  transfer: 'Bekanntgabe ins Ausland',
+};
+
+const formatGaps = (count: number): string =>
+  count === 0 ? 'Art. 9 erfüllt' : count === 1 ? '1 Lücke' : `${count} Lücken`;
+
+const VENDOR_FLAGS: Array<{ key: 'dpaSigned' | 'sccSigned' | 'securityDocumented' | 'subProcessorsApproved'; label: string }> = [
+  { key: 'dpaSigned', label: 'Auftragsbearbeitungsvertrag abgeschlossen' },
+  { key: 'sccSigned', label: 'Standarddatenschutzklauseln abgeschlossen' },
+  { key: 'securityDocumented', label: 'Datensicherheit nachgewiesen' },
+  { key: 'subProcessorsApproved', label: 'Unterauftragsbearbeiter genehmigt' },
+];
+
+type VendorForm = {
+  name: string;
+  seat: string;
+  hostingLocations: string;
+  certifications: string;
+  // One sub-processor per line: "Name; Land; Zweck"
+  subProcessors: string;
+  dpaSigned: boolean;
+  sccSigned: boolean;
+  securityDocumented: boolean;
+  subProcessorsApproved: boolean;
+};
+
+const EMPTY_FORM: VendorForm = {
+  name: '',
+  seat: '',
+  hostingLocations: '',
+  certifications: '',
+  subProcessors: '',
+  dpaSigned: false,
+  sccSigned: false,
+  securityDocumented: false,
+  subProcessorsApproved: false,
+};
+
+const toForm = (vendor: Vendor): VendorForm => ({
+  name: vendor.name,
+  seat: vendor.seat,
+  hostingLocations: vendor.hostingLocations.join(', '),
+  certifications: vendor.certifications.join(', '),
+  subProcessors: vendor.subProcessors
+    .map((item) => [item.name, item.country, item.purpose].filter(Boolean).join('; '))
+    .join('\n'),
+  dpaSigned: vendor.dpaSigned,
+  sccSigned: vendor.sccSigned,
+  securityDocumented: vendor.securityDocumented,
+  subProcessorsApproved: vendor.subProcessorsApproved,
+});
+
+const splitList = (value: string): string[] => value.split(',').map((item) => item.trim()).filter(Boolean);
+
+const toProfile = (form: VendorForm): VendorProfile => ({
+  ...form,
+  name: form.name.trim(),
+  seat: form.seat.trim(),
+  hostingLocations: splitList(form.hostingLocations),
+  certifications: splitList(form.certifications),
+  subProcessors: form.subProcessors
+    .split('\n')
+    .map((line) => line.split(';').map((part) => part.trim()))
+    .filter(([name]) => name)
+    .map(([name, country = '', ...purpose]) => ({ name, country, purpose: purpose.join('; ') || undefined })),
+});
+
+const readError = async (response: Response, fallback: string): Promise<string> => {
+  try {
+    const data = await response.json();
+    return data.error || fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+// Registry of processors (Art. 9 DSG) with the gaps of each one; authors and the DPO maintain it
+function VendorRegistry({
+  vendors,
+  canManage,
+  onChange,
+  onClose,
+}: {
+  vendors: Vendor[];
+  canManage: boolean;
+  onChange: (vendors: Vendor[]) => void;
+  onClose: () => void;
+}) {
+  const [form, setForm] = useState<VendorForm>(EMPTY_FORM);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const resetForm = () => {
+    setForm(EMPTY_FORM);
+    setEditingId(null);
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(editingId ? `/api/vendors/${editingId}` : '/api/vendors', {
+        method: editingId ? 'PATCH' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(toProfile(form)),
+      });
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Auftragsbearbeiter konnte nicht gespeichert werden'));
+      }
+      const saved: Vendor = await response.json();
+      onChange(
+        [...vendors.filter((vendor) => vendor.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name, 'de'))
+      );
+      resetForm();
+    } catch (err: any) {
+      setError(err.message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (vendor: Vendor) => {
+    if (!window.confirm(`${vendor.name} aus dem Verzeichnis entfernen? Bestehende Analysen behalten ihre Angaben.`)) {
+      return;
+    }
+    setError(null);
+    try {
+      const response = await fetch(`/api/vendors/${vendor.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        throw new Error(await readError(response, 'Auftragsbearbeiter konnte nicht entfernt werden'));
+      }
+      onChange(vendors.filter((item) => item.id !== vendor.id));
+      if (editingId === vendor.id) resetForm();
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  return (
+    <>
+      <div className="law-backdrop" onClick={onClose}></div>
+      <aside className="law-drawer vendor-registry animate-slide-in" aria-label="Auftragsbearbeiter">
+        <div className="history-header">
+          <h2>Auftragsbearbeiter</h2>
+          <button className="history-close" onClick={onClose} aria-label="Auftragsbearbeiter schliessen">
+            <CloseIcon />
+          </button>
+        </div>
+
+        {error && <p className="law-status error">{error}</p>}
+        {vendors.length === 0 && <p className="law-status">Noch keine Auftragsbearbeiter erfasst.</p>}
+
+        <ul className="user-list">
+          {vendors.map((vendor) => (
+            <li key={vendor.id} className="user-item">
+              <div className="user-item-header">
+                <span className="user-item-name">
+                  {vendor.name} <span className="user-item-username">({vendor.seat})</span>
+                </span>
+                <span className={`history-item-risk ${vendor.gaps.length > 0 ? 'high' : 'low'}`}>
+                  {formatGaps(vendor.gaps.length)}
+                </span>
+              </div>
+              <VendorDetails vendor={vendor} gaps={vendor.gaps} />
+              {canManage && (
+                <div className="vendor-actions">
+                  <button className="law-back" onClick={() => { setEditingId(vendor.id); setForm(toForm(vendor)); }}>
+                    Bearbeiten
+                  </button>
+                  <button className="law-back" onClick={() => handleDelete(vendor)}>
+                    Entfernen
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+
+        {canManage && (
+          <form className="user-create" onSubmit={handleSave}>
+            <h3>{editingId ? 'Auftragsbearbeiter bearbeiten' : 'Neuer Auftragsbearbeiter'}</h3>
+            <input
+              type="text"
+              className="law-search"
+              placeholder="Name"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+            />
+            <input
+              type="text"
+              className="law-search"
+              placeholder="Sitz (Land), z.B. Schweiz oder USA"
+              value={form.seat}
+              onChange={(e) => setForm({ ...form, seat: e.target.value })}
+            />
+            <input
+              type="text"
+              className="law-search"
+              placeholder="Hosting-Standorte, kommagetrennt, z.B. Schweiz, Deutschland"
+              value={form.hostingLocations}
+              onChange={(e) => setForm({ ...form, hostingLocations: e.target.value })}
+            />
+            <input
+              type="text"
+              className="law-search"
+              placeholder="Zertifizierungen, kommagetrennt, z.B. ISO 27001, Data Privacy Framework"
+              value={form.certifications}
+              onChange={(e) => setForm({ ...form, certifications: e.target.value })}
+            />
+            <textarea
+              className="law-search vendor-subprocessors"
+              placeholder={'Unterauftragsbearbeiter, einer pro Zeile: Name; Land; Zweck'}
+              value={form.subProcessors}
+              rows={3}
+              onChange={(e) => setForm({ ...form, subProcessors: e.target.value })}
+            />
+            <div className="user-roles">
+              {VENDOR_FLAGS.map(({ key, label }) => (
+                <label key={key} className="user-role">
+                  <input type="checkbox" checked={form[key]} onChange={(e) => setForm({ ...form, [key]: e.target.checked })} />
+                  <span>{label}</span>
+                </label>
+              ))}
+            </div>
+            <div className="vendor-actions">
+              <button type="submit" className="download-button inline" disabled={saving || !form.name.trim() || !form.seat.trim()}>
+                {editingId ? 'Speichern' : 'Erfassen'}
+              </button>
+              {editingId && (
+                <button type="button" className="download-button inline secondary" onClick={resetForm}>
+                  Abbrechen
+                </button>
+              )}
+            </div>
+          </form>
+        )}
+      </aside>
+    </>
+  );
+}
+
+// Vendor data with the missing measures under Art. 9 DSG
+function VendorDetails({ vendor, gaps }: { vendor: VendorProfile; gaps: VendorGap[] }) {
+  return (
+    <>
+      <p className="transfer-note">
+        {vendor.hostingLocations.length > 0 && `Hosting: ${vendor.hostingLocations.join(', ')} · `}
+        {vendor.subProcessors.length > 0 &&
+          `Unterauftragsbearbeiter: ${vendor.subProcessors.map((item) => `${item.name} (${item.country})`).join(', ')} · `}
+        {vendor.certifications.length > 0 && `Zertifizierungen: ${vendor.certifications.join(', ')} · `}
+        Vertrag: {vendor.dpaSigned ? 'ja' : 'nein'} · SCC: {vendor.sccSigned ? 'ja' : 'nein'}
+      </p>
+      {gaps.length > 0 && (
+        <ul className="vendor-gaps">
+          {gaps.map((gap) => (
+            <li key={gap.measure}>
+              <span className="measure-overdue">{VENDOR_REQUIREMENT_LABELS[gap.requirement]}</span> {gap.measure}
+            </li>
+          ))}
+        </ul>
+      )}
+    </>
+  );
+}
+
+// Selection of the processors an analysis takes into account
+export function VendorPicker({
+  vendors,
+  selectedIds,
+  disabled,
+  onChange,
+  onManage,
+}: {
+  vendors: Vendor[];
+  selectedIds: string[];
+  disabled: boolean;
+  onChange: (ids: string[]) => void;
+  onManage: () => void;
+}) {
+  const toggle = (id: string) =>
+    onChange(selectedIds.includes(id) ? selectedIds.filter((item) => item !== id) : [...selectedIds, id]);
+
+  return (
+    <details className="precheck vendor-picker" open={selectedIds.length > 0 || undefined}>
+      <summary>Auftragsbearbeiter (Art. 9 DSG){selectedIds.length > 0 && ` · ${selectedIds.length} ausgewählt`}</summary>
+      <p className="wizard-prefill">
+        Ausgewählte Auftragsbearbeiter werden in der Analyse berücksichtigt. Fehlende Anforderungen nach Art. 9 DSG
+        erscheinen als Massnahmen.
+      </p>
+      {vendors.length === 0 && <p className="review-empty">Noch keine Auftragsbearbeiter im Verzeichnis.</p>}
+      <div className="user-roles">
+        {vendors.map((vendor) => (
+          <label key={vendor.id} className="user-role">
+            <input
+              type="checkbox"
+              checked={selectedIds.includes(vendor.id)}
+              disabled={disabled}
+              onChange={() => toggle(vendor.id)}
+            />
+            <span>
+              {vendor.name} ({vendor.seat}){vendor.gaps.length > 0 && ` – ${formatGaps(vendor.gaps.length)}`}
+            </span>
+          </label>
+        ))}
+      </div>
+      <button type="button" className="law-back vendor-manage" onClick={onManage}>
+        Verzeichnis öffnen
+      </button>
+    </details>
+  );
+}
+
+// Processors of an analysis as they were checked at the time of the analysis
+export function VendorChecks({ checks }: { checks: VendorCheck[] }) {
+  return (
+    <ul className="transfer-list">
+      {checks.map(({ vendorId, vendor, gaps }) => (
+        <li key={vendorId} className={`transfer-item ${gaps.length > 0 ? 'missing' : ''}`}>
+          <div className="transfer-item-header">
+            <span className="transfer-country">
+              {vendor.name}
+              <span className="transfer-providers"> (Sitz: {vendor.seat})</span>
+            </span>
+            <span className={`history-item-risk ${gaps.length > 0 ? 'high' : 'low'}`}>
+              {formatGaps(gaps.length)}
+            </span>
+          </div>
+          <VendorDetails vendor={vendor} gaps={gaps} />
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export default VendorRegistry;
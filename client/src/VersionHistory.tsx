@@ -0,0 +1,170 @@
+import { useState, useEffect } from 'react';
+import { AnalysisResult, StoredAssessment, VersionDiff } from './types';
+
+const LayersIcon = () => (
+  <svg width="24" height="24" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+    <polygon points="12 2 2 7 12 12 22 7 12 2"></polygon>
+    <polyline points="2 17 12 22 22 17"></polyline>
+    <polyline points="2 12 12 17 22 12"></polyline>
+  </svg>
+);
+
+const riskLabels: Record<AnalysisResult['riskLevel'], string> = {
+  LOW: 'Niedrig',
+  MEDIUM: 'Mittel',
+  HIGH: 'Hoch',
+  UNKNOWN: 'Unbekannt',
+};
+
+const formatDate = (value: string) =>
+  new Intl.DateTimeFormat('de-CH', { dateStyle: 'medium', timeStyle: 'short' }).format(new Date(value));
+
+// Lists all versions of an assessment and compares two of them section by section
+function VersionHistory({
+  assessment,
+  activeVersion,
+  onSelectVersion,
+}: {
+  assessment: StoredAssessment;
+  activeVersion: number;
+  onSelectVersion: (version: number) => void;
+}) {
+  const versionNumbers = assessment.versions.map((v) => v.version);
+  const latestVersion = versionNumbers[versionNumbers.length - 1];
+  const [compareFrom, setCompareFrom] = useState(versionNumbers[Math.max(versionNumbers.length - 2, 0)]);
+  const [compareTo, setCompareTo] = useState(latestVersion);
+  const [diff, setDiff] = useState<VersionDiff | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reset the comparison whenever another assessment or a new version is shown
+  useEffect(() => {
+    setCompareFrom(versionNumbers[Math.max(versionNumbers.length - 2, 0)]);
+    setCompareTo(latestVersion);
+    setDiff(null);
+    setError(null);
+  }, [assessment.id, latestVersion]);
+
+  const handleCompare = async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/assessments/${assessment.id}/diff?from=${compareFrom}&to=${compareTo}`);
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Vergleich konnte nicht erstellt werden');
+      }
+      setDiff(await response.json());
+    } catch (err: any) {
+      setError(err.message || 'Vergleich konnte nicht erstellt werden');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="result-section version-history animate-fade-in">
+      <div className="section-header">
+        <div className="section-icon">
+          <LayersIcon />
+        </div>
+        <h2>Versionen</h2>
+      </div>
+
+      <ul className="version-list">
+        {[...assessment.versions].reverse().map((version) => (
+          <li key={version.version} className={`version-item ${version.version === activeVersion ? 'active' : ''}`}>
+            <button className="version-item-open" onClick={() => onSelectVersion(version.version)}>
+              <span className="version-item-title">
+                Version {version.version}
+                {version.version === latestVersion && <span className="version-item-badge">aktuell</span>}
+              </span>
+              <span className="version-item-meta">
+                {formatDate(version.createdAt)} · {version.model} ·{' '}
+                {version.result.needsMoreInfo ? 'Informationen fehlen' : riskLabels[version.result.riskLevel] || version.result.riskLevel}
+              </span>
+              {version.changeNote && <span className="version-item-note">{version.changeNote}</span>}
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      {assessment.versions.length > 1 && (
+        <div className="version-compare">
+          <label>
+            Von
+            <select value={compareFrom} onChange={(e) => setCompareFrom(Number(e.target.value))} className="model-select">
+              {versionNumbers.map((v) => (
+                <option key={v} value={v}>Version {v}</option>
+              ))}
+            </select>
+          </label>
+          <label>
+            Bis
+            <select value={compareTo} onChange={(e) => setCompareTo(Number(e.target.value))} className="model-select">
+              {versionNumbers.map((v) => (
+                <option key={v} value={v}>Version {v}</option>
+              ))}
+            </select>
+          </label>
+          <button
+            className="download-button inline"
+            onClick={handleCompare}
+            disabled={loading || compareFrom === compareTo}
+          >
+            {loading ? 'Vergleiche...' : 'Vergleichen'}
+          </button>
+        </div>
+      )}
+
+      {error && <div className="login-error">{error}</div>}
+
+      {diff && <DiffView diff={diff} />}
+    </div>
+  );
+}
+
+function DiffView({ diff }: { diff: VersionDiff }) {
+  return (
+    <div className="diff-view">
+      <div className={`diff-risk ${diff.riskLevel.changed ? 'changed' : ''}`}>
+        <strong>Risikostufe:</strong>{' '}
+        {diff.riskLevel.changed
+          ? `${riskLabels[diff.riskLevel.from] || diff.riskLevel.from} → ${riskLabels[diff.riskLevel.to] || diff.riskLevel.to}`
+          : `${riskLabels[diff.riskLevel.to] || diff.riskLevel.to} (unverändert)`}
+      </div>
+      {diff.changeNote && (
+        <div className="diff-note">
+          <strong>Änderungsgrund (Version {diff.to}):</strong> {diff.changeNote}
+        </div>
+      )}
+      {diff.sections.map((section) => (
+        <details key={section.key} className="diff-section" open={section.changed}>
+          <summary className="diff-section-title">
+            <span>{section.label}</span>
+            <span className={`diff-section-status ${section.changed ? 'changed' : ''}`}>
+              {section.changed ? 'geändert' : 'unverändert'}
+            </span>
+          </summary>
+          <div className="diff-section-body">
+            {section.segments.length === 0 ? (
+              <em>Kein Inhalt</em>
+            ) : (
+              section.segments.map((segment, index) => {
+                if (segment.type === 'added') {
+                  return <ins key={index} className="diff-added">{segment.text}</ins>;
+                }
+                if (segment.type === 'removed') {
+                  return <del key={index} className="diff-removed">{segment.text}</del>;
+                }
+                return <span key={index}>{segment.text}</span>;
+              })
+            )}
+          </div>
+        </details>
+      ))}
+    </div>
+  );
+}
+
+export default VersionHistory;
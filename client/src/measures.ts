@@ -0,0 +1,28 @@
+import { MeasureCategory, MeasureStatus, TrackedMeasure } from './types';
+
+// Mirrors measures.ts on the server
+
+export const MEASURE_CATEGORY_LABELS: Record<MeasureCategory, string> = {
+  rechtlich: 'Rechtlich',
+  organisatorisch: 'Organisatorisch',
+  technisch: 'Technisch',
+  weitere: 'Weitere',
+};
+
+export const MEASURE_STATUS_LABELS: Record<MeasureStatus, string> = {
+  open: 'Offen',
+  in_progress: 'In Umsetzung',
+  done: 'Umgesetzt',
+  not_applicable: 'Nicht anwendbar',
+};
+
+export const MEASURE_STATUSES = Object.keys(MEASURE_STATUS_LABELS) as MeasureStatus[];
+
+// Done and not applicable measures are never overdue
+export const isOverdue = (measure: TrackedMeasure): boolean =>
+  Boolean(measure.dueDate) &&
+  (measure.status === 'open' || measure.status === 'in_progress') &&
+  measure.dueDate! < new Date().toISOString().slice(0, 10);
+
+export const formatDueDate = (value: string): string =>
+  new Intl.DateTimeFormat('de-CH', { dateStyle: 'medium' }).format(new Date(`${value}T00:00:00`));
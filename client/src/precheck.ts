@@ -0,0 +1,43 @@
+import { PrecheckAnswer, PrecheckAnswers, PrecheckQuestionId } from './types';
+
+// Mirrors precheck.ts on the server
+
+export const PRECHECK_QUESTIONS: Record<PrecheckQuestionId, string> = {
+  sensitiveData:
+    'Werden besonders schützenswerte Personendaten bearbeitet (z.B. Gesundheit, Religion, biometrische Daten, Strafverfahren)?',
+  largeScale: 'Werden die Daten in grossem Umfang bearbeitet (viele betroffene Personen, grosse Datenmengen)?',
+  publicMonitoring: 'Werden umfangreiche öffentlich zugängliche Bereiche systematisch überwacht (z.B. Videoüberwachung)?',
+  otherHighRisk:
+    'Gibt es weitere Hinweise auf ein hohes Risiko (neue Technologien, Profiling, automatisierte Einzelentscheidungen)?',
+  privateController: 'Ist der Verantwortliche eine private Person oder ein Unternehmen (kein Bundesorgan)?',
+  legalObligation: 'Ist der Verantwortliche gesetzlich zu dieser Bearbeitung verpflichtet?',
+  certified: 'Wird ein für diese Verwendung zertifiziertes System, Produkt oder eine zertifizierte Dienstleistung eingesetzt?',
+  codeOfConduct:
+    'Wird ein Verhaltenskodex eingehalten, der auf einer DSFA beruht, Schutzmassnahmen vorsieht und dem EDÖB vorgelegt wurde?',
+};
+
+export const PRECHECK_GROUPS: { title: string; questions: PrecheckQuestionId[] }[] = [
+  { title: 'Hohes Risiko (Art. 22 Abs. 1 und 2 DSG)', questions: ['sensitiveData', 'largeScale', 'publicMonitoring', 'otherHighRisk'] },
+  { title: 'Ausnahmen (Art. 22 Abs. 4 und 5 DSG)', questions: ['privateController', 'legalObligation', 'certified', 'codeOfConduct'] },
+];
+
+export const PRECHECK_ANSWER_LABELS: Record<PrecheckAnswer, string> = {
+  yes: 'Ja',
+  no: 'Nein',
+  unknown: 'Weiss nicht',
+};
+
+export const EMPTY_PRECHECK_ANSWERS: PrecheckAnswers = {
+  sensitiveData: 'unknown',
+  largeScale: 'unknown',
+  publicMonitoring: 'unknown',
+  otherHighRisk: 'unknown',
+  privateController: 'unknown',
+  legalObligation: 'unknown',
+  certified: 'unknown',
+  codeOfConduct: 'unknown',
+};
+
+// Without any answer the pre-check is skipped and the analysis starts directly
+export const hasPrecheckAnswers = (answers: PrecheckAnswers): boolean =>
+  Object.values(answers).some((answer) => answer !== 'unknown');
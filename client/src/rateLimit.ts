@@ -0,0 +1,31 @@
+import { useEffect, useState } from 'react';
+
+// Seconds to wait after a 429 response, from the JSON body or the Retry-After header
+export const getRetryAfter = (response: Response, data?: { retryAfter?: number }): number => {
+  const value = data?.retryAfter ?? parseInt(response.headers.get('Retry-After') || '', 10);
+  return Number.isFinite(value) && value > 0 ? Math.ceil(value) : 60;
+};
+
+// Countdown until the server accepts requests again; 0 when no limit is active
+export const useRetryCountdown = (): [number, (seconds: number) => void] => {
+  const [retryUntil, setRetryUntil] = useState<number | null>(null);
+  const [remaining, setRemaining] = useState(0);
+
+  useEffect(() => {
+    if (retryUntil === null) return;
+    const update = () => {
+      const seconds = Math.max(0, Math.ceil((retryUntil - Date.now()) / 1000));
+      setRemaining(seconds);
+      if (seconds === 0) setRetryUntil(null);
+    };
+    update();
+    const timer = window.setInterval(update, 1000);
+    return () => window.clearInterval(timer);
+  }, [retryUntil]);
+
+  const start = (seconds: number) => setRetryUntil(Date.now() + seconds * 1000);
+  return [remaining, start];
+};
+
+export const formatRetryAfter = (seconds: number): string =>
+  seconds >= 60 ? `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')} Minuten` : `${seconds} Sekunden`;
@@ -0,0 +1,44 @@
+import { RiskEntry, RiskRating } from './types';
+
+// Mirrors riskRegister.ts on the server: rating labels and the level of each cell
+// of the 4×4 matrix (likelihood × severity of 9 or more is high, 4 to 8 medium)
+
+export const RATINGS: RiskRating[] = [1, 2, 3, 4];
+
+export const LIKELIHOOD_LABELS: Record<RiskRating, string> = {
+  1: 'Unwahrscheinlich',
+  2: 'Möglich',
+  3: 'Wahrscheinlich',
+  4: 'Sehr wahrscheinlich',
+};
+
+export const SEVERITY_LABELS: Record<RiskRating, string> = {
+  1: 'Gering',
+  2: 'Begrenzt',
+  3: 'Erheblich',
+  4: 'Schwerwiegend',
+};
+
+export type CellLevel = 'LOW' | 'MEDIUM' | 'HIGH';
+
+export const getCellLevel = (likelihood: RiskRating, severity: RiskRating): CellLevel => {
+  const score = likelihood * severity;
+  if (score >= 9) return 'HIGH';
+  if (score >= 4) return 'MEDIUM';
+  return 'LOW';
+};
+
+// Rating before (brutto) or after the measures (netto)
+export const getRating = (risk: RiskEntry, residual: boolean): { likelihood: RiskRating; severity: RiskRating } =>
+  residual
+    ? { likelihood: risk.residualLikelihood, severity: risk.residualSeverity }
+    : { likelihood: risk.likelihood, severity: risk.severity };
+
+// Risk ids in the cell of the given ratings
+export const getCellRisks = (risks: RiskEntry[], residual: boolean, likelihood: RiskRating, severity: RiskRating): string[] =>
+  risks
+    .filter((risk) => {
+      const rating = getRating(risk, residual);
+      return rating.likelihood === likelihood && rating.severity === severity;
+    })
+    .map((risk) => risk.id);
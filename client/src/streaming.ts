@@ -0,0 +1,96 @@
+// Helpers for the streaming analysis endpoint (/api/analyze/stream)
+
+export interface StreamEvent {
+  event: string;
+  data: any;
+}
+
+export interface StreamSection {
+  key: string;
+  title: string;
+  content: string;
+}
+
+// Read a Server-Sent Events response and call onEvent for every complete event
+export const readEventStream = async (response: Response, onEvent: (event: StreamEvent) => void) => {
+  if (!response.body) {
+    throw new Error('Streaming wird von diesem Browser nicht unterstützt');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  const dispatch = (rawEvent: string) => {
+    let event = 'message';
+    const dataLines: string[] = [];
+    rawEvent.split('\n').forEach((line) => {
+      if (line.startsWith('event:')) {
+        event = line.slice(6).trim();
+      } else if (line.startsWith('data:')) {
+        dataLines.push(line.slice(5).trim());
+      }
+    });
+    if (dataLines.length === 0) return;
+    try {
+      onEvent({ event, data: JSON.parse(dataLines.join('\n')) });
+    } catch (err) {
+      console.warn('Could not parse stream event:', err);
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    let separatorIndex;
+    while ((separatorIndex = buffer.indexOf('\n\n')) !== -1) {
+      dispatch(buffer.slice(0, separatorIndex));
+      buffer = buffer.slice(separatorIndex + 2);
+    }
+  }
+  if (buffer.trim()) {
+    dispatch(buffer);
+  }
+};
+
+// Section headings of the text output format, in the order the model writes them
+const SECTION_HEADINGS: Array<{ key: string; title: string; pattern: RegExp }> = [
+  { key: 'missingInfo', title: 'Zusätzliche Informationen erforderlich', pattern: /INFORMATIONEN_FEHLEN:/ },
+  { key: 'summary', title: 'Zusammenfassung', pattern: /ZUSAMMENFASSUNG:/ },
+  { key: 'description', title: 'Beschreibung der geplanten Bearbeitung', pattern: /BESCHREIBUNG[^:\n]*:/ },
+  { key: 'bruttorisiken', title: 'Potentiell hohe Bruttorisiken', pattern: /POTENTIELL[^:\n]*BRUTTORISIKEN[^:\n]*:/ },
+  { key: 'massnahmen', title: 'Geplante Massnahmen zur Senkung der Bruttorisiken', pattern: /GEPLANTE[^:\n]*MASSNAHMEN[^:\n]*:/ },
+  { key: 'nettorisiken', title: 'Verbleibende Nettorisiken', pattern: /VERBLEIBENDE[^:\n]*NETTORISIKEN[^:\n]*:/ },
+  { key: 'risks', title: 'Risikoregister', pattern: /RISIKOREGISTER:/ },
+  { key: 'ergebnis', title: 'Ergebnis', pattern: /ERGEBNIS:/ },
+  { key: 'riskLevel', title: 'Risikobewertung', pattern: /RISK_LEVEL:/ },
+  { key: 'recommendations', title: 'Empfehlungen', pattern: /EMPFEHLUNGEN:/ },
+];
+
+// Split the partially received answer into the sections whose heading has already arrived
+export const splitStreamSections = (text: string): StreamSection[] => {
+  const found: Array<{ key: string; title: string; start: number; contentStart: number }> = [];
+
+  SECTION_HEADINGS.forEach(({ key, title, pattern }) => {
+    const match = pattern.exec(text);
+    if (match) {
+      found.push({ key, title, start: match.index, contentStart: match.index + match[0].length });
+    }
+  });
+
+  found.sort((a, b) => a.start - b.start);
+
+  return found.map((section, index) => {
+    const end = index + 1 < found.length ? found[index + 1].start : text.length;
+    return {
+      key: section.key,
+      title: section.title,
+      content: text
+        .slice(section.contentStart, end)
+        .replace(/\*\*([^*]+)\*\*/g, '$1')
+        .replace(/^#{1,6}\s+/gm, '')
+        .trim(),
+    };
+  });
+};
@@ -0,0 +1,461 @@
+// Shared types for the API responses used across the client
+
+export type CitationStatus = 'verified' | 'invalid' | 'unverifiable';
+
+export interface LegalReference {
+  law: string;
+  article?: string;
+  paragraph?: string;
+  // Letter of an enumeration, e.g. "d" in "Art. 16 Abs. 2 lit. d DSG"
+  letter?: string;
+  text: string;
+  url: string;
+  // Corpus id for the law browser, set when the law text is loaded
+  lawId?: string;
+  // Result of the check against the loaded law text
+  status?: CitationStatus;
+  statusNote?: string;
+  heading?: string;
+  sourceText?: string;
+}
+
+// What the model already found for the six required inputs (set when information is missing)
+export interface KnownInfo {
+  zweck: string;
+  betroffenePersonen: string;
+  datenkategorien: string;
+  umfang: string;
+  technischeUmsetzung: string;
+  rechtfertigungsgrund: string;
+}
+
+// Rating of likelihood or severity: 1 (lowest) to 4 (highest)
+export type RiskRating = 1 | 2 | 3 | 4;
+
+// One risk of the register, rated before (brutto) and after the measures (netto)
+export interface RiskEntry {
+  id: string;
+  description: string;
+  category: 'primär' | 'sekundär';
+  affectedPersons: string;
+  likelihood: RiskRating;
+  severity: RiskRating;
+  measures: string[];
+  residualLikelihood: RiskRating;
+  residualSeverity: RiskRating;
+}
+
+// adequate: listed in Anhang 1 DSV; conditional: listed for certain recipients only
+export type Adequacy = 'adequate' | 'conditional' | 'not_adequate';
+
+export interface TransferRecipient {
+  country: string;
+  countryName: string;
+  adequacy: Adequacy;
+  providers: string[];
+  mechanism: 'adequacy' | 'scc' | 'bcr' | 'consent';
+  mechanismLabel: string;
+  safeguardInPlace: boolean;
+  note: string;
+}
+
+// Disclosure abroad detected in the input (Art. 16/17 DSG)
+export interface TransferAssessment {
+  recipients: TransferRecipient[];
+  unspecified: boolean;
+  legalReferences: LegalReference[];
+  listDate: string;
+}
+
+export interface SubProcessor {
+  name: string;
+  country: string;
+  purpose?: string;
+}
+
+// Processor (Auftragsbearbeiter, Art. 9 DSG) as described in the vendor registry
+export interface VendorProfile {
+  name: string;
+  seat: string;
+  hostingLocations: string[];
+  subProcessors: SubProcessor[];
+  certifications: string[];
+  dpaSigned: boolean;
+  sccSigned: boolean;
+  securityDocumented: boolean;
+  subProcessorsApproved: boolean;
+}
+
+// Art. 9 requirement that is not met, phrased as the missing measure
+export interface VendorGap {
+  requirement: 'contract' | 'security' | 'subprocessors' | 'transfer';
+  category: 'rechtlich' | 'organisatorisch' | 'technisch';
+  measure: string;
+}
+
+// Vendor data at the time of the analysis with the gaps found
+export interface VendorCheck {
+  vendorId: string;
+  vendor: VendorProfile;
+  gaps: VendorGap[];
+}
+
+// Entry of the vendor registry with its current gaps
+export interface Vendor extends VendorProfile {
+  id: string;
+  createdBy: UserRef;
+  createdAt: string;
+  updatedBy?: UserRef;
+  updatedAt?: string;
+  gaps: VendorGap[];
+}
+
+export interface AnalysisResult {
+  summary: string;
+  riskLevel: 'LOW' | 'MEDIUM' | 'HIGH' | 'UNKNOWN';
+  analysis: string;
+  recommendations: string[];
+  legalReferences: LegalReference[];
+  // New DSFA structure fields
+  description?: string;
+  bruttorisiken?: string;
+  massnahmen?: string;
+  nettorisiken?: string;
+  ergebnis?: string;
+  // Risk register; riskLevel is derived from its ratings after the measures
+  risks?: RiskEntry[];
+  // Derived from the input text on the server
+  transfers?: TransferAssessment;
+  // Processors attached to the assessment
+  vendors?: VendorCheck[];
+  // Missing info fields
+  needsMoreInfo?: boolean;
+  missingInfo?: string[];
+  knownInfo?: KnownInfo;
+  message?: string;
+  // Output mode that produced the result (structured JSON or text parser fallback)
+  outputMode?: 'json' | 'text';
+  // DSG context sent to the model (all articles or retrieved paragraphs)
+  retrievalMode?: 'full' | 'retrieved';
+  contextArticles?: string[];
+  // Model that produced the result; differs from requestedModel after a fallback
+  model?: string;
+  requestedModel?: string;
+  failedAttempts?: FailedAttempt[];
+  // Storage fields
+  assessmentId?: string;
+  version?: number;
+}
+
+export type PrecheckAnswer = 'yes' | 'no' | 'unknown';
+
+export type PrecheckQuestionId =
+  | 'sensitiveData'
+  | 'largeScale'
+  | 'publicMonitoring'
+  | 'otherHighRisk'
+  | 'privateController'
+  | 'legalObligation'
+  | 'certified'
+  | 'codeOfConduct';
+
+export type PrecheckAnswers = Record<PrecheckQuestionId, PrecheckAnswer>;
+
+// Outcome of the Art. 22 pre-check; the analysis only starts if proceed is true
+export interface PrecheckResult {
+  outcome: 'required' | 'not_required' | 'unclear';
+  label: string;
+  reasons: string[];
+  legalReferences: LegalReference[];
+  proceed: boolean;
+}
+
+export type BreachDecision = 'yes' | 'no' | 'unclear';
+
+export interface BreachDuty {
+  decision: BreachDecision;
+  reason: string;
+}
+
+// Assessment of a Verletzung der Datensicherheit (Art. 24 DSG); not stored on the server
+export interface BreachResult {
+  summary: string;
+  facts: string;
+  riskAssessment: string;
+  riskLevel: 'LOW' | 'MEDIUM' | 'HIGH' | 'UNKNOWN';
+  // Meldung an den EDÖB (Art. 24 Abs. 1 DSG)
+  authorityNotification: BreachDuty;
+  // Information der betroffenen Personen (Art. 24 Abs. 4 DSG)
+  subjectInformation: BreachDuty;
+  immediateMeasures: string[];
+  authorityDraft: string;
+  subjectDraft: string;
+  analysis: string;
+  legalReferences: LegalReference[];
+  promptVersion?: string;
+  retrievalMode?: 'full' | 'retrieved';
+  contextArticles?: string[];
+  model?: string;
+  requestedModel?: string;
+  failedAttempts?: FailedAttempt[];
+}
+
+export interface FailedAttempt {
+  model: string;
+  attempt: number;
+  reason: string;
+}
+
+export interface AssessmentSummary {
+  id: string;
+  title: string;
+  model: string;
+  riskLevel: AnalysisResult['riskLevel'];
+  needsMoreInfo: boolean;
+  versionCount: number;
+  createdBy?: string;
+  status: AssessmentStatus;
+  approvedVersion?: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface UserRef {
+  id: string;
+  name: string;
+}
+
+export interface AssessmentVersion {
+  version: number;
+  inputText: string;
+  model: string;
+  promptVersion: string;
+  outputMode?: 'json' | 'text';
+  retrievalMode?: 'full' | 'retrieved';
+  result: AnalysisResult;
+  changeNote?: string;
+  createdBy?: UserRef;
+  createdAt: string;
+}
+
+export interface AssessmentComment {
+  id: string;
+  version: number;
+  author: UserRef;
+  text: string;
+  createdAt: string;
+}
+
+// Follow-up question or answer about one version of an assessment
+export interface FollowUpMessage {
+  id: string;
+  version: number;
+  role: 'user' | 'assistant';
+  content: string;
+  author?: UserRef;
+  model?: string;
+  replyTo?: string;
+  // Revised DSFA when the question changed the planned processing
+  revisedResult?: AnalysisResult;
+  // Version that was created from revisedResult
+  appliedVersion?: number;
+  createdAt: string;
+}
+
+export type MeasureCategory = 'rechtlich' | 'organisatorisch' | 'technisch' | 'weitere';
+
+export type MeasureStatus = 'open' | 'in_progress' | 'done' | 'not_applicable';
+
+// Measure of the latest version with its implementation state
+export interface TrackedMeasure {
+  id: string;
+  version: number;
+  category: MeasureCategory;
+  description: string;
+  legalBasis: string[];
+  riskIds: string[];
+  owner?: string;
+  // YYYY-MM-DD
+  dueDate?: string;
+  status: MeasureStatus;
+  updatedBy?: UserRef;
+  updatedAt?: string;
+}
+
+// Entry of the overview across all assessments (/api/measures)
+export interface MeasureOverviewItem extends TrackedMeasure {
+  assessmentId: string;
+  assessmentTitle: string;
+  assessmentStatus: AssessmentStatus;
+  overdue: boolean;
+}
+
+export type RecordField =
+  | 'controller'
+  | 'purpose'
+  | 'dataSubjects'
+  | 'dataCategories'
+  | 'recipients'
+  | 'retention'
+  | 'security'
+  | 'transfers';
+
+// Entry in the Verzeichnis der Bearbeitungstätigkeiten (Art. 12 DSG), generated from the DSFA
+export interface ProcessingRecord {
+  version: number;
+  fields: Record<RecordField, string>;
+  // Fields changed by hand; new versions do not overwrite them
+  editedFields: RecordField[];
+  generatedAt: string;
+  updatedBy?: UserRef;
+  updatedAt?: string;
+}
+
+// Entry of the register across all assessments (/api/register)
+export interface RegisterEntry extends ProcessingRecord {
+  assessmentId: string;
+  assessmentTitle: string;
+  assessmentStatus: AssessmentStatus;
+  approvedVersion?: number;
+  missingFields: RecordField[];
+}
+
+export type NoticeSection =
+  | 'intro'
+  | 'controller'
+  | 'purpose'
+  | 'dataCategories'
+  | 'recipients'
+  | 'transfers'
+  | 'retention'
+  | 'rights';
+
+// Draft Datenschutzerklärung (Art. 19 DSG), generated from the register entry of an assessment
+export interface PrivacyNotice {
+  title: string;
+  version: number;
+  sections: Record<NoticeSection, string>;
+  // Sections changed by hand; all others follow the register entry
+  editedSections: NoticeSection[];
+  missingSections: NoticeSection[];
+  updatedBy?: UserRef;
+  updatedAt?: string;
+}
+
+export interface AssessmentApproval {
+  version: number;
+  approvedBy: UserRef;
+  approvedAt: string;
+  note?: string;
+}
+
+export type AssessmentStatus = 'draft' | 'in_review' | 'approved' | 'rejected' | 'revision';
+
+export interface StatusTransition {
+  from: AssessmentStatus;
+  to: AssessmentStatus;
+  version: number;
+  by: UserRef;
+  at: string;
+  note?: string;
+}
+
+export interface StoredAssessment {
+  id: string;
+  title: string;
+  versions: AssessmentVersion[];
+  comments?: AssessmentComment[];
+  followUps?: FollowUpMessage[];
+  measures: TrackedMeasure[];
+  processingRecord?: ProcessingRecord;
+  status: AssessmentStatus;
+  transitions: StatusTransition[];
+  // Last approval, kept while a later version is revised
+  approval?: AssessmentApproval;
+  createdBy?: UserRef;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface DiffSegment {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+export interface SectionDiff {
+  key: string;
+  label: string;
+  changed: boolean;
+  segments: DiffSegment[];
+}
+
+export interface VersionDiff {
+  from: number;
+  to: number;
+  changeNote?: string;
+  riskLevel: { from: AnalysisResult['riskLevel']; to: AnalysisResult['riskLevel']; changed: boolean };
+  sections: SectionDiff[];
+}
+
+export interface LawParagraph {
+  number: string;
+  text: string;
+}
+
+export interface LawSummary {
+  id: string;
+  abbreviation: string;
+  title: string;
+  srNumber: string;
+  // Only some articles of the law are loaded
+  excerpt: boolean;
+  articleCount: number;
+}
+
+export interface LawArticleSummary {
+  number: string;
+  id: string;
+  heading: string;
+  paragraphCount: number;
+  snippet?: string;
+}
+
+export interface LawArticle {
+  id: string;
+  number: string;
+  law: string;
+  heading: string;
+  text: string;
+  paragraphs: LawParagraph[];
+  url: string;
+}
+
+export type Role = 'author' | 'reviewer' | 'dpo' | 'admin';
+
+export type Permission =
+  | 'assessment:view'
+  | 'assessment:create'
+  | 'assessment:edit'
+  | 'assessment:delete'
+  | 'assessment:comment'
+  | 'assessment:approve'
+  | 'measures:edit'
+  | 'vendors:manage'
+  | 'register:edit'
+  | 'notice:edit'
+  | 'users:manage'
+  | 'audit:view';
+
+export interface SessionUser {
+  id: string;
+  username: string;
+  displayName: string;
+  roles: Role[];
+  createdAt: string;
+}
+
+// Signed-in user with the permissions of all roles (computed by the server)
+export interface Session {
+  user: SessionUser;
+  permissions: Permission[];
+}
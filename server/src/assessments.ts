@@ -0,0 +1,424 @@
+import crypto from 'crypto';
+import { createCollection } from './storage';
+import { AnalysisResult } from './types';
+import { OutputMode } from './dsfa';
+import { RetrievalMode } from './retrieval';
+import { AssessmentStatus } from './workflow';
+import { MeasureStatus, TrackedMeasure, syncMeasures } from './measures';
+import { ProcessingRecord, RecordField, generateRecordFields, syncProcessingRecord } from './processingRecord';
+import { NoticeSection, PrivacyNoticeEdits } from './privacyNotice';
+
+// --- Assessment history ---
+// Every call to /api/analyze is stored so an assessment can be reopened
+// without sending the same text to OpenRouter again. A DSFA is a living
+// document (Art. 22 DSG), so re-running an assessment appends a new version
+// instead of creating an unrelated record.
+
+// Who performed an action; the name is kept so records stay readable after account changes
+export type UserRef = {
+  id: string;
+  name: string;
+};
+
+export type AssessmentVersion = {
+  version: number;
+  inputText: string;
+  model: string;
+  promptVersion: string;
+  outputMode?: OutputMode;
+  retrievalMode?: RetrievalMode;
+  result: AnalysisResult;
+  changeNote?: string;
+  createdBy?: UserRef;
+  createdAt: string;
+};
+
+export type AssessmentComment = {
+  id: string;
+  // Version the comment refers to
+  version: number;
+  author: UserRef;
+  text: string;
+  createdAt: string;
+};
+
+// Sign-off of one version by the data protection officer
+export type AssessmentApproval = {
+  version: number;
+  approvedBy: UserRef;
+  approvedAt: string;
+  note?: string;
+};
+
+// One step of the review workflow
+export type StatusTransition = {
+  from: AssessmentStatus;
+  to: AssessmentStatus;
+  // Latest version at the time of the transition
+  version: number;
+  by: UserRef;
+  at: string;
+  note?: string;
+};
+
+// Follow-up question or answer in the chat about one version of an assessment
+export type FollowUpMessage = {
+  id: string;
+  // Version the conversation refers to
+  version: number;
+  role: 'user' | 'assistant';
+  content: string;
+  author?: UserRef;
+  model?: string;
+  // Question an answer refers to
+  replyTo?: string;
+  // Revised DSFA when the question changed the planned processing
+  revisedResult?: AnalysisResult;
+  // Version that was created from revisedResult
+  appliedVersion?: number;
+  createdAt: string;
+};
+
+export type StoredAssessment = {
+  id: string;
+  title: string;
+  versions: AssessmentVersion[];
+  comments?: AssessmentComment[];
+  followUps?: FollowUpMessage[];
+  // Measures of the latest version with their implementation state
+  measures: TrackedMeasure[];
+  // Entry in the Verzeichnis der Bearbeitungstätigkeiten, once a version is complete
+  processingRecord?: ProcessingRecord;
+  // Sections of the Datenschutzerklärung changed by hand
+  privacyNotice?: PrivacyNoticeEdits;
+  status: AssessmentStatus;
+  transitions: StatusTransition[];
+  // Last approval; kept while a later version is being revised
+  approval?: AssessmentApproval;
+  createdBy?: UserRef;
+  createdAt: string;
+  updatedAt: string;
+};
+
+export type AssessmentSummary = {
+  id: string;
+  title: string;
+  model: string;
+  riskLevel: string;
+  needsMoreInfo: boolean;
+  versionCount: number;
+  createdBy?: string;
+  status: AssessmentStatus;
+  // Latest approved version, if any
+  approvedVersion?: number;
+  createdAt: string;
+  updatedAt: string;
+};
+
+type NewVersionData = {
+  inputText: string;
+  model: string;
+  promptVersion: string;
+  outputMode: OutputMode;
+  retrievalMode: RetrievalMode;
+  result: AnalysisResult;
+  changeNote?: string;
+  createdBy: UserRef;
+};
+
+const assessments = createCollection<StoredAssessment>('assessments');
+
+const TITLE_MAX_LENGTH = 80;
+
+// Use the beginning of the input text as a human readable title
+const createTitle = (inputText: string): string => {
+  const singleLine = inputText.replace(/\s+/g, ' ').trim();
+  return singleLine.length > TITLE_MAX_LENGTH
+    ? `${singleLine.slice(0, TITLE_MAX_LENGTH).trim()}…`
+    : singleLine;
+};
+
+export const getLatestVersion = (assessment: StoredAssessment): AssessmentVersion =>
+  assessment.versions[assessment.versions.length - 1];
+
+export const getVersion = (assessment: StoredAssessment, version: number): AssessmentVersion | undefined =>
+  assessment.versions.find((v) => v.version === version);
+
+const toSummary = (assessment: StoredAssessment): AssessmentSummary => {
+  const latest = getLatestVersion(assessment);
+  return {
+    id: assessment.id,
+    title: assessment.title,
+    model: latest.model,
+    riskLevel: latest.result.riskLevel,
+    needsMoreInfo: latest.result.needsMoreInfo || false,
+    versionCount: assessment.versions.length,
+    createdBy: assessment.createdBy?.name,
+    status: assessment.status,
+    approvedVersion: assessment.approval?.version,
+    createdAt: assessment.createdAt,
+    updatedAt: assessment.updatedAt,
+  };
+};
+
+export const createAssessment = (data: NewVersionData): StoredAssessment => {
+  const now = new Date().toISOString();
+  return assessments.insert({
+    id: crypto.randomUUID(),
+    title: createTitle(data.inputText),
+    versions: [{ version: 1, ...data, createdAt: now }],
+    comments: [],
+    measures: syncMeasures(undefined, data.result, 1),
+    processingRecord: syncProcessingRecord(undefined, data.result, data.inputText, 1),
+    status: 'draft',
+    transitions: [],
+    createdBy: data.createdBy,
+    createdAt: now,
+    updatedAt: now,
+  });
+};
+
+// Append a new version to an existing assessment. A decided (approved or rejected)
+// assessment goes back to revision, since the decision does not cover the new version.
+export const addAssessmentVersion = (id: string, data: NewVersionData): StoredAssessment | undefined => {
+  const now = new Date().toISOString();
+  return assessments.update(id, (assessment) => {
+    const nextVersion = getLatestVersion(assessment).version + 1;
+    const reopened = assessment.status === 'approved' || assessment.status === 'rejected';
+    return {
+      ...assessment,
+      versions: [...assessment.versions, { version: nextVersion, ...data, createdAt: now }],
+      measures: syncMeasures(assessment.measures, data.result, nextVersion),
+      processingRecord: syncProcessingRecord(assessment.processingRecord, data.result, data.inputText, nextVersion),
+      status: reopened ? 'revision' : assessment.status,
+      transitions: reopened
+        ? [
+            ...assessment.transitions,
+            {
+              from: assessment.status,
+              to: 'revision',
+              version: nextVersion,
+              by: data.createdBy,
+              at: now,
+              note: `Version ${nextVersion} erstellt`,
+            },
+          ]
+        : assessment.transitions,
+      updatedAt: now,
+    };
+  });
+};
+
+export const listAssessments = (): AssessmentSummary[] =>
+  assessments
+    .list()
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+    .map(toSummary);
+
+export const getAssessment = (id: string): StoredAssessment | undefined => assessments.get(id);
+
+export const deleteAssessment = (id: string): boolean => assessments.remove(id);
+
+export const addComment = (
+  id: string,
+  version: number,
+  author: UserRef,
+  text: string
+): StoredAssessment | undefined => {
+  const now = new Date().toISOString();
+  return assessments.update(id, (assessment) => {
+    const comment: AssessmentComment = { id: crypto.randomUUID(), version, author, text, createdAt: now };
+    return { ...assessment, comments: [...(assessment.comments || []), comment] };
+  });
+};
+
+// Record a workflow transition for the latest version; approving also stores the sign-off
+export const changeAssessmentStatus = (
+  id: string,
+  to: AssessmentStatus,
+  by: UserRef,
+  note?: string
+): StoredAssessment | undefined => {
+  const now = new Date().toISOString();
+  return assessments.update(id, (assessment) => {
+    const version = getLatestVersion(assessment).version;
+    return {
+      ...assessment,
+      status: to,
+      transitions: [...assessment.transitions, { from: assessment.status, to, version, by, at: now, note }],
+      approval: to === 'approved' ? { version, approvedBy: by, approvedAt: now, note } : assessment.approval,
+      updatedAt: now,
+    };
+  });
+};
+
+// Users who submitted the assessment for review or created the version under review
+export const getReviewAuthors = (assessment: StoredAssessment): string[] => {
+  const submission = [...assessment.transitions].reverse().find((transition) => transition.to === 'in_review');
+  const latest = getLatestVersion(assessment);
+  return [submission?.by.id, latest.createdBy?.id].filter((id): id is string => Boolean(id));
+};
+
+export const getFollowUps = (assessment: StoredAssessment, version: number): FollowUpMessage[] =>
+  (assessment.followUps || []).filter((message) => message.version === version);
+
+// Store a question together with the model's answer
+export const addFollowUpExchange = (
+  id: string,
+  version: number,
+  question: { content: string; author: UserRef },
+  answer: { content: string; model: string; revisedResult?: AnalysisResult }
+): StoredAssessment | undefined => {
+  const now = new Date().toISOString();
+  return assessments.update(id, (assessment) => {
+    const questionId = crypto.randomUUID();
+    const messages: FollowUpMessage[] = [
+      { id: questionId, version, role: 'user', content: question.content, author: question.author, createdAt: now },
+      {
+        id: crypto.randomUUID(),
+        version,
+        role: 'assistant',
+        content: answer.content,
+        model: answer.model,
+        replyTo: questionId,
+        revisedResult: answer.revisedResult,
+        createdAt: now,
+      },
+    ];
+    return { ...assessment, followUps: [...(assessment.followUps || []), ...messages] };
+  });
+};
+
+export const markFollowUpApplied = (id: string, messageId: string, version: number): StoredAssessment | undefined =>
+  assessments.update(id, (assessment) => ({
+    ...assessment,
+    followUps: (assessment.followUps || []).map((message) =>
+      message.id === messageId ? { ...message, appliedVersion: version } : message
+    ),
+  }));
+
+export type MeasureChanges = {
+  owner?: string;
+  dueDate?: string;
+  status?: MeasureStatus;
+};
+
+// Assign an owner, due date or status; empty strings clear owner and due date
+export const updateMeasure = (
+  id: string,
+  measureId: string,
+  changes: MeasureChanges,
+  by: UserRef
+): StoredAssessment | undefined => {
+  const now = new Date().toISOString();
+  return assessments.update(id, (assessment) => ({
+    ...assessment,
+    measures: assessment.measures.map((measure) =>
+      measure.id === measureId
+        ? {
+            ...measure,
+            owner: changes.owner !== undefined ? changes.owner || undefined : measure.owner,
+            dueDate: changes.dueDate !== undefined ? changes.dueDate || undefined : measure.dueDate,
+            status: changes.status || measure.status,
+            updatedBy: by,
+            updatedAt: now,
+          }
+        : measure
+    ),
+  }));
+};
+
+export type MeasureOverviewItem = TrackedMeasure & {
+  assessmentId: string;
+  assessmentTitle: string;
+  assessmentStatus: AssessmentStatus;
+};
+
+// Measures of all assessments, earliest due date first (measures without due date last)
+export const listMeasures = (): MeasureOverviewItem[] =>
+  assessments
+    .list()
+    .flatMap((assessment) =>
+      assessment.measures.map((measure) => ({
+        ...measure,
+        assessmentId: assessment.id,
+        assessmentTitle: assessment.title,
+        assessmentStatus: assessment.status,
+      }))
+    )
+    .sort((a, b) => (a.dueDate || '9999').localeCompare(b.dueDate || '9999'));
+
+// Text of a register field; null resets the field to the value generated from its version
+export type RecordChanges = Partial<Record<RecordField, string | null>>;
+
+export const updateProcessingRecord = (
+  id: string,
+  changes: RecordChanges,
+  by: UserRef
+): StoredAssessment | undefined => {
+  const now = new Date().toISOString();
+  return assessments.update(id, (assessment) => {
+    const record = assessment.processingRecord;
+    if (!record) return assessment;
+    const source = getVersion(assessment, record.version) || getLatestVersion(assessment);
+    const generated = generateRecordFields(source.result, source.inputText, source.version);
+    const fields = { ...record.fields };
+    const edited = new Set(record.editedFields);
+    (Object.keys(changes) as RecordField[]).forEach((field) => {
+      const value = changes[field];
+      if (value === null) {
+        fields[field] = generated[field];
+        edited.delete(field);
+      } else if (value !== undefined) {
+        fields[field] = value.trim();
+        edited.add(field);
+      }
+    });
+    return {
+      ...assessment,
+      processingRecord: { ...record, fields, editedFields: Array.from(edited), updatedBy: by, updatedAt: now },
+    };
+  });
+};
+
+export type NoticeChanges = Partial<Record<NoticeSection, string | null>>;
+
+// Edit sections of the Datenschutzerklärung; null returns a section to the generated text
+export const updatePrivacyNotice = (
+  id: string,
+  changes: NoticeChanges,
+  by: UserRef
+): StoredAssessment | undefined =>
+  assessments.update(id, (assessment) => {
+    const sections = { ...assessment.privacyNotice?.sections };
+    (Object.keys(changes) as NoticeSection[]).forEach((section) => {
+      const value = changes[section];
+      if (value === null) {
+        delete sections[section];
+      } else if (value !== undefined) {
+        sections[section] = value.trim();
+      }
+    });
+    return { ...assessment, privacyNotice: { sections, updatedBy: by, updatedAt: new Date().toISOString() } };
+  });
+
+export type RegisterEntry = ProcessingRecord & {
+  assessmentId: string;
+  assessmentTitle: string;
+  assessmentStatus: AssessmentStatus;
+  approvedVersion?: number;
+};
+
+// Register entries of all assessments with a complete DSFA, by title
+export const listProcessingRecords = (): RegisterEntry[] =>
+  assessments
+    .list()
+    .filter((assessment) => assessment.processingRecord)
+    .map((assessment) => ({
+      ...assessment.processingRecord!,
+      assessmentId: assessment.id,
+      assessmentTitle: assessment.title,
+      assessmentStatus: assessment.status,
+      approvedVersion: assessment.approval?.version,
+    }))
+    .sort((a, b) => a.assessmentTitle.localeCompare(b.assessmentTitle, 'de'));
@@ -0,0 +1,238 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Request, Response } from 'express';
+import { resolveDataDir } from './storage';
+
+// --- Audit log ---
+// Accountability towards the EDÖB: who signed in, who ran which assessment with
+// which model and input, and who changed or approved it. Entries are appended to
+// a JSON Lines file and never rewritten. Each entry contains the hash of its
+// predecessor, so changing, inserting or removing a line breaks the chain from
+// that point on. Truncating the end is only detectable by comparing the head
+// hash with an earlier export or verification.
+
+export type AuditAction =
+  | 'auth.login'
+  | 'auth.logout'
+  | 'auth.password_change'
+  | 'user.create'
+  | 'user.update'
+  | 'assessment.precheck'
+  | 'assessment.analyze'
+  | 'assessment.delete'
+  | 'assessment.comment'
+  | 'assessment.status'
+  | 'assessment.chat'
+  | 'assessment.revise'
+  | 'breach.analyze'
+  | 'measure.update'
+  | 'record.update'
+  | 'notice.update'
+  | 'vendor.create'
+  | 'vendor.update'
+  | 'vendor.delete'
+  | 'audit.export';
+
+export type AuditActor = {
+  id: string;
+  name: string;
+};
+
+export type AuditEntry = {
+  seq: number;
+  timestamp: string;
+  action: AuditAction;
+  // null for anonymous requests, e.g. a failed login with an unknown username
+  actor: AuditActor | null;
+  outcome: 'success' | 'failure';
+  // Id of the affected assessment or user account
+  target?: string;
+  details?: Record<string, unknown>;
+  ip?: string;
+  prevHash: string;
+  hash: string;
+};
+
+export type AuditEvent = {
+  action: AuditAction;
+  actor: AuditActor | null;
+  outcome?: 'success' | 'failure';
+  target?: string;
+  details?: Record<string, unknown>;
+  ip?: string;
+};
+
+const GENESIS_HASH = '0'.repeat(64);
+
+export const getAuditLogPath = (): string => path.join(resolveDataDir(), 'audit-log.jsonl');
+
+// Hash over the predecessor's hash and the entry in a fixed field order
+const hashEntry = (entry: Omit<AuditEntry, 'hash'>): string =>
+  crypto
+    .createHash('sha256')
+    .update(
+      JSON.stringify([
+        entry.prevHash,
+        entry.seq,
+        entry.timestamp,
+        entry.action,
+        entry.actor,
+        entry.outcome,
+        entry.target ?? null,
+        entry.details ?? null,
+        entry.ip ?? null,
+      ])
+    )
+    .digest('hex');
+
+const readLines = (filePath: string): string[] => {
+  try {
+    return fs.readFileSync(filePath, 'utf-8').split('\n').filter((line) => line.trim());
+  } catch (err: any) {
+    if (err.code === 'ENOENT') return [];
+    throw err;
+  }
+};
+
+// Sequence number and hash of the last entry, read once from the file
+let head: { seq: number; hash: string } | null = null;
+
+const getHead = (): { seq: number; hash: string } => {
+  if (head) return head;
+  const lines = readLines(getAuditLogPath());
+  head = { seq: 0, hash: GENESIS_HASH };
+  if (lines.length > 0) {
+    try {
+      const last: AuditEntry = JSON.parse(lines[lines.length - 1]);
+      head = { seq: last.seq, hash: last.hash };
+    } catch {
+      // A damaged last line is reported by verifyAuditLog; keep appending after it
+      head = { seq: lines.length, hash: GENESIS_HASH };
+    }
+  }
+  return head;
+};
+
+export const recordAudit = (event: AuditEvent): AuditEntry => {
+  const previous = getHead();
+  const unsigned: Omit<AuditEntry, 'hash'> = {
+    seq: previous.seq + 1,
+    timestamp: new Date().toISOString(),
+    action: event.action,
+    actor: event.actor,
+    outcome: event.outcome || 'success',
+    target: event.target,
+    details: event.details,
+    ip: event.ip,
+    prevHash: previous.hash,
+  };
+  const entry: AuditEntry = { ...unsigned, hash: hashEntry(unsigned) };
+
+  const filePath = getAuditLogPath();
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  // Synchronous append keeps the chain in order within this process
+  fs.appendFileSync(filePath, `${JSON.stringify(entry)}\n`, 'utf-8');
+  head = { seq: entry.seq, hash: entry.hash };
+  return entry;
+};
+
+// Records an event of the signed-in user (set by authMiddleware) of the request
+export const auditRequest = (req: Request, res: Response, event: Omit<AuditEvent, 'actor' | 'ip'>): AuditEntry => {
+  const user = res.locals.user;
+  return recordAudit({
+    ...event,
+    actor: user ? { id: user.id, name: user.displayName } : null,
+    ip: req.ip,
+  });
+};
+
+// SHA-256 of an analysed text, so the log proves which input was used without copying it
+export const hashInput = (text: string): string => crypto.createHash('sha256').update(text).digest('hex');
+
+export type AuditQuery = {
+  action?: string;
+  actorId?: string;
+  target?: string;
+  from?: string;
+  to?: string;
+  limit?: number;
+  offset?: number;
+};
+
+const parseEntries = (lines: string[]): AuditEntry[] =>
+  lines.flatMap((line) => {
+    try {
+      return [JSON.parse(line) as AuditEntry];
+    } catch {
+      return [];
+    }
+  });
+
+// Newest first; "action" also matches a prefix such as "assessment."
+export const queryAuditLog = (query: AuditQuery): { entries: AuditEntry[]; total: number } => {
+  const fromTime = query.from ? new Date(query.from).getTime() : null;
+  const toTime = query.to ? new Date(query.to).getTime() : null;
+  const matches = parseEntries(readLines(getAuditLogPath()))
+    .filter((entry) => {
+      if (query.action && !entry.action.startsWith(query.action)) return false;
+      if (query.actorId && entry.actor?.id !== query.actorId) return false;
+      if (query.target && entry.target !== query.target) return false;
+      const time = new Date(entry.timestamp).getTime();
+      if (fromTime !== null && !Number.isNaN(fromTime) && time < fromTime) return false;
+      if (toTime !== null && !Number.isNaN(toTime) && time > toTime) return false;
+      return true;
+    })
+    .reverse();
+
+  const offset = Math.max(0, query.offset || 0);
+  const limit = Math.min(1000, Math.max(1, query.limit || 100));
+  return { entries: matches.slice(offset, offset + limit), total: matches.length };
+};
+
+// Raw file content for the export, so it can be verified independently of this server
+export const readAuditLog = (): string => readLines(getAuditLogPath()).map((line) => `${line}\n`).join('');
+
+export type AuditVerification = {
+  valid: boolean;
+  entries: number;
+  // Hash of the last valid entry; compare it with an earlier export to detect truncation
+  headHash: string;
+  error?: { line: number; message: string };
+};
+
+export const verifyAuditLog = (filePath: string = getAuditLogPath()): AuditVerification => {
+  const lines = readLines(filePath);
+  let previousHash = GENESIS_HASH;
+  let previousSeq = 0;
+
+  for (let index = 0; index < lines.length; index++) {
+    const fail = (message: string): AuditVerification => ({
+      valid: false,
+      entries: index,
+      headHash: previousHash,
+      error: { line: index + 1, message },
+    });
+
+    let entry: AuditEntry;
+    try {
+      entry = JSON.parse(lines[index]);
+    } catch {
+      return fail('Zeile ist kein gültiges JSON.');
+    }
+    if (entry.seq !== previousSeq + 1) {
+      return fail(`Laufnummer ${entry.seq} erwartet ${previousSeq + 1} (Eintrag entfernt oder eingefügt).`);
+    }
+    if (entry.prevHash !== previousHash) {
+      return fail('Verweis auf den vorherigen Eintrag stimmt nicht überein.');
+    }
+    const { hash, ...unsigned } = entry;
+    if (hashEntry(unsigned) !== hash) {
+      return fail('Hash stimmt nicht mit dem Inhalt überein (Eintrag verändert).');
+    }
+    previousHash = hash;
+    previousSeq = entry.seq;
+  }
+
+  return { valid: true, entries: lines.length, headHash: previousHash };
+};
@@ -0,0 +1,136 @@
+import crypto from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { createCollection } from './storage';
+import { StoredUser, PublicUser, getUser, toPublicUser } from './users';
+import { Permission, hasPermission } from './roles';
+
+// --- Sessions ---
+// Login issues a random token in an HttpOnly cookie. Only the SHA-256 hash of
+// the token is stored, so the sessions file cannot be used to sign in, and
+// logout deletes the session on the server instead of just forgetting the cookie.
+
+type StoredSession = {
+  // SHA-256 of the session token
+  id: string;
+  userId: string;
+  createdAt: string;
+  expiresAt: string;
+};
+
+export const SESSION_COOKIE = 'dsfa_session';
+
+const sessions = createCollection<StoredSession>('sessions');
+
+const getSessionTtlMs = (): number =>
+  Math.max(1, parseFloat(process.env.SESSION_TTL_HOURS || '12') || 12) * 60 * 60 * 1000;
+
+const hashToken = (token: string): string => crypto.createHash('sha256').update(token).digest('hex');
+
+const isExpired = (session: StoredSession): boolean => new Date(session.expiresAt).getTime() <= Date.now();
+
+const removeExpiredSessions = () => {
+  sessions
+    .list()
+    .filter(isExpired)
+    .forEach((session) => sessions.remove(session.id));
+};
+
+// Returns the token for the session cookie
+export const createSession = (userId: string): string => {
+  removeExpiredSessions();
+  const token = crypto.randomBytes(32).toString('base64url');
+  const now = Date.now();
+  sessions.insert({
+    id: hashToken(token),
+    userId,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + getSessionTtlMs()).toISOString(),
+  });
+  return token;
+};
+
+export const deleteSession = (token: string): void => {
+  sessions.remove(hashToken(token));
+};
+
+// Sign out everywhere, e.g. after a password change
+export const deleteUserSessions = (userId: string, exceptToken?: string): void => {
+  const keep = exceptToken ? hashToken(exceptToken) : null;
+  sessions
+    .list()
+    .filter((session) => session.userId === userId && session.id !== keep)
+    .forEach((session) => sessions.remove(session.id));
+};
+
+export const getSessionUser = (token: string): StoredUser | null => {
+  const session = sessions.get(hashToken(token));
+  if (!session) return null;
+  if (isExpired(session)) {
+    sessions.remove(session.id);
+    return null;
+  }
+  return getUser(session.userId) || null;
+};
+
+// Minimal cookie header parser (no cookie-parser dependency needed for one cookie)
+export const getSessionToken = (req: Request): string | null => {
+  const header = req.headers.cookie;
+  if (!header) return null;
+  for (const part of header.split(';')) {
+    const [name, ...value] = part.trim().split('=');
+    if (name === SESSION_COOKIE) {
+      return decodeURIComponent(value.join('='));
+    }
+  }
+  return null;
+};
+
+export const setSessionCookie = (res: Response, token: string) => {
+  res.cookie(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'strict',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    maxAge: getSessionTtlMs(),
+  });
+};
+
+export const clearSessionCookie = (res: Response) => {
+  res.clearCookie(SESSION_COOKIE, { path: '/' });
+};
+
+// Signed-in user of the current request (set by authMiddleware)
+export const getCurrentUser = (res: Response): PublicUser => res.locals.user;
+
+// Endpoints that are reachable without a session
+const PUBLIC_API_PATHS = ['/api/models', '/api/auth/login', '/api/auth/logout'];
+
+export const authMiddleware = (req: Request, res: Response, next: NextFunction) => {
+  // Static files of the React app are public, the login page is part of them
+  if (!req.path.startsWith('/api') || PUBLIC_API_PATHS.includes(req.path)) {
+    return next();
+  }
+
+  const token = getSessionToken(req);
+  const user = token ? getSessionUser(token) : null;
+  if (!user) {
+    return res.status(401).json({
+      error: 'Nicht angemeldet oder Sitzung abgelaufen. Bitte melden Sie sich an.',
+      requiresLogin: true,
+    });
+  }
+
+  res.locals.user = toPublicUser(user);
+  next();
+};
+
+// Route guard: the signed-in user needs at least one of the given permissions
+export const requirePermission =
+  (...permissions: Permission[]) =>
+  (req: Request, res: Response, next: NextFunction) => {
+    const user = getCurrentUser(res);
+    if (!user || !permissions.some((permission) => hasPermission(user.roles, permission))) {
+      return res.status(403).json({ error: 'Keine Berechtigung für diese Aktion.' });
+    }
+    next();
+  };
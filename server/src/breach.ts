@@ -0,0 +1,163 @@
+import { LawArticle, LegalReference } from './types';
+import { extractLegalReferences } from './legalReferences';
+import { cleanMarkdown, formatLawContext } from './dsfa';
+
+// --- Verletzung der Datensicherheit (Art. 24 DSG) ---
+// Second analysis mode next to the DSFA: an incident is described after the fact and
+// the model assesses whether the EDÖB has to be notified (Art. 24 Abs. 1 DSG) and
+// whether the affected persons have to be informed (Art. 24 Abs. 4 DSG), with drafts
+// of both messages. The result is not stored; the PDF export serves as the
+// documentation required by Art. 15 Abs. 4 DSV.
+
+// Returned with every result so answers from older prompt templates can be told apart
+export const BREACH_PROMPT_VERSION = 'breach-1';
+
+// Definitions (Verletzung der Datensicherheit), data security and the notification duty
+export const BREACH_PINNED_ARTICLES = ['Art. 5', 'Art. 8', 'Art. 24'];
+
+// The incident is embedded in the prompt between quotes after this marker
+export const BREACH_MARKER = 'Beschreibung des Vorfalls:';
+
+export type BreachDecision = 'yes' | 'no' | 'unclear';
+
+export type BreachDuty = {
+  decision: BreachDecision;
+  reason: string;
+};
+
+export type BreachResult = {
+  summary: string;
+  facts: string;
+  riskAssessment: string;
+  // LOW, MEDIUM, HIGH or UNKNOWN if the answer could not be parsed
+  riskLevel: string;
+  // Meldung an den EDÖB (Art. 24 Abs. 1 DSG)
+  authorityNotification: BreachDuty;
+  // Information der betroffenen Personen (Art. 24 Abs. 4 DSG)
+  subjectInformation: BreachDuty;
+  immediateMeasures: string[];
+  authorityDraft: string;
+  subjectDraft: string;
+  analysis: string;
+  legalReferences: LegalReference[];
+};
+
+const DECISIONS: Record<string, BreachDecision> = {
+  JA: 'yes',
+  NEIN: 'no',
+  UNKLAR: 'unclear',
+};
+
+const LABELS = [
+  'ZUSAMMENFASSUNG',
+  'SACHVERHALT',
+  'RISIKOBEURTEILUNG',
+  'RISK_LEVEL',
+  'MELDUNG_EDOEB',
+  'INFORMATION_BETROFFENE',
+  'SOFORTMASSNAHMEN',
+  'MELDUNGSENTWURF',
+  'INFORMATIONSENTWURF',
+];
+
+export const createBreachPrompt = (incidentText: string, lawContext: LawArticle[]): string => `Du bist ein Experte für Datenschutzrecht in der Schweiz und beurteilst eine Verletzung der Datensicherheit im Sinne von Art. 5 Bst. h DSG für den Verantwortlichen.
+
+KRITISCH: Bei Rechtsverweisen MÜSSEN Sie das exakte Format verwenden: "Art. [Nummer] [Gesetzesabkürzung]" oder "Art. [Nummer] Abs. [Absatz] [Gesetzesabkürzung]"
+Beispiele: "Art. 24 Abs. 1 DSG", "Art. 15 DSV"
+
+SPRACHE: Alle Ausführungen müssen vollständig auf Deutsch verfasst sein. Die Strukturlabels (${LABELS.join(', ')}) müssen exakt beibehalten werden.
+
+RECHTLICHER RAHMEN:
+- Art. 24 Abs. 1 DSG: Der Verantwortliche meldet dem EDÖB so rasch als möglich eine Verletzung der Datensicherheit, die voraussichtlich zu einem hohen Risiko für die Persönlichkeit oder die Grundrechte der betroffenen Person führt.
+- Art. 24 Abs. 2 DSG und Art. 15 Abs. 1 DSV: Die Meldung nennt mindestens die Art der Verletzung, soweit möglich den Zeitpunkt und die Dauer, die Kategorien und die ungefähre Anzahl der betroffenen Personendaten und Personen, die Folgen einschliesslich der Risiken für die betroffenen Personen, die ergriffenen oder vorgesehenen Massnahmen sowie Name und Kontaktdaten einer Ansprechperson. Fehlende Angaben werden nachgereicht (Art. 15 Abs. 2 DSV).
+- Art. 24 Abs. 3 DSG: Ein Auftragsbearbeiter meldet die Verletzung so rasch als möglich dem Verantwortlichen.
+- Art. 24 Abs. 4 DSG: Die betroffene Person wird informiert, wenn es zu ihrem Schutz erforderlich ist oder der EDÖB es verlangt. Die Information erfolgt in einfacher und verständlicher Sprache (Art. 15 Abs. 3 DSV).
+- Art. 24 Abs. 5 DSG: Die Information kann eingeschränkt, aufgeschoben oder unterlassen werden, wenn ein Grund nach Art. 26 Abs. 1 Bst. b oder Abs. 2 Bst. b DSG vorliegt, wenn sie unmöglich ist oder einen unverhältnismässigen Aufwand erfordert, oder wenn eine öffentliche Bekanntmachung gleichwertig ist.
+- Art. 15 Abs. 4 DSV: Der Verantwortliche dokumentiert jede Verletzung mit den Umständen, Auswirkungen und ergriffenen Massnahmen und bewahrt die Dokumentation mindestens zwei Jahre auf.
+
+VORGEHEN:
+1. Fasse den Sachverhalt zusammen: Art der Verletzung (Verlust, Löschung, Vernichtung, Veränderung, unbefugte Offenlegung oder unbefugter Zugang), Zeitpunkt und Dauer, betroffene Datenkategorien (besonders schützenswerte Personendaten gemäss Art. 5 Bst. c DSG?), Anzahl der betroffenen Personen und bereits ergriffene Massnahmen.
+2. Beurteile das Risiko für die Persönlichkeit und die Grundrechte der betroffenen Personen nach Eintrittswahrscheinlichkeit und Schwere der Folgen (z.B. Identitätsdiebstahl, Betrug, Diskriminierung, Rufschädigung, finanzieller Schaden). Berücksichtige Schutzmassnahmen wie eine wirksame Verschlüsselung (Art. 8 DSG).
+3. Entscheide, ob eine Meldung an den EDÖB erforderlich ist. JA nur bei voraussichtlich hohem Risiko (RISK_LEVEL HIGH). UNKLAR, wenn wesentliche Angaben fehlen; nenne diese in der Begründung.
+4. Entscheide, ob die betroffenen Personen zu informieren sind, und prüfe die Ausnahmen nach Art. 24 Abs. 5 DSG.
+5. Nenne die Sofortmassnahmen zur Eindämmung und Behebung der Verletzung.
+6. Entwirf die Meldung an den EDÖB mit den Angaben nach Art. 15 Abs. 1 DSV und die Information der betroffenen Personen nach Art. 15 Abs. 3 DSV. Setze fehlende Angaben als Platzhalter in eckigen Klammern ein, z.B. [Name der Ansprechperson]. Entwürfe sind auch dann zu erstellen, wenn keine Pflicht besteht, damit sie bei einer neuen Einschätzung vorliegen.
+
+Kontext aus den hinterlegten Erlassen (DSG und weitere relevante Bestimmungen):
+${formatLawContext(lawContext)}
+
+${BREACH_MARKER}
+
+"${incidentText}"
+
+FORMATIERUNGSREGELN:
+- VERWENDE KEIN MARKDOWN (keine **, keine ###, keine Code-Formatierung)
+- Verwende klare Absätze und Aufzählungen mit Bindestrichen
+
+Bitte formatiere deine Antwort exakt wie folgt (alle Abschnitte müssen vorhanden sein):
+
+ZUSAMMENFASSUNG:
+[2-3 Sätze mit dem Ergebnis und Rechtszitaten]
+
+SACHVERHALT:
+[Art der Verletzung, Zeitpunkt und Dauer, Datenkategorien, Anzahl betroffener Personen, bisherige Massnahmen]
+
+RISIKOBEURTEILUNG:
+[Begründete Beurteilung des Risikos für die betroffenen Personen mit Rechtszitaten]
+
+RISK_LEVEL: [LOW|MEDIUM|HIGH]
+
+MELDUNG_EDOEB: [JA|NEIN|UNKLAR] – [Begründung mit Rechtszitat, z.B. Art. 24 Abs. 1 DSG]
+
+INFORMATION_BETROFFENE: [JA|NEIN|UNKLAR] – [Begründung mit Rechtszitat, z.B. Art. 24 Abs. 4 DSG]
+
+SOFORTMASSNAHMEN:
+- [Massnahme 1]
+- [Massnahme 2]
+
+MELDUNGSENTWURF:
+[Entwurf der Meldung an den EDÖB]
+
+INFORMATIONSENTWURF:
+[Entwurf der Information an die betroffenen Personen]`;
+
+// Text of a labelled section up to the next known label
+const findSection = (response: string, label: string): string => {
+  const others = LABELS.filter((item) => item !== label).join('|');
+  const match = response.match(new RegExp(`${label}:\\s*([\\s\\S]*?)(?=(?:${others}):|$)`, 'i'));
+  return match ? cleanMarkdown(match[1].trim()) : '';
+};
+
+const parseDuty = (section: string): BreachDuty => {
+  const match = section.match(/^\[?(JA|NEIN|UNKLAR)\]?\s*[-–—:.,]?\s*([\s\S]*)$/i);
+  if (!match) {
+    return { decision: 'unclear', reason: section || 'Die Antwort enthält keine Beurteilung.' };
+  }
+  return { decision: DECISIONS[match[1].toUpperCase()], reason: match[2].trim() };
+};
+
+const parseList = (section: string): string[] =>
+  section
+    .split('\n')
+    .map((line) => line.replace(/^(?:[-•*]|\d+[.)]|\([a-z0-9]\))\s*/i, '').trim())
+    .filter(Boolean);
+
+export const parseBreachResponse = (response: string): BreachResult => {
+  const riskMatch = response.match(/RISK_LEVEL:\s*\[?(LOW|MEDIUM|HIGH)/i);
+  return {
+    summary: findSection(response, 'ZUSAMMENFASSUNG') || 'Keine Zusammenfassung vorhanden.',
+    facts: findSection(response, 'SACHVERHALT'),
+    riskAssessment: findSection(response, 'RISIKOBEURTEILUNG'),
+    riskLevel: riskMatch ? riskMatch[1].toUpperCase() : 'UNKNOWN',
+    authorityNotification: parseDuty(findSection(response, 'MELDUNG_EDOEB')),
+    subjectInformation: parseDuty(findSection(response, 'INFORMATION_BETROFFENE')),
+    immediateMeasures: parseList(findSection(response, 'SOFORTMASSNAHMEN')),
+    authorityDraft: findSection(response, 'MELDUNGSENTWURF'),
+    subjectDraft: findSection(response, 'INFORMATIONSENTWURF'),
+    analysis: response,
+    legalReferences: extractLegalReferences(response),
+  };
+};
+
+// Answers without a risk level could not be parsed and are worth another try
+export const isUsableBreachResult = (result: BreachResult): boolean => result.riskLevel !== 'UNKNOWN';
@@ -0,0 +1,253 @@
+import fs from 'fs';
+import path from 'path';
+import { LawArticle, LawParagraph } from './types';
+
+// --- Law corpus registry ---
+// dsg.xml plus every XML file in LAWS_DIR (default: laws/ in the project root) is
+// loaded into a corpus per law. Both the simplified format of dsg.xml and
+// Akoma Ntoso exports from fedlex are supported. Retrieval, citation
+// verification and the law browser all read from this registry.
+
+export type LawCorpus = {
+  // Lowercase abbreviation used in URLs, e.g. "dsg"
+  id: string;
+  abbreviation: string;
+  title: string;
+  srNumber: string;
+  url: string;
+  // Excerpts (e.g. only Art. 328b OR) cannot prove that an article does not exist
+  excerpt: boolean;
+  articles: LawArticle[];
+};
+
+type KnownLaw = {
+  title: string;
+  srNumber: string;
+  url: string;
+  aliases: string[];
+};
+
+// Metadata for laws whose XML files do not carry it themselves
+const KNOWN_LAWS: Record<string, KnownLaw> = {
+  DSG: {
+    title: 'Bundesgesetz über den Datenschutz',
+    srNumber: '235.1',
+    url: 'https://www.fedlex.admin.ch/eli/cc/2022/491/de',
+    aliases: ['Datenschutzgesetz', 'DSG 2023'],
+  },
+  DSV: {
+    title: 'Verordnung über den Datenschutz',
+    srNumber: '235.11',
+    url: 'https://www.fedlex.admin.ch/eli/cc/2022/568/de',
+    aliases: ['Datenschutzverordnung'],
+  },
+  BV: {
+    title: 'Bundesverfassung der Schweizerischen Eidgenossenschaft',
+    srNumber: '101',
+    url: 'https://www.fedlex.admin.ch/eli/cc/1999/404/de',
+    aliases: ['Bundesverfassung'],
+  },
+  ZGB: {
+    title: 'Schweizerisches Zivilgesetzbuch',
+    srNumber: '210',
+    url: 'https://www.fedlex.admin.ch/eli/cc/24/233_245_233/de',
+    aliases: ['Zivilgesetzbuch'],
+  },
+  OR: {
+    title: 'Obligationenrecht',
+    srNumber: '220',
+    url: 'https://www.fedlex.admin.ch/eli/cc/27/317_321_377/de',
+    aliases: ['Obligationenrecht'],
+  },
+  StGB: {
+    title: 'Schweizerisches Strafgesetzbuch',
+    srNumber: '311.0',
+    url: 'https://www.fedlex.admin.ch/eli/cc/54/757_781_799/de',
+    aliases: ['Strafgesetzbuch'],
+  },
+};
+
+const ROOT_DIR = path.resolve(__dirname, '../..');
+const DSG_XML_PATH = path.join(ROOT_DIR, 'dsg.xml');
+
+const stripTags = (html: string): string => html.replace(/<[^>]+>/g, ' ');
+
+const cleanText = (html: string): string =>
+  stripTags(html.replace(/<authorialNote[\s\S]*?<\/authorialNote>/gi, '')).replace(/\s+/g, ' ').trim();
+
+// "para_3_bis" -> "3bis", "art_13/para_1" -> "1", "para" (single paragraph) -> ""
+const parseParagraphNumber = (value: string): string =>
+  value.replace(/^.*\//, '').replace(/^para_?/, '').replace(/_/g, '');
+
+const getAttribute = (tag: string, name: string): string | undefined => {
+  const match = tag.match(new RegExp(`\\s${name}="([^"]*)"`, 'i'));
+  return match ? match[1] : undefined;
+};
+
+// "Art. 5a" -> "5a"
+export const getArticleNumber = (article: LawArticle): string => article.id.replace(/^Art\.\s*/i, '').trim();
+
+const extractParagraphs = (articleBlock: string): LawParagraph[] => {
+  const paragraphs: LawParagraph[] = [];
+  const paragraphRegex = /<paragraph([^>]*)>([\s\S]*?)<\/paragraph>/gi;
+  let paraMatch;
+  while ((paraMatch = paragraphRegex.exec(articleBlock)) !== null) {
+    const attributes = paraMatch[1];
+    let body = paraMatch[2];
+
+    // Akoma Ntoso keeps the paragraph number in a <num> element
+    const numMatch = body.match(/<num[^>]*>([\s\S]*?)<\/num>/i);
+    if (numMatch) {
+      body = body.replace(numMatch[0], ' ');
+    }
+
+    const paraText = cleanText(body);
+    if (!paraText) continue;
+
+    const numberAttr = getAttribute(attributes, 'number') || getAttribute(attributes, 'eId');
+    const number = numberAttr
+      ? parseParagraphNumber(numberAttr)
+      : numMatch
+        ? cleanText(numMatch[1]).replace(/\s+/g, '')
+        : '';
+    paragraphs.push({ number, text: paraText });
+  }
+  return paragraphs;
+};
+
+export const extractArticles = (xml: string, law: string, srNumber: string): LawArticle[] => {
+  const articles: LawArticle[] = [];
+  const articleRegex = /<article[^>]*>([\s\S]*?)<\/article>/gi;
+  let match;
+
+  while ((match = articleRegex.exec(xml)) !== null) {
+    const articleBlock = match[1];
+
+    // Try simplified format first: <number>Art. X</number>
+    let numMatch = articleBlock.match(/<number>([\s\S]*?)<\/number>/i);
+    // Fallback to fedlex format: <num><b>Art. X</b></num> or <num>Art. X</num>
+    if (!numMatch) {
+      numMatch = articleBlock.match(/<num[^>]*>(?:\s*<b>)?(Art\.\s*[^<]+)/i);
+    }
+
+    const headingMatch = articleBlock.match(/<heading[^>]*>([\s\S]*?)<\/heading>/i);
+
+    const id = numMatch ? cleanText(numMatch[1]) : 'Unbekannt';
+    const heading = headingMatch ? cleanText(headingMatch[1]) : 'Ohne Titel';
+    const paragraphs = extractParagraphs(articleBlock);
+
+    // Articles without <paragraph> elements are treated as a single unnumbered paragraph
+    if (paragraphs.length === 0) {
+      const text = cleanText(articleBlock.replace(/<(number|num|heading)[^>]*>[\s\S]*?<\/\1>/gi, ' '));
+      if (text) paragraphs.push({ number: '', text });
+    }
+    const text = paragraphs.map((p) => p.text).join(' ');
+
+    articles.push({ id, law, srNumber, heading, text, paragraphs });
+  }
+
+  return articles;
+};
+
+const findKnownLaw = (name: string): string | undefined => {
+  const lower = name.toLowerCase();
+  return Object.keys(KNOWN_LAWS).find(
+    (abbreviation) =>
+      abbreviation.toLowerCase() === lower ||
+      KNOWN_LAWS[abbreviation].aliases.some((alias) => alias.toLowerCase() === lower)
+  );
+};
+
+// Metadata from root attributes (<law abbreviation="BV" sr="101" excerpt="true">),
+// Akoma Ntoso FRBR elements, or the file name (e.g. "dsv.xml", "or_328b.xml")
+const readMetadata = (xml: string, filePath: string) => {
+  const rootTag = (xml.replace(/<\?xml[^>]*\?>/, '').match(/<[a-zA-Z][^>]*>/) || [''])[0];
+  const frbrName = xml.match(/<FRBRname[^>]*value="([^"]+)"/i)?.[1];
+  const frbrNumber = xml.match(/<FRBRnumber[^>]*value="([^"]+)"/i)?.[1];
+  const fileName = path.basename(filePath, path.extname(filePath)).split(/[_\-.]/)[0];
+
+  const name = getAttribute(rootTag, 'abbreviation') || frbrName || fileName;
+  const abbreviation = findKnownLaw(name) || name.toUpperCase();
+  const known = KNOWN_LAWS[abbreviation];
+
+  return {
+    abbreviation,
+    title: getAttribute(rootTag, 'title') || known?.title || abbreviation,
+    srNumber: getAttribute(rootTag, 'sr') || frbrNumber || known?.srNumber || '',
+    url: getAttribute(rootTag, 'url') || known?.url || '',
+    excerpt: getAttribute(rootTag, 'excerpt') === 'true',
+  };
+};
+
+const loadLawFile = (filePath: string): LawCorpus | null => {
+  try {
+    const xml = fs.readFileSync(filePath, 'utf-8');
+    const metadata = readMetadata(xml, filePath);
+    const articles = extractArticles(xml, metadata.abbreviation, metadata.srNumber);
+    if (articles.length === 0) {
+      console.warn(`Keine Artikel in ${filePath} gefunden, Datei wird ignoriert.`);
+      return null;
+    }
+    return { id: metadata.abbreviation.toLowerCase(), ...metadata, articles };
+  } catch (err) {
+    console.warn(`Konnte ${filePath} nicht laden:`, err);
+    return null;
+  }
+};
+
+const getLawFiles = (): string[] => {
+  const lawsDir = process.env.LAWS_DIR || path.join(ROOT_DIR, 'laws');
+  if (!fs.existsSync(lawsDir)) return [];
+  return fs
+    .readdirSync(lawsDir)
+    .filter((file) => file.toLowerCase().endsWith('.xml'))
+    .sort()
+    .map((file) => path.join(lawsDir, file));
+};
+
+const loadCorpora = (): LawCorpus[] => {
+  const corpora = new Map<string, LawCorpus>();
+
+  [DSG_XML_PATH, ...getLawFiles()].forEach((filePath) => {
+    const corpus = loadLawFile(filePath);
+    if (!corpus) return;
+
+    // Several files of the same law (e.g. excerpts) are merged; the first copy of an article wins
+    const existing = corpora.get(corpus.id);
+    if (!existing) {
+      corpora.set(corpus.id, corpus);
+      return;
+    }
+    const knownIds = new Set(existing.articles.map((article) => article.id));
+    existing.articles.push(...corpus.articles.filter((article) => !knownIds.has(article.id)));
+    existing.excerpt = existing.excerpt && corpus.excerpt;
+  });
+
+  return Array.from(corpora.values());
+};
+
+// Loaded on first use so LAWS_DIR from the .env file is respected
+let corpora: LawCorpus[] | null = null;
+
+export const getCorpora = (): LawCorpus[] => {
+  if (!corpora) {
+    corpora = loadCorpora();
+    console.log(
+      `Loaded law corpora: ${corpora.map((c) => `${c.abbreviation} (${c.articles.length} Artikel)`).join(', ') || 'keine'}`
+    );
+  }
+  return corpora;
+};
+
+// Find a corpus by id, abbreviation or alias ("dsg", "DSG", "Datenschutzgesetz")
+export const getCorpus = (name: string): LawCorpus | undefined => {
+  const abbreviation = findKnownLaw(name) || name;
+  return getCorpora().find((corpus) => corpus.abbreviation.toLowerCase() === abbreviation.toLowerCase());
+};
+
+export const getAllArticles = (): LawArticle[] => getCorpora().flatMap((corpus) => corpus.articles);
+
+export const findArticle = (corpus: LawCorpus, number: string): LawArticle | undefined => {
+  const normalized = number.replace(/^Art\.\s*/i, '').replace(/\s+/g, '').toLowerCase();
+  return corpus.articles.find((article) => getArticleNumber(article).replace(/\s+/g, '').toLowerCase() === normalized);
+};
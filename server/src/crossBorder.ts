@@ -0,0 +1,308 @@
+import { Adequacy, TransferAssessment, TransferMechanism, TransferRecipient } from './types';
+import { extractLegalReferences } from './legalReferences';
+
+// --- Cross-border disclosure (Art. 16/17 DSG) ---
+// Foreign recipients are detected in the input text from country names and well-known
+// providers and checked against the list of states with adequate protection in
+// Anhang 1 DSV. The result names the mechanism a disclosure needs and is shown as its
+// own section and passed to the model, so it does not have to guess the adequacy.
+
+// Update together with COUNTRIES when the Federal Council changes Anhang 1 DSV
+export const ADEQUACY_LIST_DATE = '2024-09-15';
+
+type CountryEntry = {
+  code: string;
+  name: string;
+  adequacy: Adequacy;
+  // Regex fragments matched as whole words, case-insensitive
+  names: string[];
+  // For conditional countries: which recipients are covered and how the text names it
+  condition?: { text: string; pattern: RegExp };
+};
+
+const adequate = (code: string, name: string, names: string[] = [name]): CountryEntry => ({
+  code,
+  name,
+  adequacy: 'adequate',
+  names,
+});
+
+const notAdequate = (code: string, name: string, names: string[] = [name]): CountryEntry => ({
+  code,
+  name,
+  adequacy: 'not_adequate',
+  names,
+});
+
+// Anhang 1 DSV plus common third countries; unlisted countries are never detected
+const COUNTRIES: CountryEntry[] = [
+  adequate('AD', 'Andorra'),
+  adequate('AR', 'Argentinien'),
+  adequate('AT', 'Österreich'),
+  adequate('BE', 'Belgien'),
+  adequate('BG', 'Bulgarien'),
+  adequate('CY', 'Zypern'),
+  adequate('CZ', 'Tschechien', ['Tschechien', 'Tschechische Republik']),
+  adequate('DE', 'Deutschland'),
+  adequate('DK', 'Dänemark'),
+  adequate('EE', 'Estland'),
+  adequate('ES', 'Spanien'),
+  adequate('FI', 'Finnland'),
+  adequate('FO', 'Färöer', ['Färöer(?:-Inseln)?']),
+  adequate('FR', 'Frankreich'),
+  adequate('GB', 'Vereinigtes Königreich', ['Vereinigte[ns]? Königreich', 'Grossbritannien', 'Großbritannien', 'England', 'UK']),
+  adequate('GG', 'Guernsey'),
+  adequate('GI', 'Gibraltar'),
+  adequate('GR', 'Griechenland'),
+  adequate('HR', 'Kroatien'),
+  adequate('HU', 'Ungarn'),
+  adequate('IE', 'Irland'),
+  adequate('IL', 'Israel'),
+  adequate('IM', 'Isle of Man'),
+  adequate('IS', 'Island'),
+  adequate('IT', 'Italien'),
+  adequate('JE', 'Jersey'),
+  adequate('LI', 'Liechtenstein'),
+  adequate('LT', 'Litauen'),
+  adequate('LU', 'Luxemburg'),
+  adequate('LV', 'Lettland'),
+  adequate('MC', 'Monaco'),
+  adequate('MT', 'Malta'),
+  adequate('NL', 'Niederlande', ['Niederlande[n]?', 'Holland']),
+  adequate('NO', 'Norwegen'),
+  adequate('NZ', 'Neuseeland'),
+  adequate('PL', 'Polen'),
+  adequate('PT', 'Portugal'),
+  adequate('RO', 'Rumänien'),
+  adequate('SE', 'Schweden'),
+  adequate('SI', 'Slowenien'),
+  adequate('SK', 'Slowakei'),
+  adequate('UY', 'Uruguay'),
+  {
+    code: 'CA',
+    name: 'Kanada',
+    adequacy: 'conditional',
+    names: ['Kanada', 'kanadisch\\p{L}*'],
+    condition: {
+      text: 'Kanada gilt nur für Empfänger als angemessen, die dem Bundesgesetz PIPEDA unterstehen (privater Sektor).',
+      pattern: /PIPEDA/i,
+    },
+  },
+  {
+    code: 'US',
+    name: 'USA',
+    adequacy: 'conditional',
+    names: ['USA', 'US', 'U\\.S\\.', 'US-amerikanisch\\p{L}*', 'amerikanisch\\p{L}*', 'Vereinigte[n]? Staaten', 'United States'],
+    condition: {
+      text: 'Die USA gelten nur für Unternehmen als angemessen, die nach dem Swiss-U.S. Data Privacy Framework zertifiziert sind.',
+      pattern: /Data Privacy Framework|(?<!\p{L})DPF(?!\p{L})|DPF-zertifiziert/iu,
+    },
+  },
+  notAdequate('AE', 'Vereinigte Arabische Emirate', ['Vereinigte[n]? Arabische[n]? Emirate[n]?', 'VAE', 'Dubai']),
+  notAdequate('AU', 'Australien', ['Australien', 'australisch\\p{L}*']),
+  notAdequate('BR', 'Brasilien', ['Brasilien', 'brasilianisch\\p{L}*']),
+  notAdequate('CN', 'China', ['China', 'chinesisch\\p{L}*', 'Volksrepublik China']),
+  notAdequate('HK', 'Hongkong', ['Hongkong', 'Hong Kong']),
+  notAdequate('IN', 'Indien', ['Indien', 'indisch\\p{L}*']),
+  notAdequate('JP', 'Japan', ['Japan', 'japanisch\\p{L}*']),
+  notAdequate('KR', 'Südkorea', ['Südkorea', 'Korea', 'südkoreanisch\\p{L}*']),
+  notAdequate('MX', 'Mexiko'),
+  notAdequate('PH', 'Philippinen', ['Philippinen', 'philippinisch\\p{L}*']),
+  notAdequate('RS', 'Serbien'),
+  notAdequate('RU', 'Russland', ['Russland', 'russisch\\p{L}*']),
+  notAdequate('SG', 'Singapur', ['Singapur', 'Singapore']),
+  notAdequate('TR', 'Türkei', ['Türkei', 'türkisch\\p{L}*']),
+  notAdequate('UA', 'Ukraine', ['Ukraine', 'ukrainisch\\p{L}*']),
+  notAdequate('VN', 'Vietnam'),
+  notAdequate('ZA', 'Südafrika'),
+];
+
+// Country of the headquarters; hosting in another region does not prevent access from there
+const PROVIDERS: Array<{ name: string; country: string; pattern: RegExp }> = [
+  { name: 'Amazon Web Services', country: 'US', pattern: /Amazon Web Services|(?<!\p{L})AWS(?!\p{L})/iu },
+  { name: 'Microsoft', country: 'US', pattern: /Microsoft|Azure|Office 365|OneDrive|MS Teams/i },
+  { name: 'Google', country: 'US', pattern: /Google|Gmail|Firebase/i },
+  { name: 'Salesforce', country: 'US', pattern: /Salesforce/i },
+  { name: 'HubSpot', country: 'US', pattern: /HubSpot/i },
+  { name: 'Mailchimp', country: 'US', pattern: /Mailchimp/i },
+  { name: 'Zoom', country: 'US', pattern: /(?<!\p{L})Zoom(?!\p{L})/iu },
+  { name: 'Dropbox', country: 'US', pattern: /Dropbox/i },
+  { name: 'Slack', country: 'US', pattern: /(?<!\p{L})Slack(?!\p{L})/iu },
+  { name: 'OpenAI', country: 'US', pattern: /OpenAI|ChatGPT/i },
+  { name: 'Meta', country: 'US', pattern: /Facebook|Instagram|WhatsApp|Meta Platforms/i },
+  { name: 'Oracle', country: 'US', pattern: /Oracle/i },
+  { name: 'Apple', country: 'US', pattern: /iCloud/i },
+  { name: 'Stripe', country: 'US', pattern: /(?<!\p{L})Stripe(?!\p{L})/iu },
+  { name: 'Alibaba Cloud', country: 'CN', pattern: /Alibaba/i },
+  { name: 'Tencent', country: 'CN', pattern: /Tencent|WeChat/i },
+  { name: 'TikTok', country: 'CN', pattern: /TikTok|ByteDance/i },
+  { name: 'Hetzner', country: 'DE', pattern: /Hetzner/i },
+  { name: 'IONOS', country: 'DE', pattern: /IONOS/i },
+  { name: 'OVHcloud', country: 'FR', pattern: /OVH/i },
+];
+
+const MECHANISM_LABELS: Record<TransferMechanism, string> = {
+  adequacy: 'Angemessener Schutz (Art. 16 Abs. 1 DSG, Anhang 1 DSV)',
+  scc: 'Standarddatenschutzklauseln (Art. 16 Abs. 2 lit. d DSG)',
+  bcr: 'Verbindliche unternehmensinterne Datenschutzvorschriften (Art. 16 Abs. 2 lit. e DSG)',
+  consent: 'Ausdrückliche Einwilligung (Art. 17 Abs. 1 lit. a DSG)',
+};
+
+const SAFEGUARD_PATTERNS: Array<{ mechanism: TransferMechanism; pattern: RegExp }> = [
+  {
+    mechanism: 'bcr',
+    pattern: /Binding Corporate Rules|(?<!\p{L})BCRs?(?!\p{L})|unternehmensinterne[n]? Datenschutzvorschriften/giu,
+  },
+  {
+    mechanism: 'scc',
+    pattern: /Standard(?:daten(?:schutz)?)?(?:vertrags)?klauseln|Standard Contractual Clauses|(?<!\p{L})SCCs?(?!\p{L})/giu,
+  },
+  { mechanism: 'consent', pattern: /ausdrückliche[n]? Einwilligung|ausdrücklich (?:\p{L}+ ){0,6}eingewilligt/giu },
+];
+
+const SWISS_HOSTING_PATTERN = /(?:in der|Region|Standort|Rechenzentr\p{L}* in der) Schweiz|Schweizer (?:Rechenzentr|Server|Region)/iu;
+const FOREIGN_PATTERN = /ins Ausland|im Ausland|Drittstaat|Drittland|ausländische[nmrs]? (?:Anbieter|Server|Empfänger)/i;
+
+// Mirrored in the client, which shows it when no country is named
+const UNSPECIFIED_NOTE =
+  'Der Text erwähnt eine Bekanntgabe ins Ausland, ohne das Zielland zu nennen. Ob ein angemessener Schutz besteht ' +
+  '(Art. 16 Abs. 1 DSG) oder Garantien nach Art. 16 Abs. 2 DSG bzw. eine Ausnahme nach Art. 17 Abs. 1 DSG nötig sind, ' +
+  'kann erst mit dem Zielland beurteilt werden.';
+
+const toPattern = (names: string[]): RegExp =>
+  new RegExp(`(?<!\\p{L})(?:${names.join('|')})(?!\\p{L})`, 'iu');
+
+const COUNTRY_PATTERNS = new Map(COUNTRIES.map((country) => [country.code, toPattern(country.names)]));
+
+const SWITZERLAND_PATTERN = toPattern(['Schweiz', 'CH', 'Switzerland', 'Suisse', 'Svizzera', 'Zürich', 'Genf', 'Bern', 'Basel', 'Lausanne']);
+// All EU and EEA states are listed in Anhang 1 DSV
+const EU_PATTERN = toPattern(['EU', 'EWR', 'EFTA', 'Europäische[n]? Union', 'Europa']);
+
+export type LocationAdequacy = {
+  country: string;
+  status: 'swiss' | 'adequate' | 'not_adequate' | 'unknown';
+};
+
+// Adequacy of a location such as "Frankfurt, Deutschland", "EU" or "US". For conditionally
+// listed countries the evidence (e.g. certifications) must name the condition.
+export const getLocationAdequacy = (location: string, evidence = ''): LocationAdequacy => {
+  const country = COUNTRIES.find((entry) => entry.code === location.trim().toUpperCase() || COUNTRY_PATTERNS.get(entry.code)!.test(location));
+  if (country) {
+    const adequate =
+      country.adequacy === 'adequate' || (country.adequacy === 'conditional' && country.condition!.pattern.test(evidence));
+    return { country: country.name, status: adequate ? 'adequate' : 'not_adequate' };
+  }
+  if (SWITZERLAND_PATTERN.test(location)) return { country: 'Schweiz', status: 'swiss' };
+  if (EU_PATTERN.test(location)) return { country: location.trim(), status: 'adequate' };
+  return { country: location.trim(), status: 'unknown' };
+};
+
+// "ohne Standardvertragsklauseln", "keine SCC" and the like do not count as a safeguard
+const isNegated = (text: string, index: number): boolean =>
+  /(?:ohne|keine?[nrs]?|fehlen\p{L}*|nicht)(?:\s+\p{L}+){0,3}\s*$/iu.test(text.slice(Math.max(0, index - 40), index));
+
+const findSafeguard = (text: string): TransferMechanism | null => {
+  for (const { mechanism, pattern } of SAFEGUARD_PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      if (!isNegated(text, match.index || 0)) return mechanism;
+    }
+  }
+  return null;
+};
+
+const createRecipient = (
+  country: CountryEntry,
+  providers: string[],
+  text: string,
+  safeguard: TransferMechanism | null,
+  swissHosting: boolean
+): TransferRecipient => {
+  const hostingNote =
+    swissHosting && providers.length > 0 && !COUNTRY_PATTERNS.get(country.code)!.test(text)
+      ? ` Auch wenn die Daten in der Schweiz gespeichert werden, gelten Zugriffe durch ${providers.join(', ')} (Sitz: ${country.name}) für Support, Wartung oder auf behördliche Anordnung als Bekanntgabe ins Ausland.`
+      : '';
+  const base = { country: country.code, countryName: country.name, adequacy: country.adequacy, providers };
+
+  if (country.adequacy === 'adequate') {
+    return {
+      ...base,
+      mechanism: 'adequacy',
+      mechanismLabel: MECHANISM_LABELS.adequacy,
+      safeguardInPlace: true,
+      note: `${country.name} gewährleistet gemäss Anhang 1 DSV einen angemessenen Schutz; zusätzliche Garantien sind nicht nötig (Art. 16 Abs. 1 DSG).${hostingNote}`,
+    };
+  }
+
+  if (country.condition && country.condition.pattern.test(text)) {
+    return {
+      ...base,
+      mechanism: 'adequacy',
+      mechanismLabel: MECHANISM_LABELS.adequacy,
+      safeguardInPlace: true,
+      note: `${country.condition.text} Die Voraussetzung ist im Text genannt; prüfen Sie sie für jeden Empfänger (Art. 16 Abs. 1 DSG).${hostingNote}`,
+    };
+  }
+
+  const mechanism = safeguard || 'scc';
+  const intro = country.condition
+    ? `${country.condition.text} Für alle übrigen Empfänger`
+    : `${country.name} ist nicht in Anhang 1 DSV aufgeführt. Die Bekanntgabe`;
+  const status = safeguard
+    ? `Im Text genannt: ${MECHANISM_LABELS[safeguard]}.`
+    : 'Im Text sind keine Garantien genannt.';
+  return {
+    ...base,
+    mechanism,
+    mechanismLabel: MECHANISM_LABELS[mechanism],
+    safeguardInPlace: Boolean(safeguard),
+    note:
+      `${intro} braucht es geeignete Garantien nach Art. 16 Abs. 2 DSG, in der Regel vom EDÖB anerkannte ` +
+      `Standarddatenschutzklauseln, oder eine Ausnahme nach Art. 17 Abs. 1 DSG. ${status}${hostingNote}`,
+  };
+};
+
+// Undefined if the text mentions no disclosure abroad
+export const assessTransfers = (text: string): TransferAssessment | undefined => {
+  const providersByCountry = new Map<string, string[]>();
+  PROVIDERS.filter(({ pattern }) => pattern.test(text)).forEach(({ name, country }) => {
+    providersByCountry.set(country, [...(providersByCountry.get(country) || []), name]);
+  });
+
+  const safeguard = findSafeguard(text);
+  const swissHosting = SWISS_HOSTING_PATTERN.test(text);
+  const recipients = COUNTRIES.filter(
+    (country) => providersByCountry.has(country.code) || COUNTRY_PATTERNS.get(country.code)!.test(text)
+  ).map((country) => createRecipient(country, providersByCountry.get(country.code) || [], text, safeguard, swissHosting));
+  const unspecified = recipients.length === 0 && FOREIGN_PATTERN.test(text);
+
+  if (recipients.length === 0 && !unspecified) {
+    return undefined;
+  }
+  return {
+    recipients,
+    unspecified,
+    legalReferences: extractLegalReferences(
+      [
+        ...recipients.map((recipient) => `${recipient.mechanismLabel} ${recipient.note}`),
+        unspecified ? UNSPECIFIED_NOTE : '',
+      ].join('\n')
+    ),
+    listDate: ADEQUACY_LIST_DATE,
+  };
+};
+
+// Block for the prompt; empty if no disclosure abroad was detected
+export const formatTransfersForPrompt = (transfers: TransferAssessment | undefined): string => {
+  if (!transfers) return '';
+  const lines = transfers.recipients.map((recipient) => {
+    const providers = recipient.providers.length > 0 ? ` (${recipient.providers.join(', ')})` : '';
+    const status = recipient.safeguardInPlace ? 'im Text erfüllt' : 'im Text NICHT erfüllt';
+    return `- ${recipient.countryName}${providers}: ${recipient.mechanismLabel}, ${status}. ${recipient.note}`;
+  });
+  if (transfers.unspecified) {
+    lines.push(`- ${UNSPECIFIED_NOTE}`);
+  }
+  return `BEKANNTGABE INS AUSLAND (automatisch erkannt anhand der Staatenliste in Anhang 1 DSV, Stand ${transfers.listDate}):
+${lines.join('\n')}
+Berücksichtige diese Einordnung in den Bruttorisiken, den Massnahmen (Art. 16 und 17 DSG) und im Risikoregister. Widerspricht der Text dieser Einordnung, folge dem Text und begründe die Abweichung.`;
+};
@@ -0,0 +1,15 @@
+// --- CSV export ---
+// Semicolon-separated with a byte order mark, so Excel with Swiss or German
+// regional settings opens the file with umlauts and columns intact.
+
+// Excel and LibreOffice run cells starting with these characters as formulas. Exports
+// carry model output and user input, so such cells get a leading apostrophe.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const escapeCell = (value: string): string => {
+  const text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+  return /[";\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (header: string[], rows: string[][]): string =>
+  `\uFEFF${[header, ...rows].map((row) => row.map(escapeCell).join(';')).join('\r\n')}\r\n`;
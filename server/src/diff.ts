@@ -0,0 +1,135 @@
+import { AssessmentVersion } from './assessments';
+import { formatRiskLine } from './riskRegister';
+
+// --- Section-level diff between two assessment versions ---
+
+export type DiffSegment = {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+};
+
+export type SectionDiff = {
+  key: string;
+  label: string;
+  changed: boolean;
+  segments: DiffSegment[];
+};
+
+export type VersionDiff = {
+  from: number;
+  to: number;
+  changeNote?: string;
+  riskLevel: { from: string; to: string; changed: boolean };
+  sections: SectionDiff[];
+};
+
+// Sections compared between versions, in the order of the DSFA
+const DIFF_SECTIONS: Array<{ key: string; label: string; value: (v: AssessmentVersion) => string | undefined }> = [
+  { key: 'inputText', label: 'Ausgangstext', value: (v) => v.inputText },
+  { key: 'description', label: 'Beschreibung der geplanten Bearbeitung', value: (v) => v.result.description },
+  { key: 'bruttorisiken', label: 'Potentiell hohe Bruttorisiken', value: (v) => v.result.bruttorisiken },
+  { key: 'massnahmen', label: 'Geplante Massnahmen zur Senkung der Bruttorisiken', value: (v) => v.result.massnahmen },
+  { key: 'nettorisiken', label: 'Verbleibende Nettorisiken', value: (v) => v.result.nettorisiken },
+  { key: 'risks', label: 'Risikoregister', value: (v) => v.result.risks?.map(formatRiskLine).join('\n') },
+  { key: 'ergebnis', label: 'Ergebnis', value: (v) => v.result.ergebnis },
+];
+
+// Largest LCS table we build; above it we compare whole lines instead of words,
+// and above it for lines as well we show the whole text as replaced
+const MAX_DIFF_CELLS = 4_000_000;
+
+const fitsDiffTable = (oldTokens: string[], newTokens: string[]): boolean =>
+  (oldTokens.length + 1) * (newTokens.length + 1) <= MAX_DIFF_CELLS;
+
+// Split into words while keeping whitespace tokens so the text can be reassembled
+const splitWords = (text: string): string[] => text.split(/(\s+)/).filter((token) => token.length > 0);
+
+const splitLines = (text: string): string[] => text.split(/(\n)/).filter((token) => token.length > 0);
+
+// Longest common subsequence diff over token arrays
+const diffTokens = (oldTokens: string[], newTokens: string[]): DiffSegment[] => {
+  const n = oldTokens.length;
+  const m = newTokens.length;
+  const table = new Uint32Array((n + 1) * (m + 1));
+  const cell = (i: number, j: number) => i * (m + 1) + j;
+
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      table[cell(i, j)] = oldTokens[i] === newTokens[j]
+        ? table[cell(i + 1, j + 1)] + 1
+        : Math.max(table[cell(i + 1, j)], table[cell(i, j + 1)]);
+    }
+  }
+
+  const segments: DiffSegment[] = [];
+  const push = (type: DiffSegment['type'], text: string) => {
+    const last = segments[segments.length - 1];
+    if (last && last.type === type) {
+      last.text += text;
+    } else {
+      segments.push({ type, text });
+    }
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (oldTokens[i] === newTokens[j]) {
+      push('equal', oldTokens[i]);
+      i++;
+      j++;
+    } else if (table[cell(i + 1, j)] >= table[cell(i, j + 1)]) {
+      push('removed', oldTokens[i]);
+      i++;
+    } else {
+      push('added', newTokens[j]);
+      j++;
+    }
+  }
+  while (i < n) push('removed', oldTokens[i++]);
+  while (j < m) push('added', newTokens[j++]);
+
+  return segments;
+};
+
+export const diffText = (oldText: string, newText: string): DiffSegment[] => {
+  if (oldText === newText) {
+    return oldText ? [{ type: 'equal', text: oldText }] : [];
+  }
+  const oldWords = splitWords(oldText);
+  const newWords = splitWords(newText);
+  if (fitsDiffTable(oldWords, newWords)) {
+    return diffTokens(oldWords, newWords);
+  }
+  const oldLines = splitLines(oldText);
+  const newLines = splitLines(newText);
+  if (fitsDiffTable(oldLines, newLines)) {
+    return diffTokens(oldLines, newLines);
+  }
+  const replaced: DiffSegment[] = [
+    { type: 'removed', text: oldText },
+    { type: 'added', text: newText },
+  ];
+  return replaced.filter((segment) => segment.text.length > 0);
+};
+
+export const diffVersions = (from: AssessmentVersion, to: AssessmentVersion): VersionDiff => ({
+  from: from.version,
+  to: to.version,
+  changeNote: to.changeNote,
+  riskLevel: {
+    from: from.result.riskLevel,
+    to: to.result.riskLevel,
+    changed: from.result.riskLevel !== to.result.riskLevel,
+  },
+  sections: DIFF_SECTIONS.map(({ key, label, value }) => {
+    const oldText = value(from) || '';
+    const newText = value(to) || '';
+    return {
+      key,
+      label,
+      changed: oldText !== newText,
+      segments: diffText(oldText, newText),
+    };
+  }),
+});
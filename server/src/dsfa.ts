@@ -0,0 +1,504 @@
+import { AnalysisResult, KnownInfo, LawArticle, VendorCheck } from './types';
+import { extractLegalReferences } from './legalReferences';
+import { deriveRiskLevel, parseRiskRegister } from './riskRegister';
+import { assessTransfers, formatTransfersForPrompt } from './crossBorder';
+import { formatVendorsForPrompt } from './vendors';
+
+// Stored with every assessment so results from older prompt templates can be told apart
+export const PROMPT_VERSION = 'dsfa-7';
+
+export type OutputMode = 'json' | 'text';
+
+// Labels of the required inputs in the BEKANNTE_INFORMATIONEN block
+export const KNOWN_INFO_LABELS: Record<keyof KnownInfo, string> = {
+  zweck: 'Zweck',
+  betroffenePersonen: 'Betroffene Personen',
+  datenkategorien: 'Datenkategorien',
+  umfang: 'Umfang',
+  technischeUmsetzung: 'Technische Umsetzung',
+  rechtfertigungsgrund: 'Rechtfertigungsgrund',
+};
+
+export const EMPTY_KNOWN_INFO: KnownInfo = {
+  zweck: '',
+  betroffenePersonen: '',
+  datenkategorien: '',
+  umfang: '',
+  technischeUmsetzung: '',
+  rechtfertigungsgrund: '',
+};
+
+// Mode-specific parts of the prompt: labelled text sections or a JSON object
+const FORMAT_RULES: Record<OutputMode, { language: string; missingInfo: string; output: string }> = {
+  text: {
+    language: `SPRACHE: Alle Ausführungen müssen vollständig auf Deutsch verfasst sein. Die Strukturlabels (INFORMATIONEN_FEHLEN, FEHLENDE_INFORMATIONEN, BEKANNTE_INFORMATIONEN, FREUNDLICHE_NACHRICHT, ZUSAMMENFASSUNG, BESCHREIBUNG, BRUTTORISIKEN, MASSNAHMEN, NETTORISIKEN, RISIKOREGISTER, ERGEBNIS, RISK_LEVEL) müssen exakt beibehalten werden.`,
+    missingInfo: `FALLS INFORMATIONEN FEHLEN:
+Antworte NUR mit folgendem Format (überspringe alle anderen Abschnitte):
+
+INFORMATIONEN_FEHLEN: true
+FREUNDLICHE_NACHRICHT: [Eine freundliche, hilfreiche Nachricht auf Deutsch, die dem Benutzer erklärt, dass für eine vollständige DSFA noch zusätzliche Informationen benötigt werden. Sei konstruktiv und erkläre den Nutzen dieser Informationen.]
+FEHLENDE_INFORMATIONEN:
+- [Spezifische fehlende Information 1 - z.B. "Zweck der Datenbearbeitung nicht klar erkennbar"]
+- [Spezifische fehlende Information 2 - z.B. "Art der betroffenen Personen nicht angegeben"]
+- [Spezifische fehlende Information 3 - z.B. "Technische Umsetzung (Cloud/Server) nicht beschrieben"]
+- [Weitere spezifische fehlende Informationen...]
+BEKANNTE_INFORMATIONEN:
+${Object.values(KNOWN_INFO_LABELS)
+  .map((label) => `${label}: [Angabe aus dem Text, kurz zusammengefasst; leer lassen, wenn der Text dazu nichts enthält]`)
+  .join('\n')}`,
+    output: `FORMATIERUNGSREGELN FÜR PDF-OPTIMIERTE AUSGABE:
+- VERWENDE KEIN MARKDOWN (keine **, keine ###, keine Code-Formatierung)
+- Verwende klare Absätze und Aufzählungen
+- Nummeriere Aufzählungen mit Ziffern oder Buchstaben in Klammern: (1), (2), (a), (b), (c)
+- Verwende einfache Listen mit Bindestrichen oder Nummern
+- Jede Massnahme sollte auf einer eigenen Zeile beginnen
+- Strukturierte Abschnitte sollten mit klaren Überschriften beginnen
+
+Bitte formatiere deine Antwort exakt wie folgt (alle Abschnitte müssen vorhanden sein):
+
+ZUSAMMENFASSUNG:
+[Deine Zusammenfassung hier mit Rechtszitaten - als fliessender Text, 2-3 Sätze]
+
+BESCHREIBUNG DER GEPLANTEN BEARBEITUNG:
+[Strukturierte Beschreibung als fliessender Text mit klaren Absätzen für jeden Punkt. Verwende KEINE Markdown-Formatierung. Strukturiere mit einfachen Absätzen, nicht mit Markdown-Listen.]
+
+POTENTIELL HOHE BRUTTORISIKEN:
+[Strukturierte Auflistung als fliessender Text. Beginne mit "Primärrisiken für Privatsphäre und informationelle Selbstbestimmung:" gefolgt von den identifizierten Risiken. Dann "Sekundärrisiken für weitere Rechtsgüter und Grundrechte:" gefolgt von den Risiken. Verwende KEINE Markdown-Formatierung, sondern klare Absätze.]
+
+GEPLANTE MASSNAHMEN ZUR SENKUNG DER BRUTTORISIKEN:
+[Liste die Massnahmen klar strukturiert auf, aber OHNE Markdown. Verwende folgende Struktur:
+
+(1) Rechtliche Massnahmen:
+    - Massnahme 1 mit Begründung und Rechtszitat
+    - Massnahme 2 mit Begründung und Rechtszitat
+
+(2) Organisatorische Massnahmen:
+    - Massnahme 1 mit Begründung und Rechtszitat
+    - Massnahme 2 mit Begründung und Rechtszitat
+
+(3) Technische Massnahmen:
+    - Massnahme 1 mit Begründung und Rechtszitat
+    - Massnahme 2 mit Begründung und Rechtszitat
+
+Jede Massnahme sollte klar beschrieben sein mit: Was wird gemacht, warum senkt es das Risiko, welches Rechtszitat ist relevant.]
+
+VERBLEIBENDE NETTORISIKEN:
+[Bewertung der Nettorisiken nach den Massnahmen als fliessender Text mit klaren Aussagen]
+
+RISIKOREGISTER:
+[Eine Zeile pro Risiko aus den Bruttorisiken, ohne Kopfzeile, Felder getrennt durch " | ":
+ID | primär oder sekundär | Risiko | Betroffene Personen | Eintrittswahrscheinlichkeit vor Massnahmen (1-4) | Schwere vor Massnahmen (1-4) | Zugeordnete Massnahmen (getrennt durch ";") | Eintrittswahrscheinlichkeit nach Massnahmen (1-4) | Schwere nach Massnahmen (1-4)
+Beispiel: R1 | primär | Unbefugter Zugriff auf Gesundheitsdaten | Patientinnen und Patienten | 3 | 4 | Verschlüsselung (Art. 8 DSG); Berechtigungskonzept | 2 | 4]
+
+ERGEBNIS:
+[Strukturiertes Ergebnis als fliessender Text. Beantworte: Ist ein hohes Nettorisiko vorhanden? (Ja/Nein). Falls ja oder nein, begründe kurz mit Rechtszitaten. Ist eine Vorlage beim EDÖB erforderlich? (Ja/Nein gemäss Art. 23 Abs. 1 DSG)]
+
+RISK_LEVEL: [LOW|MEDIUM|HIGH]
+
+EMPFEHLUNGEN:
+[Extrahiere aus den MASSNAHMEN die wichtigsten 3-5 konkreten Handlungsempfehlungen als einfache, nummerierte Liste. Jede Empfehlung sollte eine konkrete, umsetzbare Massnahme sein mit Rechtszitat. Format: 
+1. Konkrete Empfehlung (Art. X DSG)
+2. Konkrete Empfehlung (Art. Y DSG)
+usw.]`,
+  },
+  json: {
+    language: 'SPRACHE: Alle Ausführungen müssen vollständig auf Deutsch verfasst sein. Die JSON-Feldnamen müssen exakt beibehalten werden.',
+    missingInfo: `FALLS INFORMATIONEN FEHLEN:
+Setze "needsMoreInfo" auf true. Schreibe in "message" eine freundliche, hilfreiche Nachricht auf Deutsch, die dem Benutzer erklärt, dass für eine vollständige DSFA noch zusätzliche Informationen benötigt werden. Liste in "missingInfo" jede spezifische fehlende Information als eigenen Eintrag auf (z.B. "Zweck der Datenbearbeitung nicht klar erkennbar"). Fasse in "knownInfo" kurz zusammen, was der Text zu den erforderlichen Informationen bereits enthält (leerer String, wenn nichts genannt ist). Alle übrigen Textfelder bleiben leere Strings, "recommendations" und "risks" sind leere Listen und "riskLevel" ist "UNKNOWN".`,
+    output: `FORMATIERUNGSREGELN FÜR DIE TEXTFELDER:
+- VERWENDE KEIN MARKDOWN (keine **, keine ###, keine Code-Formatierung)
+- Verwende klare Absätze (getrennt durch \\n) und Aufzählungen mit Bindestrichen oder (1), (2), (a), (b)
+- Jede Massnahme sollte auf einer eigenen Zeile beginnen
+
+Antworte AUSSCHLIESSLICH mit einem JSON-Objekt (ohne umgebenden Text) mit genau diesen Feldern:
+{
+  "needsMoreInfo": false,
+  "message": "",
+  "missingInfo": [],
+  "knownInfo": { ${Object.keys(KNOWN_INFO_LABELS).map((key) => `"${key}": ""`).join(', ')} },
+  "summary": "Zusammenfassung mit Rechtszitaten, 2-3 Sätze",
+  "description": "Beschreibung der geplanten Bearbeitung",
+  "bruttorisiken": "Potentiell hohe Bruttorisiken, gegliedert in Primärrisiken und Sekundärrisiken",
+  "massnahmen": "Geplante Massnahmen, gegliedert in (1) Rechtliche, (2) Organisatorische und (3) Technische Massnahmen",
+  "nettorisiken": "Verbleibende Nettorisiken nach den Massnahmen",
+  "risks": [{ "id": "R1", "category": "primär | sekundär", "description": "Risiko", "affectedPersons": "Betroffene Personen", "likelihood": 1-4, "severity": 1-4, "measures": ["Zugeordnete Massnahmen"], "residualLikelihood": 1-4, "residualSeverity": 1-4 }],
+  "ergebnis": "Ergebnis inkl. Vorlagepflicht beim EDÖB gemäss Art. 23 Abs. 1 DSG",
+  "riskLevel": "LOW | MEDIUM | HIGH",
+  "recommendations": ["3-5 konkrete Handlungsempfehlungen mit Rechtszitat"]
+}`,
+  },
+};
+
+// Law context block of the prompts, one article per paragraph
+export const formatLawContext = (lawContext: LawArticle[]): string =>
+  lawContext && lawContext.length > 0
+    ? lawContext
+        .map(
+          (a) =>
+            `${a.id} ${a.law}${a.heading ? ` – ${a.heading}` : ''}: ${a.text
+              .replace(/\s+/g, ' ')
+              .trim()}`
+        )
+        .join('\n\n')
+    : 'Kein zusätzlicher Gesetzeskontext verfügbar.';
+
+// Prompt template for structured DSFA according to EDÖB guidelines
+export const createPrompt = (
+  userText: string,
+  lawContext: LawArticle[],
+  outputMode: OutputMode = 'text',
+  vendors: VendorCheck[] = []
+): string => {
+  const formatRules = FORMAT_RULES[outputMode];
+  const contextText = formatLawContext(lawContext);
+
+  // Detected foreign recipients, so the model does not have to guess the adequacy
+  const transferText = formatTransfersForPrompt(assessTransfers(userText));
+  // Processors attached from the vendor registry with the gaps found under Art. 9 DSG
+  const vendorText = formatVendorsForPrompt(vendors);
+
+  return `Du bist ein Experte für Datenschutzrecht in der Schweiz und erstellst eine Datenschutz-Folgenabschätzung (DSFA) gemäss den Art. 22 und 23 DSG sowie dem Merkblatt des Eidgenössischen Datenschutz- und Öffentlichkeitsbeauftragten (EDÖB).
+
+WICHTIG: Alle Ausführungen müssen auf Schweizer Recht basieren, insbesondere:
+- Bundesverfassung (BV, SR 101)
+- Datenschutzgesetz (DSG, SR 235.1)
+- Zivilgesetzbuch (ZGB, SR 210)
+- Obligationenrecht (OR, SR 220)
+- Strafgesetzbuch (StGB, SR 311.0)
+- Relevante kantonale Gesetze
+
+KRITISCH: Bei Rechtsverweisen MÜSSEN Sie das exakte Format verwenden: "Art. [Nummer] [Gesetzesabkürzung]" oder "Art. [Nummer] Abs. [Absatz] [Gesetzesabkürzung]"
+Beispiele: "Art. 22 DSG", "Art. 5 Abs. 2 ZGB", "Art. 28 OR"
+
+${formatRules.language}
+
+ERSTE PRÜFUNG: Bevor du die DSFA erstellst, prüfe zuerst, ob im bereitgestellten Text alle erforderlichen Informationen vorhanden sind:
+
+Erforderliche Informationen für eine vollständige DSFA:
+- Zweck der Datenbearbeitung (warum werden die Daten bearbeitet?)
+- Art der betroffenen Personen (Mitarbeitende, Kunden, Patienten, etc.)
+- Datenkategorien (welche Personendaten, gibt es besonders schützenswerte Daten gemäss Art. 5 DSG?)
+- Umfang der Datenbearbeitung (wie viele Personen, Datenvolumen, Dauer)
+- Technische Umsetzung (Wo werden Daten gespeichert? Welche Technologien werden verwendet? Cloud, lokaler Server?)
+- Rechtliche Grundlage bzw. Rechtfertigungsgrund (Einwilligung, überwiegendes Interesse, etc.)
+
+${formatRules.missingInfo}
+
+FALLS ALLE INFORMATIONEN VORHANDEN SIND:
+Erstelle die vollständige strukturierte DSFA gemäss EDÖB-Standard:
+
+1. ZUSAMMENFASSUNG: Eine prägnante 2-3 Sätze Zusammenfassung der geplanten Datenbearbeitung mit rechtlichen Einordnungen und Zitaten.
+
+2. BESCHREIBUNG DER GEPLANTEN BEARBEITUNG:
+- Zweck der Datenbearbeitung
+- Art der betroffenen Personen
+- Datenkategorien (Personendaten, besonders schützenswerte Daten gemäss Art. 5 DSG)
+- Umfang der Datenbearbeitung
+- Technische Umsetzung und verwendete Technologien
+- Rechtliche Grundlage bzw. Rechtfertigungsgrund
+Prüfe insbesondere die Kriterien nach Art. 22 Abs. 2 DSG:
+  - Art der Bearbeitung
+  - Umfang der Bearbeitung
+  - Umstände der Bearbeitung
+  - Zweck der Bearbeitung
+  - Absolute Kriterien (Art. 22 Abs. 2 Bst. a/b DSG): umfangreiche Bearbeitung besonders schützenswerter Daten oder systematische umfangreiche Überwachung öffentlicher Bereiche
+
+3. POTENTIELL HOHE BRUTTORISIKEN (vor Massnahmen):
+Analysiere die Risiken für die primären Schutzobjekte:
+  a) Primärrisiken für Privatsphäre und informationelle Selbstbestimmung der Betroffenen
+     - Einschränkung der Verfügungsfreiheit über eigene Daten
+     - Verletzung der Privatsphäre
+     - Beeinträchtigung der Autonomie, Würde und Identität
+  b) Sekundärrisiken für weitere Rechtsgüter und Grundrechte
+     - Recht auf Leben
+     - Physische Unversehrtheit
+     - Eigentum
+     - Weitere Grundrechte
+Für jedes identifizierte Risiko:
+  - Beschreibe die Art des Risikos (systemisch, rechtlich, sicherheitstechnisch)
+  - Bewerte die Eintrittswahrscheinlichkeit: 1 = unwahrscheinlich, 2 = möglich, 3 = wahrscheinlich, 4 = sehr wahrscheinlich
+  - Bewerte die Schwere der Auswirkungen: 1 = gering, 2 = begrenzt, 3 = erheblich, 4 = schwerwiegend
+  - Nenne die betroffenen Personen
+  - Begründe, warum es als "hoch" einzustufen ist (mit Rechtszitaten, z.B. "Art. 22 Abs. 1 DSG")
+
+4. GEPLANTE MASSNAHMEN ZUR SENKUNG DER BRUTTORISIKEN:
+Vorschlage konkrete Massnahmen zur Risikosenkung:
+  a) Rechtliche Massnahmen (z.B. Verträge, SCC, Datenschutzerklärungen gemäss Art. 19 DSG)
+  b) Organisatorische Massnahmen (z.B. Schulung des Personals, Zugriffskontrollen, Datenschutzberater gemäss Art. 10 DSG)
+  c) Technische Massnahmen (z.B. Verschlüsselung gemäss Art. 8 DSG, Pseudonymisierung, Privacy by Design/Default gemäss Art. 7 DSG)
+Für jede Massnahme: Erkläre, wie sie das Risiko senkt und nenne relevante Rechtsgrundlagen.
+
+5. VERBLEIBENDE NETTORISIKEN (nach Massnahmen):
+Bewerte die Risiken nach den geplanten Massnahmen:
+  - Welche Risiken können durch die Massnahmen auf ein akzeptables Niveau gesenkt werden?
+  - Welche Risiken bleiben trotz Massnahmen hoch?
+  - Gibt es Risiken, die nicht beeinflussbar oder verlässlich einschätzbar sind? (z.B. Zugriffe fremder Behörden bei Datenexport)
+  - Sind die verbleibenden Nettorisiken mit der Datenschutzgesetzgebung als Ganzes vereinbar?
+  - Prüfe insbesondere die Verhältnismässigkeit gemäss Art. 6 DSG
+Erfasse jedes Risiko im Risikoregister mit Eintrittswahrscheinlichkeit und Schwere vor und nach den zugeordneten Massnahmen (jeweils 1-4).
+
+6. ERGEBNIS:
+- Ist ein hohes Nettorisiko vorhanden? (Ja/Nein)
+- Falls ja: Ist das hohe Nettorisiko datenschutzrechtlich akzeptabel oder inakzeptabel?
+- Begründe die Bewertung mit Rechtszitaten (z.B. "Art. 23 Abs. 1 DSG", "Art. 6 DSG")
+- Ist gemäss Art. 23 Abs. 1 DSG eine Vorlage beim EDÖB erforderlich?
+
+7. RISK_LEVEL: [LOW|MEDIUM|HIGH]
+Bestimme das Gesamtrisiko-Niveau aus dem Risiko mit der höchsten Bewertung nach Massnahmen im Risikoregister (Eintrittswahrscheinlichkeit × Schwere: 9-16 = HIGH, 4-8 = MEDIUM, 1-3 = LOW):
+- LOW: Keine oder nur geringe Nettorisiken, keine DSFA-Vorlagepflicht
+- MEDIUM: Erhöhte Risiken, die durch Massnahmen weitgehend gemindert werden können
+- HIGH: Hohe Nettorisiken trotz Massnahmen, möglicherweise Vorlagepflicht beim EDÖB gemäss Art. 23 Abs. 1 DSG
+
+${transferText ? `${transferText}\n\n` : ''}${vendorText ? `${vendorText}\n\n` : ''}Kontext aus den hinterlegten Erlassen (DSG und weitere relevante Bestimmungen):
+${contextText}
+
+Zu analysierender Text:
+
+"${userText}"
+
+${formatRules.output}`;
+};
+
+// Helper function to clean markdown and formatting from text
+export const cleanMarkdown = (text: string): string => {
+  if (!text) return text;
+  return text
+    // Remove bold/italic markdown
+    .replace(/\*\*([^*]+)\*\*/g, '$1')
+    .replace(/\*([^*]+)\*/g, '$1')
+    .replace(/_([^_]+)_/g, '$1')
+    // Remove code blocks
+    .replace(/```[\s\S]*?```/g, '')
+    .replace(/`([^`]+)`/g, '$1')
+    // Remove headers
+    .replace(/^#{1,6}\s+/gm, '')
+    // Clean up extra whitespace
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+};
+
+// --- Follow-up questions ---
+// The chat continues the original conversation (prompt with law context and the DSFA
+// as the model's answer). If a question changes the planned processing, the model
+// appends a complete revised DSFA after REVISION_MARKER.
+
+export const FOLLOW_UP_MARKER = 'RÜCKFRAGE:';
+export const REVISION_MARKER = 'REVIDIERTE_DSFA:';
+
+export const createFollowUpPrompt = (question: string): string => `${FOLLOW_UP_MARKER} ${question}
+
+Beantworte diese Rückfrage zur obigen DSFA auf Deutsch, präzise und ohne Markdown. Stütze dich auf den bereitgestellten Gesetzeskontext und verwende Rechtsverweise im Format "Art. [Nummer] [Gesetzesabkürzung]".
+
+Falls die Rückfrage eine Änderung der geplanten Bearbeitung beschreibt, die die Bewertung verändert (z.B. ein anderer Speicherort, zusätzliche Datenkategorien oder weitere Massnahmen), schreibe nach deiner Antwort eine Zeile "${REVISION_MARKER}" und danach die vollständige überarbeitete DSFA im oben verlangten Textformat (ZUSAMMENFASSUNG bis EMPFEHLUNGEN). Andernfalls lasse diesen Teil weg.`;
+
+// Previous answers are replayed with their revision, so the model knows the current state
+export const formatFollowUpAnswer = (reply: string, revisedAnalysis?: string): string =>
+  revisedAnalysis ? `${reply}\n\n${REVISION_MARKER}\n${revisedAnalysis}` : reply;
+
+export const parseFollowUpResponse = (response: string): { reply: string; revisedResult?: AnalysisResult } => {
+  const markerMatch = response.match(/REVIDIERTE_DSFA:/i);
+  if (!markerMatch || markerMatch.index === undefined) {
+    return { reply: cleanMarkdown(response.trim()) };
+  }
+  const reply = cleanMarkdown(response.slice(0, markerMatch.index).trim());
+  const revised = parseResponse(response.slice(markerMatch.index + markerMatch[0].length));
+  // A revision without risk level could not be parsed and is dropped
+  const usable = !revised.needsMoreInfo && revised.riskLevel !== 'UNKNOWN';
+  return {
+    reply: reply || 'Die DSFA wurde entsprechend der Rückfrage überarbeitet.',
+    revisedResult: usable ? revised : undefined,
+  };
+};
+
+// Placeholders models write instead of leaving a known-info line empty
+const EMPTY_VALUE_PATTERN = /^(?:-|–|leer|keine angabe|nicht angegeben|unbekannt|\[.*\])\.?$/i;
+
+// Parse the BEKANNTE_INFORMATIONEN block ("Zweck: ..." per line)
+const parseKnownInfo = (block: string): KnownInfo => {
+  const knownInfo = { ...EMPTY_KNOWN_INFO };
+  (Object.keys(KNOWN_INFO_LABELS) as (keyof KnownInfo)[]).forEach((key) => {
+    const match = block.match(new RegExp(`^[-•*\\s]*${KNOWN_INFO_LABELS[key]}:[ \\t]*(.*)$`, 'im'));
+    const value = match ? cleanMarkdown(match[1].trim()) : '';
+    knownInfo[key] = EMPTY_VALUE_PATTERN.test(value) ? '' : value;
+  });
+  return knownInfo;
+};
+
+// Parse response to check if information is missing
+export const parseMissingInfo = (response: string): {
+  needsMoreInfo: boolean;
+  missingInfo?: string[];
+  knownInfo?: KnownInfo;
+  message?: string;
+} => {
+  // Check if response indicates missing information
+  const infoFehltMatch = response.match(/INFORMATIONEN_FEHLEN:\s*(true|yes|ja)/i);
+  const needsMoreInfo = !!infoFehltMatch;
+
+  if (!needsMoreInfo) {
+    return { needsMoreInfo: false };
+  }
+
+  // Extract friendly message
+  const messageMatch = response.match(/FREUNDLICHE_NACHRICHT:\s*(.+?)(?=(?:FEHLENDE_INFORMATIONEN|$))/is);
+  const message = messageMatch ? cleanMarkdown(messageMatch[1].trim()) : undefined;
+
+  // Extract missing information list
+  const missingInfoMatch = response.match(/FEHLENDE_INFORMATIONEN:\s*([\s\S]+?)(?=(?:BEKANNTE_INFORMATIONEN|INFORMATIONEN_FEHLEN|ZUSAMMENFASSUNG|BESCHREIBUNG|RISK_LEVEL|$))/i);
+  let missingInfo: string[] = [];
+
+  if (missingInfoMatch) {
+    const missingInfoText = missingInfoMatch[1];
+    missingInfo = missingInfoText
+      .split('\n')
+      .map(line => {
+        // Remove leading dashes, bullets, numbers
+        line = line.replace(/^[-•*]\s*/, '');
+        line = line.replace(/^[\d]+[\.\)]\s*/, '');
+        line = line.trim();
+        return line;
+      })
+      .filter(line => line.length > 0 && !line.match(/^(FEHLENDE_INFORMATIONEN|INFORMATIONEN_FEHLEN):/i));
+  }
+
+  const knownInfoMatch = response.match(/BEKANNTE_INFORMATIONEN:\s*([\s\S]+?)(?=(?:FEHLENDE_INFORMATIONEN|ZUSAMMENFASSUNG|RISK_LEVEL|$))/i);
+
+  return {
+    needsMoreInfo: true,
+    missingInfo: missingInfo.length > 0 ? missingInfo : undefined,
+    knownInfo: knownInfoMatch ? parseKnownInfo(knownInfoMatch[1]) : undefined,
+    message: message || 'Für eine vollständige DSFA benötigen wir noch zusätzliche Informationen.'
+  };
+};
+
+// Parse the model response to extract structured DSFA data
+export const parseResponse = (response: string): AnalysisResult => {
+  const analysis = response;
+  
+  // First check if information is missing
+  const missingInfoCheck = parseMissingInfo(response);
+  if (missingInfoCheck.needsMoreInfo) {
+    return {
+      summary: '',
+      riskLevel: 'UNKNOWN',
+      analysis: response,
+      recommendations: [],
+      legalReferences: [],
+      needsMoreInfo: true,
+      missingInfo: missingInfoCheck.missingInfo,
+      knownInfo: missingInfoCheck.knownInfo,
+      message: missingInfoCheck.message
+    };
+  }
+  
+  // Extract summary (either old format "SUMMARY:" or new format "ZUSAMMENFASSUNG:")
+  const summaryMatch = response.match(/(?:SUMMARY|ZUSAMMENFASSUNG):\s*(.+?)(?=(?:BESCHREIBUNG|DESCRIPTION|BRUTTORISIKEN|RISK_LEVEL|$))/is);
+  const summary = summaryMatch ? cleanMarkdown(summaryMatch[1].trim()) : 'Keine Zusammenfassung vorhanden.';
+  
+  // Extract description of planned processing
+  const descriptionMatch = response.match(/BESCHREIBUNG[^:]*:\s*(.+?)(?=(?:POTENTIELL|BRUTTORISIKEN|MASSNAHMEN|$))/is);
+  const description = descriptionMatch ? cleanMarkdown(descriptionMatch[1].trim()) : undefined;
+  
+  // Extract bruttorisiken (brutto risks)
+  const bruttorisikenMatch = response.match(/POTENTIELL[^:]*BRUTTORISIKEN[^:]*:\s*(.+?)(?=(?:GEPLANTE|MASSNAHMEN|NETTORISIKEN|$))/is);
+  const bruttorisiken = bruttorisikenMatch ? cleanMarkdown(bruttorisikenMatch[1].trim()) : undefined;
+  
+  // Extract massnahmen (measures)
+  const massnahmenMatch = response.match(/GEPLANTE[^:]*MASSNAHMEN[^:]*:\s*(.+?)(?=(?:VERBLEIBENDE|NETTORISIKEN|ERGEBNIS|RISK_LEVEL|EMPFEHLUNGEN|$))/is);
+  const massnahmen = massnahmenMatch ? cleanMarkdown(massnahmenMatch[1].trim()) : undefined;
+  
+  // Extract nettorisiken (net risks)
+  const nettorisikenMatch = response.match(/VERBLEIBENDE[^:]*NETTORISIKEN[^:]*:\s*(.+?)(?=(?:RISIKOREGISTER:|ERGEBNIS|RISK_LEVEL|EMPFEHLUNGEN|$))/is);
+  const nettorisiken = nettorisikenMatch ? cleanMarkdown(nettorisikenMatch[1].trim()) : undefined;
+
+  // Extract the risk register (one "|"-separated line per risk)
+  const riskRegisterMatch = response.match(/RISIKOREGISTER:\s*([\s\S]+?)(?=(?:ERGEBNIS:|RISK_LEVEL|EMPFEHLUNGEN|$))/i);
+  const risks = riskRegisterMatch ? parseRiskRegister(cleanMarkdown(riskRegisterMatch[1])) : [];
+  
+  // Extract ergebnis (result)
+  const ergebnisMatch = response.match(/ERGEBNIS:\s*(.+?)(?=(?:RISK_LEVEL|EMPFEHLUNGEN|$))/is);
+  const ergebnis = ergebnisMatch ? cleanMarkdown(ergebnisMatch[1].trim()) : undefined;
+  
+  // Extract risk level (support both old and new format)
+  // The register takes precedence over the stated level, so the heat map and the level agree
+  const riskMatch = response.match(/RISK_LEVEL:\s*(LOW|MEDIUM|HIGH)/i);
+  const riskLevel = deriveRiskLevel(risks) || (riskMatch ? riskMatch[1].toUpperCase() : 'UNKNOWN');
+  
+  // Extract recommendations - check for new EMPFEHLUNGEN section first
+  let recommendations: string[] = [];
+  
+  // Try to extract from dedicated EMPFEHLUNGEN section (new format)
+  const empfehlungenMatch = response.match(/EMPFEHLUNGEN:\s*([\s\S]+?)(?=(?:RISK_LEVEL|$))/i);
+  if (empfehlungenMatch) {
+    const empfehlungenText = cleanMarkdown(empfehlungenMatch[1]);
+    recommendations = empfehlungenText
+      .split('\n')
+      .map(line => {
+        // Remove leading numbers, bullets, dashes, or letters in parentheses
+        line = line.replace(/^[\d]+[\.\)]\s*/, ''); // Remove "1. " or "1) "
+        line = line.replace(/^[\(][a-zA-Z][\)]\s*/, ''); // Remove "(a) " or "(A) "
+        line = line.replace(/^[-•*]\s*/, ''); // Remove "- " or "* " or "• "
+        return line.trim();
+      })
+      .filter(line => line.length > 10 && !line.match(/^[\(][\d]+[\)]\s*$/)) // Filter out very short lines and standalone numbers
+      .slice(0, 10); // Limit to 10 items
+  }
+  
+  // If no recommendations found, try extracting from MASSNAHMEN section
+  if (recommendations.length === 0 && massnahmen) {
+    // Extract individual actionable measures from massnahmen
+    const lines = massnahmen.split('\n');
+    recommendations = lines
+      .map(line => {
+        line = cleanMarkdown(line);
+        // Look for lines that start with numbers, letters in parentheses, or dashes
+        if (line.match(/^[\d]+[\.\)]\s+|^[\(][a-zA-Z][\)]\s+|^[-•*]\s+/)) {
+          line = line.replace(/^[\d]+[\.\)]\s*/, '');
+          line = line.replace(/^[\(][a-zA-Z][\)]\s*/, '');
+          line = line.replace(/^[-•*]\s*/, '');
+          // Extract the actual recommendation text (before any additional explanations)
+          const parts = line.split(':');
+          if (parts.length > 1) {
+            return parts.slice(1).join(':').trim(); // Take everything after the colon
+          }
+          return line.trim();
+        }
+        return null;
+      })
+      .filter((line): line is string => line !== null && line.length > 10)
+      .slice(0, 10);
+  }
+  
+  // If still no recommendations found, try old format
+  if (recommendations.length === 0) {
+    const recommendationsMatch = response.match(/RECOMMENDATIONS:\s*([\s\S]+?)(?=\n\n|$)/i);
+    const recommendationsText = recommendationsMatch ? cleanMarkdown(recommendationsMatch[1]) : '';
+    recommendations = recommendationsText
+      .split('\n')
+      .map(line => {
+        line = line.replace(/^[\d]+[\.\)]\s*/, '');
+        line = line.replace(/^[\(][a-zA-Z][\)]\s*/, '');
+        line = line.replace(/^[-•*]\s*/, '');
+        return line.trim();
+      })
+      .filter(line => line.length > 0);
+  }
+  
+  // Extract all legal references from the entire response
+  const legalReferences = extractLegalReferences(response);
+  
+  return {
+    summary,
+    riskLevel,
+    analysis,
+    recommendations: recommendations.length > 0 ? recommendations : ['Keine Empfehlungen vorhanden.'],
+    legalReferences,
+    description,
+    bruttorisiken,
+    massnahmen,
+    nettorisiken,
+    ergebnis,
+    risks: risks.length > 0 ? risks : undefined,
+    needsMoreInfo: false
+  };
+};
@@ -1,9 +1,137 @@
-import express, { Request, Response, NextFunction } from 'express';
+import express, { Request, Response } from 'express';
 import cors from 'cors';
-import axios from 'axios';
 import path from 'path';
 import fs from 'fs';
 import dotenv from 'dotenv';
+import { AnalysisResult, LawArticle, VendorCheck } from './types';
+import {
+  PROMPT_VERSION,
+  OutputMode,
+  createPrompt,
+  parseResponse,
+  createFollowUpPrompt,
+  formatFollowUpAnswer,
+  parseFollowUpResponse,
+  FOLLOW_UP_MARKER,
+} from './dsfa';
+import {
+  DSFA_RESPONSE_FORMAT,
+  repairDsfaJson,
+  jsonToAnalysisResult,
+} from './structuredOutput';
+import {
+  createAssessment,
+  addAssessmentVersion,
+  listAssessments,
+  getAssessment,
+  getVersion,
+  getLatestVersion,
+  deleteAssessment,
+  addComment,
+  changeAssessmentStatus,
+  getReviewAuthors,
+  getFollowUps,
+  addFollowUpExchange,
+  markFollowUpApplied,
+  updateMeasure,
+  listMeasures,
+  MeasureOverviewItem,
+  updateProcessingRecord,
+  listProcessingRecords,
+  RecordChanges,
+  updatePrivacyNotice,
+  NoticeChanges,
+  StoredAssessment,
+  RegisterEntry,
+  UserRef,
+} from './assessments';
+import {
+  MEASURE_CATEGORY_LABELS,
+  MEASURE_STATUS_LABELS,
+  PENDING_MEASURE_STATUSES,
+  isDueDate,
+  isMeasureStatus,
+  isOverdue,
+} from './measures';
+import {
+  MAX_RECORD_FIELD_LENGTH,
+  RECORD_FIELD_LABELS,
+  REGISTER_EXPORT_HEADER,
+  getMissingFields,
+  isRecordField,
+  toRegisterRow,
+} from './processingRecord';
+import {
+  MAX_NOTICE_SECTION_LENGTH,
+  NOTICE_SECTION_TITLES,
+  buildPrivacyNotice,
+  isNoticeSection,
+  toNoticeHtml,
+  toNoticeMarkdown,
+} from './privacyNotice';
+import { toCsv } from './csv';
+import { toXlsx } from './xlsx';
+import { diffVersions } from './diff';
+import { ChatMessage, CompletionRequest, createProvider } from './providers';
+import { getModelCandidates, runWithModelFallback } from './modelFallback';
+import { RetrievalMode, getLawContext } from './retrieval';
+import { findArticle } from './corpus';
+import { getLaw, listLaws, toLawArticleDetail, searchArticles } from './laws';
+import {
+  authenticate,
+  changePassword,
+  createUser,
+  ensureInitialUser,
+  getUser,
+  isLastAdmin,
+  listUsers,
+  toPublicUser,
+  updateUser,
+  validateNewUser,
+  validatePassword,
+  validateRoles,
+  PublicUser,
+} from './users';
+import {
+  authMiddleware,
+  clearSessionCookie,
+  createSession,
+  deleteSession,
+  deleteUserSessions,
+  getCurrentUser,
+  getSessionToken,
+  getSessionUser,
+  requirePermission,
+  setSessionCookie,
+} from './auth';
+import { getPermissions, hasPermission } from './roles';
+import { STATUS_LABELS, getTransitionPermission, isAssessmentStatus, validateTransition } from './workflow';
+import {
+  createRateLimiter,
+  getLoginLockout,
+  recordLoginFailure,
+  resetLoginFailures,
+  sendTooManyRequests,
+} from './rateLimit';
+import { evaluatePrecheck, parsePrecheckAnswers } from './precheck';
+import { assessTransfers } from './crossBorder';
+import {
+  BREACH_PINNED_ARTICLES,
+  BREACH_PROMPT_VERSION,
+  createBreachPrompt,
+  isUsableBreachResult,
+  parseBreachResponse,
+} from './breach';
+import {
+  createVendor,
+  deleteVendor,
+  getVendor,
+  listVendors,
+  parseVendorProfile,
+  toVendorCheck,
+  updateVendor,
+} from './vendors';
+import { auditRequest, hashInput, queryAuditLog, readAuditLog, recordAudit, verifyAuditLog } from './audit';
 
 // Load environment variables from project root
 // The .env file is in the project root, which is one level up from server/
@@ -37,738 +165,1341 @@ dotenv.config();
 
 const app = express();
 const PORT = process.env.PORT || 3001;
-const OPENROUTER_BASE_URL = process.env.OPENROUTER_BASE_URL || 'https://openrouter.ai/api/v1';
-// Parse comma-separated models from environment variable
-const OPENROUTER_MODELS_STRING = process.env.OPENROUTER_MODEL || 'x-ai/grok-4.1-fast:free';
-const OPENROUTER_MODELS = OPENROUTER_MODELS_STRING.split(',').map(m => m.trim()).filter(Boolean);
-const OPENROUTER_MODEL = OPENROUTER_MODELS[0] || 'x-ai/grok-4.1-fast:free'; // Default model (first one)
-const OPENROUTER_API_KEY = process.env.OPENROUTER_API_KEY;
-const OPENROUTER_APP_URL = process.env.OPENROUTER_APP_URL || process.env.VERCEL_URL || 'http://localhost:3001';
-
-// --- Lightweight DSG retrieval setup (RAG) ---
-type DsgArticle = {
-  id: string;
-  heading: string;
-  text: string;
+// LLM provider selected via LLM_PROVIDER (openrouter, openai-compatible or mock)
+const llmProvider = createProvider();
+// Output mode: 'json' requests structured output and falls back to the text parser if needed
+const OUTPUT_MODE: OutputMode = process.env.OUTPUT_MODE === 'text' ? 'text' : 'json';
+const MAX_JSON_REPAIR_ATTEMPTS = 1;
+// Retrieval mode: 'retrieved' sends the pinned articles plus the best matching DSG paragraphs, 'full' all articles
+const RETRIEVAL_MODE: RetrievalMode = process.env.RETRIEVAL_MODE === 'full' ? 'full' : 'retrieved';
+const RETRIEVAL_TOP_K = Math.max(1, parseInt(process.env.RETRIEVAL_TOP_K || '12', 10) || 12);
+// Retries per model (with exponential backoff) before falling back to the next configured model
+const FALLBACK_OPTIONS = {
+  maxRetries: Math.max(0, parseInt(process.env.MODEL_MAX_RETRIES || '1', 10) || 0),
+  retryDelayMs: Math.max(0, parseInt(process.env.MODEL_RETRY_DELAY_MS || '1000', 10) || 0),
 };
 
-const DSG_XML_PATH = path.resolve(__dirname, '../../dsg.xml');
+// Behind a reverse proxy, TRUST_PROXY makes req.ip the client address (e.g. "1" for one proxy hop)
+if (process.env.TRUST_PROXY) {
+  const trustProxy = process.env.TRUST_PROXY;
+  app.set('trust proxy', trustProxy === 'true' ? true : /^\d+$/.test(trustProxy) ? parseInt(trustProxy, 10) : trustProxy);
+}
 
-const stripTags = (html: string): string => html.replace(/<[^>]+>/g, ' ');
+// Requests per IP address on all API endpoints
+const apiRateLimit = createRateLimiter({
+  maxEnv: 'RATE_LIMIT_MAX',
+  windowEnv: 'RATE_LIMIT_WINDOW_SECONDS',
+  defaultMax: 300,
+  defaultWindowSeconds: 60,
+  key: (req) => `ip:${req.ip}`,
+  message: 'Zu viele Anfragen. Bitte warten Sie einen Moment.',
+});
 
-const tokenize = (value: string): string[] =>
-  (value.toLowerCase().match(/[a-zäöüöäß]+/gi) || []).map((t) => t.trim()).filter(Boolean);
+// Login attempts per IP address, in addition to the lockout after failed logins
+const loginRateLimit = createRateLimiter({
+  maxEnv: 'LOGIN_RATE_LIMIT_MAX',
+  windowEnv: 'LOGIN_RATE_LIMIT_WINDOW_SECONDS',
+  defaultMax: 10,
+  defaultWindowSeconds: 60,
+  key: (req) => `ip:${req.ip}`,
+  message: 'Zu viele Anmeldeversuche. Bitte warten Sie einen Moment.',
+});
 
-const extractDsgArticles = (xml: string): DsgArticle[] => {
-  const articles: DsgArticle[] = [];
-  const articleRegex = /<article[^>]*>([\s\S]*?)<\/article>/gi;
-  let match;
+// Model calls per user and per IP address; every analysis costs provider budget
+const analyzeRateLimits = [
+  createRateLimiter({
+    maxEnv: 'ANALYZE_RATE_LIMIT_MAX',
+    windowEnv: 'ANALYZE_RATE_LIMIT_WINDOW_SECONDS',
+    defaultMax: 20,
+    defaultWindowSeconds: 3600,
+    key: (req, res) => (res.locals.user ? `user:${res.locals.user.id}` : null),
+    message: 'Sie haben das Limit für Analysen erreicht.',
+  }),
+  createRateLimiter({
+    maxEnv: 'ANALYZE_RATE_LIMIT_MAX_PER_IP',
+    windowEnv: 'ANALYZE_RATE_LIMIT_WINDOW_SECONDS',
+    defaultMax: 60,
+    defaultWindowSeconds: 3600,
+    key: (req) => `ip:${req.ip}`,
+    message: 'Von dieser Adresse wurden zu viele Analysen gestartet.',
+  }),
+];
 
-  while ((match = articleRegex.exec(xml)) !== null) {
-    const articleBlock = match[1];
-    
-    // Try new format first: <number>Art. X</number>
-    let numMatch = articleBlock.match(/<number>([\s\S]*?)<\/number>/i);
-    // Fallback to old format: <num><b>Art. X</b></num>
-    if (!numMatch) {
-      numMatch = articleBlock.match(/<num><b>(Art\.\s*[^<]+)<\/b><\/num>/i);
-    }
-    
-    const headingMatch = articleBlock.match(/<heading>([\s\S]*?)<\/heading>/i);
+// Middleware
+app.use(cors());
+app.use(express.json());
+app.use('/api', apiRateLimit);
 
-    const id = numMatch ? stripTags(numMatch[1]).trim() : 'Unbekannt';
-    const heading = headingMatch ? stripTags(headingMatch[1]).trim() : 'Ohne Titel';
-    
-    // Extract all paragraph text for better context
-    const paragraphTexts: string[] = [];
-    const paragraphRegex = /<paragraph[^>]*>([\s\S]*?)<\/paragraph>/gi;
-    let paraMatch;
-    while ((paraMatch = paragraphRegex.exec(articleBlock)) !== null) {
-      const paraText = stripTags(paraMatch[1]).replace(/\s+/g, ' ').trim();
-      if (paraText) {
-        paragraphTexts.push(paraText);
-      }
-    }
-    
-    // Use paragraph texts if available, otherwise use all text
-    const text = paragraphTexts.length > 0 
-      ? paragraphTexts.join(' ')
-      : stripTags(articleBlock).replace(/\s+/g, ' ').trim();
+// Session check for all API endpoints except login and the models list (after body parsing)
+app.use(authMiddleware);
 
-    articles.push({ id, heading, text });
-  }
+// Create the first administrator account if no accounts exist yet
+ensureInitialUser();
 
-  return articles;
-};
+// Serve static files from React app in production
+if (process.env.NODE_ENV === 'production') {
+  app.use(express.static(path.join(__dirname, '../client-dist')));
+}
 
-const loadDsgArticles = (): DsgArticle[] => {
-  try {
-    const xml = fs.readFileSync(DSG_XML_PATH, 'utf-8');
-    return extractDsgArticles(xml);
-  } catch (err) {
-    console.warn('Konnte dsg.xml nicht laden, RAG deaktiviert:', err);
-    return [];
+// API endpoint to sign in; sets the HttpOnly session cookie
+app.post('/api/auth/login', loginRateLimit, (req: Request, res: Response) => {
+  const { username, password } = req.body || {};
+  if (typeof username !== 'string' || typeof password !== 'string' || !username.trim() || !password) {
+    return res.status(400).json({ error: 'Benutzername und Passwort sind erforderlich.' });
   }
-};
 
-const DSG_ARTICLES = loadDsgArticles();
-
-const retrieveDsgContext = (query: string, limit = 5): DsgArticle[] => {
-  if (!DSG_ARTICLES.length) return [];
-  const queryTokens = tokenize(query);
-  if (!queryTokens.length) return [];
+  const lockoutMessage = 'Zu viele fehlgeschlagene Anmeldeversuche. Die Anmeldung ist vorübergehend gesperrt.';
+  // While locked, the password is not checked at all, so a correct guess reveals nothing
+  const remainingLockout = getLoginLockout(req.ip, username);
+  if (remainingLockout > 0) {
+    recordAudit({
+      action: 'auth.login',
+      actor: null,
+      outcome: 'failure',
+      details: { username: username.trim(), reason: 'locked' },
+      ip: req.ip,
+    });
+    return sendTooManyRequests(res, remainingLockout, lockoutMessage);
+  }
 
-  const scores = DSG_ARTICLES.map((article) => {
-    const articleTokens = new Set(tokenize(article.text));
-    let overlap = 0;
-    queryTokens.forEach((token) => {
-      if (articleTokens.has(token)) overlap += 1;
+  const user = authenticate(username, password);
+  if (!user) {
+    const lockout = recordLoginFailure(req.ip, username);
+    recordAudit({
+      action: 'auth.login',
+      actor: null,
+      outcome: 'failure',
+      details: { username: username.trim(), lockedForSeconds: lockout > 0 ? Math.ceil(lockout / 1000) : undefined },
+      ip: req.ip,
     });
-    return { article, score: overlap };
-  });
+    if (lockout > 0) {
+      return sendTooManyRequests(res, lockout, lockoutMessage);
+    }
+    return res.status(401).json({
+      error: 'Ungültiger Benutzername oder Passwort. Bitte versuchen Sie es erneut.',
+      requiresLogin: true
+    });
+  }
 
-  return scores
-    .filter(({ score }) => score > 0)
-    .sort((a, b) => b.score - a.score)
-    .slice(0, limit)
-    .map(({ article }) => article);
-};
+  resetLoginFailures(username);
+  setSessionCookie(res, createSession(user.id));
+  recordAudit({ action: 'auth.login', actor: { id: user.id, name: user.displayName }, ip: req.ip });
+  res.json({ success: true, user: toPublicUser(user), permissions: getPermissions(user.roles) });
+});
 
-// Middleware
-app.use(cors());
-app.use(express.json());
+// API endpoint to sign out; deletes the session on the server
+app.post('/api/auth/logout', (req: Request, res: Response) => {
+  const token = getSessionToken(req);
+  if (token) {
+    // Logout is a public endpoint, so the user is looked up before the session is deleted
+    const user = getSessionUser(token);
+    if (user) {
+      recordAudit({ action: 'auth.logout', actor: { id: user.id, name: user.displayName }, ip: req.ip });
+    }
+    deleteSession(token);
+  }
+  clearSessionCookie(res);
+  res.json({ success: true });
+});
 
-// Password protection middleware (after body parsing)
-const APP_PASSWORD = process.env.APP_PASSWORD || 'mypassword';
+// API endpoint to check the session (used by the client to protect routes)
+app.get('/api/auth/session', (req: Request, res: Response) => {
+  const user = getCurrentUser(res);
+  res.json({ user, permissions: getPermissions(user.roles) });
+});
 
-const passwordMiddleware = (req: Request, res: Response, next: NextFunction) => {
-  // Skip password check for static files in production
-  if (process.env.NODE_ENV === 'production' && !req.path.startsWith('/api')) {
-    return next();
+// API endpoint to change the own password; other sessions of the user are signed out
+app.post('/api/auth/password', (req: Request, res: Response) => {
+  const user = getCurrentUser(res);
+  const { currentPassword, newPassword } = req.body || {};
+  if (typeof currentPassword !== 'string' || typeof newPassword !== 'string') {
+    return res.status(400).json({ error: 'Aktuelles und neues Passwort sind erforderlich.' });
+  }
+  if (!authenticate(user.username, currentPassword)) {
+    auditRequest(req, res, { action: 'auth.password_change', outcome: 'failure', target: user.id });
+    return res.status(403).json({ error: 'Das aktuelle Passwort ist falsch.' });
   }
+  const passwordError = validatePassword(newPassword);
+  if (passwordError) {
+    return res.status(400).json({ error: passwordError });
+  }
+
+  changePassword(user.id, newPassword);
+  deleteUserSessions(user.id, getSessionToken(req) || undefined);
+  auditRequest(req, res, { action: 'auth.password_change', target: user.id });
+  res.json({ success: true });
+});
+
+// API endpoint to list user accounts (admin)
+app.get('/api/users', requirePermission('users:manage'), (req: Request, res: Response) => {
+  res.json({ users: listUsers() });
+});
 
-  // Skip password check for public endpoints (auth verify and models list)
-  // Auth verify endpoint handles its own password validation
-  if (req.path === '/api/models' || req.path === '/api/auth/verify') {
-    return next();
+// API endpoint to create a user account (admin)
+app.post('/api/users', requirePermission('users:manage'), (req: Request, res: Response) => {
+  const { username, password, displayName, roles } = req.body || {};
+  if (typeof username !== 'string' || typeof password !== 'string') {
+    return res.status(400).json({ error: 'Benutzername und Passwort sind erforderlich.' });
+  }
+  const validationError = validateNewUser({ username, password, roles });
+  if (validationError) {
+    return res.status(400).json({ error: validationError });
   }
 
-  // Check password for other API endpoints
-  if (req.path.startsWith('/api')) {
-    const providedPassword = req.headers['x-app-password'] || req.body?.password;
-    
-    if (!providedPassword || providedPassword !== APP_PASSWORD) {
-      return res.status(401).json({ 
-        error: 'Unauthorized. Password required.',
-        requiresPassword: true 
-      });
+  const user = createUser({
+    username,
+    password,
+    displayName: typeof displayName === 'string' ? displayName : undefined,
+    roles,
+  });
+  auditRequest(req, res, {
+    action: 'user.create',
+    target: user.id,
+    details: { username: user.username, roles: user.roles },
+  });
+  res.status(201).json(toPublicUser(user));
+});
+
+// API endpoint to change roles, display name or password of an account (admin)
+app.patch('/api/users/:id', requirePermission('users:manage'), (req: Request, res: Response) => {
+  const user = getUser(req.params.id);
+  if (!user) {
+    return res.status(404).json({ error: 'Benutzer nicht gefunden.' });
+  }
+  const { displayName, roles, password } = req.body || {};
+  if (roles !== undefined) {
+    const rolesError = validateRoles(roles);
+    if (rolesError) {
+      return res.status(400).json({ error: rolesError });
+    }
+    if (!roles.includes('admin') && isLastAdmin(user.id)) {
+      return res.status(400).json({ error: 'Dem letzten Administrator kann die Rolle nicht entzogen werden.' });
+    }
+  }
+  if (password !== undefined) {
+    const passwordError = typeof password === 'string' ? validatePassword(password) : 'Ungültiges Passwort.';
+    if (passwordError) {
+      return res.status(400).json({ error: passwordError });
     }
   }
-  
-  next();
-};
 
-app.use(passwordMiddleware);
+  const updated = updateUser(user.id, {
+    displayName: typeof displayName === 'string' ? displayName : undefined,
+    roles,
+    password,
+  });
+  // A reset password signs the user out everywhere
+  if (password) {
+    deleteUserSessions(user.id);
+  }
+  auditRequest(req, res, {
+    action: 'user.update',
+    target: user.id,
+    details: {
+      username: user.username,
+      roles: roles !== undefined ? { from: user.roles, to: updated?.roles } : undefined,
+      displayName: typeof displayName === 'string' ? updated?.displayName : undefined,
+      passwordReset: Boolean(password),
+    },
+  });
+  res.json(updated ? toPublicUser(updated) : null);
+});
 
-// Serve static files from React app in production
-if (process.env.NODE_ENV === 'production') {
-  app.use(express.static(path.join(__dirname, '../client-dist')));
-}
+// API endpoint to get available models (public, shown before login)
+app.get('/api/models', (req: Request, res: Response) => {
+  res.json({
+    models: llmProvider.models,
+    defaultModel: llmProvider.defaultModel
+  });
+});
 
-// Helper function to generate fedlex URL with article anchor
-// Using the systematic collection format that works with the fedlex web interface
-const getFedlexUrl = (srNumber: string, article?: string): string => {
-  // Use the systematic collection search/browse URL format
-  // This format works better with the fedlex JavaScript-based interface
-  const baseUrl = `https://www.fedlex.admin.ch/de/filestore/fedlex.data.admin.ch/eli/cc/${srNumber}/latest/de`;
-  return article ? `${baseUrl}#art_${article}` : baseUrl;
-};
+// Models without structured output support are rejected with a client error
+const isUnsupportedFormatError = (error: any): boolean =>
+  [400, 404, 422].includes(error.response?.status);
+
+// Structured JSON analysis with one repair pass; returns null if the text parser should take over
+const analyzeWithJsonOutput = async (
+  model: string,
+  text: string,
+  lawContext: LawArticle[],
+  vendors: VendorCheck[]
+): Promise<AnalysisResult | null> => {
+  const request: CompletionRequest = {
+    model,
+    messages: [{ role: 'user', content: createPrompt(text, lawContext, 'json', vendors) }],
+    responseFormat: DSFA_RESPONSE_FORMAT,
+  };
+  let content: string;
 
-// Mapping of Swiss legal texts to their official URLs
-// Using the fedlex systematic collection format that works with the web interface
-// Note: These URLs require JavaScript to be enabled in the browser
-const SWISS_LAW_URLS: Record<string, string> = {
-  // Federal Constitution (BV, SR 101)
-  'BV': 'https://www.fedlex.admin.ch/eli/cc/1999/404/de',
-  'Bundesverfassung': 'https://www.fedlex.admin.ch/eli/cc/1999/404/de',
-  'SR 101': 'https://www.fedlex.admin.ch/eli/cc/1999/404/de',
-  
-  // Civil Code (ZGB, SR 210)
-  'ZGB': 'https://www.fedlex.admin.ch/eli/cc/24/233_245_233/de',
-  'Zivilgesetzbuch': 'https://www.fedlex.admin.ch/eli/cc/24/233_245_233/de',
-  'SR 210': 'https://www.fedlex.admin.ch/eli/cc/24/233_245_233/de',
-  
-  // Code of Obligations (OR, SR 220)
-  'OR': 'https://www.fedlex.admin.ch/eli/cc/27/317_321_377/de',
-  'Obligationenrecht': 'https://www.fedlex.admin.ch/eli/cc/27/317_321_377/de',
-  'SR 220': 'https://www.fedlex.admin.ch/eli/cc/27/317_321_377/de',
-  
-  // Data Protection Act (DSG, SR 235.1)
-  // Using search URL format that will find the law in the systematic collection
-  // The direct URL format may not work due to JavaScript requirements
-  'DSG': 'https://www.fedlex.admin.ch/eli/cc/2022/491/de',
-  'Datenschutzgesetz': 'https://www.fedlex.admin.ch/eli/cc/2022/491/de',
-  'DSG 2023': 'https://www.fedlex.admin.ch/eli/cc/2022/491/de',
-  'SR 235.1': 'https://www.fedlex.admin.ch/eli/cc/2022/491/de',
-  
-  // Penal Code (StGB, SR 311.0)
-  'StGB': 'https://www.fedlex.admin.ch/eli/cc/54/757_781_799/de',
-  'Strafgesetzbuch': 'https://www.fedlex.admin.ch/eli/cc/54/757_781_799/de',
-  'SR 311.0': 'https://www.fedlex.admin.ch/eli/cc/54/757_781_799/de',
-};
+  try {
+    content = await llmProvider.complete(request);
+  } catch (error: any) {
+    if (isUnsupportedFormatError(error)) {
+      console.warn(`Model ${model} does not support structured output, falling back to text parser.`);
+      return null;
+    }
+    throw error;
+  }
 
-// Extract legal references from text
-interface LegalReference {
-  law: string;
-  article?: string;
-  paragraph?: string;
-  text: string;
-  url: string;
-}
+  const validation = await repairDsfaJson(llmProvider, request, content, MAX_JSON_REPAIR_ATTEMPTS);
+  if (!validation.valid) {
+    console.warn(`Structured output from ${model} still invalid, falling back to text parser:`, validation.errors);
+    return null;
+  }
+  return jsonToAnalysisResult(validation.data);
+};
 
-const extractLegalReferences = (text: string): LegalReference[] => {
-  const references: LegalReference[] = [];
-  
-  // Pattern to match common Swiss law citations
-  // Examples: "Art. 5 DSG", "Art. 12 Abs. 1 ZGB", "Art. 28 OR", "Art. 13 BV"
-  const patterns = [
-    // Art. X DSG / Art. X Datenschutzgesetz
-    /Art\.\s*(\d+[a-z]?)\s*(?:Abs\.\s*(\d+))?\s*(DSG|Datenschutzgesetz)/gi,
-    // Art. X ZGB / Art. X Zivilgesetzbuch
-    /Art\.\s*(\d+[a-z]?)\s*(?:Abs\.\s*(\d+))?\s*(ZGB|Zivilgesetzbuch)/gi,
-    // Art. X OR / Art. X Obligationenrecht
-    /Art\.\s*(\d+[a-z]?)\s*(?:Abs\.\s*(\d+))?\s*(OR|Obligationenrecht)/gi,
-    // Art. X BV / Art. X Bundesverfassung
-    /Art\.\s*(\d+[a-z]?)\s*(?:Abs\.\s*(\d+))?\s*(BV|Bundesverfassung)/gi,
-    // Art. X StGB / Art. X Strafgesetzbuch
-    /Art\.\s*(\d+[a-z]?)\s*(?:Abs\.\s*(\d+))?\s*(StGB|Strafgesetzbuch)/gi,
-  ];
-  
-  patterns.forEach(pattern => {
-    let match;
-    while ((match = pattern.exec(text)) !== null) {
-      const article = match[1];
-      const paragraph = match[2];
-      const lawAbbr = match[3];
-      
-      // Find the base URL for this law
-      const baseUrl = SWISS_LAW_URLS[lawAbbr] || SWISS_LAW_URLS[lawAbbr.toUpperCase()];
-      
-      if (baseUrl) {
-        // Add article anchor to URL if article number is present
-        const url = article ? `${baseUrl}#art_${article}` : baseUrl;
-        const fullText = match[0];
-        references.push({
-          law: lawAbbr,
-          article,
-          paragraph,
-          text: fullText,
-          url: url,
-        });
-      }
-    }
+const analyzeWithTextOutput = async (
+  model: string,
+  text: string,
+  lawContext: LawArticle[],
+  vendors: VendorCheck[]
+): Promise<AnalysisResult> => {
+  const modelResponse = await llmProvider.complete({
+    model,
+    messages: [{ role: 'user', content: createPrompt(text, lawContext, 'text', vendors) }]
   });
-  
-  // Remove duplicates
-  const uniqueRefs = references.filter((ref, index, self) =>
-    index === self.findIndex((r) => r.text === ref.text)
-  );
-  
-  return uniqueRefs;
+  return parseResponse(modelResponse);
 };
 
-// Prompt template for structured DSFA according to EDÖB guidelines
-const createPrompt = (userText: string, dsgContext: DsgArticle[]): string => {
-  const contextText =
-    dsgContext && dsgContext.length > 0
-      ? dsgContext
-          .map(
-            (a) =>
-              `${a.id}${a.heading ? ` – ${a.heading}` : ''}: ${a.text
-                .replace(/\s+/g, ' ')
-                .trim()}`
-          )
-          .join('\n\n')
-      : 'Kein zusätzlicher DSG-Kontext verfügbar.';
-
-  return `Du bist ein Experte für Datenschutzrecht in der Schweiz und erstellst eine Datenschutz-Folgenabschätzung (DSFA) gemäss den Art. 22 und 23 DSG sowie dem Merkblatt des Eidgenössischen Datenschutz- und Öffentlichkeitsbeauftragten (EDÖB).
-
-WICHTIG: Alle Ausführungen müssen auf Schweizer Recht basieren, insbesondere:
-- Bundesverfassung (BV, SR 101)
-- Datenschutzgesetz (DSG, SR 235.1)
-- Zivilgesetzbuch (ZGB, SR 210)
-- Obligationenrecht (OR, SR 220)
-- Strafgesetzbuch (StGB, SR 311.0)
-- Relevante kantonale Gesetze
-
-KRITISCH: Bei Rechtsverweisen MÜSSEN Sie das exakte Format verwenden: "Art. [Nummer] [Gesetzesabkürzung]" oder "Art. [Nummer] Abs. [Absatz] [Gesetzesabkürzung]"
-Beispiele: "Art. 22 DSG", "Art. 5 Abs. 2 ZGB", "Art. 28 OR"
-
-SPRACHE: Alle Ausführungen müssen vollständig auf Deutsch verfasst sein. Die Strukturlabels (INFORMATIONEN_FEHLEN, FEHLENDE_INFORMATIONEN, FREUNDLICHE_NACHRICHT, ZUSAMMENFASSUNG, BESCHREIBUNG, BRUTTORISIKEN, MASSNAHMEN, NETTORISIKEN, ERGEBNIS, RISK_LEVEL) müssen exakt beibehalten werden.
-
-ERSTE PRÜFUNG: Bevor du die DSFA erstellst, prüfe zuerst, ob im bereitgestellten Text alle erforderlichen Informationen vorhanden sind:
-
-Erforderliche Informationen für eine vollständige DSFA:
-- Zweck der Datenbearbeitung (warum werden die Daten bearbeitet?)
-- Art der betroffenen Personen (Mitarbeitende, Kunden, Patienten, etc.)
-- Datenkategorien (welche Personendaten, gibt es besonders schützenswerte Daten gemäss Art. 5 DSG?)
-- Umfang der Datenbearbeitung (wie viele Personen, Datenvolumen, Dauer)
-- Technische Umsetzung (Wo werden Daten gespeichert? Welche Technologien werden verwendet? Cloud, lokaler Server?)
-- Rechtliche Grundlage bzw. Rechtfertigungsgrund (Einwilligung, überwiegendes Interesse, etc.)
-
-FALLS INFORMATIONEN FEHLEN:
-Antworte NUR mit folgendem Format (überspringe alle anderen Abschnitte):
-
-INFORMATIONEN_FEHLEN: true
-FREUNDLICHE_NACHRICHT: [Eine freundliche, hilfreiche Nachricht auf Deutsch, die dem Benutzer erklärt, dass für eine vollständige DSFA noch zusätzliche Informationen benötigt werden. Sei konstruktiv und erkläre den Nutzen dieser Informationen.]
-FEHLENDE_INFORMATIONEN:
-- [Spezifische fehlende Information 1 - z.B. "Zweck der Datenbearbeitung nicht klar erkennbar"]
-- [Spezifische fehlende Information 2 - z.B. "Art der betroffenen Personen nicht angegeben"]
-- [Spezifische fehlende Information 3 - z.B. "Technische Umsetzung (Cloud/Server) nicht beschrieben"]
-- [Weitere spezifische fehlende Informationen...]
-
-FALLS ALLE INFORMATIONEN VORHANDEN SIND:
-Erstelle die vollständige strukturierte DSFA gemäss EDÖB-Standard:
-
-1. ZUSAMMENFASSUNG: Eine prägnante 2-3 Sätze Zusammenfassung der geplanten Datenbearbeitung mit rechtlichen Einordnungen und Zitaten.
-
-2. BESCHREIBUNG DER GE PLANTEN BEARBEITUNG:
-- Zweck der Datenbearbeitung
-- Art der betroffenen Personen
-- Datenkategorien (Personendaten, besonders schützenswerte Daten gemäss Art. 5 DSG)
-- Umfang der Datenbearbeitung
-- Technische Umsetzung und verwendete Technologien
-- Rechtliche Grundlage bzw. Rechtfertigungsgrund
-Prüfe insbesondere die Kriterien nach Art. 22 Abs. 2 DSG:
-  - Art der Bearbeitung
-  - Umfang der Bearbeitung
-  - Umstände der Bearbeitung
-  - Zweck der Bearbeitung
-  - Absolute Kriterien (Art. 22 Abs. 2 Bst. a/b DSG): umfangreiche Bearbeitung besonders schützenswerter Daten oder systematische umfangreiche Überwachung öffentlicher Bereiche
-
-3. POTENTIELL HOHE BRUTTORISIKEN (vor Massnahmen):
-Analysiere die Risiken für die primären Schutzobjekte:
-  a) Primärrisiken für Privatsphäre und informationelle Selbstbestimmung der Betroffenen
-     - Einschränkung der Verfügungsfreiheit über eigene Daten
-     - Verletzung der Privatsphäre
-     - Beeinträchtigung der Autonomie, Würde und Identität
-  b) Sekundärrisiken für weitere Rechtsgüter und Grundrechte
-     - Recht auf Leben
-     - Physische Unversehrtheit
-     - Eigentum
-     - Weitere Grundrechte
-Für jedes identifizierte Risiko:
-  - Beschreibe die Art des Risikos (systemisch, rechtlich, sicherheitstechnisch)
-  - Bewerte die Eintrittswahrscheinlichkeit
-  - Bewerte die Schwere der Auswirkungen
-  - Nenne die betroffenen Personen
-  - Begründe, warum es als "hoch" einzustufen ist (mit Rechtszitaten, z.B. "Art. 22 Abs. 1 DSG")
-
-4. GEPLANTE MASSNAHMEN ZUR SENKUNG DER BRUTTORISIKEN:
-Vorschlage konkrete Massnahmen zur Risikosenkung:
-  a) Rechtliche Massnahmen (z.B. Verträge, SCC, Datenschutzerklärungen gemäss Art. 19 DSG)
-  b) Organisatorische Massnahmen (z.B. Schulung des Personals, Zugriffskontrollen, Datenschutzberater gemäss Art. 10 DSG)
-  c) Technische Massnahmen (z.B. Verschlüsselung gemäss Art. 8 DSG, Pseudonymisierung, Privacy by Design/Default gemäss Art. 7 DSG)
-Für jede Massnahme: Erkläre, wie sie das Risiko senkt und nenne relevante Rechtsgrundlagen.
-
-5. VERBLEIBENDE NETTORISIKEN (nach Massnahmen):
-Bewerte die Risiken nach den geplanten Massnahmen:
-  - Welche Risiken können durch die Massnahmen auf ein akzeptables Niveau gesenkt werden?
-  - Welche Risiken bleiben trotz Massnahmen hoch?
-  - Gibt es Risiken, die nicht beeinflussbar oder verlässlich einschätzbar sind? (z.B. Zugriffe fremder Behörden bei Datenexport)
-  - Sind die verbleibenden Nettorisiken mit der Datenschutzgesetzgebung als Ganzes vereinbar?
-  - Prüfe insbesondere die Verhältnismässigkeit gemäss Art. 6 DSG
-
-6. ERGEBNIS:
-- Ist ein hohes Nettorisiko vorhanden? (Ja/Nein)
-- Falls ja: Ist das hohe Nettorisiko datenschutzrechtlich akzeptabel oder inakzeptabel?
-- Begründe die Bewertung mit Rechtszitaten (z.B. "Art. 23 Abs. 1 DSG", "Art. 6 DSG")
-- Ist gemäss Art. 23 Abs. 1 DSG eine Vorlage beim EDÖB erforderlich?
-
-7. RISK_LEVEL: [LOW|MEDIUM|HIGH]
-Bestimme das Gesamtrisiko-Niveau basierend auf den Nettorisiken:
-- LOW: Keine oder nur geringe Nettorisiken, keine DSFA-Vorlagepflicht
-- MEDIUM: Erhöhte Risiken, die durch Massnahmen weitgehend gemindert werden können
-- HIGH: Hohe Nettorisiken trotz Massnahmen, möglicherweise Vorlagepflicht beim EDÖB gemäss Art. 23 Abs. 1 DSG
-
-Kontext aus DSG (alle relevanten Artikel):
-${contextText}
-
-Zu analysierender Text:
-
-"${userText}"
-
-FORMATIERUNGSREGELN FÜR PDF-OPTIMIERTE AUSGABE:
-- VERWENDE KEIN MARKDOWN (keine **, keine ###, keine Code-Formatierung)
-- Verwende klare Absätze und Aufzählungen
-- Nummeriere Aufzählungen mit Ziffern oder Buchstaben in Klammern: (1), (2), (a), (b), (c)
-- Verwende einfache Listen mit Bindestrichen oder Nummern
-- Jede Massnahme sollte auf einer eigenen Zeile beginnen
-- Strukturierte Abschnitte sollten mit klaren Überschriften beginnen
-
-Bitte formatiere deine Antwort exakt wie folgt (alle Abschnitte müssen vorhanden sein):
-
-ZUSAMMENFASSUNG:
-[Deine Zusammenfassung hier mit Rechtszitaten - als fliessender Text, 2-3 Sätze]
-
-BESCHREIBUNG DER GE PLANTEN BEARBEITUNG:
-[Strukturierte Beschreibung als fliessender Text mit klaren Absätzen für jeden Punkt. Verwende KEINE Markdown-Formatierung. Strukturiere mit einfachen Absätzen, nicht mit Markdown-Listen.]
-
-POTENTIELL HOHE BRUTTORISIKEN:
-[Strukturierte Auflistung als fliessender Text. Beginne mit "Primärrisiken für Privatsphäre und informationelle Selbstbestimmung:" gefolgt von den identifizierten Risiken. Dann "Sekundärrisiken für weitere Rechtsgüter und Grundrechte:" gefolgt von den Risiken. Verwende KEINE Markdown-Formatierung, sondern klare Absätze.]
-
-GEPLANTE MASSNAHMEN ZUR SENKUNG DER BRUTTORISIKEN:
-[Liste die Massnahmen klar strukturiert auf, aber OHNE Markdown. Verwende folgende Struktur:
-
-(1) Rechtliche Massnahmen:
-    - Massnahme 1 mit Begründung und Rechtszitat
-    - Massnahme 2 mit Begründung und Rechtszitat
-
-(2) Organisatorische Massnahmen:
-    - Massnahme 1 mit Begründung und Rechtszitat
-    - Massnahme 2 mit Begründung und Rechtszitat
-
-(3) Technische Massnahmen:
-    - Massnahme 1 mit Begründung und Rechtszitat
-    - Massnahme 2 mit Begründung und Rechtszitat
-
-Jede Massnahme sollte klar beschrieben sein mit: Was wird gemacht, warum senkt es das Risiko, welches Rechtszitat ist relevant.]
-
-VERBLEIBENDE NETTORISIKEN:
-[Bewertung der Nettorisiken nach den Massnahmen als fliessender Text mit klaren Aussagen]
-
-ERGEBNIS:
-[Strukturiertes Ergebnis als fliessender Text. Beantworte: Ist ein hohes Nettorisiko vorhanden? (Ja/Nein). Falls ja oder nein, begründe kurz mit Rechtszitaten. Ist eine Vorlage beim EDÖB erforderlich? (Ja/Nein gemäss Art. 23 Abs. 1 DSG)]
-
-RISK_LEVEL: [LOW|MEDIUM|HIGH]
-
-EMPFEHLUNGEN:
-[Extrahiere aus den MASSNAHMEN die wichtigsten 3-5 konkreten Handlungsempfehlungen als einfache, nummerierte Liste. Jede Empfehlung sollte eine konkrete, umsetzbare Massnahme sein mit Rechtszitat. Format: 
-1. Konkrete Empfehlung (Art. X DSG)
-2. Konkrete Empfehlung (Art. Y DSG)
-usw.]`;
-};
+// Answers without a risk level could not be parsed and are worth another try
+const isUsableResult = (result: AnalysisResult): boolean =>
+  Boolean(result.needsMoreInfo) || result.riskLevel !== 'UNKNOWN';
 
-// Helper function to clean markdown and formatting from text
-const cleanMarkdown = (text: string): string => {
-  if (!text) return text;
-  return text
-    // Remove bold/italic markdown
-    .replace(/\*\*([^*]+)\*\*/g, '$1')
-    .replace(/\*([^*]+)\*/g, '$1')
-    .replace(/_([^_]+)_/g, '$1')
-    // Remove code blocks
-    .replace(/```[\s\S]*?```/g, '')
-    .replace(/`([^`]+)`/g, '$1')
-    // Remove headers
-    .replace(/^#{1,6}\s+/gm, '')
-    // Clean up extra whitespace
-    .replace(/\n{3,}/g, '\n\n')
-    .trim();
+type AnalyzeRequest = {
+  text: string;
+  model: string;
+  retrievalMode: RetrievalMode;
+  assessmentId?: string;
+  changeNote?: string;
+  // Processors from the vendor registry, checked at the time of the analysis
+  vendors: VendorCheck[];
+  createdBy: UserRef;
 };
 
-// Parse response to check if information is missing
-const parseMissingInfo = (response: string): {
-  needsMoreInfo: boolean;
-  missingInfo?: string[];
-  message?: string;
-} => {
-  // Check if response indicates missing information
-  const infoFehltMatch = response.match(/INFORMATIONEN_FEHLEN:\s*(true|yes|ja)/i);
-  const needsMoreInfo = !!infoFehltMatch;
-
-  if (!needsMoreInfo) {
-    return { needsMoreInfo: false };
-  }
-
-  // Extract friendly message
-  const messageMatch = response.match(/FREUNDLICHE_NACHRICHT:\s*(.+?)(?=(?:FEHLENDE_INFORMATIONEN|$))/is);
-  const message = messageMatch ? cleanMarkdown(messageMatch[1].trim()) : undefined;
-
-  // Extract missing information list
-  const missingInfoMatch = response.match(/FEHLENDE_INFORMATIONEN:\s*([\s\S]+?)(?=(?:INFORMATIONEN_FEHLEN|ZUSAMMENFASSUNG|BESCHREIBUNG|RISK_LEVEL|$))/i);
-  let missingInfo: string[] = [];
-
-  if (missingInfoMatch) {
-    const missingInfoText = missingInfoMatch[1];
-    missingInfo = missingInfoText
-      .split('\n')
-      .map(line => {
-        // Remove leading dashes, bullets, numbers
-        line = line.replace(/^[-•*]\s*/, '');
-        line = line.replace(/^[\d]+[\.\)]\s*/, '');
-        line = line.trim();
-        return line;
-      })
-      .filter(line => line.length > 0 && !line.match(/^(FEHLENDE_INFORMATIONEN|INFORMATIONEN_FEHLEN):/i));
+const toUserRef = (user: PublicUser): UserRef => ({ id: user.id, name: user.displayName });
+
+// Validate the shared body of /api/analyze and /api/analyze/stream
+const parseAnalyzeRequest = (body: unknown, user: PublicUser): { data: AnalyzeRequest } | { status: number; error: string } => {
+  const input = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+  const { text, model, retrievalMode, changeNote, vendorIds } = input;
+  const assessmentId = input.assessmentId || undefined;
+
+  // Authors create assessments and add versions; reviewers and the DPO only read and comment
+  if (!hasPermission(user.roles, assessmentId ? 'assessment:edit' : 'assessment:create')) {
+    return { status: 403, error: 'Keine Berechtigung, Analysen zu erstellen oder zu bearbeiten.' };
+  }
+
+  if (assessmentId !== undefined && typeof assessmentId !== 'string') {
+    return { status: 400, error: 'Ungültige Analyse.' };
+  }
+
+  if (!text || typeof text !== 'string' || text.trim().length === 0) {
+    return { status: 400, error: 'Text input is required' };
+  }
+
+  if (vendorIds !== undefined && (!Array.isArray(vendorIds) || !vendorIds.every((id) => typeof id === 'string'))) {
+    return { status: 400, error: 'Ungültige Auswahl der Auftragsbearbeiter.' };
+  }
+  const vendors = ((vendorIds as string[] | undefined) || []).map(getVendor);
+  if (vendors.some((vendor) => !vendor)) {
+    return { status: 400, error: 'Auftragsbearbeiter nicht gefunden.' };
+  }
+  let vendorChecks = vendors.map((vendor) => toVendorCheck(vendor!));
+
+  // Re-running an existing assessment creates a new version of it
+  if (assessmentId) {
+    const assessment = getAssessment(assessmentId);
+    if (!assessment) {
+      return { status: 404, error: 'Analyse nicht gefunden.' };
+    }
+    // The reviewed version must not change while the DPO is checking it
+    if (assessment.status === 'in_review') {
+      return { status: 409, error: 'Die Analyse ist in Prüfung. Neue Versionen sind erst nach dem Entscheid möglich.' };
+    }
+    // Without a selection the new version keeps the processors of the latest one, with current data
+    if (vendorIds === undefined) {
+      vendorChecks = (getLatestVersion(assessment).result.vendors || [])
+        .map((check) => getVendor(check.vendorId))
+        .filter((vendor): vendor is NonNullable<typeof vendor> => Boolean(vendor))
+        .map(toVendorCheck);
+    }
+  }
+
+  // Check if the LLM provider is configured (e.g. API key present)
+  const configurationError = llmProvider.configurationError();
+  if (configurationError) {
+    return { status: 503, error: configurationError };
   }
 
   return {
-    needsMoreInfo: true,
-    missingInfo: missingInfo.length > 0 ? missingInfo : undefined,
-    message: message || 'Für eine vollständige DSFA benötigen wir noch zusätzliche Informationen.'
+    data: {
+      text,
+      model: typeof model === 'string' && model.trim().length > 0 ? model.trim() : llmProvider.defaultModel,
+      retrievalMode: retrievalMode === 'full' || retrievalMode === 'retrieved' ? retrievalMode : RETRIEVAL_MODE,
+      assessmentId,
+      changeNote: typeof changeNote === 'string' && changeNote.trim() ? changeNote.trim() : undefined,
+      vendors: vendorChecks,
+      createdBy: toUserRef(user),
+    }
   };
 };
 
-// Parse the model response to extract structured DSFA data
-const parseResponse = (response: string): {
-  summary: string;
-  riskLevel: string;
-  analysis: string;
-  recommendations: string[];
-  legalReferences: LegalReference[];
-  description?: string;
-  bruttorisiken?: string;
-  massnahmen?: string;
-  nettorisiken?: string;
-  ergebnis?: string;
-  needsMoreInfo?: boolean;
-  missingInfo?: string[];
-  message?: string;
-} => {
-  const analysis = response;
-  
-  // First check if information is missing
-  const missingInfoCheck = parseMissingInfo(response);
-  if (missingInfoCheck.needsMoreInfo) {
-    return {
-      summary: '',
-      riskLevel: 'UNKNOWN',
-      analysis: response,
-      recommendations: [],
-      legalReferences: [],
-      needsMoreInfo: true,
-      missingInfo: missingInfoCheck.missingInfo,
-      message: missingInfoCheck.message
-    };
+// The transfer and processor sections are derived from the input, independent of the model answer
+const toAnalysisResult = (parsed: AnalysisResult, inputText: string, vendors: VendorCheck[] = []): AnalysisResult => ({
+  summary: parsed.summary,
+  riskLevel: parsed.riskLevel,
+  analysis: parsed.analysis,
+  recommendations: parsed.recommendations,
+  legalReferences: parsed.legalReferences || [],
+  // New DSFA structure fields
+  description: parsed.description,
+  bruttorisiken: parsed.bruttorisiken,
+  massnahmen: parsed.massnahmen,
+  nettorisiken: parsed.nettorisiken,
+  ergebnis: parsed.ergebnis,
+  risks: parsed.risks,
+  transfers: assessTransfers(inputText),
+  vendors: vendors.length > 0 ? vendors : undefined,
+  // Missing info fields
+  needsMoreInfo: parsed.needsMoreInfo || false,
+  missingInfo: parsed.missingInfo,
+  knownInfo: parsed.knownInfo,
+  message: parsed.message
+});
+
+// Persist the assessment so it can be reopened without another model call
+const saveAnalysis = (request: AnalyzeRequest, result: AnalysisResult, outputMode: OutputMode) => {
+  const versionData = {
+    inputText: request.text,
+    model: request.model,
+    promptVersion: PROMPT_VERSION,
+    outputMode,
+    retrievalMode: request.retrievalMode,
+    result,
+    changeNote: request.changeNote,
+    createdBy: request.createdBy,
+  };
+  const stored = request.assessmentId
+    ? addAssessmentVersion(request.assessmentId, versionData)
+    : createAssessment(versionData);
+  if (!stored) {
+    return null;
   }
-  
-  // Extract summary (either old format "SUMMARY:" or new format "ZUSAMMENFASSUNG:")
-  const summaryMatch = response.match(/(?:SUMMARY|ZUSAMMENFASSUNG):\s*(.+?)(?=(?:BESCHREIBUNG|DESCRIPTION|BRUTTORISIKEN|RISK_LEVEL|$))/is);
-  const summary = summaryMatch ? cleanMarkdown(summaryMatch[1].trim()) : 'Keine Zusammenfassung vorhanden.';
-  
-  // Extract description of planned processing
-  const descriptionMatch = response.match(/BESCHREIBUNG[^:]*:\s*(.+?)(?=(?:POTENTIELL|BRUTTORISIKEN|MASSNAHMEN|$))/is);
-  const description = descriptionMatch ? cleanMarkdown(descriptionMatch[1].trim()) : undefined;
-  
-  // Extract bruttorisiken (brutto risks)
-  const bruttorisikenMatch = response.match(/POTENTIELL[^:]*BRUTTORISIKEN[^:]*:\s*(.+?)(?=(?:GEPLANTE|MASSNAHMEN|NETTORISIKEN|$))/is);
-  const bruttorisiken = bruttorisikenMatch ? cleanMarkdown(bruttorisikenMatch[1].trim()) : undefined;
-  
-  // Extract massnahmen (measures)
-  const massnahmenMatch = response.match(/GEPLANTE[^:]*MASSNAHMEN[^:]*:\s*(.+?)(?=(?:VERBLEIBENDE|NETTORISIKEN|ERGEBNIS|RISK_LEVEL|EMPFEHLUNGEN|$))/is);
-  const massnahmen = massnahmenMatch ? cleanMarkdown(massnahmenMatch[1].trim()) : undefined;
-  
-  // Extract nettorisiken (net risks)
-  const nettorisikenMatch = response.match(/VERBLEIBENDE[^:]*NETTORISIKEN[^:]*:\s*(.+?)(?=(?:ERGEBNIS|RISK_LEVEL|EMPFEHLUNGEN|$))/is);
-  const nettorisiken = nettorisikenMatch ? cleanMarkdown(nettorisikenMatch[1].trim()) : undefined;
-  
-  // Extract ergebnis (result)
-  const ergebnisMatch = response.match(/ERGEBNIS:\s*(.+?)(?=(?:RISK_LEVEL|EMPFEHLUNGEN|$))/is);
-  const ergebnis = ergebnisMatch ? cleanMarkdown(ergebnisMatch[1].trim()) : undefined;
-  
-  // Extract risk level (support both old and new format)
-  const riskMatch = response.match(/RISK_LEVEL:\s*(LOW|MEDIUM|HIGH)/i);
-  const riskLevel = riskMatch ? riskMatch[1].toUpperCase() : 'UNKNOWN';
-  
-  // Extract recommendations - check for new EMPFEHLUNGEN section first
-  let recommendations: string[] = [];
-  
-  // Try to extract from dedicated EMPFEHLUNGEN section (new format)
-  const empfehlungenMatch = response.match(/EMPFEHLUNGEN:\s*([\s\S]+?)(?=(?:RISK_LEVEL|$))/i);
-  if (empfehlungenMatch) {
-    const empfehlungenText = cleanMarkdown(empfehlungenMatch[1]);
-    recommendations = empfehlungenText
-      .split('\n')
-      .map(line => {
-        // Remove leading numbers, bullets, dashes, or letters in parentheses
-        line = line.replace(/^[\d]+[\.\)]\s*/, ''); // Remove "1. " or "1) "
-        line = line.replace(/^[\(][a-zA-Z][\)]\s*/, ''); // Remove "(a) " or "(A) "
-        line = line.replace(/^[-•*]\s*/, ''); // Remove "- " or "* " or "• "
-        return line.trim();
-      })
-      .filter(line => line.length > 10 && !line.match(/^[\(][\d]+[\)]\s*$/)) // Filter out very short lines and standalone numbers
-      .slice(0, 10); // Limit to 10 items
-  }
-  
-  // If no recommendations found, try extracting from MASSNAHMEN section
-  if (recommendations.length === 0 && massnahmen) {
-    // Extract individual actionable measures from massnahmen
-    const lines = massnahmen.split('\n');
-    recommendations = lines
-      .map(line => {
-        line = cleanMarkdown(line);
-        // Look for lines that start with numbers, letters in parentheses, or dashes
-        if (line.match(/^[\d]+[\.\)]\s+|^[\(][a-zA-Z][\)]\s+|^[-•*]\s+/)) {
-          line = line.replace(/^[\d]+[\.\)]\s*/, '');
-          line = line.replace(/^[\(][a-zA-Z][\)]\s*/, '');
-          line = line.replace(/^[-•*]\s*/, '');
-          // Extract the actual recommendation text (before any additional explanations)
-          const parts = line.split(':');
-          if (parts.length > 1) {
-            return parts.slice(1).join(':').trim(); // Take everything after the colon
-          }
-          return line.trim();
-        }
-        return null;
-      })
-      .filter((line): line is string => line !== null && line.length > 10)
-      .slice(0, 10);
-  }
-  
-  // If still no recommendations found, try old format
-  if (recommendations.length === 0) {
-    const recommendationsMatch = response.match(/RECOMMENDATIONS:\s*([\s\S]+?)(?=\n\n|$)/i);
-    const recommendationsText = recommendationsMatch ? cleanMarkdown(recommendationsMatch[1]) : '';
-    recommendations = recommendationsText
-      .split('\n')
-      .map(line => {
-        line = line.replace(/^[\d]+[\.\)]\s*/, '');
-        line = line.replace(/^[\(][a-zA-Z][\)]\s*/, '');
-        line = line.replace(/^[-•*]\s*/, '');
-        return line.trim();
-      })
-      .filter(line => line.length > 0);
-  }
-  
-  // Extract all legal references from the entire response
-  const legalReferences = extractLegalReferences(response);
-  
   return {
-    summary,
-    riskLevel,
-    analysis,
-    recommendations: recommendations.length > 0 ? recommendations : ['Keine Empfehlungen vorhanden.'],
-    legalReferences,
-    description,
-    bruttorisiken,
-    massnahmen,
-    nettorisiken,
-    ergebnis,
-    needsMoreInfo: false
+    assessmentId: stored.id,
+    version: stored.versions[stored.versions.length - 1].version,
   };
 };
 
-// API endpoint to verify password
-app.post('/api/auth/verify', (req: Request, res: Response) => {
-  const providedPassword = req.headers['x-app-password'] || req.body?.password;
-  
-  if (!providedPassword || providedPassword !== APP_PASSWORD) {
-    return res.status(401).json({ 
-      error: 'Ungültiges Passwort. Bitte versuchen Sie es erneut.',
-      requiresPassword: true 
-    });
-  }
-  
-  res.json({ 
-    success: true,
-    message: 'Passwort korrekt'
+// Who ran which assessment with which model and input; the input is logged as a hash only
+const auditAnalysis = (
+  req: Request,
+  res: Response,
+  request: AnalyzeRequest,
+  outcome: 'success' | 'failure',
+  details: Record<string, unknown>
+) =>
+  auditRequest(req, res, {
+    action: 'assessment.analyze',
+    outcome,
+    target: (details.assessmentId as string | undefined) || request.assessmentId,
+    details: {
+      requestedModel: request.model,
+      promptVersion: PROMPT_VERSION,
+      retrievalMode: request.retrievalMode,
+      inputSha256: hashInput(request.text),
+      inputLength: request.text.length,
+      vendorIds: request.vendors.map((check) => check.vendorId),
+      ...details,
+    },
   });
-});
 
-// API endpoint to get available models (requires password)
-app.get('/api/models', (req: Request, res: Response) => {
-  const providedPassword = req.headers['x-app-password'];
-  
-  // Optional password check for models endpoint - if password provided, validate it
-  if (providedPassword && providedPassword !== APP_PASSWORD) {
-    return res.status(401).json({ 
-      error: 'Ungültiges Passwort.',
-      requiresPassword: true 
-    });
+const getErrorResponse = (error: any): { status: number; error: string } => {
+  if (error.code === 'ECONNREFUSED') {
+    return {
+      status: 503,
+      error: `Cannot connect to ${llmProvider.name}. Please verify the provider URL and API key.`
+    };
   }
-  
-  res.json({
-    models: OPENROUTER_MODELS,
-    defaultModel: OPENROUTER_MODEL
+
+  if (error.response) {
+    return {
+      status: 500,
+      error: `${llmProvider.name} API error: ${error.response.data?.error?.message || error.response.data?.error || error.message}`
+    };
+  }
+
+  return { status: 500, error: `Internal server error: ${error.message}` };
+};
+
+// Rule-based Art. 22 pre-check; the client only starts the analysis if a DSFA may be needed
+app.post('/api/precheck', requirePermission('assessment:create'), (req: Request, res: Response) => {
+  const answers = parsePrecheckAnswers(req.body?.answers);
+  if (!answers) {
+    return res.status(400).json({ error: 'Ungültige Antwort in der Vorprüfung (erlaubt: yes, no, unknown).' });
+  }
+  const result = evaluatePrecheck(answers);
+  auditRequest(req, res, {
+    action: 'assessment.precheck',
+    details: { outcome: result.outcome, answers },
   });
+  res.json(result);
 });
 
 // API endpoint for text analysis
-app.post('/api/analyze', async (req: Request, res: Response) => {
+app.post('/api/analyze', requirePermission('assessment:create'), analyzeRateLimits, async (req: Request, res: Response) => {
+  const request = parseAnalyzeRequest(req.body, getCurrentUser(res));
+  if (!('data' in request)) {
+    return res.status(request.status).json({ error: request.error });
+  }
+
   try {
-    const { text, model } = req.body;
-    
-    if (!text || typeof text !== 'string' || text.trim().length === 0) {
-      return res.status(400).json({ error: 'Text input is required' });
-    }
+    const { text, model: requestedModel, retrievalMode, vendors } = request.data;
+    const { outputMode } = req.body;
     
-    // Check if OpenRouter API key is configured
-    if (!OPENROUTER_API_KEY) {
-      return res.status(503).json({ 
-        error: 'OPENROUTER_API_KEY fehlt – Bitte setzen Sie OPENROUTER_API_KEY in Ihrer Umgebungsvariablen.' 
-      });
+    // Pinned articles plus the best matching DSG paragraphs, or all articles in 'full' mode
+    const lawContext = getLawContext(text, retrievalMode, RETRIEVAL_TOP_K);
+    const requestedOutputMode: OutputMode = outputMode === 'json' || outputMode === 'text'
+      ? outputMode
+      : OUTPUT_MODE;
+
+    console.log(
+      `Using ${llmProvider.name} with model: ${requestedModel} (output mode: ${requestedOutputMode}, ` +
+      `retrieval: ${retrievalMode}, ${lawContext.length} articles)`
+    );
+
+    // Prefer structured JSON output, fall back to the text parser for models that do not support it
+    const analyzeWithModel = async (model: string) => {
+      if (requestedOutputMode === 'json') {
+        const parsed = await analyzeWithJsonOutput(model, text, lawContext, vendors);
+        if (parsed) return { parsed, outputMode: 'json' as OutputMode };
+      }
+      return { parsed: await analyzeWithTextOutput(model, text, lawContext, vendors), outputMode: 'text' as OutputMode };
+    };
+
+    const { result: analysis, model, failedAttempts } = await runWithModelFallback(
+      getModelCandidates(requestedModel, llmProvider.models),
+      analyzeWithModel,
+      ({ parsed }) => isUsableResult(parsed),
+      FALLBACK_OPTIONS
+    );
+
+    const result = toAnalysisResult(analysis.parsed, text, vendors);
+    const stored = saveAnalysis({ ...request.data, model }, result, analysis.outputMode);
+    if (!stored) {
+      return res.status(404).json({ error: 'Analyse nicht gefunden.' });
     }
+    auditAnalysis(req, res, request.data, 'success', {
+      ...stored,
+      model,
+      outputMode: analysis.outputMode,
+      riskLevel: result.riskLevel,
+      needsMoreInfo: result.needsMoreInfo,
+      failedAttempts: failedAttempts.length,
+    });
+
+    res.json({
+      ...result,
+      outputMode: analysis.outputMode,
+      retrievalMode,
+      contextArticles: lawContext.map((article) => `${article.id} ${article.law}`),
+      model,
+      requestedModel,
+      failedAttempts,
+      ...stored,
+    });
     
-    // Retrieve DSG articles - always include ALL articles for comprehensive context
-    const dsgContext = DSG_ARTICLES; // Include ALL 77 articles every time
-    const prompt = createPrompt(text, dsgContext);
-    const requestedModel = typeof model === 'string' && model.trim().length > 0 
-      ? model.trim() 
-      : OPENROUTER_MODEL;
-
-    console.log(`Using OpenRouter with model: ${requestedModel}`);
-
-    // Call OpenRouter API
-      const openRouterResponse = await axios.post(
-        `${OPENROUTER_BASE_URL}/chat/completions`,
+  } catch (error: any) {
+    console.error('Error analyzing text:', error);
+    const { status, error: message } = getErrorResponse(error);
+    auditAnalysis(req, res, request.data, 'failure', { error: message });
+    res.status(status).json({ error: message });
+  }
+});
+
+// Streaming variant of /api/analyze (Server-Sent Events).
+// Forwards the model's token stream as "delta" events so the client can render each
+// DSFA section as soon as its heading arrives; the parsed result is sent as "result".
+// Streaming always uses the labelled text format, since partial JSON cannot be rendered.
+app.post('/api/analyze/stream', requirePermission('assessment:create'), analyzeRateLimits, async (req: Request, res: Response) => {
+  const request = parseAnalyzeRequest(req.body, getCurrentUser(res));
+  if (!('data' in request)) {
+    return res.status(request.status).json({ error: request.error });
+  }
+  const { text, model: requestedModel, retrievalMode, vendors } = request.data;
+
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+
+  const sendEvent = (event: string, data: unknown) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  // Stop the upstream request when the browser goes away
+  const abortController = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) abortController.abort();
+  });
+
+  try {
+    console.log(`Streaming from ${llmProvider.name} with model: ${requestedModel}`);
+    sendEvent('start', { model: requestedModel });
+
+    const lawContext = getLawContext(text, retrievalMode, RETRIEVAL_TOP_K);
+    let attempts = 0;
+    const streamWithModel = async (model: string) => {
+      // Tell the client to discard the partial answer of the failed attempt
+      if (attempts++ > 0) {
+        sendEvent('retry', { model });
+      }
+      const modelResponse = await llmProvider.stream(
         {
-        model: requestedModel,
-          messages: [
-            { role: 'user', content: prompt }
-          ],
-          temperature: 0.2
+          model,
+          messages: [{ role: 'user', content: createPrompt(text, lawContext, 'text', vendors) }],
+          signal: abortController.signal
         },
-        {
-          timeout: 120000,
-          headers: {
-            Authorization: `Bearer ${OPENROUTER_API_KEY}`,
-          'HTTP-Referer': OPENROUTER_APP_URL,
-            'X-Title': 'Swiss Legal Assessment'
-          }
-        }
+        (delta) => sendEvent('delta', { text: delta })
       );
-    
-    const modelResponse = openRouterResponse.data?.choices?.[0]?.message?.content || '';
-    const parsed = parseResponse(modelResponse);
-    
+      return parseResponse(modelResponse);
+    };
+
+    const { result: parsed, model, failedAttempts } = await runWithModelFallback(
+      getModelCandidates(requestedModel, llmProvider.models),
+      streamWithModel,
+      isUsableResult,
+      { ...FALLBACK_OPTIONS, signal: abortController.signal }
+    );
+
+    const result = toAnalysisResult(parsed, text, vendors);
+    const stored = saveAnalysis({ ...request.data, model }, result, 'text');
+    if (!stored) {
+      sendEvent('error', { error: 'Analyse nicht gefunden.' });
+    } else {
+      auditAnalysis(req, res, request.data, 'success', {
+        ...stored,
+        model,
+        outputMode: 'text',
+        streamed: true,
+        riskLevel: result.riskLevel,
+        needsMoreInfo: result.needsMoreInfo,
+        failedAttempts: failedAttempts.length,
+      });
+      sendEvent('result', {
+        ...result,
+        outputMode: 'text',
+        retrievalMode,
+        contextArticles: lawContext.map((article) => `${article.id} ${article.law}`),
+        model,
+        requestedModel,
+        failedAttempts,
+        ...stored
+      });
+    }
+  } catch (error: any) {
+    if (abortController.signal.aborted) {
+      console.warn('Streaming analysis aborted by client.');
+      auditAnalysis(req, res, request.data, 'failure', { streamed: true, error: 'Vom Client abgebrochen' });
+      return;
+    }
+    console.error('Error streaming analysis:', error);
+    const message = getErrorResponse(error).error;
+    auditAnalysis(req, res, request.data, 'failure', { streamed: true, error: message });
+    sendEvent('error', { error: message });
+  } finally {
+    res.end();
+  }
+});
+
+// API endpoint to assess a Verletzung der Datensicherheit (Art. 24 DSG): whether the EDÖB
+// must be notified and the affected persons informed, with drafts of both messages.
+// Incidents are not stored as assessments; only the audit log records the request.
+app.post('/api/breach', requirePermission('assessment:create'), analyzeRateLimits, async (req: Request, res: Response) => {
+  const { text, model: bodyModel } = req.body || {};
+  if (!text || typeof text !== 'string' || text.trim().length === 0) {
+    return res.status(400).json({ error: 'Bitte den Vorfall beschreiben.' });
+  }
+  const configurationError = llmProvider.configurationError();
+  if (configurationError) {
+    return res.status(503).json({ error: configurationError });
+  }
+
+  const requestedModel = typeof bodyModel === 'string' && bodyModel.trim().length > 0 ? bodyModel.trim() : llmProvider.defaultModel;
+  const auditDetails = {
+    requestedModel,
+    promptVersion: BREACH_PROMPT_VERSION,
+    retrievalMode: RETRIEVAL_MODE,
+    inputSha256: hashInput(text),
+    inputLength: text.length,
+  };
+
+  try {
+    const lawContext = getLawContext(text, RETRIEVAL_MODE, RETRIEVAL_TOP_K, BREACH_PINNED_ARTICLES);
+    console.log(`Assessing data breach with ${llmProvider.name}, model: ${requestedModel} (${lawContext.length} articles)`);
+
+    const { result, model, failedAttempts } = await runWithModelFallback(
+      getModelCandidates(requestedModel, llmProvider.models),
+      async (model) =>
+        parseBreachResponse(
+          await llmProvider.complete({ model, messages: [{ role: 'user', content: createBreachPrompt(text, lawContext) }] })
+        ),
+      isUsableBreachResult,
+      FALLBACK_OPTIONS
+    );
+
+    auditRequest(req, res, {
+      action: 'breach.analyze',
+      details: {
+        ...auditDetails,
+        model,
+        riskLevel: result.riskLevel,
+        notifyAuthority: result.authorityNotification.decision,
+        informSubjects: result.subjectInformation.decision,
+        failedAttempts: failedAttempts.length,
+      },
+    });
     res.json({
-      summary: parsed.summary,
-      riskLevel: parsed.riskLevel,
-      analysis: parsed.analysis,
-      recommendations: parsed.recommendations,
-      legalReferences: parsed.legalReferences || [],
-      // New DSFA structure fields
-      description: parsed.description,
-      bruttorisiken: parsed.bruttorisiken,
-      massnahmen: parsed.massnahmen,
-      nettorisiken: parsed.nettorisiken,
-      ergebnis: parsed.ergebnis,
-      // Missing info fields
-      needsMoreInfo: parsed.needsMoreInfo || false,
-      missingInfo: parsed.missingInfo,
-      message: parsed.message
+      ...result,
+      promptVersion: BREACH_PROMPT_VERSION,
+      retrievalMode: RETRIEVAL_MODE,
+      contextArticles: lawContext.map((article) => `${article.id} ${article.law}`),
+      model,
+      requestedModel,
+      failedAttempts,
     });
-    
   } catch (error: any) {
-    console.error('Error analyzing text:', error);
-    
-      if (error.code === 'ECONNREFUSED') {
-        return res.status(503).json({ 
-          error: 'Cannot connect to OpenRouter. Please verify OPENROUTER_BASE_URL and API key.' 
-        });
-      }
-      
-      if (error.response) {
-        return res.status(500).json({ 
-        error: `OpenRouter API error: ${error.response.data?.error?.message || error.response.data?.error || error.message}` 
+    console.error('Error assessing data breach:', error);
+    const { status, error: message } = getErrorResponse(error);
+    auditRequest(req, res, { action: 'breach.analyze', outcome: 'failure', details: { ...auditDetails, error: message } });
+    res.status(status).json({ error: message });
+  }
+});
+
+// API endpoint to list stored assessments (newest first)
+app.get('/api/assessments', requirePermission('assessment:view'), (req: Request, res: Response) => {
+  res.json({ assessments: listAssessments() });
+});
+
+// API endpoint to reopen a stored assessment
+app.get('/api/assessments/:id', requirePermission('assessment:view'), (req: Request, res: Response) => {
+  const assessment = getAssessment(req.params.id);
+  if (!assessment) {
+    return res.status(404).json({ error: 'Analyse nicht gefunden.' });
+  }
+  res.json(assessment);
+});
+
+// API endpoint to compare two versions of an assessment section by section
+app.get('/api/assessments/:id/diff', requirePermission('assessment:view'), (req: Request, res: Response) => {
+  const assessment = getAssessment(req.params.id);
+  if (!assessment) {
+    return res.status(404).json({ error: 'Analyse nicht gefunden.' });
+  }
+
+  const from = getVersion(assessment, Number(req.query.from));
+  const to = getVersion(assessment, Number(req.query.to));
+  if (!from || !to) {
+    return res.status(400).json({ error: 'Ungültige Versionsangabe. Bitte "from" und "to" angeben.' });
+  }
+
+  res.json(diffVersions(from, to));
+});
+
+// API endpoint to delete a stored assessment
+app.delete('/api/assessments/:id', requirePermission('assessment:delete'), (req: Request, res: Response) => {
+  const assessment = getAssessment(req.params.id);
+  if (!assessment || !deleteAssessment(assessment.id)) {
+    return res.status(404).json({ error: 'Analyse nicht gefunden.' });
+  }
+  auditRequest(req, res, {
+    action: 'assessment.delete',
+    target: assessment.id,
+    details: { title: assessment.title, versions: assessment.versions.length, status: assessment.status },
+  });
+  res.json({ success: true });
+});
+
+// API endpoint to comment on a version of an assessment (authors, reviewers, DPO)
+app.post('/api/assessments/:id/comments', requirePermission('assessment:comment'), (req: Request, res: Response) => {
+  const assessment = getAssessment(req.params.id);
+  if (!assessment) {
+    return res.status(404).json({ error: 'Analyse nicht gefunden.' });
+  }
+  const { text, version } = req.body || {};
+  if (typeof text !== 'string' || !text.trim()) {
+    return res.status(400).json({ error: 'Bitte einen Kommentar eingeben.' });
+  }
+  const target = version === undefined ? getLatestVersion(assessment) : getVersion(assessment, Number(version));
+  if (!target) {
+    return res.status(400).json({ error: 'Ungültige Versionsangabe.' });
+  }
+
+  const updated = addComment(assessment.id, target.version, toUserRef(getCurrentUser(res)), text.trim());
+  auditRequest(req, res, {
+    action: 'assessment.comment',
+    target: assessment.id,
+    details: { version: target.version, commentId: updated?.comments?.[updated.comments.length - 1]?.id },
+  });
+  res.status(201).json(updated);
+});
+
+// Input text of a version revised through a follow-up question
+const withFollowUpChange = (inputText: string, question: string): string =>
+  question ? `${inputText}\n\nÄnderung gemäss Rückfrage: ${question}` : inputText;
+
+// Earlier questions and answers sent along with a follow-up question
+const MAX_FOLLOW_UP_HISTORY = 10;
+const MAX_FOLLOW_UP_LENGTH = 4000;
+
+// API endpoint for follow-up questions on a version of an assessment. The model sees the
+// original prompt with the DSG context and its DSFA as conversation history; answers to
+// questions that change the planned processing may contain a revised DSFA.
+app.post(
+  '/api/assessments/:id/chat',
+  requirePermission('assessment:comment'),
+  analyzeRateLimits,
+  async (req: Request, res: Response) => {
+    const assessment = getAssessment(req.params.id);
+    if (!assessment) {
+      return res.status(404).json({ error: 'Analyse nicht gefunden.' });
+    }
+    const { message, version, model } = req.body || {};
+    if (typeof message !== 'string' || !message.trim()) {
+      return res.status(400).json({ error: 'Bitte eine Frage eingeben.' });
+    }
+    if (message.length > MAX_FOLLOW_UP_LENGTH) {
+      return res.status(400).json({ error: `Die Frage darf höchstens ${MAX_FOLLOW_UP_LENGTH} Zeichen lang sein.` });
+    }
+    const target = version === undefined ? getLatestVersion(assessment) : getVersion(assessment, Number(version));
+    if (!target) {
+      return res.status(400).json({ error: 'Ungültige Versionsangabe.' });
+    }
+    if (target.result.needsMoreInfo) {
+      return res.status(400).json({ error: 'Rückfragen sind erst nach einer vollständigen DSFA möglich.' });
+    }
+    const configurationError = llmProvider.configurationError();
+    if (configurationError) {
+      return res.status(503).json({ error: configurationError });
+    }
+
+    const question = message.trim();
+    // Continue with the model of the assessment unless another one is chosen
+    const requestedModel = typeof model === 'string' && model.trim()
+      ? model.trim()
+      : llmProvider.models.includes(target.model) ? target.model : llmProvider.defaultModel;
+    const lawContext = getLawContext(target.inputText, target.retrievalMode || RETRIEVAL_MODE, RETRIEVAL_TOP_K);
+    const history = getFollowUps(assessment, target.version).slice(-MAX_FOLLOW_UP_HISTORY);
+    const messages: ChatMessage[] = [
+      { role: 'user', content: createPrompt(target.inputText, lawContext, 'text', target.result.vendors) },
+      { role: 'assistant', content: target.result.analysis },
+      ...history.map((entry): ChatMessage => entry.role === 'user'
+        ? { role: 'user', content: `${FOLLOW_UP_MARKER} ${entry.content}` }
+        : { role: 'assistant', content: formatFollowUpAnswer(entry.content, entry.revisedResult?.analysis) }),
+      { role: 'user', content: createFollowUpPrompt(question) },
+    ];
+    const auditDetails = { version: target.version, requestedModel, questionLength: question.length };
+
+    try {
+      const { result: answer, model: usedModel, failedAttempts } = await runWithModelFallback(
+        getModelCandidates(requestedModel, llmProvider.models),
+        async (candidate) => parseFollowUpResponse(await llmProvider.complete({ model: candidate, messages })),
+        ({ reply }) => reply.trim().length > 0,
+        FALLBACK_OPTIONS
+      );
+      const revisedResult = answer.revisedResult
+        ? toAnalysisResult(answer.revisedResult, withFollowUpChange(target.inputText, question), target.result.vendors)
+        : undefined;
+      const updated = addFollowUpExchange(
+        assessment.id,
+        target.version,
+        { content: question, author: toUserRef(getCurrentUser(res)) },
+        { content: answer.reply, model: usedModel, revisedResult }
+      );
+      auditRequest(req, res, {
+        action: 'assessment.chat',
+        target: assessment.id,
+        details: {
+          ...auditDetails,
+          model: usedModel,
+          revisedRiskLevel: revisedResult?.riskLevel,
+          failedAttempts: failedAttempts.length,
+        },
+      });
+      res.status(201).json(updated);
+    } catch (error: any) {
+      console.error('Error answering follow-up question:', error);
+      const { status, error: errorMessage } = getErrorResponse(error);
+      auditRequest(req, res, {
+        action: 'assessment.chat',
+        outcome: 'failure',
+        target: assessment.id,
+        details: { ...auditDetails, error: errorMessage },
       });
+      res.status(status).json({ error: errorMessage });
     }
-    
-    res.status(500).json({ 
-      error: `Internal server error: ${error.message}` 
+  }
+);
+
+// API endpoint to save the revised DSFA of a follow-up answer as a new version
+app.post(
+  '/api/assessments/:id/chat/:messageId/apply',
+  requirePermission('assessment:edit'),
+  (req: Request, res: Response) => {
+    const assessment = getAssessment(req.params.id);
+    if (!assessment) {
+      return res.status(404).json({ error: 'Analyse nicht gefunden.' });
+    }
+    const followUps = assessment.followUps || [];
+    const answer = followUps.find((entry) => entry.id === req.params.messageId);
+    if (!answer || !answer.revisedResult) {
+      return res.status(404).json({ error: 'Keine überarbeitete DSFA zu dieser Antwort gefunden.' });
+    }
+    if (answer.appliedVersion) {
+      return res.status(409).json({ error: `Die Überarbeitung wurde bereits als Version ${answer.appliedVersion} übernommen.` });
+    }
+    if (assessment.status === 'in_review') {
+      return res.status(409).json({ error: 'Die Analyse ist in Prüfung. Neue Versionen sind erst nach dem Entscheid möglich.' });
+    }
+    const base = getVersion(assessment, answer.version);
+    if (!base) {
+      return res.status(400).json({ error: 'Ungültige Versionsangabe.' });
+    }
+
+    // The question becomes part of the input, so re-running the version reproduces the change
+    const question = followUps.find((entry) => entry.id === answer.replyTo)?.content || '';
+    const stored = addAssessmentVersion(assessment.id, {
+      inputText: withFollowUpChange(base.inputText, question),
+      model: answer.model || base.model,
+      promptVersion: PROMPT_VERSION,
+      outputMode: 'text',
+      retrievalMode: base.retrievalMode || RETRIEVAL_MODE,
+      result: answer.revisedResult,
+      changeNote: `Überarbeitung aus Rückfrage zu Version ${base.version}`,
+      createdBy: toUserRef(getCurrentUser(res)),
+    });
+    if (!stored) {
+      return res.status(404).json({ error: 'Analyse nicht gefunden.' });
+    }
+    const newVersion = getLatestVersion(stored).version;
+    const updated = markFollowUpApplied(assessment.id, answer.id, newVersion);
+    auditRequest(req, res, {
+      action: 'assessment.revise',
+      target: assessment.id,
+      details: {
+        fromVersion: base.version,
+        version: newVersion,
+        messageId: answer.id,
+        riskLevel: answer.revisedResult.riskLevel,
+      },
+    });
+    res.status(201).json(updated);
+  }
+);
+
+// API endpoint to move an assessment through the review workflow
+// (submit for review, approve or reject as DPO, reopen for revision)
+app.post('/api/assessments/:id/status', (req: Request, res: Response) => {
+  const assessment = getAssessment(req.params.id);
+  if (!assessment) {
+    return res.status(404).json({ error: 'Analyse nicht gefunden.' });
+  }
+  const { status, note } = req.body || {};
+  if (!isAssessmentStatus(status)) {
+    return res.status(400).json({ error: 'Ungültiger Status.' });
+  }
+
+  const user = getCurrentUser(res);
+  const permission = getTransitionPermission(assessment.status, status);
+  if (permission && !hasPermission(user.roles, permission)) {
+    return res.status(403).json({
+      error: `Keine Berechtigung für den Statuswechsel zu «${STATUS_LABELS[status]}».`
+    });
+  }
+
+  const latest = getLatestVersion(assessment);
+  const trimmedNote = typeof note === 'string' && note.trim() ? note.trim() : undefined;
+  const transitionError = validateTransition({
+    from: assessment.status,
+    to: status,
+    riskLevel: latest.result.riskLevel,
+    needsMoreInfo: Boolean(latest.result.needsMoreInfo),
+    note: trimmedNote,
+    actorId: user.id,
+    authorIds: getReviewAuthors(assessment),
+  });
+  if (transitionError) {
+    return res.status(400).json({ error: transitionError });
+  }
+
+  const updated = changeAssessmentStatus(assessment.id, status, toUserRef(user), trimmedNote);
+  auditRequest(req, res, {
+    action: 'assessment.status',
+    target: assessment.id,
+    details: {
+      from: assessment.status,
+      to: status,
+      version: latest.version,
+      riskLevel: latest.result.riskLevel,
+      note: trimmedNote,
+    },
+  });
+  res.json(updated);
+});
+
+const parseQueryNumber = (value: unknown): number | undefined =>
+  typeof value === 'string' && value.trim() ? parseInt(value, 10) || undefined : undefined;
+
+const parseQueryString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value.trim() : undefined;
+
+// API endpoint to query the audit log (admin), e.g. /api/audit?action=assessment.&target=<id>
+app.get('/api/audit', requirePermission('audit:view'), (req: Request, res: Response) => {
+  res.json(
+    queryAuditLog({
+      action: parseQueryString(req.query.action),
+      actorId: parseQueryString(req.query.actor),
+      target: parseQueryString(req.query.target),
+      from: parseQueryString(req.query.from),
+      to: parseQueryString(req.query.to),
+      limit: parseQueryNumber(req.query.limit),
+      offset: parseQueryNumber(req.query.offset),
+    })
+  );
+});
+
+// API endpoint to check the hash chain of the audit log (admin)
+app.get('/api/audit/verify', requirePermission('audit:view'), (req: Request, res: Response) => {
+  res.json(verifyAuditLog());
+});
+
+// API endpoint to download the complete audit log as JSON Lines (admin)
+app.get('/api/audit/export', requirePermission('audit:view'), (req: Request, res: Response) => {
+  // The export itself is logged first, so the downloaded file ends with it
+  auditRequest(req, res, { action: 'audit.export' });
+  const date = new Date().toISOString().slice(0, 10);
+  res.setHeader('Content-Type', 'application/x-ndjson; charset=utf-8');
+  res.setHeader('Content-Disposition', `attachment; filename="dsfa-audit-log-${date}.jsonl"`);
+  res.send(readAuditLog());
+});
+
+// API endpoint to assign an owner, due date or status to a measure of an assessment
+app.patch(
+  '/api/assessments/:id/measures/:measureId',
+  requirePermission('measures:edit'),
+  (req: Request, res: Response) => {
+    const assessment = getAssessment(req.params.id);
+    if (!assessment) {
+      return res.status(404).json({ error: 'Analyse nicht gefunden.' });
+    }
+    const measure = assessment.measures.find((item) => item.id === req.params.measureId);
+    if (!measure) {
+      return res.status(404).json({ error: 'Massnahme nicht gefunden.' });
+    }
+    const { owner, dueDate, status } = req.body || {};
+    if (owner !== undefined && (typeof owner !== 'string' || owner.length > 100)) {
+      return res.status(400).json({ error: 'Ungültige verantwortliche Person (höchstens 100 Zeichen).' });
+    }
+    if (dueDate !== undefined && (typeof dueDate !== 'string' || (dueDate !== '' && !isDueDate(dueDate)))) {
+      return res.status(400).json({ error: 'Ungültiges Fälligkeitsdatum (Format JJJJ-MM-TT).' });
+    }
+    if (status !== undefined && !isMeasureStatus(status)) {
+      return res.status(400).json({ error: 'Ungültiger Umsetzungsstatus.' });
+    }
+
+    const changes = {
+      owner: typeof owner === 'string' ? owner.trim() : undefined,
+      dueDate,
+      status,
+    };
+    const updated = updateMeasure(assessment.id, measure.id, changes, toUserRef(getCurrentUser(res)));
+    auditRequest(req, res, {
+      action: 'measure.update',
+      target: assessment.id,
+      details: {
+        measureId: measure.id,
+        owner: changes.owner !== undefined ? { from: measure.owner, to: changes.owner || undefined } : undefined,
+        dueDate: dueDate !== undefined ? { from: measure.dueDate, to: dueDate || undefined } : undefined,
+        status: status !== undefined ? { from: measure.status, to: status } : undefined,
+      },
     });
+    res.json(updated);
+  }
+);
+
+// Filters of the measures overview: status ("all" or a comma-separated list, default
+// open and in progress), owner (substring), overdue=true and assessment id
+const filterMeasures = (query: Request['query']): MeasureOverviewItem[] => {
+  const statusFilter = parseQueryString(query.status);
+  const statuses = statusFilter === 'all'
+    ? null
+    : statusFilter
+      ? statusFilter.split(',').filter(isMeasureStatus)
+      : PENDING_MEASURE_STATUSES;
+  const owner = parseQueryString(query.owner)?.toLowerCase();
+  const assessmentId = parseQueryString(query.assessment);
+  const overdueOnly = query.overdue === 'true';
+
+  return listMeasures().filter((measure) =>
+    (!statuses || statuses.includes(measure.status)) &&
+    (!owner || (measure.owner || '').toLowerCase().includes(owner)) &&
+    (!assessmentId || measure.assessmentId === assessmentId) &&
+    (!overdueOnly || isOverdue(measure))
+  );
+};
+
+// API endpoint for the overview of measures across all assessments
+app.get('/api/measures', requirePermission('assessment:view'), (req: Request, res: Response) => {
+  const measures = filterMeasures(req.query).map((measure) => ({ ...measure, overdue: isOverdue(measure) }));
+  res.json({ measures, total: measures.length });
+});
+
+// API endpoint to download the (filtered) measures overview as CSV
+app.get('/api/measures/export', requirePermission('assessment:view'), (req: Request, res: Response) => {
+  const rows = filterMeasures(req.query).map((measure) => [
+    measure.assessmentTitle,
+    STATUS_LABELS[measure.assessmentStatus],
+    `V${measure.version}`,
+    MEASURE_CATEGORY_LABELS[measure.category],
+    measure.description,
+    measure.legalBasis.join(', '),
+    measure.riskIds.join(', '),
+    measure.owner || '',
+    measure.dueDate || '',
+    MEASURE_STATUS_LABELS[measure.status],
+    isOverdue(measure) ? 'ja' : 'nein',
+  ]);
+  const csv = toCsv(
+    ['Analyse', 'Analysestatus', 'Version', 'Kategorie', 'Massnahme', 'Rechtsgrundlage', 'Risiken', 'Verantwortlich', 'Fällig am', 'Status', 'Überfällig'],
+    rows
+  );
+  const date = new Date().toISOString().slice(0, 10);
+  res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+  res.setHeader('Content-Disposition', `attachment; filename="dsfa-massnahmen-${date}.csv"`);
+  res.send(csv);
+});
+
+// API endpoint to edit the register entry of an assessment; null resets a field to the generated text
+app.patch('/api/assessments/:id/record', requirePermission('register:edit'), (req: Request, res: Response) => {
+  const assessment = getAssessment(req.params.id);
+  if (!assessment) {
+    return res.status(404).json({ error: 'Analyse nicht gefunden.' });
+  }
+  const record = assessment.processingRecord;
+  if (!record) {
+    return res.status(409).json({ error: 'Der Eintrag entsteht erst mit einer vollständigen DSFA.' });
+  }
+  const fields = req.body?.fields;
+  if (!fields || typeof fields !== 'object' || Array.isArray(fields)) {
+    return res.status(400).json({ error: 'Bitte die zu ändernden Felder angeben.' });
+  }
+  const changes: RecordChanges = {};
+  for (const [field, value] of Object.entries(fields)) {
+    if (!isRecordField(field)) {
+      return res.status(400).json({ error: `Unbekanntes Feld: ${field}.` });
+    }
+    if (value !== null && (typeof value !== 'string' || value.length > MAX_RECORD_FIELD_LENGTH)) {
+      return res.status(400).json({ error: `${RECORD_FIELD_LABELS[field]}: höchstens ${MAX_RECORD_FIELD_LENGTH} Zeichen.` });
+    }
+    changes[field] = value;
+  }
+
+  const updated = updateProcessingRecord(assessment.id, changes, toUserRef(getCurrentUser(res)));
+  auditRequest(req, res, {
+    action: 'record.update',
+    target: assessment.id,
+    details: {
+      version: record.version,
+      changed: Object.keys(changes).filter((field) => changes[field as keyof RecordChanges] !== null),
+      reset: Object.keys(changes).filter((field) => changes[field as keyof RecordChanges] === null),
+    },
+  });
+  res.json(updated?.processingRecord);
+});
+
+// The notice is generated from the register entry, which only exists for complete DSFAs
+const getPrivacyNotice = (assessment: StoredAssessment) =>
+  assessment.processingRecord
+    ? buildPrivacyNotice(assessment.title, assessment.processingRecord, assessment.privacyNotice)
+    : undefined;
+
+const NO_NOTICE_ERROR = 'Die Datenschutzerklärung entsteht erst mit einer vollständigen DSFA.';
+
+// API endpoint for the draft Datenschutzerklärung (Art. 19 DSG) of an assessment
+app.get('/api/assessments/:id/notice', requirePermission('assessment:view'), (req: Request, res: Response) => {
+  const assessment = getAssessment(req.params.id);
+  if (!assessment) {
+    return res.status(404).json({ error: 'Analyse nicht gefunden.' });
+  }
+  const notice = getPrivacyNotice(assessment);
+  if (!notice) {
+    return res.status(409).json({ error: NO_NOTICE_ERROR });
+  }
+  res.json(notice);
+});
+
+// API endpoint to edit sections of the Datenschutzerklärung; null resets a section to the generated text
+app.patch('/api/assessments/:id/notice', requirePermission('notice:edit'), (req: Request, res: Response) => {
+  const assessment = getAssessment(req.params.id);
+  if (!assessment) {
+    return res.status(404).json({ error: 'Analyse nicht gefunden.' });
+  }
+  if (!assessment.processingRecord) {
+    return res.status(409).json({ error: NO_NOTICE_ERROR });
+  }
+  const sections = req.body?.sections;
+  if (!sections || typeof sections !== 'object' || Array.isArray(sections)) {
+    return res.status(400).json({ error: 'Bitte die zu ändernden Abschnitte angeben.' });
+  }
+  const changes: NoticeChanges = {};
+  for (const [section, value] of Object.entries(sections)) {
+    if (!isNoticeSection(section)) {
+      return res.status(400).json({ error: `Unbekannter Abschnitt: ${section}.` });
+    }
+    if (value !== null && (typeof value !== 'string' || value.length > MAX_NOTICE_SECTION_LENGTH)) {
+      return res.status(400).json({ error: `${NOTICE_SECTION_TITLES[section]}: höchstens ${MAX_NOTICE_SECTION_LENGTH} Zeichen.` });
+    }
+    changes[section] = value;
+  }
+
+  const updated = updatePrivacyNotice(assessment.id, changes, toUserRef(getCurrentUser(res)));
+  auditRequest(req, res, {
+    action: 'notice.update',
+    target: assessment.id,
+    details: {
+      changed: Object.keys(changes).filter((section) => changes[section as keyof NoticeChanges] !== null),
+      reset: Object.keys(changes).filter((section) => changes[section as keyof NoticeChanges] === null),
+    },
+  });
+  res.json(updated && getPrivacyNotice(updated));
+});
+
+// API endpoint to download the Datenschutzerklärung as HTML (default) or Markdown
+app.get('/api/assessments/:id/notice/export', requirePermission('assessment:view'), (req: Request, res: Response) => {
+  const assessment = getAssessment(req.params.id);
+  if (!assessment) {
+    return res.status(404).json({ error: 'Analyse nicht gefunden.' });
+  }
+  const notice = getPrivacyNotice(assessment);
+  if (!notice) {
+    return res.status(409).json({ error: NO_NOTICE_ERROR });
+  }
+  const filename = `datenschutzerklaerung-${assessment.id.slice(0, 8)}`;
+  if (req.query.format === 'md') {
+    res.setHeader('Content-Type', 'text/markdown; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}.md"`);
+    return res.send(toNoticeMarkdown(notice));
+  }
+  res.setHeader('Content-Type', 'text/html; charset=utf-8');
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}.html"`);
+  res.send(toNoticeHtml(notice));
+});
+
+const withMissingFields = (entry: RegisterEntry) => ({ ...entry, missingFields: getMissingFields(entry) });
+
+// API endpoint for the Verzeichnis der Bearbeitungstätigkeiten (one entry per complete assessment)
+app.get('/api/register', requirePermission('assessment:view'), (req: Request, res: Response) => {
+  const entries = listProcessingRecords().map(withMissingFields);
+  res.json({ entries, total: entries.length });
+});
+
+// API endpoint to download the register as CSV (default) or XLSX
+app.get('/api/register/export', requirePermission('assessment:view'), (req: Request, res: Response) => {
+  const format = req.query.format === 'xlsx' ? 'xlsx' : 'csv';
+  const rows = listProcessingRecords().map(toRegisterRow);
+  const date = new Date().toISOString().slice(0, 10);
+  if (format === 'xlsx') {
+    res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+    res.setHeader('Content-Disposition', `attachment; filename="verzeichnis-bearbeitungstaetigkeiten-${date}.xlsx"`);
+    return res.send(toXlsx('Bearbeitungstätigkeiten', REGISTER_EXPORT_HEADER, rows));
+  }
+  res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+  res.setHeader('Content-Disposition', `attachment; filename="verzeichnis-bearbeitungstaetigkeiten-${date}.csv"`);
+  res.send(toCsv(REGISTER_EXPORT_HEADER, rows));
+});
+
+// API endpoint to list the processors of the vendor registry with their Art. 9 gaps
+app.get('/api/vendors', requirePermission('assessment:view'), (req: Request, res: Response) => {
+  res.json({ vendors: listVendors().map((vendor) => ({ ...vendor, gaps: toVendorCheck(vendor).gaps })) });
+});
+
+// API endpoint to add a processor to the vendor registry
+app.post('/api/vendors', requirePermission('vendors:manage'), (req: Request, res: Response) => {
+  const parsed = parseVendorProfile(req.body);
+  if ('error' in parsed) {
+    return res.status(400).json({ error: parsed.error });
+  }
+  const vendor = createVendor(parsed.data, toUserRef(getCurrentUser(res)));
+  auditRequest(req, res, {
+    action: 'vendor.create',
+    target: vendor.id,
+    details: { name: vendor.name },
+  });
+  res.status(201).json({ ...vendor, gaps: toVendorCheck(vendor).gaps });
+});
+
+// API endpoint to change a processor; assessments keep the data of their analysis
+app.patch('/api/vendors/:id', requirePermission('vendors:manage'), (req: Request, res: Response) => {
+  const vendor = getVendor(req.params.id);
+  if (!vendor) {
+    return res.status(404).json({ error: 'Auftragsbearbeiter nicht gefunden.' });
+  }
+  const parsed = parseVendorProfile(req.body, vendor);
+  if ('error' in parsed) {
+    return res.status(400).json({ error: parsed.error });
+  }
+  const updated = updateVendor(vendor.id, parsed.data, toUserRef(getCurrentUser(res)))!;
+  auditRequest(req, res, {
+    action: 'vendor.update',
+    target: vendor.id,
+    details: { name: updated.name, fields: Object.keys(req.body || {}) },
+  });
+  res.json({ ...updated, gaps: toVendorCheck(updated).gaps });
+});
+
+// API endpoint to remove a processor from the registry
+app.delete('/api/vendors/:id', requirePermission('vendors:manage'), (req: Request, res: Response) => {
+  const vendor = getVendor(req.params.id);
+  if (!vendor || !deleteVendor(vendor.id)) {
+    return res.status(404).json({ error: 'Auftragsbearbeiter nicht gefunden.' });
+  }
+  auditRequest(req, res, {
+    action: 'vendor.delete',
+    target: vendor.id,
+    details: { name: vendor.name },
+  });
+  res.json({ success: true });
+});
+
+// API endpoint to list the loaded law corpora
+app.get('/api/law', (req: Request, res: Response) => {
+  res.json({ laws: listLaws() });
+});
+
+// API endpoint to list (and search) the articles of a law, e.g. /api/law/dsg/articles?q=Profiling
+app.get('/api/law/:law/articles', (req: Request, res: Response) => {
+  const law = getLaw(req.params.law);
+  if (!law) {
+    return res.status(404).json({ error: 'Gesetz nicht gefunden.' });
+  }
+  const query = typeof req.query.q === 'string' ? req.query.q : undefined;
+  res.json({ law: law.abbreviation, title: law.title, articles: searchArticles(law, query) });
+});
+
+// API endpoint to get a single article with its numbered paragraphs
+app.get('/api/law/:law/articles/:number', (req: Request, res: Response) => {
+  const law = getLaw(req.params.law);
+  if (!law) {
+    return res.status(404).json({ error: 'Gesetz nicht gefunden.' });
+  }
+  const article = findArticle(law, req.params.number);
+  if (!article) {
+    return res.status(404).json({ error: `Art. ${req.params.number} ${law.abbreviation} nicht gefunden.` });
   }
+  res.json(toLawArticleDetail(law, article));
 });
 
 // Serve React app for all other routes (production only)
@@ -784,14 +1515,14 @@ if (process.env.NODE_ENV !== 'production' || process.env.VERCEL !== '1') {
 app.listen(PORT, () => {
   console.log(`Server running on port ${PORT}`);
     
-    if (OPENROUTER_API_KEY) {
-      console.log(`OpenRouter configured: ${OPENROUTER_BASE_URL}`);
-      console.log(`OpenRouter available models: ${OPENROUTER_MODELS.join(', ')}`);
-      console.log(`OpenRouter default model: ${OPENROUTER_MODEL}`);
-      console.log(`OpenRouter app URL: ${OPENROUTER_APP_URL}`);
-      console.log('OpenRouter is ready for use.');
+    const configurationError = llmProvider.configurationError();
+    if (!configurationError) {
+      console.log(`LLM provider: ${llmProvider.name}`);
+      console.log(`${llmProvider.name} available models: ${llmProvider.models.join(', ')}`);
+      console.log(`${llmProvider.name} default model: ${llmProvider.defaultModel}`);
+      console.log(`${llmProvider.name} is ready for use.`);
     } else {
-      console.warn('⚠️  WARNING: OPENROUTER_API_KEY not set. API calls will fail.');
+      console.warn(`⚠️  WARNING: ${configurationError} API calls will fail.`);
     }
   });
 }
@@ -0,0 +1,80 @@
+import { LawArticle } from './types';
+import { LawCorpus, getCorpora, getCorpus, getArticleNumber } from './corpus';
+
+// --- Law article lookup ---
+// Backs the article browser and citation drawer in the client with the parsed
+// law text, so reviewers do not have to open fedlex for every citation.
+
+export type LawSummary = {
+  id: string;
+  abbreviation: string;
+  title: string;
+  srNumber: string;
+  excerpt: boolean;
+  articleCount: number;
+};
+
+export type LawArticleSummary = {
+  number: string;
+  id: string;
+  heading: string;
+  paragraphCount: number;
+  // Excerpt around the first match when searching
+  snippet?: string;
+};
+
+export type LawArticleDetail = LawArticle & {
+  number: string;
+  url: string;
+};
+
+const SNIPPET_RADIUS = 80;
+
+export const listLaws = (): LawSummary[] =>
+  getCorpora().map((corpus) => ({
+    id: corpus.id,
+    abbreviation: corpus.abbreviation,
+    title: corpus.title,
+    srNumber: corpus.srNumber,
+    excerpt: corpus.excerpt,
+    articleCount: corpus.articles.length,
+  }));
+
+export const getLaw = (law: string): LawCorpus | undefined => getCorpus(law);
+
+export const toLawArticleDetail = (law: LawCorpus, article: LawArticle): LawArticleDetail => {
+  const number = getArticleNumber(article);
+  return {
+    ...article,
+    paragraphs: article.paragraphs || [],
+    number,
+    url: law.url ? `${law.url}#art_${number}` : '',
+  };
+};
+
+const createSnippet = (text: string, index: number, length: number): string => {
+  const start = Math.max(0, index - SNIPPET_RADIUS);
+  const end = Math.min(text.length, index + length + SNIPPET_RADIUS);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).trim()}${end < text.length ? '…' : ''}`;
+};
+
+// Case-insensitive search over article number, heading and text
+export const searchArticles = (law: LawCorpus, query?: string): LawArticleSummary[] => {
+  const needle = (query || '').trim().toLowerCase();
+
+  return law.articles.flatMap((article) => {
+    const summary: LawArticleSummary = {
+      number: getArticleNumber(article),
+      id: article.id,
+      heading: article.heading,
+      paragraphCount: (article.paragraphs || []).length,
+    };
+    if (!needle) return [summary];
+
+    if (article.id.toLowerCase() === `art. ${needle}` || article.heading.toLowerCase().includes(needle)) {
+      return [summary];
+    }
+    const index = article.text.toLowerCase().indexOf(needle);
+    return index === -1 ? [] : [{ ...summary, snippet: createSnippet(article.text, index, needle.length) }];
+  });
+};
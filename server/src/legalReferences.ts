@@ -0,0 +1,169 @@
+import { LegalReference } from './types';
+import { getCorpus, findArticle } from './corpus';
+
+// Helper function to generate fedlex URL with article anchor
+// Using the systematic collection format that works with the fedlex web interface
+export const getFedlexUrl = (srNumber: string, article?: string): string => {
+  // Use the systematic collection search/browse URL format
+  // This format works better with the fedlex JavaScript-based interface
+  const baseUrl = `https://www.fedlex.admin.ch/de/filestore/fedlex.data.admin.ch/eli/cc/${srNumber}/latest/de`;
+  return article ? `${baseUrl}#art_${article}` : baseUrl;
+};
+
+// Mapping of Swiss legal texts to their official URLs
+// Using the fedlex systematic collection format that works with the web interface
+// Note: These URLs require JavaScript to be enabled in the browser
+export const SWISS_LAW_URLS: Record<string, string> = {
+  // Federal Constitution (BV, SR 101)
+  'BV': 'https://www.fedlex.admin.ch/eli/cc/1999/404/de',
+  'Bundesverfassung': 'https://www.fedlex.admin.ch/eli/cc/1999/404/de',
+  'SR 101': 'https://www.fedlex.admin.ch/eli/cc/1999/404/de',
+  
+  // Civil Code (ZGB, SR 210)
+  'ZGB': 'https://www.fedlex.admin.ch/eli/cc/24/233_245_233/de',
+  'Zivilgesetzbuch': 'https://www.fedlex.admin.ch/eli/cc/24/233_245_233/de',
+  'SR 210': 'https://www.fedlex.admin.ch/eli/cc/24/233_245_233/de',
+  
+  // Code of Obligations (OR, SR 220)
+  'OR': 'https://www.fedlex.admin.ch/eli/cc/27/317_321_377/de',
+  'Obligationenrecht': 'https://www.fedlex.admin.ch/eli/cc/27/317_321_377/de',
+  'SR 220': 'https://www.fedlex.admin.ch/eli/cc/27/317_321_377/de',
+  
+  // Data Protection Act (DSG, SR 235.1)
+  // Using search URL format that will find the law in the systematic collection
+  // The direct URL format may not work due to JavaScript requirements
+  'DSG': 'https://www.fedlex.admin.ch/eli/cc/2022/491/de',
+  'Datenschutzgesetz': 'https://www.fedlex.admin.ch/eli/cc/2022/491/de',
+  'DSG 2023': 'https://www.fedlex.admin.ch/eli/cc/2022/491/de',
+  'SR 235.1': 'https://www.fedlex.admin.ch/eli/cc/2022/491/de',
+  
+  // Data Protection Ordinance (DSV, SR 235.11)
+  'DSV': 'https://www.fedlex.admin.ch/eli/cc/2022/568/de',
+  'Datenschutzverordnung': 'https://www.fedlex.admin.ch/eli/cc/2022/568/de',
+  'SR 235.11': 'https://www.fedlex.admin.ch/eli/cc/2022/568/de',
+  
+  // Penal Code (StGB, SR 311.0)
+  'StGB': 'https://www.fedlex.admin.ch/eli/cc/54/757_781_799/de',
+  'Strafgesetzbuch': 'https://www.fedlex.admin.ch/eli/cc/54/757_781_799/de',
+  'SR 311.0': 'https://www.fedlex.admin.ch/eli/cc/54/757_781_799/de',
+};
+
+// Article, optional paragraph and letter (lit. or Bst.), then the law; the word
+// boundary keeps e.g. "Art. 6 ordnet" from being read as a citation of the OR
+const citationPattern = (laws: string): RegExp =>
+  new RegExp(String.raw`Art\.\s*(\d+[a-z]?)\s*(?:Abs\.\s*(\d+(?:bis|ter)?)\s*)?(?:(?:lit\.|Bst\.)\s*([a-z])\s*)?(${laws})\b`, 'gi');
+
+// Extract legal references from text
+export const extractLegalReferences = (text: string): LegalReference[] => {
+  const references: LegalReference[] = [];
+  
+  // Pattern to match common Swiss law citations
+  // Examples: "Art. 5 DSG", "Art. 12 Abs. 1 ZGB", "Art. 28 OR", "Art. 13 BV", "Art. 16 Abs. 2 lit. d DSG"
+  const patterns = [
+    // Art. X DSG / Art. X Datenschutzgesetz
+    citationPattern('DSG|Datenschutzgesetz'),
+    // Art. X DSV / Art. X Datenschutzverordnung
+    citationPattern('DSV|Datenschutzverordnung'),
+    // Art. X ZGB / Art. X Zivilgesetzbuch
+    citationPattern('ZGB|Zivilgesetzbuch'),
+    // Art. X OR / Art. X Obligationenrecht
+    citationPattern('OR|Obligationenrecht'),
+    // Art. X BV / Art. X Bundesverfassung
+    citationPattern('BV|Bundesverfassung'),
+    // Art. X StGB / Art. X Strafgesetzbuch
+    citationPattern('StGB|Strafgesetzbuch'),
+  ];
+  
+  patterns.forEach(pattern => {
+    let match;
+    while ((match = pattern.exec(text)) !== null) {
+      const article = match[1];
+      const paragraph = match[2];
+      const letter = match[3]?.toLowerCase();
+      const lawAbbr = match[4];
+      
+      // Find the base URL for this law
+      const baseUrl = SWISS_LAW_URLS[lawAbbr] || SWISS_LAW_URLS[lawAbbr.toUpperCase()];
+      
+      if (baseUrl) {
+        // Add article anchor to URL if article number is present
+        const url = article ? `${baseUrl}#art_${article}` : baseUrl;
+        const fullText = match[0];
+        references.push({
+          law: lawAbbr,
+          article,
+          paragraph,
+          letter,
+          text: fullText,
+          url: url,
+        });
+      }
+    }
+  });
+  
+  // Remove duplicates
+  const uniqueRefs = references.filter((ref, index, self) =>
+    index === self.findIndex((r) => r.text === ref.text)
+  );
+  
+  return uniqueRefs.map(verifyLegalReference);
+};
+
+// --- Citation verification ---
+// Models sometimes cite articles or paragraphs that do not exist. Every citation
+// of a loaded law (see corpus.ts) is checked against its text and enriched with
+// the cited wording so reviewers can spot hallucinated references.
+
+// Letters are enumerated in the text as "a. ...; b. ..."
+const verifyLetter = (ref: LegalReference, law: string): LegalReference => {
+  if (!ref.letter || new RegExp(`(?:^|[\\s:;,])${ref.letter}\\.\\s`).test(ref.sourceText || '')) {
+    return ref;
+  }
+  const cited = ref.paragraph ? `Art. ${ref.article} Abs. ${ref.paragraph}` : `Art. ${ref.article}`;
+  return { ...ref, status: 'invalid', statusNote: `${cited} ${law} hat keinen Bst. ${ref.letter}.` };
+};
+
+export const verifyLegalReference = (ref: LegalReference): LegalReference => {
+  const corpus = getCorpus(ref.law);
+  if (!corpus || !ref.article) {
+    return {
+      ...ref,
+      status: 'unverifiable',
+      statusNote: `Der Gesetzestext (${ref.law}) ist nicht hinterlegt, das Zitat konnte nicht geprüft werden.`,
+    };
+  }
+
+  const law = corpus.abbreviation;
+  const article = findArticle(corpus, ref.article);
+  if (!article) {
+    // A missing article only proves a wrong citation if the full law is loaded
+    return corpus.excerpt
+      ? {
+          ...ref,
+          lawId: corpus.id,
+          status: 'unverifiable',
+          statusNote: `Art. ${ref.article} ${law} ist im hinterlegten Auszug nicht enthalten, das Zitat konnte nicht geprüft werden.`,
+        }
+      : { ...ref, lawId: corpus.id, status: 'invalid', statusNote: `Art. ${ref.article} existiert im ${law} nicht.` };
+  }
+
+  const verified = { ...ref, lawId: corpus.id, heading: article.heading };
+  const paragraphs = article.paragraphs || [];
+  if (!ref.paragraph) {
+    return verifyLetter({ ...verified, status: 'verified', sourceText: article.text }, law);
+  }
+
+  const paragraph = paragraphs.find((p) => p.number === ref.paragraph);
+  if (!paragraph) {
+    const numbered = paragraphs.filter((p) => p.number);
+    return {
+      ...verified,
+      status: 'invalid',
+      statusNote: numbered.length > 0
+        ? `Art. ${ref.article} ${law} hat keinen Abs. ${ref.paragraph} (vorhanden: Abs. ${numbered.map((p) => p.number).join(', ')}).`
+        : `Art. ${ref.article} ${law} ist nicht in Absätze gegliedert.`,
+    };
+  }
+
+  return verifyLetter({ ...verified, status: 'verified', sourceText: paragraph.text }, law);
+};
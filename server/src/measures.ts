@@ -0,0 +1,166 @@
+import crypto from 'crypto';
+import { AnalysisResult, RiskEntry } from './types';
+import { extractLegalReferences } from './legalReferences';
+import type { UserRef } from './assessments';
+
+// --- Measures tracker ---
+// The MASSNAHMEN section lists legal, organisational and technical measures as
+// free text. Each measure is extracted into an item that can be given an owner,
+// a due date and an implementation status. The id is derived from the wording,
+// so when a new version repeats a measure, its tracking data is kept; measures
+// that no longer appear in the latest version are dropped.
+
+export type MeasureCategory = 'rechtlich' | 'organisatorisch' | 'technisch' | 'weitere';
+
+export type MeasureStatus = 'open' | 'in_progress' | 'done' | 'not_applicable';
+
+export const MEASURE_CATEGORY_LABELS: Record<MeasureCategory, string> = {
+  rechtlich: 'Rechtlich',
+  organisatorisch: 'Organisatorisch',
+  technisch: 'Technisch',
+  weitere: 'Weitere',
+};
+
+export const MEASURE_STATUS_LABELS: Record<MeasureStatus, string> = {
+  open: 'Offen',
+  in_progress: 'In Umsetzung',
+  done: 'Umgesetzt',
+  not_applicable: 'Nicht anwendbar',
+};
+
+// Measures that still need work; shown in the overview by default
+export const PENDING_MEASURE_STATUSES: MeasureStatus[] = ['open', 'in_progress'];
+
+export type TrackedMeasure = {
+  id: string;
+  // Latest version the measure appears in
+  version: number;
+  category: MeasureCategory;
+  description: string;
+  // Citations in the measure, e.g. "Art. 8 DSG"
+  legalBasis: string[];
+  // Risks of the register the measure reduces
+  riskIds: string[];
+  owner?: string;
+  // YYYY-MM-DD
+  dueDate?: string;
+  status: MeasureStatus;
+  updatedBy?: UserRef;
+  updatedAt?: string;
+};
+
+export const isMeasureStatus = (value: unknown): value is MeasureStatus =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(MEASURE_STATUS_LABELS, value);
+
+export const isDueDate = (value: string): boolean =>
+  /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(new Date(value).getTime());
+
+// Done and not applicable measures are never overdue
+export const isOverdue = (measure: TrackedMeasure, today = new Date().toISOString().slice(0, 10)): boolean =>
+  Boolean(measure.dueDate) && PENDING_MEASURE_STATUSES.includes(measure.status) && measure.dueDate! < today;
+
+const normalize = (text: string): string =>
+  text.toLowerCase().replace(/[^a-zäöüß0-9]+/g, ' ').trim();
+
+const measureId = (description: string): string =>
+  crypto.createHash('sha256').update(normalize(description)).digest('hex').slice(0, 16);
+
+// Headings such as "(1) Rechtliche Massnahmen:" set the category of the following items
+const CATEGORY_HEADINGS: Array<{ category: MeasureCategory; pattern: RegExp }> = [
+  { category: 'rechtlich', pattern: /rechtlich/i },
+  { category: 'organisatorisch', pattern: /organisatorisch/i },
+  { category: 'technisch', pattern: /technisch/i },
+];
+
+// Without headings the category is guessed from the wording
+const CATEGORY_KEYWORDS: Array<{ category: MeasureCategory; keywords: string[] }> = [
+  { category: 'rechtlich', keywords: ['vertrag', 'klausel', 'datenschutzerklärung', 'einwilligung', 'auftragsbearbeitungs', 'informationspflicht', 'rechtsgrundlage'] },
+  { category: 'technisch', keywords: ['verschlüssel', 'pseudonym', 'anonym', 'protokollier', 'backup', 'firewall', 'authentifizier', 'löschroutine', 'zugriffs'] },
+  { category: 'organisatorisch', keywords: ['schulung', 'konzept', 'prozess', 'richtlinie', 'weisung', 'verantwortlich', 'berater', 'überprüf', 'abmeldemöglichkeit'] },
+];
+
+const HEADING_PATTERN = /^(?:\(\d+\)|\d+[.)]|\(?[a-c][.)])?\s*(rechtliche|organisatorische|technische)[^:]{0,40}:?$/i;
+const ITEM_PATTERN = /^(?:[-•*]|\(?[a-z\d]{1,2}[.)])\s+/i;
+
+const guessCategory = (description: string): MeasureCategory => {
+  const text = description.toLowerCase();
+  return CATEGORY_KEYWORDS.find(({ keywords }) => keywords.some((keyword) => text.includes(keyword)))?.category || 'weitere';
+};
+
+// A register measure matches when most of its significant words occur in the measure
+const matchesRiskMeasure = (description: string, riskMeasure: string): boolean => {
+  const text = normalize(description);
+  const words = normalize(riskMeasure).split(' ').filter((word) => word.length >= 5);
+  if (words.length === 0) return false;
+  return words.filter((word) => text.includes(word)).length / words.length >= 0.5;
+};
+
+const findRiskIds = (description: string, risks: RiskEntry[] = []): string[] =>
+  risks
+    .filter((risk) => risk.measures.some((measure) => matchesRiskMeasure(description, measure)))
+    .map((risk) => risk.id);
+
+type ExtractedMeasure = Omit<TrackedMeasure, 'status' | 'owner' | 'dueDate' | 'updatedBy' | 'updatedAt'>;
+
+export const extractMeasures = (result: AnalysisResult, version: number): ExtractedMeasure[] => {
+  if (result.needsMoreInfo || !result.massnahmen) return [];
+
+  const items: Array<{ category: MeasureCategory | null; description: string }> = [];
+  let category: MeasureCategory | null = null;
+
+  result.massnahmen.split('\n').forEach((rawLine) => {
+    const line = rawLine.trim();
+    if (!line) return;
+    if (HEADING_PATTERN.test(line)) {
+      category = CATEGORY_HEADINGS.find(({ pattern }) => pattern.test(line))?.category || null;
+      return;
+    }
+    if (ITEM_PATTERN.test(line)) {
+      items.push({ category, description: line.replace(ITEM_PATTERN, '').trim() });
+    } else if (items.length > 0 && /^\s/.test(rawLine)) {
+      // Indented continuation of the previous measure
+      items[items.length - 1].description += ` ${line}`;
+    } else {
+      items.push({ category, description: line });
+    }
+  });
+
+  // Art. 9 gaps of the attached processors are missing measures as well
+  const vendorItems = (result.vendors || []).flatMap(({ gaps }) =>
+    gaps.map((gap) => ({ category: gap.category, description: gap.measure }))
+  );
+
+  const seen = new Set<string>();
+  return [...items, ...vendorItems]
+    .filter(({ description }) => description.length >= 10 && !description.endsWith(':'))
+    .map(({ category: heading, description }) => ({
+      id: measureId(description),
+      version,
+      category: heading || guessCategory(description),
+      description,
+      legalBasis: extractLegalReferences(description).map((ref) => ref.text),
+      riskIds: findRiskIds(description, result.risks),
+    }))
+    .filter((measure) => {
+      if (seen.has(measure.id)) return false;
+      seen.add(measure.id);
+      return true;
+    });
+};
+
+// Measures of a new version, keeping owner, due date and status of unchanged measures.
+// A version without measures (e.g. missing information) keeps the previous list.
+export const syncMeasures = (
+  previous: TrackedMeasure[] | undefined,
+  result: AnalysisResult,
+  version: number
+): TrackedMeasure[] => {
+  const extracted = extractMeasures(result, version);
+  if (extracted.length === 0) return previous || [];
+  return extracted.map((measure) => {
+    const existing = previous?.find((item) => item.id === measure.id);
+    return existing
+      ? { ...measure, owner: existing.owner, dueDate: existing.dueDate, status: existing.status, updatedBy: existing.updatedBy, updatedAt: existing.updatedAt }
+      : { ...measure, status: 'open' };
+  });
+};
@@ -0,0 +1,88 @@
+// --- Model fallback ---
+// Free and shared models regularly answer with 429/5xx, time out or return an
+// answer the parser cannot evaluate. Each model is retried with exponential
+// backoff before the next configured model is tried.
+
+export type FailedAttempt = {
+  model: string;
+  attempt: number;
+  reason: string;
+};
+
+export type FallbackOptions = {
+  // Retries per model after the first attempt
+  maxRetries: number;
+  // Delay before the first retry, doubled for every further retry
+  retryDelayMs: number;
+  signal?: AbortSignal;
+};
+
+export type FallbackResult<T> = {
+  result: T;
+  model: string;
+  failedAttempts: FailedAttempt[];
+};
+
+const TIMEOUT_ERROR_CODES = ['ECONNABORTED', 'ETIMEDOUT', 'ECONNRESET'];
+
+// Returns why a failed request is worth retrying, or null for errors that would fail again
+export const getRetryReason = (error: any): string | null => {
+  const status = error.response?.status;
+  if (status === 429) return 'Rate-Limit erreicht (429)';
+  if (status >= 500) return `Serverfehler (${status})`;
+  if (TIMEOUT_ERROR_CODES.includes(error.code)) return 'Zeitüberschreitung';
+  return null;
+};
+
+// Requested model first, then the remaining configured models in their configured order
+export const getModelCandidates = (requestedModel: string, configuredModels: string[]): string[] => [
+  requestedModel,
+  ...configuredModels.filter((model) => model !== requestedModel),
+];
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export const runWithModelFallback = async <T>(
+  models: string[],
+  run: (model: string) => Promise<T>,
+  isUsable: (result: T) => boolean,
+  options: FallbackOptions
+): Promise<FallbackResult<T>> => {
+  const failedAttempts: FailedAttempt[] = [];
+  let lastResult: { result: T; model: string } | null = null;
+  let lastError: any = null;
+
+  for (const model of models) {
+    for (let attempt = 1; attempt <= options.maxRetries + 1; attempt++) {
+      if (attempt > 1) {
+        await wait(options.retryDelayMs * 2 ** (attempt - 2));
+      }
+
+      let reason: string;
+      try {
+        const result = await run(model);
+        if (isUsable(result)) {
+          return { result, model, failedAttempts };
+        }
+        lastResult = { result, model };
+        reason = 'Antwort konnte nicht ausgewertet werden';
+      } catch (error: any) {
+        const retryReason = getRetryReason(error);
+        if (!retryReason || options.signal?.aborted) {
+          throw error;
+        }
+        lastError = error;
+        reason = retryReason;
+      }
+
+      console.warn(`Model ${model} failed (attempt ${attempt}): ${reason}`);
+      failedAttempts.push({ model, attempt, reason });
+    }
+  }
+
+  // An unparsed answer is still more useful than an error
+  if (lastResult) {
+    return { ...lastResult, failedAttempts };
+  }
+  throw lastError;
+};
@@ -0,0 +1,163 @@
+import { LegalReference } from './types';
+import { extractLegalReferences } from './legalReferences';
+
+// --- Art. 22 threshold pre-check ---
+// Decides from a few structured answers whether a DSFA is needed at all, before the
+// model is called. Art. 22 Abs. 2 DSG names two cases that always carry a high risk;
+// Art. 22 Abs. 4 and 5 DSG exempt private controllers. Everything else (new
+// technologies, profiling, ...) has to be judged case by case and is reported as
+// unclear, so the analysis still runs.
+
+export type PrecheckAnswer = 'yes' | 'no' | 'unknown';
+
+export type PrecheckQuestionId =
+  | 'sensitiveData'
+  | 'largeScale'
+  | 'publicMonitoring'
+  | 'otherHighRisk'
+  | 'privateController'
+  | 'legalObligation'
+  | 'certified'
+  | 'codeOfConduct';
+
+export type PrecheckAnswers = Record<PrecheckQuestionId, PrecheckAnswer>;
+
+export type PrecheckOutcome = 'required' | 'not_required' | 'unclear';
+
+export const PRECHECK_QUESTIONS: Record<PrecheckQuestionId, string> = {
+  sensitiveData:
+    'Werden besonders schützenswerte Personendaten bearbeitet (z.B. Gesundheit, Religion, biometrische Daten, Strafverfahren)?',
+  largeScale: 'Werden die Daten in grossem Umfang bearbeitet (viele betroffene Personen, grosse Datenmengen)?',
+  publicMonitoring: 'Werden umfangreiche öffentlich zugängliche Bereiche systematisch überwacht (z.B. Videoüberwachung)?',
+  otherHighRisk:
+    'Gibt es weitere Hinweise auf ein hohes Risiko (neue Technologien, Profiling, automatisierte Einzelentscheidungen)?',
+  privateController: 'Ist der Verantwortliche eine private Person oder ein Unternehmen (kein Bundesorgan)?',
+  legalObligation: 'Ist der Verantwortliche gesetzlich zu dieser Bearbeitung verpflichtet?',
+  certified: 'Wird ein für diese Verwendung zertifiziertes System, Produkt oder eine zertifizierte Dienstleistung eingesetzt?',
+  codeOfConduct:
+    'Wird ein Verhaltenskodex eingehalten, der auf einer DSFA beruht, Schutzmassnahmen vorsieht und dem EDÖB vorgelegt wurde?',
+};
+
+export const PRECHECK_OUTCOME_LABELS: Record<PrecheckOutcome, string> = {
+  required: 'DSFA erforderlich',
+  not_required: 'DSFA nicht erforderlich',
+  unclear: 'Unklar',
+};
+
+export type PrecheckResult = {
+  outcome: PrecheckOutcome;
+  label: string;
+  // Reasons in German, each with its citation
+  reasons: string[];
+  legalReferences: LegalReference[];
+  // False only when a DSFA is not required; the analysis can still be started on purpose
+  proceed: boolean;
+};
+
+const PRECHECK_QUESTION_IDS = Object.keys(PRECHECK_QUESTIONS) as PrecheckQuestionId[];
+
+const isPrecheckAnswer = (value: unknown): value is PrecheckAnswer =>
+  value === 'yes' || value === 'no' || value === 'unknown';
+
+// Missing answers count as unknown; null if an answer has an invalid value
+export const parsePrecheckAnswers = (body: unknown): PrecheckAnswers | null => {
+  const input = (body && typeof body === 'object' ? body : {}) as Record<string, unknown>;
+  const answers = {} as PrecheckAnswers;
+  for (const id of PRECHECK_QUESTION_IDS) {
+    const value = input[id] ?? 'unknown';
+    if (!isPrecheckAnswer(value)) return null;
+    answers[id] = value;
+  }
+  return answers;
+};
+
+// Art. 22 Abs. 2 lit. a DSG needs both sensitive data and a large scale
+const evaluateSensitiveData = ({ sensitiveData, largeScale }: PrecheckAnswers): PrecheckAnswer => {
+  if (sensitiveData === 'no' || largeScale === 'no') return 'no';
+  if (sensitiveData === 'yes' && largeScale === 'yes') return 'yes';
+  return 'unknown';
+};
+
+const evaluateExemption = (answers: PrecheckAnswers): { applies: PrecheckAnswer; reason?: string } => {
+  const { privateController, legalObligation, certified, codeOfConduct } = answers;
+  if (privateController === 'no') {
+    return { applies: 'no', reason: 'Die Ausnahmen nach Art. 22 Abs. 4 DSG und Art. 22 Abs. 5 DSG gelten nur für private Verantwortliche.' };
+  }
+  let reason: string | undefined;
+  if (legalObligation === 'yes') {
+    reason = 'Der Verantwortliche ist gesetzlich zur Bearbeitung verpflichtet (Art. 22 Abs. 4 DSG).';
+  } else if (certified === 'yes') {
+    reason = 'Es wird ein zertifiziertes System, Produkt oder eine zertifizierte Dienstleistung eingesetzt (Art. 22 Abs. 5 DSG, Art. 13 DSG).';
+  } else if (codeOfConduct === 'yes') {
+    reason = 'Es wird ein Verhaltenskodex eingehalten, der auf einer DSFA beruht und dem EDÖB vorgelegt wurde (Art. 22 Abs. 5 DSG, Art. 11 DSG).';
+  }
+  if (reason) {
+    return privateController === 'yes'
+      ? { applies: 'yes', reason }
+      : { applies: 'unknown', reason: `${reason} Die Ausnahme gilt nur, wenn der Verantwortliche privat ist.` };
+  }
+  const open = [legalObligation, certified, codeOfConduct].some((answer) => answer === 'unknown');
+  return { applies: open ? 'unknown' : 'no' };
+};
+
+const toResult = (outcome: PrecheckOutcome, reasons: string[]): PrecheckResult => ({
+  outcome,
+  label: PRECHECK_OUTCOME_LABELS[outcome],
+  reasons,
+  legalReferences: extractLegalReferences(reasons.join('\n')),
+  proceed: outcome !== 'not_required',
+});
+
+export const evaluatePrecheck = (answers: PrecheckAnswers): PrecheckResult => {
+  const sensitive = evaluateSensitiveData(answers);
+  const monitoring = answers.publicMonitoring;
+  const exemption = evaluateExemption(answers);
+  const reasons: string[] = [];
+
+  if (sensitive === 'yes') {
+    reasons.push('Besonders schützenswerte Personendaten werden umfangreich bearbeitet (Art. 22 Abs. 2 lit. a DSG; Art. 5 lit. c DSG).');
+  }
+  if (monitoring === 'yes') {
+    reasons.push('Umfangreiche öffentliche Bereiche werden systematisch überwacht (Art. 22 Abs. 2 lit. b DSG).');
+  }
+
+  if (sensitive === 'yes' || monitoring === 'yes') {
+    if (exemption.applies === 'yes') {
+      return toResult('not_required', [...reasons, `Ausnahme: ${exemption.reason}`]);
+    }
+    if (exemption.applies === 'unknown') {
+      reasons.push(
+        exemption.reason
+          ? `Mögliche Ausnahme: ${exemption.reason}`
+          : 'Prüfen Sie, ob eine Ausnahme nach Art. 22 Abs. 4 DSG oder Art. 22 Abs. 5 DSG greift.'
+      );
+    }
+    return toResult('required', reasons);
+  }
+
+  // No rule example applies for sure: open answers and other indicators need a case-by-case assessment
+  if (sensitive === 'unknown') {
+    reasons.push('Es ist offen, ob besonders schützenswerte Personendaten umfangreich bearbeitet werden (Art. 22 Abs. 2 lit. a DSG).');
+  }
+  if (monitoring === 'unknown') {
+    reasons.push('Es ist offen, ob öffentliche Bereiche systematisch überwacht werden (Art. 22 Abs. 2 lit. b DSG).');
+  }
+  if (answers.otherHighRisk !== 'no') {
+    reasons.push(
+      answers.otherHighRisk === 'yes'
+        ? 'Es bestehen weitere Hinweise auf ein hohes Risiko, das im Einzelfall zu beurteilen ist (Art. 22 Abs. 1 DSG).'
+        : 'Es ist offen, ob die Bearbeitung aus anderen Gründen ein hohes Risiko mit sich bringen kann (Art. 22 Abs. 1 DSG).'
+    );
+  }
+  if (reasons.length > 0) {
+    if (exemption.applies === 'yes') {
+      return toResult('not_required', [...reasons, `Ausnahme: ${exemption.reason}`]);
+    }
+    return toResult('unclear', reasons);
+  }
+
+  return toResult('not_required', [
+    'Keines der Regelbeispiele nach Art. 22 Abs. 2 DSG liegt vor, und es gibt keine weiteren Hinweise auf ein hohes Risiko (Art. 22 Abs. 1 DSG).',
+    'Die Bearbeitungsgrundsätze nach Art. 6 DSG und die Datensicherheit nach Art. 8 DSG gelten trotzdem.',
+  ]);
+};
@@ -0,0 +1,174 @@
+import { NO_TRANSFERS, ProcessingRecord } from './processingRecord';
+import type { UserRef } from './assessments';
+
+// --- Datenschutzerklärung (Art. 19/20 DSG) ---
+// The register entry of an assessment already holds what Art. 19 DSG requires the
+// controller to tell the data subjects: identity and contact, purpose, recipients,
+// the data categories and the countries data is disclosed to. The draft notice is
+// generated from the current entry whenever it is requested, so it follows the
+// register. Only the sections edited by hand are stored with the assessment.
+
+export type NoticeSection =
+  | 'intro'
+  | 'controller'
+  | 'purpose'
+  | 'dataCategories'
+  | 'recipients'
+  | 'transfers'
+  | 'retention'
+  | 'rights';
+
+export const NOTICE_SECTION_TITLES: Record<NoticeSection, string> = {
+  intro: 'Einleitung',
+  controller: 'Verantwortlicher und Kontakt',
+  purpose: 'Zweck der Bearbeitung',
+  dataCategories: 'Bearbeitete Personendaten',
+  recipients: 'Empfängerinnen und Empfänger',
+  transfers: 'Bekanntgabe ins Ausland',
+  retention: 'Aufbewahrungsdauer',
+  rights: 'Ihre Rechte',
+};
+
+export const NOTICE_SECTIONS = Object.keys(NOTICE_SECTION_TITLES) as NoticeSection[];
+
+export const MAX_NOTICE_SECTION_LENGTH = 4000;
+
+// Sections changed by hand; all other sections are generated from the register entry
+export type PrivacyNoticeEdits = {
+  sections: Partial<Record<NoticeSection, string>>;
+  updatedBy: UserRef;
+  updatedAt: string;
+};
+
+export type PrivacyNotice = {
+  title: string;
+  // Version of the DSFA the register entry was generated from
+  version: number;
+  sections: Record<NoticeSection, string>;
+  editedSections: NoticeSection[];
+  // Sections without content, e.g. because the register entry lacks the information
+  missingSections: NoticeSection[];
+  updatedBy?: UserRef;
+  updatedAt?: string;
+};
+
+export const isNoticeSection = (value: unknown): value is NoticeSection =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(NOTICE_SECTION_TITLES, value);
+
+// Register fields are phrased as list entries; the notice needs full sentences
+const asSentence = (value: string): string => value.trim().replace(/[.;:\s]+$/, '');
+
+const RIGHTS_TEXT =
+  'Sie können Auskunft darüber verlangen, ob und welche Personendaten über Sie bearbeitet werden (Art. 25 DSG). ' +
+  'Sie können die Berichtigung unrichtiger Personendaten (Art. 32 Abs. 1 DSG) sowie die Herausgabe oder Übertragung ' +
+  'Ihrer Personendaten verlangen (Art. 28 DSG). Zudem können Sie der Bearbeitung widersprechen und die Löschung Ihrer ' +
+  'Personendaten verlangen (Art. 30 Abs. 2 Bst. b und Art. 32 Abs. 2 DSG). Wenden Sie sich dazu an die oben genannte ' +
+  'Kontaktstelle. Sie haben ausserdem die Möglichkeit, sich an den Eidgenössischen Datenschutz- und ' +
+  'Öffentlichkeitsbeauftragten (EDÖB) zu wenden.';
+
+const describeController = (controller: string): string => {
+  if (!controller.trim()) return '';
+  // Art. 19 Abs. 2 Bst. a DSG requires contact details, not only the name
+  const contact = process.env.CONTROLLER_CONTACT?.trim() || '[Kontaktadresse für Datenschutzanfragen]';
+  return `Verantwortlich für die Bearbeitung Ihrer Personendaten ist ${asSentence(controller)}. Fragen zum Datenschutz richten Sie bitte an: ${contact}`;
+};
+
+const describeTransfers = (transfers: string): string => {
+  if (!transfers.trim()) return '';
+  if (transfers.trim() === NO_TRANSFERS) {
+    return 'Eine Bekanntgabe Ihrer Personendaten ins Ausland ist nicht vorgesehen.';
+  }
+  return (
+    'Ihre Personendaten können in die folgenden Staaten bekanntgegeben werden. Bei Staaten ohne angemessenen ' +
+    'Datenschutz nennen wir die Garantien nach Art. 16 Abs. 2 DSG oder die Ausnahme nach Art. 17 DSG: ' +
+    `${asSentence(transfers)}.`
+  );
+};
+
+export const generateNoticeSections = (title: string, record: ProcessingRecord): Record<NoticeSection, string> => {
+  const { fields } = record;
+  return {
+    intro:
+      `Mit dieser Datenschutzerklärung informieren wir Sie nach Art. 19 DSG darüber, wie wir Ihre Personendaten ` +
+      `im Rahmen von «${title}» bearbeiten.`,
+    controller: describeController(fields.controller),
+    purpose: fields.purpose.trim() ? `Wir bearbeiten Ihre Personendaten zu folgendem Zweck: ${asSentence(fields.purpose)}.` : '',
+    dataCategories: fields.dataCategories.trim()
+      ? [
+          fields.dataSubjects.trim() ? `Die Bearbeitung betrifft: ${asSentence(fields.dataSubjects)}.` : '',
+          `Wir bearbeiten folgende Kategorien von Personendaten: ${asSentence(fields.dataCategories)}.`,
+        ]
+          .filter(Boolean)
+          .join(' ')
+      : '',
+    recipients: fields.recipients.trim()
+      ? `Wir geben Ihre Personendaten an folgende Empfängerinnen und Empfänger oder Kategorien von Empfängern bekannt: ${asSentence(fields.recipients)}.`
+      : '',
+    transfers: describeTransfers(fields.transfers),
+    retention: fields.retention.trim()
+      ? `Aufbewahrungsdauer: ${asSentence(fields.retention)}. Danach werden Ihre Personendaten gelöscht oder anonymisiert (Art. 6 Abs. 4 DSG).`
+      : '',
+    rights: RIGHTS_TEXT,
+  };
+};
+
+export const buildPrivacyNotice = (title: string, record: ProcessingRecord, edits?: PrivacyNoticeEdits): PrivacyNotice => {
+  const sections = { ...generateNoticeSections(title, record), ...edits?.sections };
+  return {
+    title: `Datenschutzerklärung: ${title}`,
+    version: record.version,
+    sections,
+    editedSections: NOTICE_SECTIONS.filter((section) => edits?.sections[section] !== undefined),
+    missingSections: NOTICE_SECTIONS.filter((section) => !sections[section].trim()),
+    updatedBy: edits?.updatedBy,
+    updatedAt: edits?.updatedAt,
+  };
+};
+
+const formatDate = (date: Date): string => new Intl.DateTimeFormat('de-CH', { dateStyle: 'long' }).format(date);
+
+// Sections without content are left out of the exports
+const filledSections = (notice: PrivacyNotice): NoticeSection[] =>
+  NOTICE_SECTIONS.filter((section) => notice.sections[section].trim());
+
+export const toNoticeMarkdown = (notice: PrivacyNotice, date = new Date()): string =>
+  [
+    `# ${notice.title}`,
+    ...filledSections(notice).map((section) => `## ${NOTICE_SECTION_TITLES[section]}\n\n${notice.sections[section].trim()}`),
+    `_Stand: ${formatDate(date)}_`,
+  ].join('\n\n') + '\n';
+
+const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const toHtmlParagraphs = (text: string): string =>
+  text
+    .trim()
+    .split(/\n\s*\n/)
+    .map((paragraph) => `<p>${escapeHtml(paragraph.trim()).replace(/\n/g, '<br>')}</p>`)
+    .join('\n');
+
+export const toNoticeHtml = (notice: PrivacyNotice, date = new Date()): string => `<!DOCTYPE html>
+<html lang="de-CH">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(notice.title)}</title>
+<style>
+  body { max-width: 46rem; margin: 2rem auto; padding: 0 1rem; font-family: system-ui, sans-serif; line-height: 1.6; color: #1a2e3a; }
+  h2 { margin-top: 2rem; font-size: 1.2rem; }
+  .notice-date { margin-top: 2rem; color: #517891; font-size: 0.9rem; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(notice.title)}</h1>
+${filledSections(notice)
+  .map((section) => `<h2>${escapeHtml(NOTICE_SECTION_TITLES[section])}</h2>\n${toHtmlParagraphs(notice.sections[section])}`)
+  .join('\n')}
+<p class="notice-date">Stand: ${escapeHtml(formatDate(date))}</p>
+</body>
+</html>
+`;
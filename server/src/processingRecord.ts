@@ -0,0 +1,217 @@
+import { AnalysisResult } from './types';
+import { extractMeasures } from './measures';
+import { getLocationAdequacy } from './crossBorder';
+import { STATUS_LABELS } from './workflow';
+import type { RegisterEntry, UserRef } from './assessments';
+
+// --- Verzeichnis der Bearbeitungstätigkeiten (Art. 12 DSG) ---
+// The description of a DSFA covers most of what a register entry needs. Every
+// complete version regenerates the entry of its assessment from the description,
+// the input text, the measures and the detected disclosures abroad, so the
+// register follows the DSFA. Fields edited by hand are kept until they are reset.
+
+export type RecordField =
+  | 'controller'
+  | 'purpose'
+  | 'dataSubjects'
+  | 'dataCategories'
+  | 'recipients'
+  | 'retention'
+  | 'security'
+  | 'transfers';
+
+// Contents required by Art. 12 Abs. 2 DSG, in the order of the law
+export const RECORD_FIELD_LABELS: Record<RecordField, string> = {
+  controller: 'Verantwortlicher',
+  purpose: 'Bearbeitungszweck',
+  dataSubjects: 'Kategorien betroffener Personen',
+  dataCategories: 'Kategorien bearbeiteter Personendaten',
+  recipients: 'Kategorien der Empfängerinnen und Empfänger',
+  retention: 'Aufbewahrungsdauer',
+  security: 'Massnahmen zur Datensicherheit',
+  transfers: 'Bekanntgabe ins Ausland',
+};
+
+export const RECORD_FIELDS = Object.keys(RECORD_FIELD_LABELS) as RecordField[];
+
+export type ProcessingRecord = {
+  // Version the generated fields are taken from
+  version: number;
+  fields: Record<RecordField, string>;
+  // Fields changed by hand; a new version does not overwrite them
+  editedFields: RecordField[];
+  generatedAt: string;
+  updatedBy?: UserRef;
+  updatedAt?: string;
+};
+
+export const MAX_RECORD_FIELD_LENGTH = 2000;
+// Transfers field of an entry without any disclosure abroad
+export const NO_TRANSFERS = 'Keine Bekanntgabe ins Ausland vorgesehen.';
+const MAX_SECURITY_MEASURES = 6;
+
+export const isRecordField = (value: unknown): value is RecordField =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(RECORD_FIELD_LABELS, value);
+
+// Fields without content, reported as gaps of the entry
+export const getMissingFields = (record: ProcessingRecord): RecordField[] =>
+  RECORD_FIELDS.filter((field) => !record.fields[field].trim());
+
+const clean = (text: string): string => text.replace(/\*\*/g, '').replace(/\s+/g, ' ').trim();
+
+// Value of a labelled line such as "- Zweck der Datenbearbeitung: ..."
+const findLabelled = (text: string, label: RegExp): string => {
+  for (const rawLine of text.split('\n')) {
+    const line = clean(rawLine).replace(/^(?:[-•*]|\d+[.)])\s*/, '');
+    const match = line.match(/^([^:]{2,80}):\s*(.+)$/);
+    if (match && label.test(match[1])) return match[2].trim();
+  }
+  return '';
+};
+
+const findSentence = (text: string, pattern: RegExp): string =>
+  clean(text)
+    .split(/(?<=[.!?])\s+/)
+    .find((sentence) => pattern.test(sentence)) || '';
+
+const LABELS: Record<'purpose' | 'dataSubjects' | 'dataCategories' | 'recipients', RegExp> = {
+  purpose: /^(?:bearbeitungs)?zweck/i,
+  dataSubjects: /betroffene[n]? personen|betroffene$/i,
+  dataCategories: /datenkategorien|kategorien.*personendaten|bearbeitete daten/i,
+  recipients: /empfänger|bekanntgabe an|weitergabe/i,
+};
+
+// Without labels, a sentence naming the data or the disclosure is taken as a draft
+const DATA_SENTENCE = /(?:folgende|diese|werden)[^.:]{0,40}daten[^.:]{0,40}:/i;
+const RECIPIENT_SENTENCE = /weitergegeben|bekanntgegeben|übermittelt|weitergeleitet/i;
+
+const RETENTION_LABEL = /(?:aufbewahrungsdauer|aufbewahrungsfrist|speicherdauer|löschfrist)\s*:\s*([^,;\n]+)/i;
+const RETENTION_SENTENCE = /aufbewahr|gelöscht|löschfrist|speicherdauer|anonymisiert/i;
+
+const findRetention = (sources: string[]): string => {
+  for (const source of sources) {
+    const match = source.match(RETENTION_LABEL);
+    if (match) return clean(match[1]);
+  }
+  for (const source of sources) {
+    const sentence = findSentence(source, RETENTION_SENTENCE);
+    if (sentence) return sentence;
+  }
+  return '';
+};
+
+// Technical and organisational measures of the DSFA (Art. 12 Abs. 2 Bst. f DSG);
+// gaps of processors are missing measures and do not describe the current state
+const describeSecurity = (result: AnalysisResult, version: number): string => {
+  const gaps = new Set((result.vendors || []).flatMap((check) => check.gaps.map((gap) => gap.measure)));
+  const measures = extractMeasures(result, version)
+    .filter((measure) => (measure.category === 'technisch' || measure.category === 'organisatorisch') && !gaps.has(measure.description))
+    .map((measure) => measure.description.replace(/[.;]+$/, ''));
+  if (measures.length === 0) return '';
+  const shown = measures.slice(0, MAX_SECURITY_MEASURES).join('; ');
+  return measures.length > MAX_SECURITY_MEASURES ? `${shown}; weitere gemäss DSFA` : shown;
+};
+
+// Recipient countries with the safeguards under Art. 16 Abs. 2 DSG (Art. 12 Abs. 2 Bst. g DSG)
+const describeTransfers = (result: AnalysisResult): string => {
+  const entries = (result.transfers?.recipients || []).map((recipient) =>
+    `${recipient.countryName}: ${recipient.mechanismLabel}${recipient.safeguardInPlace ? '' : ' (noch nicht vorhanden)'}`
+  );
+  (result.vendors || []).forEach(({ vendor }) => {
+    const evidence = vendor.certifications.join('\n');
+    const foreign = [vendor.seat, ...vendor.hostingLocations, ...vendor.subProcessors.map((item) => item.country)]
+      .map((location) => getLocationAdequacy(location, evidence))
+      .filter((location) => location.status !== 'swiss');
+    if (foreign.length === 0) return;
+    const countries = Array.from(new Set(foreign.map((location) => location.country))).join(', ');
+    const safeguard = foreign.some((location) => location.status !== 'adequate')
+      ? vendor.sccSigned ? 'Standarddatenschutzklauseln (Art. 16 Abs. 2 lit. d DSG)' : 'Garantien noch nicht vorhanden'
+      : 'Angemessener Schutz (Art. 16 Abs. 1 DSG)';
+    entries.push(`${countries} (Auftragsbearbeiter ${vendor.name}): ${safeguard}`);
+  });
+  if (result.transfers?.unspecified) {
+    entries.push('Zielland noch nicht angegeben');
+  }
+  return entries.length > 0 ? entries.join('; ') : NO_TRANSFERS;
+};
+
+const describeRecipients = (result: AnalysisResult, sources: string[]): string => {
+  const named =
+    sources.map((source) => findLabelled(source, LABELS.recipients)).find(Boolean) ||
+    sources.map((source) => findSentence(source, RECIPIENT_SENTENCE)).find(Boolean) ||
+    '';
+  const processors = (result.vendors || []).map((check) => check.vendor.name);
+  return [named, processors.length > 0 ? `Auftragsbearbeiter: ${processors.join(', ')}` : '']
+    .filter(Boolean)
+    .join('; ');
+};
+
+export const generateRecordFields = (
+  result: AnalysisResult,
+  inputText: string,
+  version: number
+): Record<RecordField, string> => {
+  // The description of the DSFA first, then the input (e.g. the questionnaire answers)
+  const sources = [result.description || '', inputText];
+  const labelled = (field: keyof typeof LABELS): string =>
+    sources.map((source) => findLabelled(source, LABELS[field])).find(Boolean) || '';
+  const known = result.knownInfo;
+  return {
+    controller: process.env.CONTROLLER_NAME?.trim() || '',
+    purpose: labelled('purpose') || known?.zweck || '',
+    dataSubjects: labelled('dataSubjects') || known?.betroffenePersonen || '',
+    dataCategories:
+      labelled('dataCategories') ||
+      known?.datenkategorien ||
+      sources.map((source) => findSentence(source, DATA_SENTENCE)).find(Boolean) ||
+      '',
+    recipients: describeRecipients(result, sources),
+    retention: findRetention([...sources, result.massnahmen || '']),
+    security: describeSecurity(result, version),
+    transfers: describeTransfers(result),
+  };
+};
+
+// Entry for a new version: only complete DSFAs regenerate the entry, edited fields are kept
+export const syncProcessingRecord = (
+  previous: ProcessingRecord | undefined,
+  result: AnalysisResult,
+  inputText: string,
+  version: number
+): ProcessingRecord | undefined => {
+  if (result.needsMoreInfo || !result.description) return previous;
+  const generated = generateRecordFields(result, inputText, version);
+  const editedFields = previous?.editedFields || [];
+  const fields = { ...generated };
+  editedFields.forEach((field) => {
+    fields[field] = previous!.fields[field];
+  });
+  return {
+    version,
+    fields,
+    editedFields,
+    generatedAt: new Date().toISOString(),
+    updatedBy: previous?.updatedBy,
+    updatedAt: previous?.updatedAt,
+  };
+};
+
+// Columns of the register export; the fields are copied from model output and go
+// through the formula guard of toCsv like every other export
+export const REGISTER_EXPORT_HEADER = [
+  'Bearbeitungstätigkeit',
+  ...RECORD_FIELDS.map((field) => RECORD_FIELD_LABELS[field]),
+  'DSFA-Status',
+  'DSFA-Version',
+  'Freigegebene Version',
+  'Aktualisiert',
+];
+
+export const toRegisterRow = (entry: RegisterEntry): string[] => [
+  entry.assessmentTitle,
+  ...RECORD_FIELDS.map((field) => entry.fields[field]),
+  STATUS_LABELS[entry.assessmentStatus],
+  `V${entry.version}`,
+  entry.approvedVersion ? `V${entry.approvedVersion}` : '',
+  (entry.updatedAt || entry.generatedAt).slice(0, 10),
+];
@@ -0,0 +1,45 @@
+import { createOpenAiCompatibleProvider } from './openaiCompatible';
+import { createOpenRouterProvider, parseModelList } from './openrouter';
+import { createMockProvider } from './mock';
+import { LlmProvider } from './types';
+
+export type { ChatMessage, CompletionRequest, LlmProvider } from './types';
+
+export type ProviderType = 'openrouter' | 'openai-compatible' | 'mock';
+
+const PROVIDER_TYPES: ProviderType[] = ['openrouter', 'openai-compatible', 'mock'];
+
+// Local OpenAI-compatible server, e.g. Ollama (http://localhost:11434/v1) or llama.cpp.
+// Keeps all data on premises, so no API key is required.
+const createLocalProvider = (): LlmProvider =>
+  createOpenAiCompatibleProvider({
+    name: 'OpenAI-kompatibler Server',
+    baseUrl: (process.env.LLM_BASE_URL || 'http://localhost:11434/v1').replace(/\/+$/, ''),
+    apiKey: process.env.LLM_API_KEY,
+    apiKeyVariable: 'LLM_API_KEY',
+    requiresApiKey: false,
+    models: parseModelList(process.env.LLM_MODEL, 'llama3.1'),
+    // Local models on CPU can be considerably slower than hosted ones
+    timeout: 300000,
+  });
+
+export const getProviderType = (): ProviderType => {
+  const value = (process.env.LLM_PROVIDER || 'openrouter').trim().toLowerCase() as ProviderType;
+  if (!PROVIDER_TYPES.includes(value)) {
+    console.warn(`Unknown LLM_PROVIDER "${value}", using OpenRouter.`);
+    return 'openrouter';
+  }
+  return value;
+};
+
+// Create the provider selected by LLM_PROVIDER (must be called after the .env file was loaded)
+export const createProvider = (): LlmProvider => {
+  switch (getProviderType()) {
+    case 'mock':
+      return createMockProvider();
+    case 'openai-compatible':
+      return createLocalProvider();
+    default:
+      return createOpenRouterProvider();
+  }
+};
@@ -0,0 +1,333 @@
+import { FOLLOW_UP_MARKER, REVISION_MARKER } from '../dsfa';
+import { BREACH_MARKER } from '../breach';
+import { DsfaJson, renderDsfaText } from '../structuredOutput';
+import { CompletionRequest, LlmProvider } from './types';
+
+// --- Offline mock provider ---
+// Returns canned DSFA answers without any network access, so the app can be
+// demonstrated and developed offline. The answer only depends on the input text:
+// short descriptions get the "missing information" answer, otherwise keywords
+// decide between a HIGH, MEDIUM and LOW risk assessment. Follow-up questions get a
+// short reply; questions describing a change also get a revised DSFA chosen by the
+// keywords of the question. Incidents (Art. 24 DSG) get a notifiable or a
+// non-notifiable assessment, again chosen by keywords.
+
+export const MOCK_MODEL = 'mock-dsfa';
+
+const MIN_WORDS = 60;
+const CHUNK_SIZE = 24;
+const CHUNK_DELAY_MS = 15;
+
+const HIGH_RISK_KEYWORDS = [
+  'gesundheit', 'patient', 'besonders schützenswert', 'biometrisch', 'genetisch',
+  'profiling', 'usa', 'aws', 'überwachung', 'strafrecht',
+];
+const MEDIUM_RISK_KEYWORDS = ['cloud', 'newsletter', 'marketing', 'tracking', 'auftragsbearbeiter', 'cookie'];
+const NOTIFIABLE_BREACH_KEYWORDS = [
+  'gesundheit', 'patient', 'besonders schützenswert', 'passw', 'kreditkart', 'bankverbindung', 'iban',
+  'ransomware', 'hacker', 'angriff', 'unverschlüsselt', 'veröffentlicht',
+];
+const CHANGE_KEYWORDS = ['statt', 'stattdessen', 'wechsel', 'verschieb', 'umstell', 'zusätzlich', 'änder', 'künftig'];
+
+const MISSING_INFO: DsfaJson = {
+  needsMoreInfo: true,
+  message: 'Vielen Dank für Ihre Beschreibung. Für eine vollständige DSFA benötigen wir noch einige Angaben zur geplanten Bearbeitung.',
+  missingInfo: [
+    'Zweck der Datenbearbeitung',
+    'Kategorien der bearbeiteten Personendaten und betroffenen Personen',
+    'Empfänger und allfällige Bekanntgabe ins Ausland',
+    'Aufbewahrungsdauer und Löschkonzept',
+    'Geplante technische und organisatorische Massnahmen',
+  ],
+  knownInfo: {
+    zweck: '',
+    betroffenePersonen: '',
+    datenkategorien: '',
+    umfang: '',
+    technischeUmsetzung: '',
+    rechtfertigungsgrund: '',
+  },
+  summary: '',
+  description: '',
+  bruttorisiken: '',
+  massnahmen: '',
+  nettorisiken: '',
+  ergebnis: '',
+  riskLevel: 'UNKNOWN',
+  recommendations: [],
+};
+
+const HIGH_RISK: DsfaJson = {
+  needsMoreInfo: false,
+  message: '',
+  missingInfo: [],
+  summary: 'Die geplante Bearbeitung umfasst besonders schützenswerte Personendaten (Art. 5 lit. c DSG) bzw. eine Bekanntgabe ins Ausland (Art. 16 DSG). Gemäss Art. 22 Abs. 2 DSG ist von einem hohen Risiko auszugehen; eine DSFA ist erforderlich.',
+  description: 'Es werden Personendaten in grossem Umfang bearbeitet, darunter besonders schützenswerte Personendaten im Sinne von Art. 5 lit. c DSG. Die Daten werden teilweise bei einem Anbieter mit Sitz im Ausland gespeichert.',
+  bruttorisiken: '- Unbefugter Zugriff auf besonders schützenswerte Personendaten (Art. 8 DSG)\n- Bekanntgabe in einen Staat ohne angemessenen Datenschutz (Art. 16 DSG)\n- Unzulässiges Profiling mit hohem Risiko (Art. 5 lit. g DSG)',
+  massnahmen: '- Verschlüsselung der Daten bei Übertragung und Speicherung (Art. 8 DSG)\n- Abschluss von Standarddatenschutzklauseln mit dem Anbieter (Art. 16 Abs. 2 lit. d DSG)\n- Rollenbasiertes Berechtigungskonzept und Protokollierung',
+  nettorisiken: 'Trotz der Massnahmen verbleibt ein erhöhtes Risiko durch den möglichen behördlichen Zugriff im Ausland und die Sensibilität der Daten.',
+  risks: [
+    {
+      id: 'R1',
+      category: 'primär',
+      description: 'Unbefugter Zugriff auf besonders schützenswerte Personendaten (Art. 8 DSG)',
+      affectedPersons: 'Betroffene Personen der Bearbeitung',
+      likelihood: 3,
+      severity: 4,
+      measures: ['Verschlüsselung bei Übertragung und Speicherung', 'Rollenbasiertes Berechtigungskonzept und Protokollierung'],
+      residualLikelihood: 2,
+      residualSeverity: 4,
+    },
+    {
+      id: 'R2',
+      category: 'primär',
+      description: 'Behördlicher Zugriff nach Bekanntgabe in einen Staat ohne angemessenen Datenschutz (Art. 16 DSG)',
+      affectedPersons: 'Betroffene Personen der Bearbeitung',
+      likelihood: 3,
+      severity: 3,
+      measures: ['Standarddatenschutzklauseln mit dem Anbieter'],
+      residualLikelihood: 3,
+      residualSeverity: 3,
+    },
+    {
+      id: 'R3',
+      category: 'sekundär',
+      description: 'Benachteiligung durch unzulässiges Profiling (Art. 5 lit. g DSG)',
+      affectedPersons: 'Betroffene Personen der Bearbeitung',
+      likelihood: 2,
+      severity: 3,
+      measures: ['Datenminimierung gemäss Art. 6 Abs. 2 DSG'],
+      residualLikelihood: 1,
+      residualSeverity: 3,
+    },
+  ],
+  ergebnis: 'Das Nettorisiko bleibt hoch. Vor Beginn der Bearbeitung ist der EDÖB gemäss Art. 23 Abs. 1 DSG zu konsultieren, sofern nicht die Datenschutzberaterin oder der Datenschutzberater nach Art. 23 Abs. 4 DSG konsultiert wurde.',
+  riskLevel: 'HIGH',
+  recommendations: [
+    'Konsultation des EDÖB nach Art. 23 DSG vorbereiten',
+    'Speicherung in der Schweiz oder in einem Staat mit angemessenem Schutz prüfen (Art. 16 Abs. 1 DSG)',
+    'Datenminimierung gemäss Art. 6 Abs. 2 DSG umsetzen',
+  ],
+};
+
+const MEDIUM_RISK: DsfaJson = {
+  needsMoreInfo: false,
+  message: '',
+  missingInfo: [],
+  summary: 'Die geplante Bearbeitung betrifft gewöhnliche Personendaten, die durch einen Auftragsbearbeiter bearbeitet werden (Art. 9 DSG). Es bestehen erhöhte Risiken, die durch Massnahmen weitgehend gemindert werden können.',
+  description: 'Personendaten von Kundinnen und Kunden werden für Kommunikation und Marketing bearbeitet. Die Bearbeitung erfolgt teilweise durch einen externen Dienstleister.',
+  bruttorisiken: '- Bearbeitung ohne ausreichende Information der betroffenen Personen (Art. 19 DSG)\n- Unzureichende Kontrolle des Auftragsbearbeiters (Art. 9 DSG)',
+  massnahmen: '- Datenschutzerklärung gemäss Art. 19 DSG ergänzen\n- Auftragsbearbeitungsvertrag nach Art. 9 DSG abschliessen\n- Einfache Abmeldemöglichkeit anbieten',
+  nettorisiken: 'Nach Umsetzung der Massnahmen verbleiben geringe Risiken, insbesondere bei der Datensicherheit des Dienstleisters (Art. 8 DSG).',
+  risks: [
+    {
+      id: 'R1',
+      category: 'primär',
+      description: 'Bearbeitung ohne ausreichende Information der betroffenen Personen (Art. 19 DSG)',
+      affectedPersons: 'Kundinnen und Kunden',
+      likelihood: 3,
+      severity: 2,
+      measures: ['Datenschutzerklärung gemäss Art. 19 DSG ergänzen', 'Einfache Abmeldemöglichkeit'],
+      residualLikelihood: 1,
+      residualSeverity: 2,
+    },
+    {
+      id: 'R2',
+      category: 'primär',
+      description: 'Unzureichende Kontrolle des Auftragsbearbeiters (Art. 9 DSG)',
+      affectedPersons: 'Kundinnen und Kunden',
+      likelihood: 3,
+      severity: 3,
+      measures: ['Auftragsbearbeitungsvertrag nach Art. 9 DSG'],
+      residualLikelihood: 2,
+      residualSeverity: 2,
+    },
+  ],
+  ergebnis: 'Das Nettorisiko ist mittel. Eine Konsultation des EDÖB nach Art. 23 DSG ist nicht erforderlich, die DSFA ist jedoch regelmässig zu überprüfen (Art. 22 DSG).',
+  riskLevel: 'MEDIUM',
+  recommendations: [
+    'Auftragsbearbeitungsvertrag abschliessen (Art. 9 DSG)',
+    'Informationspflicht nach Art. 19 DSG erfüllen',
+    'Aufbewahrungsfristen festlegen (Art. 6 Abs. 4 DSG)',
+  ],
+};
+
+const LOW_RISK: DsfaJson = {
+  needsMoreInfo: false,
+  message: '',
+  missingInfo: [],
+  summary: 'Die geplante Bearbeitung betrifft nur wenige gewöhnliche Personendaten. Ein hohes Risiko im Sinne von Art. 22 Abs. 1 DSG ist nicht ersichtlich.',
+  description: 'Es werden Kontaktdaten in geringem Umfang für einen klar umschriebenen Zweck bearbeitet. Eine Bekanntgabe an Dritte ist nicht vorgesehen.',
+  bruttorisiken: '- Keine potentiell hohen Bruttorisiken erkennbar (Art. 22 Abs. 2 DSG)',
+  massnahmen: '- Grundsätze nach Art. 6 DSG einhalten\n- Angemessene Datensicherheit gemäss Art. 8 DSG gewährleisten',
+  nettorisiken: 'Es verbleiben keine nennenswerten Nettorisiken.',
+  risks: [
+    {
+      id: 'R1',
+      category: 'primär',
+      description: 'Verwendung der Kontaktdaten über den angegebenen Zweck hinaus (Art. 6 Abs. 3 DSG)',
+      affectedPersons: 'Kontaktpersonen',
+      likelihood: 2,
+      severity: 1,
+      measures: ['Grundsätze nach Art. 6 DSG einhalten', 'Zugriffe auf das Notwendige beschränken'],
+      residualLikelihood: 1,
+      residualSeverity: 1,
+    },
+  ],
+  ergebnis: 'Das Nettorisiko ist gering. Eine Konsultation des EDÖB nach Art. 23 DSG ist nicht erforderlich.',
+  riskLevel: 'LOW',
+  recommendations: [
+    'Bearbeitung im Verzeichnis der Bearbeitungstätigkeiten erfassen (Art. 12 DSG)',
+    'Zugriffe auf das Notwendige beschränken (Art. 8 DSG)',
+  ],
+};
+
+const NOTIFIABLE_BREACH = `ZUSAMMENFASSUNG:
+Die Verletzung der Datensicherheit (Art. 5 Bst. h DSG) führt voraussichtlich zu einem hohen Risiko für die betroffenen Personen. Sie ist dem EDÖB nach Art. 24 Abs. 1 DSG so rasch als möglich zu melden, und die betroffenen Personen sind nach Art. 24 Abs. 4 DSG zu informieren.
+
+SACHVERHALT:
+Unbefugte Dritte hatten Zugang zu Personendaten, darunter Daten, die einen Missbrauch ermöglichen oder besonders schützenswert sind (Art. 5 Bst. c DSG). Zeitpunkt, Dauer und genaue Anzahl der betroffenen Personen sind noch abzuklären.
+
+RISIKOBEURTEILUNG:
+Ein Missbrauch der offengelegten Daten ist wahrscheinlich und kann zu Betrug, Identitätsdiebstahl oder Rufschädigung führen. Die Schwere der Folgen ist erheblich. Schützende Massnahmen wie eine wirksame Verschlüsselung (Art. 8 DSG) sind nicht ersichtlich.
+
+RISK_LEVEL: HIGH
+
+MELDUNG_EDOEB: JA – Die Verletzung führt voraussichtlich zu einem hohen Risiko für die Persönlichkeit der betroffenen Personen (Art. 24 Abs. 1 DSG).
+
+INFORMATION_BETROFFENE: JA – Die betroffenen Personen können sich nur schützen, wenn sie informiert sind, z.B. durch das Ändern von Passwörtern (Art. 24 Abs. 4 DSG). Eine Ausnahme nach Art. 24 Abs. 5 DSG ist nicht ersichtlich.
+
+SOFORTMASSNAHMEN:
+- Zugang sperren und betroffene Zugangsdaten zurücksetzen
+- Ursache und Umfang der Verletzung forensisch abklären
+- Protokolle sichern und die Verletzung nach Art. 15 Abs. 4 DSV dokumentieren
+
+MELDUNGSENTWURF:
+Meldung einer Verletzung der Datensicherheit nach Art. 24 DSG
+Art der Verletzung: Unbefugter Zugang zu Personendaten.
+Zeitpunkt und Dauer: [Zeitpunkt der Entdeckung], [Dauer].
+Betroffene Daten und Personen: [Datenkategorien], ungefähr [Anzahl] Personen.
+Folgen und Risiken: Möglicher Missbrauch der Daten für Betrug oder Identitätsdiebstahl.
+Ergriffene Massnahmen: Zugang gesperrt, Zugangsdaten zurückgesetzt, Abklärungen laufen.
+Ansprechperson: [Name, E-Mail, Telefon].
+
+INFORMATIONSENTWURF:
+Sehr geehrte Damen und Herren
+Am [Datum] haben wir festgestellt, dass Unbefugte Zugang zu einigen Ihrer Personendaten hatten. Betroffen sind [Datenkategorien]. Wir haben den Zugang sofort gesperrt und den Vorfall dem EDÖB gemeldet. Bitte ändern Sie vorsorglich Ihr Passwort und achten Sie auf verdächtige Nachrichten. Bei Fragen erreichen Sie uns unter [Kontakt].`;
+
+const MINOR_BREACH = `ZUSAMMENFASSUNG:
+Es liegt eine Verletzung der Datensicherheit vor (Art. 5 Bst. h DSG), die voraussichtlich nicht zu einem hohen Risiko führt. Eine Meldung an den EDÖB nach Art. 24 Abs. 1 DSG ist nicht erforderlich; der Vorfall ist nach Art. 15 Abs. 4 DSV zu dokumentieren.
+
+SACHVERHALT:
+Wenige gewöhnliche Personendaten wurden einem falschen Empfänger bekanntgegeben. Der Empfänger ist bekannt und hat die Löschung bestätigt.
+
+RISIKOBEURTEILUNG:
+Ein Missbrauch ist unwahrscheinlich, und die möglichen Folgen für die betroffenen Personen sind gering. Es besteht kein hohes Risiko im Sinne von Art. 24 Abs. 1 DSG.
+
+RISK_LEVEL: LOW
+
+MELDUNG_EDOEB: NEIN – Die Verletzung führt voraussichtlich nicht zu einem hohen Risiko (Art. 24 Abs. 1 DSG).
+
+INFORMATION_BETROFFENE: NEIN – Eine Information ist zum Schutz der betroffenen Personen nicht erforderlich (Art. 24 Abs. 4 DSG).
+
+SOFORTMASSNAHMEN:
+- Schriftliche Bestätigung der Löschung beim Empfänger einholen
+- Versandprozess überprüfen und Mitarbeitende sensibilisieren
+
+MELDUNGSENTWURF:
+Meldung einer Verletzung der Datensicherheit nach Art. 24 DSG
+Art der Verletzung: Bekanntgabe an einen falschen Empfänger.
+Zeitpunkt: [Datum].
+Betroffene Daten und Personen: [Datenkategorien], [Anzahl] Personen.
+Folgen: Keine erheblichen Folgen zu erwarten, Löschung bestätigt.
+Ansprechperson: [Name, E-Mail, Telefon].
+
+INFORMATIONSENTWURF:
+Sehr geehrte Damen und Herren
+Am [Datum] wurden Ihre [Datenkategorien] irrtümlich an einen falschen Empfänger gesandt. Der Empfänger hat die Daten gelöscht. Bei Fragen erreichen Sie uns unter [Kontakt].`;
+
+// The analysed text is embedded in the prompt between quotes after this marker
+const extractUserText = (prompt: string): string | null => {
+  const match = prompt.match(/Zu analysierender Text:\s*"([\s\S]*?)"\s*(?:\n\n|$)/);
+  return match ? match[1] : null;
+};
+
+const extractIncidentText = (prompt: string): string | null => {
+  const index = prompt.indexOf(BREACH_MARKER);
+  if (index === -1) return null;
+  const match = prompt.slice(index + BREACH_MARKER.length).match(/^\s*"([\s\S]*?)"\s*(?:\n\n|$)/);
+  return match ? match[1] : null;
+};
+
+// Match keywords at word starts, so "gesundheit" also matches "Gesundheitsdaten"
+const hasKeyword = (text: string, keywords: string[]): boolean => {
+  const normalized = ` ${text.toLowerCase().replace(/[^a-zäöüß0-9]+/g, ' ')}`;
+  return keywords.some((keyword) => normalized.includes(` ${keyword}`));
+};
+
+const selectRiskAnswer = (text: string): DsfaJson => {
+  if (hasKeyword(text, HIGH_RISK_KEYWORDS)) return HIGH_RISK;
+  if (hasKeyword(text, MEDIUM_RISK_KEYWORDS)) return MEDIUM_RISK;
+  return LOW_RISK;
+};
+
+const selectCannedAnswer = (userText: string): DsfaJson => {
+  const words = userText.split(/\s+/).filter(Boolean);
+  if (words.length < MIN_WORDS) {
+    return MISSING_INFO;
+  }
+  return selectRiskAnswer(userText);
+};
+
+const createFollowUpAnswer = (prompt: string): string => {
+  const question = prompt.slice(FOLLOW_UP_MARKER.length).split('\n\n')[0].trim();
+  if (!hasKeyword(question, CHANGE_KEYWORDS)) {
+    return 'Dies ist eine Antwort des Mock-Providers auf Ihre Rückfrage. Die bestehende DSFA bleibt unverändert; ' +
+      'massgebend sind insbesondere die Grundsätze nach Art. 6 DSG und die Datensicherheit nach Art. 8 DSG.';
+  }
+  const revised = selectRiskAnswer(question);
+  return `Die beschriebene Änderung wirkt sich auf die Bewertung aus. Das Risiko wird neu als ${revised.riskLevel} ` +
+    `eingestuft (Art. 22 DSG).\n\n${REVISION_MARKER}\n${renderDsfaText(revised)}`;
+};
+
+const createAnswer = (request: CompletionRequest): string => {
+  const lastPrompt = [...request.messages].reverse().find((message) => message.role === 'user')?.content || '';
+  if (lastPrompt.startsWith(FOLLOW_UP_MARKER)) {
+    return createFollowUpAnswer(lastPrompt);
+  }
+  const firstPrompt = request.messages.find((message) => message.role === 'user')?.content || '';
+  const incident = extractIncidentText(firstPrompt);
+  if (incident !== null) {
+    return hasKeyword(incident, NOTIFIABLE_BREACH_KEYWORDS) ? NOTIFIABLE_BREACH : MINOR_BREACH;
+  }
+  const userText = extractUserText(firstPrompt);
+  if (userText === null) {
+    return 'Dies ist eine Antwort des Mock-Providers. Es wurde kein Sprachmodell aufgerufen.';
+  }
+  const answer = selectCannedAnswer(userText);
+  return request.responseFormat ? JSON.stringify(answer) : renderDsfaText(answer);
+};
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+export const createMockProvider = (): LlmProvider => ({
+  name: 'Mock',
+  models: [MOCK_MODEL],
+  defaultModel: MOCK_MODEL,
+
+  configurationError: () => null,
+
+  complete: async (request) => createAnswer(request),
+
+  stream: async (request, onDelta) => {
+    const answer = createAnswer(request);
+    for (let index = 0; index < answer.length; index += CHUNK_SIZE) {
+      if (request.signal?.aborted) {
+        throw new Error('Anfrage abgebrochen');
+      }
+      onDelta(answer.slice(index, index + CHUNK_SIZE));
+      await wait(CHUNK_DELAY_MS);
+    }
+    return answer;
+  },
+});
@@ -0,0 +1,100 @@
+import axios from 'axios';
+import { StringDecoder } from 'string_decoder';
+import { CompletionRequest, LlmProvider } from './types';
+
+export type OpenAiCompatibleConfig = {
+  name: string;
+  baseUrl: string;
+  apiKey?: string;
+  // Environment variable holding the API key, used in the configuration error message
+  apiKeyVariable: string;
+  // Whether requests without an API key should be rejected before calling the API
+  requiresApiKey: boolean;
+  models: string[];
+  headers?: Record<string, string>;
+  timeout?: number;
+};
+
+// Provider for any API implementing the OpenAI chat completions endpoint
+// (OpenRouter, Ollama, llama.cpp server, vLLM, LM Studio, ...)
+export const createOpenAiCompatibleProvider = (config: OpenAiCompatibleConfig): LlmProvider => {
+  const timeout = config.timeout ?? 120000;
+
+  const requestHeaders = (): Record<string, string> => ({
+    ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+    ...(config.headers || {}),
+  });
+
+  const requestBody = (request: CompletionRequest, stream: boolean) => ({
+    model: request.model,
+    messages: request.messages,
+    temperature: 0.2,
+    ...(request.responseFormat ? { response_format: request.responseFormat } : {}),
+    ...(stream ? { stream: true } : {}),
+  });
+
+  return {
+    name: config.name,
+    models: config.models,
+    defaultModel: config.models[0],
+
+    configurationError: () =>
+      config.requiresApiKey && !config.apiKey
+        ? `${config.apiKeyVariable} fehlt – Bitte setzen Sie ${config.apiKeyVariable} in Ihrer Umgebungsvariablen.`
+        : null,
+
+    complete: async (request) => {
+      const response = await axios.post(`${config.baseUrl}/chat/completions`, requestBody(request, false), {
+        timeout,
+        signal: request.signal,
+        headers: requestHeaders(),
+      });
+      return response.data?.choices?.[0]?.message?.content || '';
+    },
+
+    stream: async (request, onDelta) => {
+      const response = await axios.post(`${config.baseUrl}/chat/completions`, requestBody(request, true), {
+        timeout,
+        responseType: 'stream',
+        signal: request.signal,
+        headers: requestHeaders(),
+      });
+
+      // Chunks can split multi-byte characters and SSE lines, so decode and buffer them
+      const decoder = new StringDecoder('utf8');
+      let buffer = '';
+      let content = '';
+
+      for await (const chunk of response.data) {
+        buffer += decoder.write(chunk);
+        let newlineIndex;
+        while ((newlineIndex = buffer.indexOf('\n')) !== -1) {
+          const line = buffer.slice(0, newlineIndex).trim();
+          buffer = buffer.slice(newlineIndex + 1);
+
+          // Ignore keep-alive comments such as ": OPENROUTER PROCESSING"
+          if (!line.startsWith('data:')) continue;
+          const payload = line.slice(5).trim();
+          if (payload === '[DONE]') return content;
+
+          let data: any;
+          try {
+            data = JSON.parse(payload);
+          } catch {
+            continue;
+          }
+          if (data.error) {
+            throw new Error(data.error.message || `Fehler im ${config.name}-Stream`);
+          }
+          const delta = data.choices?.[0]?.delta?.content;
+          if (delta) {
+            content += delta;
+            onDelta(delta);
+          }
+        }
+      }
+
+      return content;
+    },
+  };
+};
@@ -0,0 +1,24 @@
+import { createOpenAiCompatibleProvider } from './openaiCompatible';
+import { LlmProvider } from './types';
+
+export const DEFAULT_OPENROUTER_MODEL = 'x-ai/grok-4.1-fast:free';
+
+// Parse comma-separated models from an environment variable
+export const parseModelList = (value: string | undefined, fallback: string): string[] => {
+  const models = (value || '').split(',').map((m) => m.trim()).filter(Boolean);
+  return models.length > 0 ? models : [fallback];
+};
+
+export const createOpenRouterProvider = (): LlmProvider =>
+  createOpenAiCompatibleProvider({
+    name: 'OpenRouter',
+    baseUrl: process.env.OPENROUTER_BASE_URL || 'https://openrouter.ai/api/v1',
+    apiKey: process.env.OPENROUTER_API_KEY,
+    apiKeyVariable: 'OPENROUTER_API_KEY',
+    requiresApiKey: true,
+    models: parseModelList(process.env.OPENROUTER_MODEL, DEFAULT_OPENROUTER_MODEL),
+    headers: {
+      'HTTP-Referer': process.env.OPENROUTER_APP_URL || process.env.VERCEL_URL || 'http://localhost:3001',
+      'X-Title': 'Swiss Legal Assessment',
+    },
+  });
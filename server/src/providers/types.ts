@@ -0,0 +1,26 @@
+// --- LLM provider abstraction ---
+// The analysis routes only talk to an LlmProvider, so the app can run against
+// OpenRouter, a local OpenAI-compatible server (Ollama, llama.cpp) or the offline mock.
+
+export type ChatMessage = { role: 'system' | 'user' | 'assistant'; content: string };
+
+export type CompletionRequest = {
+  model: string;
+  messages: ChatMessage[];
+  // OpenAI-style response_format, e.g. a JSON schema for structured output
+  responseFormat?: Record<string, unknown>;
+  signal?: AbortSignal;
+};
+
+export interface LlmProvider {
+  // Human readable name used in logs and error messages
+  name: string;
+  models: string[];
+  defaultModel: string;
+  // Returns an error message if the provider cannot be used (e.g. missing API key)
+  configurationError: () => string | null;
+  // Resolves with the complete answer text
+  complete: (request: CompletionRequest) => Promise<string>;
+  // Calls onDelta for every received token chunk and resolves with the complete answer text
+  stream: (request: CompletionRequest, onDelta: (text: string) => void) => Promise<string>;
+}
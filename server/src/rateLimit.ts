@@ -0,0 +1,148 @@
+import { Request, Response, NextFunction } from 'express';
+
+// --- Rate limiting and login lockout ---
+// In-memory counters per IP address and per user. The server runs as a single
+// process, so no shared store is needed; counters start over after a restart.
+// Limits are read from the environment on every request, because dotenv is
+// loaded after the imports.
+
+const readNumber = (name: string, fallback: number): number => {
+  const value = parseFloat(process.env[name] || '');
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+};
+
+// Seconds until the client may try again, rounded up
+const toSeconds = (ms: number): number => Math.max(1, Math.ceil(ms / 1000));
+
+export const sendTooManyRequests = (res: Response, retryAfterMs: number, error: string) => {
+  const retryAfter = toSeconds(retryAfterMs);
+  res.setHeader('Retry-After', String(retryAfter));
+  return res.status(429).json({ error, retryAfter });
+};
+
+type Window = {
+  count: number;
+  resetAt: number;
+};
+
+type RateLimitOptions = {
+  // Environment variables for the limit and the window length (in seconds)
+  maxEnv: string;
+  windowEnv: string;
+  defaultMax: number;
+  defaultWindowSeconds: number;
+  // Key of the counter, e.g. the IP address or the user id; null skips the limit
+  key: (req: Request, res: Response) => string | null;
+  message: string;
+};
+
+// Fixed-window limiter: at most `max` requests per key and window
+export const createRateLimiter = (options: RateLimitOptions) => {
+  const windows = new Map<string, Window>();
+
+  const removeExpired = (now: number) => {
+    windows.forEach((window, key) => {
+      if (window.resetAt <= now) windows.delete(key);
+    });
+  };
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const key = options.key(req, res);
+    if (!key) return next();
+
+    const max = Math.floor(readNumber(options.maxEnv, options.defaultMax));
+    const windowMs = readNumber(options.windowEnv, options.defaultWindowSeconds) * 1000;
+    const now = Date.now();
+    if (windows.size > 10000) removeExpired(now);
+
+    let window = windows.get(key);
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + windowMs };
+      windows.set(key, window);
+    }
+    window.count++;
+
+    res.setHeader('RateLimit-Limit', String(max));
+    res.setHeader('RateLimit-Remaining', String(Math.max(0, max - window.count)));
+    if (window.count > max) {
+      return sendTooManyRequests(res, window.resetAt - now, options.message);
+    }
+    next();
+  };
+};
+
+// --- Login lockout ---
+// After LOGIN_MAX_ATTEMPTS failed logins for a username (LOGIN_MAX_ATTEMPTS_PER_IP
+// for an IP address) further attempts are blocked. Every additional failure doubles
+// the lockout, starting at LOGIN_LOCKOUT_SECONDS up to LOGIN_LOCKOUT_MAX_SECONDS.
+// Failures are forgotten after a successful login or an hour without failures.
+
+type LoginFailures = {
+  failures: number;
+  lastFailureAt: number;
+  lockedUntil: number;
+};
+
+const FAILURE_MEMORY_MS = 60 * 60 * 1000;
+
+const loginFailures = new Map<string, LoginFailures>();
+
+const getLoginKeys = (ip: string | undefined, username: string) => ({
+  user: `user:${username.trim().toLowerCase()}`,
+  ip: `ip:${ip || 'unknown'}`,
+});
+
+const getFailures = (key: string, now: number): LoginFailures | undefined => {
+  const entry = loginFailures.get(key);
+  if (entry && entry.lockedUntil <= now && now - entry.lastFailureAt > FAILURE_MEMORY_MS) {
+    loginFailures.delete(key);
+    return undefined;
+  }
+  return entry;
+};
+
+// Milliseconds the login is still locked for this username or IP address, 0 if not locked
+export const getLoginLockout = (ip: string | undefined, username: string): number => {
+  const now = Date.now();
+  const keys = getLoginKeys(ip, username);
+  const lockedUntil = Math.max(
+    getFailures(keys.user, now)?.lockedUntil || 0,
+    getFailures(keys.ip, now)?.lockedUntil || 0
+  );
+  return Math.max(0, lockedUntil - now);
+};
+
+// Returns the lockout in milliseconds that starts with this failure (0 if none)
+export const recordLoginFailure = (ip: string | undefined, username: string): number => {
+  const now = Date.now();
+  const keys = getLoginKeys(ip, username);
+  const baseMs = readNumber('LOGIN_LOCKOUT_SECONDS', 30) * 1000;
+  const maxMs = readNumber('LOGIN_LOCKOUT_MAX_SECONDS', 3600) * 1000;
+  const limits: [string, number][] = [
+    [keys.user, Math.floor(readNumber('LOGIN_MAX_ATTEMPTS', 5))],
+    [keys.ip, Math.floor(readNumber('LOGIN_MAX_ATTEMPTS_PER_IP', 20))],
+  ];
+
+  if (loginFailures.size > 10000) {
+    Array.from(loginFailures.keys()).forEach((key) => getFailures(key, now));
+  }
+
+  let lockoutMs = 0;
+  for (const [key, maxAttempts] of limits) {
+    const entry = getFailures(key, now) || { failures: 0, lastFailureAt: now, lockedUntil: 0 };
+    entry.failures++;
+    entry.lastFailureAt = now;
+    if (entry.failures >= maxAttempts) {
+      const duration = Math.min(maxMs, baseMs * 2 ** (entry.failures - maxAttempts));
+      entry.lockedUntil = now + duration;
+      lockoutMs = Math.max(lockoutMs, duration);
+    }
+    loginFailures.set(key, entry);
+  }
+  return lockoutMs;
+};
+
+// A successful login clears the failures of the username; the IP counter expires on its own
+export const resetLoginFailures = (username: string) => {
+  loginFailures.delete(getLoginKeys(undefined, username).user);
+};
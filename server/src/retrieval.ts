@@ -0,0 +1,200 @@
+import { LawArticle, LawParagraph } from './types';
+import { getAllArticles } from './corpus';
+
+// --- Law context retrieval (RAG) ---
+// Instead of sending every loaded article with each prompt, the individual
+// <paragraph> elements of all law corpora are ranked with BM25 against the text
+// to analyse. DSG articles every DSFA depends on are always included in full.
+
+export type RetrievalMode = 'full' | 'retrieved';
+
+// Definitions, principles, Privacy by Design, data security, DSFA and EDÖB consultation
+export const PINNED_ARTICLES = ['Art. 5', 'Art. 6', 'Art. 7', 'Art. 8', 'Art. 22', 'Art. 23'];
+const PINNED_LAW = 'DSG';
+
+// BM25 parameters (common defaults)
+const K1 = 1.2;
+const B = 0.75;
+
+const isPinned = (article: LawArticle, pinned: string[]): boolean =>
+  article.law === PINNED_LAW && pinned.includes(article.id);
+
+// --- German text analysis ---
+
+const STOPWORDS = new Set([
+  'aber', 'alle', 'als', 'also', 'am', 'an', 'auch', 'auf', 'aus', 'bei', 'bis', 'da', 'damit', 'dass',
+  'dem', 'den', 'der', 'des', 'die', 'dies', 'diese', 'dieser', 'dieses', 'durch', 'ein', 'eine', 'einem',
+  'einen', 'einer', 'eines', 'er', 'es', 'fuer', 'gegen', 'hat', 'haben', 'ihre', 'im', 'in', 'ist', 'ja',
+  'kann', 'kein', 'keine', 'mit', 'muss', 'nach', 'nicht', 'noch', 'nur', 'ob', 'oder', 'ohne', 'sein',
+  'sich', 'sie', 'sind', 'so', 'soll', 'sowie', 'ueber', 'um', 'und', 'uns', 'unter', 'vom', 'von', 'vor',
+  'war', 'was', 'wenn', 'werden', 'wie', 'wir', 'wird', 'wo', 'zu', 'zum', 'zur', 'zwischen',
+]);
+
+// Umlauts and ß are normalised so "Massnahmen"/"Maßnahmen" and "Gebühr"/"Gebuehr" match
+const normalizeUmlauts = (value: string): string =>
+  value
+    .toLowerCase()
+    .replace(/ä/g, 'ae')
+    .replace(/ö/g, 'oe')
+    .replace(/ü/g, 'ue')
+    .replace(/ß/g, 'ss');
+
+const SUFFIXES = ['heiten', 'keiten', 'ungen', 'heit', 'keit', 'ung', 'ern', 'em', 'en', 'er', 'es', 'e', 's', 'n'];
+const MIN_STEM_LENGTH = 4;
+
+// Light German stemmer: strips one inflectional/derivational suffix, keeping at least 4 characters
+const stem = (token: string): string => {
+  for (const suffix of SUFFIXES) {
+    if (token.endsWith(suffix) && token.length - suffix.length >= MIN_STEM_LENGTH) {
+      return token.slice(0, -suffix.length);
+    }
+  }
+  return token;
+};
+
+const tokenize = (value: string): string[] =>
+  (normalizeUmlauts(value).match(/[a-z]+/g) || []).filter((token) => token.length > 1 && !STOPWORDS.has(token));
+
+// Compounds are split into parts that occur in the corpus vocabulary,
+// e.g. "Gesundheitsdaten" -> "gesundheit" + "daten" (with optional linking "s")
+const MIN_COMPOUND_LENGTH = 8;
+const MIN_PART_LENGTH = 4;
+
+const splitCompound = (token: string, vocabulary: Set<string>): string[] => {
+  if (token.length < MIN_COMPOUND_LENGTH) return [];
+  for (let index = token.length - MIN_PART_LENGTH; index >= MIN_PART_LENGTH; index--) {
+    const head = token.slice(0, index);
+    const tail = stem(token.slice(index));
+    if (!vocabulary.has(tail)) continue;
+    const headStem = stem(head);
+    if (vocabulary.has(headStem)) return [headStem, tail];
+    if (head.endsWith('s') && vocabulary.has(stem(head.slice(0, -1)))) return [stem(head.slice(0, -1)), tail];
+  }
+  return [];
+};
+
+const analyze = (value: string, vocabulary?: Set<string>): string[] => {
+  const terms: string[] = [];
+  tokenize(value).forEach((token) => {
+    terms.push(stem(token));
+    if (vocabulary) terms.push(...splitCompound(token, vocabulary));
+  });
+  return terms;
+};
+
+// --- BM25 index over paragraphs ---
+
+type IndexedParagraph = {
+  article: LawArticle;
+  paragraph: LawParagraph;
+  termFrequencies: Map<string, number>;
+  length: number;
+};
+
+type Bm25Index = {
+  paragraphs: IndexedParagraph[];
+  documentFrequencies: Map<string, number>;
+  averageLength: number;
+  vocabulary: Set<string>;
+};
+
+const buildIndex = (articles: LawArticle[]): Bm25Index => {
+  const units = articles.flatMap((article) =>
+    (article.paragraphs || []).map((paragraph) => ({
+      article,
+      paragraph,
+      // The heading is part of every paragraph, it often names the topic the text only implies
+      content: `${article.heading} ${paragraph.text}`,
+    }))
+  );
+
+  // The vocabulary of simple stems is used to split compounds in a second pass
+  const vocabulary = new Set(units.flatMap(({ content }) => analyze(content)));
+
+  const documentFrequencies = new Map<string, number>();
+  const paragraphs = units.map(({ article, paragraph, content }) => {
+    const terms = analyze(content, vocabulary);
+    const termFrequencies = new Map<string, number>();
+    terms.forEach((term) => termFrequencies.set(term, (termFrequencies.get(term) || 0) + 1));
+    termFrequencies.forEach((_, term) => documentFrequencies.set(term, (documentFrequencies.get(term) || 0) + 1));
+    return { article, paragraph, termFrequencies, length: terms.length };
+  });
+
+  const totalLength = paragraphs.reduce((sum, p) => sum + p.length, 0);
+  return {
+    paragraphs,
+    documentFrequencies,
+    averageLength: paragraphs.length > 0 ? totalLength / paragraphs.length : 0,
+    vocabulary,
+  };
+};
+
+let lawIndex: Bm25Index | null = null;
+
+const getIndex = (): Bm25Index => {
+  if (!lawIndex) {
+    lawIndex = buildIndex(getAllArticles());
+  }
+  return lawIndex;
+};
+
+const scoreParagraphs = (query: string): Array<{ entry: IndexedParagraph; score: number }> => {
+  const index = getIndex();
+  const queryTerms = new Set(analyze(query, index.vocabulary));
+  const documentCount = index.paragraphs.length;
+
+  return index.paragraphs
+    .map((entry) => {
+      let score = 0;
+      queryTerms.forEach((term) => {
+        const frequency = entry.termFrequencies.get(term);
+        if (!frequency) return;
+        const documentFrequency = index.documentFrequencies.get(term) || 0;
+        const idf = Math.log(1 + (documentCount - documentFrequency + 0.5) / (documentFrequency + 0.5));
+        const normalization = K1 * (1 - B + (B * entry.length) / index.averageLength);
+        score += idf * ((frequency * (K1 + 1)) / (frequency + normalization));
+      });
+      return { entry, score };
+    })
+    .filter(({ score }) => score > 0)
+    .sort((a, b) => b.score - a.score);
+};
+
+const formatParagraphs = (paragraphs: LawParagraph[]): string =>
+  paragraphs.map((p) => (p.number ? `Abs. ${p.number}: ${p.text}` : p.text)).join(' ');
+
+// Return the pinned articles in full plus the best matching paragraphs, in the order of the laws.
+// Other analysis modes pin the DSG articles they depend on instead of the DSFA articles.
+export const retrieveLawContext = (query: string, limit: number, pinned: string[] = PINNED_ARTICLES): LawArticle[] => {
+  const articles = getAllArticles();
+  if (!articles.length) return [];
+
+  const selected = new Map<LawArticle, Set<LawParagraph>>();
+  scoreParagraphs(query)
+    .filter(({ entry }) => !isPinned(entry.article, pinned))
+    .slice(0, limit)
+    .forEach(({ entry }) => {
+      const paragraphs = selected.get(entry.article) || new Set<LawParagraph>();
+      paragraphs.add(entry.paragraph);
+      selected.set(entry.article, paragraphs);
+    });
+
+  return articles.flatMap((article) => {
+    if (isPinned(article, pinned)) {
+      return [article];
+    }
+    const paragraphs = selected.get(article);
+    if (!paragraphs) return [];
+    // Keep the paragraph order of the article
+    const ordered = (article.paragraphs || []).filter((p) => paragraphs.has(p));
+    return [{ ...article, text: formatParagraphs(ordered), paragraphs: ordered }];
+  });
+};
+
+// Law context for the prompt: all loaded articles or the retrieved subset
+export const getLawContext = (
+  query: string,
+  mode: RetrievalMode,
+  limit: number,
+  pinned: string[] = PINNED_ARTICLES
+): LawArticle[] => (mode === 'full' ? getAllArticles() : retrieveLawContext(query, limit, pinned));
@@ -0,0 +1,100 @@
+import { RiskCategory, RiskEntry, RiskRating } from './types';
+
+// --- Risk register ---
+// Every risk of the DSFA is rated for likelihood (Eintrittswahrscheinlichkeit) and
+// severity (Schwere) on a scale of 1-4, once before and once after the planned
+// measures. The overall risk level is derived from the highest rating after the
+// measures, so the heat map, the risk level and the review workflow always agree.
+
+export const LIKELIHOOD_LABELS: Record<RiskRating, string> = {
+  1: 'Unwahrscheinlich',
+  2: 'Möglich',
+  3: 'Wahrscheinlich',
+  4: 'Sehr wahrscheinlich',
+};
+
+export const SEVERITY_LABELS: Record<RiskRating, string> = {
+  1: 'Gering',
+  2: 'Begrenzt',
+  3: 'Erheblich',
+  4: 'Schwerwiegend',
+};
+
+export type RatedRiskLevel = 'LOW' | 'MEDIUM' | 'HIGH';
+
+const RISK_LEVEL_ORDER: RatedRiskLevel[] = ['LOW', 'MEDIUM', 'HIGH'];
+
+// Level of a cell of the 4×4 matrix: likelihood × severity of 9 or more is high, 4 to 8 medium
+export const getCellLevel = (likelihood: RiskRating, severity: RiskRating): RatedRiskLevel => {
+  const score = likelihood * severity;
+  if (score >= 9) return 'HIGH';
+  if (score >= 4) return 'MEDIUM';
+  return 'LOW';
+};
+
+// Overall risk level from the residual ratings; undefined without a register
+export const deriveRiskLevel = (risks: RiskEntry[] | undefined): RatedRiskLevel | undefined => {
+  if (!risks || risks.length === 0) return undefined;
+  return risks
+    .map((risk) => getCellLevel(risk.residualLikelihood, risk.residualSeverity))
+    .reduce((highest, level) =>
+      RISK_LEVEL_ORDER.indexOf(level) > RISK_LEVEL_ORDER.indexOf(highest) ? level : highest
+    );
+};
+
+export const isRiskRating = (value: unknown): value is RiskRating =>
+  value === 1 || value === 2 || value === 3 || value === 4;
+
+// First digit 1-4 of a field such as "3", "3 (wahrscheinlich)" or "W=3"
+const parseRating = (value: string): RiskRating | null => {
+  const match = value.match(/[1-4]/);
+  return match ? (Number(match[0]) as RiskRating) : null;
+};
+
+const parseCategory = (value: string): RiskCategory => (/sek/i.test(value) ? 'sekundär' : 'primär');
+
+const splitMeasures = (value: string): string[] =>
+  value
+    .split(';')
+    .map((measure) => measure.trim())
+    .filter((measure) => measure && !/^(?:-|–|keine)$/i.test(measure));
+
+// One line per risk in the text format, fields separated by "|":
+// ID | Kategorie | Risiko | Betroffene Personen | W | S | Massnahmen (durch ";" getrennt) | W netto | S netto
+export const formatRiskLine = (risk: RiskEntry): string =>
+  [
+    risk.id,
+    risk.category,
+    risk.description,
+    risk.affectedPersons,
+    risk.likelihood,
+    risk.severity,
+    risk.measures.join('; ') || '-',
+    risk.residualLikelihood,
+    risk.residualSeverity,
+  ].join(' | ');
+
+// Lines that do not have all nine fields or valid ratings are skipped
+export const parseRiskRegister = (block: string): RiskEntry[] =>
+  block
+    .split('\n')
+    .map((line) => line.replace(/^[-•*]\s*/, '').split('|').map((field) => field.trim()))
+    .filter((fields) => fields.length >= 9)
+    .flatMap((fields, index) => {
+      const [id, category, description, affectedPersons, likelihood, severity, measures, residualLikelihood, residualSeverity] =
+        fields;
+      const ratings = [likelihood, severity, residualLikelihood, residualSeverity].map(parseRating);
+      if (!description || ratings.some((rating) => rating === null)) return [];
+      const [l, s, rl, rs] = ratings as RiskRating[];
+      return [{
+        id: /^R?\d+$/i.test(id) ? id.toUpperCase().replace(/^(\d)/, 'R$1') : `R${index + 1}`,
+        category: parseCategory(category),
+        description,
+        affectedPersons,
+        likelihood: l,
+        severity: s,
+        measures: splitMeasures(measures),
+        residualLikelihood: rl,
+        residualSeverity: rs,
+      }];
+    });
@@ -0,0 +1,50 @@
+// --- Roles and permissions ---
+// A DSFA is written by the project owner (author), commented on by reviewers
+// and signed off by the Datenschutzberater (Art. 10 DSG). A user can hold several
+// roles; the permissions of all roles are combined.
+
+export type Role = 'author' | 'reviewer' | 'dpo' | 'admin';
+
+export type Permission =
+  | 'assessment:view'
+  | 'assessment:create'
+  | 'assessment:edit'
+  | 'assessment:delete'
+  | 'assessment:comment'
+  | 'assessment:approve'
+  | 'measures:edit'
+  | 'vendors:manage'
+  | 'register:edit'
+  | 'notice:edit'
+  | 'users:manage'
+  | 'audit:view';
+
+export const ROLES: Role[] = ['author', 'reviewer', 'dpo', 'admin'];
+
+export const ROLE_LABELS: Record<Role, string> = {
+  author: 'Autor/in',
+  reviewer: 'Prüfer/in',
+  dpo: 'Datenschutzberater/in',
+  admin: 'Administrator/in',
+};
+
+const ROLE_PERMISSIONS: Record<Role, Permission[]> = {
+  author: [
+    'assessment:view', 'assessment:create', 'assessment:edit', 'assessment:delete', 'assessment:comment', 'measures:edit',
+    'vendors:manage', 'register:edit', 'notice:edit',
+  ],
+  reviewer: ['assessment:view', 'assessment:comment'],
+  dpo: [
+    'assessment:view', 'assessment:comment', 'assessment:approve', 'measures:edit', 'vendors:manage', 'register:edit',
+    'notice:edit',
+  ],
+  admin: ['assessment:view', 'assessment:delete', 'users:manage', 'audit:view'],
+};
+
+export const isRole = (value: unknown): value is Role => ROLES.includes(value as Role);
+
+export const getPermissions = (roles: Role[]): Permission[] =>
+  Array.from(new Set(roles.flatMap((role) => ROLE_PERMISSIONS[role] || [])));
+
+export const hasPermission = (roles: Role[], permission: Permission): boolean =>
+  roles.some((role) => (ROLE_PERMISSIONS[role] || []).includes(permission));
@@ -0,0 +1,77 @@
+import fs from 'fs';
+import path from 'path';
+
+// --- File-based JSON storage ---
+// Every collection is persisted as one JSON file inside DATA_DIR. The data set of a
+// single installation is small (a few hundred assessments), so we keep each
+// collection in memory and rewrite the file atomically on every mutation.
+
+export const resolveDataDir = (): string =>
+  process.env.DATA_DIR
+    ? path.resolve(process.env.DATA_DIR)
+    : path.resolve(__dirname, '../../data');
+
+export type Collection<T extends { id: string }> = {
+  list: () => T[];
+  get: (id: string) => T | undefined;
+  insert: (item: T) => T;
+  update: (id: string, updater: (item: T) => T) => T | undefined;
+  remove: (id: string) => boolean;
+};
+
+export const createCollection = <T extends { id: string }>(name: string): Collection<T> => {
+  let items: T[] | null = null;
+
+  const filePath = (): string => path.join(resolveDataDir(), `${name}.json`);
+
+  // Lazily read the file so DATA_DIR is evaluated after dotenv has been loaded
+  const load = (): T[] => {
+    if (items) return items;
+    try {
+      const raw = fs.readFileSync(filePath(), 'utf-8');
+      const parsed = JSON.parse(raw);
+      items = Array.isArray(parsed) ? parsed : [];
+    } catch (err: any) {
+      if (err.code !== 'ENOENT') {
+        console.warn(`Konnte Datenbestand "${name}" nicht laden:`, err);
+      }
+      items = [];
+    }
+    return items;
+  };
+
+  const persist = () => {
+    const target = filePath();
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    // Write to a temporary file first so a crash never leaves a half-written collection
+    const tmpPath = `${target}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(items, null, 2), 'utf-8');
+    fs.renameSync(tmpPath, target);
+  };
+
+  return {
+    list: () => [...load()],
+    get: (id) => load().find((item) => item.id === id),
+    insert: (item) => {
+      load().push(item);
+      persist();
+      return item;
+    },
+    update: (id, updater) => {
+      const current = load();
+      const index = current.findIndex((item) => item.id === id);
+      if (index === -1) return undefined;
+      current[index] = updater(current[index]);
+      persist();
+      return current[index];
+    },
+    remove: (id) => {
+      const current = load();
+      const index = current.findIndex((item) => item.id === id);
+      if (index === -1) return false;
+      current.splice(index, 1);
+      persist();
+      return true;
+    },
+  };
+};
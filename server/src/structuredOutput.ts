@@ -0,0 +1,272 @@
+import { AnalysisResult, KnownInfo, RiskEntry } from './types';
+import { EMPTY_KNOWN_INFO, KNOWN_INFO_LABELS, cleanMarkdown } from './dsfa';
+import { deriveRiskLevel, formatRiskLine, isRiskRating } from './riskRegister';
+import { extractLegalReferences } from './legalReferences';
+import type { CompletionRequest, LlmProvider } from './providers';
+
+// --- JSON output mode ---
+// Instead of parsing labelled text sections with regexes, the model is asked for a
+// JSON object matching DSFA_JSON_SCHEMA. The result is validated on the server;
+// invalid output gets one repair pass before we fall back to the text parser.
+
+export type DsfaJson = {
+  needsMoreInfo: boolean;
+  message: string;
+  missingInfo: string[];
+  // Optional for models that ignore the schema; the prompt always asks for it
+  knownInfo?: KnownInfo;
+  summary: string;
+  description: string;
+  bruttorisiken: string;
+  massnahmen: string;
+  nettorisiken: string;
+  ergebnis: string;
+  // Optional like knownInfo; missing for models that ignore the schema
+  risks?: RiskEntry[];
+  riskLevel: 'LOW' | 'MEDIUM' | 'HIGH' | 'UNKNOWN';
+  recommendations: string[];
+};
+
+const TEXT_FIELDS = ['summary', 'description', 'bruttorisiken', 'massnahmen', 'nettorisiken', 'ergebnis'] as const;
+
+const RISK_LEVELS = ['LOW', 'MEDIUM', 'HIGH', 'UNKNOWN'];
+
+const KNOWN_INFO_KEYS = Object.keys(KNOWN_INFO_LABELS) as (keyof KnownInfo)[];
+
+const RATING_SCHEMA = { type: 'integer', enum: [1, 2, 3, 4] };
+
+const RISK_ENTRY_SCHEMA = {
+  type: 'object',
+  additionalProperties: false,
+  required: [
+    'id', 'category', 'description', 'affectedPersons', 'likelihood', 'severity', 'measures',
+    'residualLikelihood', 'residualSeverity',
+  ],
+  properties: {
+    id: { type: 'string', description: 'Kennung, z.B. R1' },
+    category: { type: 'string', enum: ['primär', 'sekundär'] },
+    description: { type: 'string', description: 'Beschreibung des Risikos' },
+    affectedPersons: { type: 'string', description: 'Betroffene Personen' },
+    likelihood: { ...RATING_SCHEMA, description: 'Eintrittswahrscheinlichkeit vor Massnahmen (1-4)' },
+    severity: { ...RATING_SCHEMA, description: 'Schwere vor Massnahmen (1-4)' },
+    measures: { type: 'array', items: { type: 'string' }, description: 'Zugeordnete Massnahmen' },
+    residualLikelihood: { ...RATING_SCHEMA, description: 'Eintrittswahrscheinlichkeit nach Massnahmen (1-4)' },
+    residualSeverity: { ...RATING_SCHEMA, description: 'Schwere nach Massnahmen (1-4)' },
+  },
+};
+
+// JSON schema sent as OpenRouter `response_format` (strict mode requires every property)
+export const DSFA_JSON_SCHEMA = {
+  type: 'object',
+  additionalProperties: false,
+  required: ['needsMoreInfo', 'message', 'missingInfo', 'knownInfo', ...TEXT_FIELDS, 'risks', 'riskLevel', 'recommendations'],
+  properties: {
+    needsMoreInfo: { type: 'boolean', description: 'true, wenn für die DSFA Informationen fehlen' },
+    message: { type: 'string', description: 'Freundliche Nachricht, falls Informationen fehlen' },
+    missingInfo: { type: 'array', items: { type: 'string' }, description: 'Fehlende Informationen' },
+    knownInfo: {
+      type: 'object',
+      additionalProperties: false,
+      required: KNOWN_INFO_KEYS,
+      properties: Object.fromEntries(
+        KNOWN_INFO_KEYS.map((key) => [key, { type: 'string', description: `${KNOWN_INFO_LABELS[key]}, soweit im Text genannt` }])
+      ),
+      description: 'Bereits im Text enthaltene Angaben zu den erforderlichen Informationen',
+    },
+    summary: { type: 'string', description: 'Zusammenfassung mit Rechtszitaten' },
+    description: { type: 'string', description: 'Beschreibung der geplanten Bearbeitung' },
+    bruttorisiken: { type: 'string', description: 'Potentiell hohe Bruttorisiken' },
+    massnahmen: { type: 'string', description: 'Geplante Massnahmen zur Senkung der Bruttorisiken' },
+    nettorisiken: { type: 'string', description: 'Verbleibende Nettorisiken' },
+    ergebnis: { type: 'string', description: 'Ergebnis der DSFA' },
+    risks: { type: 'array', items: RISK_ENTRY_SCHEMA, description: 'Risikoregister mit Bewertung vor und nach Massnahmen' },
+    riskLevel: { type: 'string', enum: RISK_LEVELS },
+    recommendations: { type: 'array', items: { type: 'string' }, description: 'Handlungsempfehlungen' },
+  },
+};
+
+export const DSFA_RESPONSE_FORMAT = {
+  type: 'json_schema',
+  json_schema: {
+    name: 'dsfa',
+    strict: true,
+    schema: DSFA_JSON_SCHEMA,
+  },
+};
+
+export type ValidationResult =
+  | { valid: true; data: DsfaJson }
+  | { valid: false; errors: string[] };
+
+// Models sometimes wrap JSON in code fences or add a sentence around it
+const extractJson = (content: string): unknown => {
+  const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  const candidate = fenced ? fenced[1] : content;
+  const start = candidate.indexOf('{');
+  const end = candidate.lastIndexOf('}');
+  if (start === -1 || end <= start) {
+    throw new Error('Kein JSON-Objekt in der Antwort gefunden.');
+  }
+  return JSON.parse(candidate.slice(start, end + 1));
+};
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === 'string');
+
+const isRiskEntry = (value: any): value is RiskEntry =>
+  Boolean(value) &&
+  typeof value === 'object' &&
+  ['id', 'description', 'affectedPersons'].every((key) => typeof value[key] === 'string') &&
+  (value.category === 'primär' || value.category === 'sekundär') &&
+  isStringArray(value.measures) &&
+  [value.likelihood, value.severity, value.residualLikelihood, value.residualSeverity].every(isRiskRating);
+
+// Validate the model output against DSFA_JSON_SCHEMA plus the semantic rules of the prompt
+export const validateDsfaJson = (content: string): ValidationResult => {
+  let value: any;
+  try {
+    value = extractJson(content);
+  } catch (err: any) {
+    return { valid: false, errors: [`Ungültiges JSON: ${err.message}`] };
+  }
+
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { valid: false, errors: ['Die Antwort muss ein JSON-Objekt sein.'] };
+  }
+
+  const errors: string[] = [];
+  if (typeof value.needsMoreInfo !== 'boolean') errors.push('"needsMoreInfo" muss ein Boolean sein.');
+  if (typeof value.message !== 'string') errors.push('"message" muss ein String sein.');
+  if (!isStringArray(value.missingInfo)) errors.push('"missingInfo" muss eine Liste von Strings sein.');
+  if (
+    value.knownInfo !== undefined &&
+    (!value.knownInfo || typeof value.knownInfo !== 'object' || KNOWN_INFO_KEYS.some((key) => typeof value.knownInfo[key] !== 'string'))
+  ) {
+    errors.push(`"knownInfo" muss ein Objekt mit den Feldern ${KNOWN_INFO_KEYS.join(', ')} (Strings) sein.`);
+  }
+  if (!isStringArray(value.recommendations)) errors.push('"recommendations" muss eine Liste von Strings sein.');
+  if (value.risks !== undefined && (!Array.isArray(value.risks) || !value.risks.every(isRiskEntry))) {
+    errors.push('"risks" muss eine Liste von Risiken mit Kategorie "primär" oder "sekundär" und Bewertungen von 1 bis 4 sein.');
+  }
+  if (!RISK_LEVELS.includes(value.riskLevel)) errors.push(`"riskLevel" muss einer von ${RISK_LEVELS.join(', ')} sein.`);
+  TEXT_FIELDS.forEach((field) => {
+    if (typeof value[field] !== 'string') errors.push(`"${field}" muss ein String sein.`);
+  });
+
+  if (errors.length === 0) {
+    if (value.needsMoreInfo) {
+      if (value.missingInfo.length === 0) {
+        errors.push('"missingInfo" darf nicht leer sein, wenn "needsMoreInfo" true ist.');
+      }
+    } else {
+      TEXT_FIELDS.forEach((field) => {
+        if (!value[field].trim()) errors.push(`"${field}" darf nicht leer sein.`);
+      });
+      if (value.riskLevel === 'UNKNOWN') errors.push('"riskLevel" muss LOW, MEDIUM oder HIGH sein.');
+      if (value.recommendations.length === 0) errors.push('"recommendations" darf nicht leer sein.');
+    }
+  }
+
+  return errors.length > 0 ? { valid: false, errors } : { valid: true, data: value as DsfaJson };
+};
+
+// Follow-up message asking the model to fix its previous answer
+export const createRepairPrompt = (errors: string[]): string =>
+  `Deine Antwort entspricht nicht dem geforderten JSON-Schema:
+${errors.map((error) => `- ${error}`).join('\n')}
+
+Antworte AUSSCHLIESSLICH mit dem korrigierten, vollständigen JSON-Objekt (ohne Erklärung, ohne Code-Block).`;
+
+// Asks the model to fix invalid output up to maxAttempts times; returns the last validation
+export const repairDsfaJson = async (
+  provider: LlmProvider,
+  request: CompletionRequest,
+  content: string,
+  maxAttempts: number
+): Promise<ValidationResult> => {
+  const messages = [...request.messages];
+  let answer = content;
+  let validation = validateDsfaJson(answer);
+  for (let attempt = 0; !validation.valid && attempt < maxAttempts; attempt++) {
+    console.warn(`Invalid structured output from ${request.model}, requesting repair:`, validation.errors);
+    messages.push(
+      { role: 'assistant', content: answer },
+      { role: 'user', content: createRepairPrompt(validation.errors) }
+    );
+    answer = await provider.complete({ ...request, messages });
+    validation = validateDsfaJson(answer);
+  }
+  return validation;
+};
+
+// Render the JSON result in the labelled text format so the full analysis view,
+// the PDF export and citation extraction work the same in both output modes
+export const renderDsfaText = (data: DsfaJson): string => {
+  if (data.needsMoreInfo) {
+    return [
+      'INFORMATIONEN_FEHLEN: true',
+      `FREUNDLICHE_NACHRICHT: ${data.message}`,
+      'FEHLENDE_INFORMATIONEN:',
+      ...data.missingInfo.map((item) => `- ${item}`),
+      'BEKANNTE_INFORMATIONEN:',
+      ...KNOWN_INFO_KEYS.map((key) => `${KNOWN_INFO_LABELS[key]}: ${data.knownInfo?.[key] || ''}`),
+    ].join('\n');
+  }
+
+  return [
+    `ZUSAMMENFASSUNG:\n${data.summary}`,
+    `BESCHREIBUNG DER GEPLANTEN BEARBEITUNG:\n${data.description}`,
+    `POTENTIELL HOHE BRUTTORISIKEN:\n${data.bruttorisiken}`,
+    `GEPLANTE MASSNAHMEN ZUR SENKUNG DER BRUTTORISIKEN:\n${data.massnahmen}`,
+    `VERBLEIBENDE NETTORISIKEN:\n${data.nettorisiken}`,
+    ...(data.risks && data.risks.length > 0 ? [`RISIKOREGISTER:\n${data.risks.map(formatRiskLine).join('\n')}`] : []),
+    `ERGEBNIS:\n${data.ergebnis}`,
+    `RISK_LEVEL: ${deriveRiskLevel(data.risks) || data.riskLevel}`,
+    `EMPFEHLUNGEN:\n${data.recommendations.map((rec, index) => `${index + 1}. ${rec}`).join('\n')}`,
+  ].join('\n\n');
+};
+
+export const jsonToAnalysisResult = (data: DsfaJson): AnalysisResult => {
+  const analysis = renderDsfaText(data);
+
+  if (data.needsMoreInfo) {
+    return {
+      summary: '',
+      riskLevel: 'UNKNOWN',
+      analysis,
+      recommendations: [],
+      legalReferences: [],
+      needsMoreInfo: true,
+      missingInfo: data.missingInfo.map((item) => item.trim()).filter(Boolean),
+      knownInfo: data.knownInfo
+        ? (Object.fromEntries(KNOWN_INFO_KEYS.map((key) => [key, cleanMarkdown(data.knownInfo?.[key]?.trim() || '')])) as KnownInfo)
+        : { ...EMPTY_KNOWN_INFO },
+      message: cleanMarkdown(data.message.trim()) || 'Für eine vollständige DSFA benötigen wir noch zusätzliche Informationen.',
+    };
+  }
+
+  const recommendations = data.recommendations.map((rec) => cleanMarkdown(rec.trim())).filter(Boolean);
+  const risks = (data.risks || []).map((risk, index) => ({
+    ...risk,
+    id: risk.id.trim() || `R${index + 1}`,
+    description: cleanMarkdown(risk.description.trim()),
+    affectedPersons: cleanMarkdown(risk.affectedPersons.trim()),
+    measures: risk.measures.map((measure) => cleanMarkdown(measure.trim())).filter(Boolean),
+  }));
+
+  return {
+    summary: cleanMarkdown(data.summary.trim()),
+    // The register takes precedence over the stated level, as in the text parser
+    riskLevel: deriveRiskLevel(risks) || data.riskLevel,
+    analysis,
+    recommendations: recommendations.length > 0 ? recommendations : ['Keine Empfehlungen vorhanden.'],
+    legalReferences: extractLegalReferences(analysis),
+    description: cleanMarkdown(data.description.trim()),
+    bruttorisiken: cleanMarkdown(data.bruttorisiken.trim()),
+    massnahmen: cleanMarkdown(data.massnahmen.trim()),
+    nettorisiken: cleanMarkdown(data.nettorisiken.trim()),
+    ergebnis: cleanMarkdown(data.ergebnis.trim()),
+    risks: risks.length > 0 ? risks : undefined,
+    needsMoreInfo: false,
+  };
+};
@@ -0,0 +1,164 @@
+// Shared types for the DSFA analysis pipeline
+
+export type LawParagraph = {
+  // Paragraph number ("Abs."), empty for articles with a single paragraph
+  number: string;
+  text: string;
+};
+
+export type LawArticle = {
+  id: string;
+  // Law abbreviation and SR number, e.g. "DSG" / "235.1"
+  law: string;
+  srNumber: string;
+  heading: string;
+  text: string;
+  paragraphs?: LawParagraph[];
+};
+
+// verified: article (and Abs.) exist in the loaded law text
+// invalid: the article or paragraph does not exist
+// unverifiable: the law is not loaded, so the citation could not be checked
+export type CitationStatus = 'verified' | 'invalid' | 'unverifiable';
+
+export interface LegalReference {
+  law: string;
+  article?: string;
+  paragraph?: string;
+  // Letter of an enumeration, e.g. "d" in "Art. 16 Abs. 2 lit. d DSG"
+  letter?: string;
+  text: string;
+  url: string;
+  // Corpus id for the law browser, set when the law text is loaded
+  lawId?: string;
+  status?: CitationStatus;
+  // Reason shown to reviewers for invalid or unverifiable citations
+  statusNote?: string;
+  // Heading and wording of the cited article or paragraph
+  heading?: string;
+  sourceText?: string;
+}
+
+// The six inputs a DSFA needs (see createPrompt). When information is missing, the
+// model reports what the text already says, so the questionnaire can be pre-filled.
+export type KnownInfo = {
+  zweck: string;
+  betroffenePersonen: string;
+  datenkategorien: string;
+  umfang: string;
+  technischeUmsetzung: string;
+  rechtfertigungsgrund: string;
+};
+
+// Rating of likelihood or severity: 1 (lowest) to 4 (highest)
+export type RiskRating = 1 | 2 | 3 | 4;
+
+// Primärrisiken concern privacy and informational self-determination,
+// Sekundärrisiken further legal interests and fundamental rights
+export type RiskCategory = 'primär' | 'sekundär';
+
+// One risk of the register, rated before (brutto) and after the measures (netto)
+export type RiskEntry = {
+  id: string;
+  description: string;
+  category: RiskCategory;
+  affectedPersons: string;
+  likelihood: RiskRating;
+  severity: RiskRating;
+  // Measures of the MASSNAHMEN section that reduce this risk
+  measures: string[];
+  residualLikelihood: RiskRating;
+  residualSeverity: RiskRating;
+};
+
+// adequate: listed in Anhang 1 DSV; conditional: listed for certain recipients only
+export type Adequacy = 'adequate' | 'conditional' | 'not_adequate';
+
+export type TransferMechanism = 'adequacy' | 'scc' | 'bcr' | 'consent';
+
+// A foreign country personal data is disclosed to (Art. 16/17 DSG)
+export type TransferRecipient = {
+  // ISO 3166 country code
+  country: string;
+  countryName: string;
+  adequacy: Adequacy;
+  // Providers found in the input that are based in this country
+  providers: string[];
+  mechanism: TransferMechanism;
+  mechanismLabel: string;
+  // Whether the input names the mechanism (always true for adequate countries)
+  safeguardInPlace: boolean;
+  note: string;
+};
+
+// Transfer section derived from the input text, not from the model response
+export type TransferAssessment = {
+  recipients: TransferRecipient[];
+  // A disclosure abroad is mentioned without naming the country
+  unspecified: boolean;
+  legalReferences: LegalReference[];
+  // Date of the country list (Anhang 1 DSV) the assessment is based on
+  listDate: string;
+};
+
+export type SubProcessor = {
+  name: string;
+  country: string;
+  purpose?: string;
+};
+
+// Processor (Auftragsbearbeiter, Art. 9 DSG) as described in the vendor registry
+export type VendorProfile = {
+  name: string;
+  // Country of the registered office
+  seat: string;
+  hostingLocations: string[];
+  subProcessors: SubProcessor[];
+  certifications: string[];
+  // Auftragsbearbeitungsvertrag signed
+  dpaSigned: boolean;
+  // Standard data protection clauses signed (needed for countries without adequate protection)
+  sccSigned: boolean;
+  // Technical and organisational measures documented by the vendor
+  securityDocumented: boolean;
+  // Sub-processors approved in advance (Art. 9 Abs. 3 DSG)
+  subProcessorsApproved: boolean;
+};
+
+export type VendorRequirement = 'contract' | 'security' | 'subprocessors' | 'transfer';
+
+// Art. 9 requirement that is not met, phrased as the missing measure
+export type VendorGap = {
+  requirement: VendorRequirement;
+  category: 'rechtlich' | 'organisatorisch' | 'technisch';
+  measure: string;
+};
+
+// Vendor data at the time of the analysis with the gaps found
+export type VendorCheck = {
+  vendorId: string;
+  vendor: VendorProfile;
+  gaps: VendorGap[];
+};
+
+// Structured DSFA data extracted from the model response
+export interface AnalysisResult {
+  summary: string;
+  riskLevel: string;
+  analysis: string;
+  recommendations: string[];
+  legalReferences: LegalReference[];
+  description?: string;
+  bruttorisiken?: string;
+  massnahmen?: string;
+  nettorisiken?: string;
+  ergebnis?: string;
+  risks?: RiskEntry[];
+  transfers?: TransferAssessment;
+  // Processors attached to the assessment
+  vendors?: VendorCheck[];
+  needsMoreInfo?: boolean;
+  missingInfo?: string[];
+  knownInfo?: KnownInfo;
+  message?: string;
+}
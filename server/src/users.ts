@@ -0,0 +1,167 @@
+import crypto from 'crypto';
+import { createCollection } from './storage';
+import { Role, isRole } from './roles';
+
+// --- User accounts ---
+// Every reviewer signs in with an individual account. Passwords are stored as
+// salted scrypt hashes ("scrypt$<salt>$<hash>"), never in plaintext.
+
+export type StoredUser = {
+  id: string;
+  username: string;
+  displayName: string;
+  roles: Role[];
+  passwordHash: string;
+  createdAt: string;
+};
+
+// Shape returned by the API (without the password hash)
+export type PublicUser = {
+  id: string;
+  username: string;
+  displayName: string;
+  roles: Role[];
+  createdAt: string;
+};
+
+export type NewUserData = {
+  username: string;
+  password: string;
+  displayName?: string;
+  roles?: Role[];
+};
+
+export type UserUpdate = {
+  displayName?: string;
+  roles?: Role[];
+  password?: string;
+};
+
+export const MIN_PASSWORD_LENGTH = 10;
+const USERNAME_PATTERN = /^[a-z0-9._-]{2,40}$/;
+const SCRYPT_KEY_LENGTH = 64;
+
+const users = createCollection<StoredUser>('users');
+
+const normalizeUsername = (username: string): string => username.trim().toLowerCase();
+
+export const hashPassword = (password: string): string => {
+  const salt = crypto.randomBytes(16).toString('hex');
+  const hash = crypto.scryptSync(password, salt, SCRYPT_KEY_LENGTH).toString('hex');
+  return `scrypt$${salt}$${hash}`;
+};
+
+export const verifyPassword = (password: string, passwordHash: string): boolean => {
+  const [scheme, salt, hash] = passwordHash.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  const expected = Buffer.from(hash, 'hex');
+  const actual = crypto.scryptSync(password, salt, expected.length);
+  return crypto.timingSafeEqual(actual, expected);
+};
+
+// Hash of a random password, so unknown usernames take as long as wrong passwords
+const DUMMY_PASSWORD_HASH = hashPassword(crypto.randomBytes(16).toString('hex'));
+
+export const toPublicUser = (user: StoredUser): PublicUser => ({
+  id: user.id,
+  username: user.username,
+  displayName: user.displayName,
+  roles: user.roles,
+  createdAt: user.createdAt,
+});
+
+export const listUsers = (): PublicUser[] =>
+  users
+    .list()
+    .map(toPublicUser)
+    .sort((a, b) => a.username.localeCompare(b.username));
+
+export const getUser = (id: string): StoredUser | undefined => users.get(id);
+
+export const findUserByUsername = (username: string): StoredUser | undefined => {
+  const normalized = normalizeUsername(username);
+  return users.list().find((user) => user.username === normalized);
+};
+
+export const validatePassword = (password: string): string | null =>
+  password.length < MIN_PASSWORD_LENGTH
+    ? `Das Passwort muss mindestens ${MIN_PASSWORD_LENGTH} Zeichen lang sein.`
+    : null;
+
+export const validateRoles = (roles: unknown): string | null =>
+  Array.isArray(roles) && roles.length > 0 && roles.every(isRole)
+    ? null
+    : 'Bitte mindestens eine gültige Rolle angeben (author, reviewer, dpo, admin).';
+
+// Returns an error message for invalid account data, or null
+export const validateNewUser = (data: NewUserData): string | null => {
+  if (!USERNAME_PATTERN.test(normalizeUsername(data.username))) {
+    return 'Der Benutzername muss 2-40 Zeichen lang sein (Buchstaben, Ziffern, ".", "_" oder "-").';
+  }
+  if (findUserByUsername(data.username)) {
+    return 'Dieser Benutzername ist bereits vergeben.';
+  }
+  if (data.roles !== undefined) {
+    const rolesError = validateRoles(data.roles);
+    if (rolesError) return rolesError;
+  }
+  return validatePassword(data.password);
+};
+
+export const createUser = (data: NewUserData): StoredUser => {
+  const username = normalizeUsername(data.username);
+  return users.insert({
+    id: crypto.randomUUID(),
+    username,
+    displayName: data.displayName?.trim() || username,
+    // New accounts author assessments unless other roles are given
+    roles: data.roles && data.roles.length > 0 ? Array.from(new Set(data.roles)) : ['author'],
+    passwordHash: hashPassword(data.password),
+    createdAt: new Date().toISOString(),
+  });
+};
+
+export const changePassword = (id: string, password: string): boolean =>
+  Boolean(users.update(id, (user) => ({ ...user, passwordHash: hashPassword(password) })));
+
+export const updateUser = (id: string, update: UserUpdate): StoredUser | undefined =>
+  users.update(id, (user) => ({
+    ...user,
+    displayName: update.displayName?.trim() || user.displayName,
+    roles: update.roles ? Array.from(new Set(update.roles)) : user.roles,
+    passwordHash: update.password ? hashPassword(update.password) : user.passwordHash,
+  }));
+
+// The last administrator must not lose the admin role, otherwise nobody can manage accounts
+export const isLastAdmin = (id: string): boolean => {
+  const admins = users.list().filter((user) => user.roles.includes('admin'));
+  return admins.length === 1 && admins[0].id === id;
+};
+
+// Returns the user if username and password match
+export const authenticate = (username: string, password: string): StoredUser | null => {
+  const user = findUserByUsername(username);
+  if (!user) {
+    verifyPassword(password, DUMMY_PASSWORD_HASH);
+    return null;
+  }
+  return verifyPassword(password, user.passwordHash) ? user : null;
+};
+
+// Without any account nobody could sign in, so the first start creates an
+// administrator from ADMIN_USERNAME / ADMIN_PASSWORD (APP_PASSWORD for existing installations).
+// There is no default password: without one no account is created.
+export const ensureInitialUser = (): void => {
+  if (users.list().length > 0) return;
+
+  const username = normalizeUsername(process.env.ADMIN_USERNAME || 'admin');
+  const password = process.env.ADMIN_PASSWORD || process.env.APP_PASSWORD;
+  if (!password) {
+    console.error(
+      'Error: No user accounts exist and ADMIN_PASSWORD is not set. No account was created - set ADMIN_PASSWORD and restart the server.'
+    );
+    return;
+  }
+  createUser({ username, password, displayName: 'Administrator', roles: ['admin', 'author'] });
+  console.log(`Created initial user account "${username}"`);
+};
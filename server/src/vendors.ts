@@ -0,0 +1,189 @@
+import crypto from 'crypto';
+import { createCollection } from './storage';
+import { SubProcessor, VendorCheck, VendorGap, VendorProfile } from './types';
+import { getLocationAdequacy } from './crossBorder';
+import type { UserRef } from './assessments';
+
+// --- Processors (Auftragsbearbeitung, Art. 9 DSG) ---
+// Vendors are kept in a registry and attached to assessments. Each vendor is checked
+// against the requirements of Art. 9 DSG: a contract, data security, approved
+// sub-processors and, for countries without adequate protection, safeguards under
+// Art. 16 Abs. 2 DSG. Gaps are phrased as measures, so they end up in the measures
+// tracker like the measures of the model.
+
+export type Vendor = VendorProfile & {
+  id: string;
+  createdBy: UserRef;
+  createdAt: string;
+  updatedBy?: UserRef;
+  updatedAt?: string;
+};
+
+const MAX_NAME_LENGTH = 100;
+const MAX_LIST_ITEMS = 20;
+const MAX_SUB_PROCESSORS = 50;
+
+const vendors = createCollection<Vendor>('vendors');
+
+export const listVendors = (): Vendor[] =>
+  vendors.list().sort((a, b) => a.name.localeCompare(b.name, 'de'));
+
+export const getVendor = (id: string): Vendor | undefined => vendors.get(id);
+
+const isText = (value: unknown, required: boolean): value is string =>
+  typeof value === 'string' && value.trim().length <= MAX_NAME_LENGTH && (!required || value.trim().length > 0);
+
+const parseTextList = (value: unknown): string[] | null => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.length > MAX_LIST_ITEMS || !value.every((item) => isText(item, true))) return null;
+  return Array.from(new Set(value.map((item: string) => item.trim())));
+};
+
+const parseSubProcessors = (value: unknown): SubProcessor[] | null => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.length > MAX_SUB_PROCESSORS) return null;
+  const items: SubProcessor[] = [];
+  for (const entry of value) {
+    const item = (entry && typeof entry === 'object' ? entry : {}) as Record<string, unknown>;
+    if (!isText(item.name, true) || !isText(item.country, true)) return null;
+    if (item.purpose !== undefined && !isText(item.purpose, false)) return null;
+    items.push({ name: item.name.trim(), country: item.country.trim(), purpose: item.purpose?.trim() || undefined });
+  }
+  return items;
+};
+
+// Returns the vendor data or an error message; fields missing in an update keep their value
+export const parseVendorProfile = (body: unknown, existing?: VendorProfile): { data: VendorProfile } | { error: string } => {
+  const input: Record<string, unknown> = { ...existing, ...(body && typeof body === 'object' ? body : {}) };
+  if (!isText(input.name, true)) {
+    return { error: `Bitte einen Namen mit höchstens ${MAX_NAME_LENGTH} Zeichen angeben.` };
+  }
+  if (!isText(input.seat, true)) {
+    return { error: 'Bitte den Sitz des Auftragsbearbeiters angeben (Land).' };
+  }
+  const hostingLocations = parseTextList(input.hostingLocations);
+  const certifications = parseTextList(input.certifications);
+  if (!hostingLocations || !certifications) {
+    return { error: `Hosting-Standorte und Zertifizierungen: höchstens ${MAX_LIST_ITEMS} Einträge mit je höchstens ${MAX_NAME_LENGTH} Zeichen.` };
+  }
+  const subProcessors = parseSubProcessors(input.subProcessors);
+  if (!subProcessors) {
+    return { error: `Unterauftragsbearbeiter benötigen Name und Land (höchstens ${MAX_SUB_PROCESSORS} Einträge).` };
+  }
+  const flags = ['dpaSigned', 'sccSigned', 'securityDocumented', 'subProcessorsApproved'] as const;
+  if (flags.some((flag) => input[flag] !== undefined && typeof input[flag] !== 'boolean')) {
+    return { error: 'Vertrags- und Nachweisangaben müssen true oder false sein.' };
+  }
+  return {
+    data: {
+      name: input.name.trim(),
+      seat: input.seat.trim(),
+      hostingLocations,
+      subProcessors,
+      certifications,
+      dpaSigned: Boolean(input.dpaSigned),
+      sccSigned: Boolean(input.sccSigned),
+      securityDocumented: Boolean(input.securityDocumented),
+      subProcessorsApproved: Boolean(input.subProcessorsApproved),
+    },
+  };
+};
+
+export const createVendor = (data: VendorProfile, createdBy: UserRef): Vendor =>
+  vendors.insert({ ...data, id: crypto.randomUUID(), createdBy, createdAt: new Date().toISOString() });
+
+export const updateVendor = (id: string, data: VendorProfile, updatedBy: UserRef): Vendor | undefined =>
+  vendors.update(id, (vendor) => ({ ...vendor, ...data, updatedBy, updatedAt: new Date().toISOString() }));
+
+export const deleteVendor = (id: string): boolean => vendors.remove(id);
+
+const toProfile = (vendor: Vendor): VendorProfile => ({
+  name: vendor.name,
+  seat: vendor.seat,
+  hostingLocations: vendor.hostingLocations,
+  subProcessors: vendor.subProcessors,
+  certifications: vendor.certifications,
+  dpaSigned: vendor.dpaSigned,
+  sccSigned: vendor.sccSigned,
+  securityDocumented: vendor.securityDocumented,
+  subProcessorsApproved: vendor.subProcessorsApproved,
+});
+
+// Seat, hosting locations and sub-processors outside Switzerland without adequate protection.
+// Certifications count as evidence for conditionally listed countries (e.g. DPF for the USA).
+const findTransferGaps = (vendor: VendorProfile): VendorGap[] => {
+  const evidence = vendor.certifications.join('\n');
+  const locations = [vendor.seat, ...vendor.hostingLocations, ...vendor.subProcessors.map((item) => item.country)]
+    .map((location) => getLocationAdequacy(location, evidence));
+  const notAdequate = Array.from(new Set(locations.filter((item) => item.status === 'not_adequate').map((item) => item.country)));
+  const unknown = Array.from(new Set(locations.filter((item) => item.status === 'unknown').map((item) => item.country)));
+  const gaps: VendorGap[] = [];
+  if (notAdequate.length > 0 && !vendor.sccSigned) {
+    gaps.push({
+      requirement: 'transfer',
+      category: 'rechtlich',
+      measure: `Standarddatenschutzklauseln mit ${vendor.name} für die Bekanntgabe nach ${notAdequate.join(', ')} abschliessen (Art. 16 Abs. 2 lit. d DSG).`,
+    });
+  }
+  if (unknown.length > 0) {
+    gaps.push({
+      requirement: 'transfer',
+      category: 'rechtlich',
+      measure: `Standort ${unknown.join(', ')} von ${vendor.name} einem Staat zuordnen und prüfen, ob ein angemessener Schutz besteht (Art. 16 Abs. 1 DSG).`,
+    });
+  }
+  return gaps;
+};
+
+export const checkVendor = (vendor: VendorProfile): VendorGap[] => {
+  const gaps: VendorGap[] = [];
+  if (!vendor.dpaSigned) {
+    gaps.push({
+      requirement: 'contract',
+      category: 'rechtlich',
+      measure: `Auftragsbearbeitungsvertrag mit ${vendor.name} abschliessen, der die Bearbeitung auf die Zwecke des Verantwortlichen beschränkt (Art. 9 Abs. 1 DSG).`,
+    });
+  }
+  if (!vendor.securityDocumented && vendor.certifications.length === 0) {
+    gaps.push({
+      requirement: 'security',
+      category: 'technisch',
+      measure: `Nachweise von ${vendor.name} zu den technischen und organisatorischen Massnahmen einholen und prüfen (Art. 9 Abs. 2 DSG, Art. 8 DSG).`,
+    });
+  }
+  if (vendor.subProcessors.length > 0 && !vendor.subProcessorsApproved) {
+    gaps.push({
+      requirement: 'subprocessors',
+      category: 'organisatorisch',
+      measure: `Vorgängige Genehmigung für die Unterauftragsbearbeiter von ${vendor.name} erteilen oder verweigern (${vendor.subProcessors.map((item) => item.name).join(', ')}; Art. 9 Abs. 3 DSG).`,
+    });
+  }
+  return [...gaps, ...findTransferGaps(vendor)];
+};
+
+export const toVendorCheck = (vendor: Vendor): VendorCheck => ({
+  vendorId: vendor.id,
+  vendor: toProfile(vendor),
+  gaps: checkVendor(vendor),
+});
+
+export const formatVendorsForPrompt = (checks: VendorCheck[] | undefined): string => {
+  if (!checks || checks.length === 0) return '';
+  const lines = checks.map(({ vendor, gaps }) => {
+    const details = [
+      `Sitz: ${vendor.seat}`,
+      vendor.hostingLocations.length > 0 ? `Hosting: ${vendor.hostingLocations.join(', ')}` : '',
+      vendor.subProcessors.length > 0
+        ? `Unterauftragsbearbeiter: ${vendor.subProcessors.map((item) => `${item.name} (${item.country})`).join(', ')}`
+        : '',
+      vendor.certifications.length > 0 ? `Zertifizierungen: ${vendor.certifications.join(', ')}` : '',
+      `Auftragsbearbeitungsvertrag: ${vendor.dpaSigned ? 'ja' : 'nein'}`,
+      `Standarddatenschutzklauseln: ${vendor.sccSigned ? 'ja' : 'nein'}`,
+    ].filter(Boolean);
+    const status = gaps.length > 0 ? `Lücken: ${gaps.map((gap) => gap.measure).join(' ')}` : 'Keine Lücken nach Art. 9 DSG.';
+    return `- ${vendor.name} (${details.join('; ')}). ${status}`;
+  });
+  return `AUFTRAGSBEARBEITER (Art. 9 DSG, aus dem Verzeichnis der Auftragsbearbeiter):
+${lines.join('\n')}
+Berücksichtige diese Auftragsbearbeiter in der Beschreibung, den Bruttorisiken und im Risikoregister. Die genannten Lücken werden automatisch als fehlende Massnahmen erfasst; wiederhole sie nicht wörtlich im Abschnitt MASSNAHMEN.`;
+};
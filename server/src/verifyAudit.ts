@@ -0,0 +1,27 @@
+import path from 'path';
+import fs from 'fs';
+import dotenv from 'dotenv';
+import { getAuditLogPath, verifyAuditLog } from './audit';
+
+// Verifies the hash chain of the audit log:
+//   npm run audit:verify                  (audit log in DATA_DIR)
+//   npm run audit:verify -- export.jsonl  (an exported copy)
+// Exits with code 1 if the log has been tampered with.
+
+const envPath = [path.resolve(process.cwd(), '..', '.env'), path.resolve(process.cwd(), '.env')].find((candidate) =>
+  fs.existsSync(candidate)
+);
+dotenv.config(envPath ? { path: envPath } : undefined);
+
+const filePath = process.argv[2] ? path.resolve(process.argv[2]) : getAuditLogPath();
+const result = verifyAuditLog(filePath);
+
+console.log(`Audit-Log: ${filePath}`);
+console.log(`Geprüfte Einträge: ${result.entries}`);
+console.log(`Letzter Hash: ${result.headHash}`);
+if (result.valid) {
+  console.log('Die Hash-Kette ist intakt.');
+} else {
+  console.error(`Manipulation erkannt in Zeile ${result.error?.line}: ${result.error?.message}`);
+  process.exit(1);
+}
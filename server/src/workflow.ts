@@ -0,0 +1,80 @@
+import { Permission } from './roles';
+
+// --- Review and approval workflow ---
+// Entwurf → In Prüfung → Freigegeben / Zurückgewiesen → Überarbeitung → In Prüfung ...
+// Every transition is recorded with user, time and the version it refers to, so
+// the sign-off of a DSFA can be traced later.
+
+export type AssessmentStatus = 'draft' | 'in_review' | 'approved' | 'rejected' | 'revision';
+
+export const STATUS_LABELS: Record<AssessmentStatus, string> = {
+  draft: 'Entwurf',
+  in_review: 'In Prüfung',
+  approved: 'Freigegeben',
+  rejected: 'Zurückgewiesen',
+  revision: 'Überarbeitung',
+};
+
+type TransitionRule = {
+  to: AssessmentStatus;
+  permission: Permission;
+};
+
+// Authors submit and revise, the data protection officer decides
+const TRANSITIONS: Record<AssessmentStatus, TransitionRule[]> = {
+  draft: [{ to: 'in_review', permission: 'assessment:edit' }],
+  in_review: [
+    { to: 'approved', permission: 'assessment:approve' },
+    { to: 'rejected', permission: 'assessment:approve' },
+  ],
+  approved: [{ to: 'revision', permission: 'assessment:edit' }],
+  rejected: [{ to: 'revision', permission: 'assessment:edit' }],
+  revision: [{ to: 'in_review', permission: 'assessment:edit' }],
+};
+
+export const isAssessmentStatus = (value: unknown): value is AssessmentStatus =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(STATUS_LABELS, value);
+
+export const getTransitionPermission = (from: AssessmentStatus, to: AssessmentStatus): Permission | null =>
+  TRANSITIONS[from].find((rule) => rule.to === to)?.permission || null;
+
+type TransitionCheck = {
+  from: AssessmentStatus;
+  to: AssessmentStatus;
+  riskLevel: string;
+  needsMoreInfo: boolean;
+  note?: string;
+  // Acting user and the users responsible for the version under review
+  actorId: string;
+  authorIds: string[];
+};
+
+// Returns why a transition is not allowed (independent of the user's permissions), or null
+export const validateTransition = ({
+  from,
+  to,
+  riskLevel,
+  needsMoreInfo,
+  note,
+  actorId,
+  authorIds,
+}: TransitionCheck): string | null => {
+  if (!getTransitionPermission(from, to)) {
+    return `Statuswechsel von «${STATUS_LABELS[from]}» zu «${STATUS_LABELS[to]}» ist nicht möglich.`;
+  }
+  if (to === 'in_review' && needsMoreInfo) {
+    return 'Eine Analyse mit fehlenden Informationen kann nicht zur Prüfung eingereicht werden.';
+  }
+  // Four-eyes principle: whoever submitted or wrote the version cannot decide on it
+  if ((to === 'approved' || to === 'rejected') && authorIds.includes(actorId)) {
+    return 'Eine selbst eingereichte oder erstellte DSFA muss von einer anderen Person geprüft werden.';
+  }
+  // A high risk may remain after measures; approving it needs a documented justification (Art. 23 DSG)
+  if (to === 'approved' && riskLevel === 'HIGH' && !note) {
+    return 'Für die Freigabe einer DSFA mit hohem Risiko ist eine Begründung erforderlich.';
+  }
+  if (to === 'rejected' && !note) {
+    return 'Bitte begründen Sie die Zurückweisung.';
+  }
+  return null;
+};
@@ -0,0 +1,68 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// Every test file runs in its own process, so the log starts empty
+process.env.DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'dsfa-audit-'));
+
+import { getAuditLogPath, queryAuditLog, recordAudit, verifyAuditLog } from '../src/audit';
+
+const actor = { id: 'u1', name: 'Anna Autorin' };
+
+recordAudit({ action: 'auth.login', actor });
+recordAudit({ action: 'assessment.analyze', actor, target: 'a1', details: { riskLevel: 'HIGH' } });
+recordAudit({ action: 'assessment.status', actor, target: 'a1', details: { to: 'in_review' } });
+recordAudit({ action: 'auth.logout', actor });
+
+const lines = fs.readFileSync(getAuditLogPath(), 'utf-8').trim().split('\n');
+
+// Writes the given lines to a copy of the log and verifies it
+const verifyCopy = (changed: string[]) => {
+  const copy = path.join(process.env.DATA_DIR!, `copy-${Math.random().toString(36).slice(2)}.jsonl`);
+  fs.writeFileSync(copy, `${changed.join('\n')}\n`);
+  return verifyAuditLog(copy);
+};
+
+test('an untouched log verifies', () => {
+  const result = verifyAuditLog();
+  assert.equal(result.valid, true);
+  assert.equal(result.entries, 4);
+  assert.equal(result.headHash, JSON.parse(lines[3]).hash);
+});
+
+test('a changed entry breaks the chain', () => {
+  const entry = JSON.parse(lines[1]);
+  entry.details.riskLevel = 'LOW';
+  const result = verifyCopy([lines[0], JSON.stringify(entry), lines[2], lines[3]]);
+  assert.equal(result.valid, false);
+  assert.equal(result.error?.line, 2);
+  assert.equal(result.entries, 1);
+});
+
+test('a removed entry breaks the chain', () => {
+  const result = verifyCopy([lines[0], lines[2], lines[3]]);
+  assert.equal(result.valid, false);
+  assert.equal(result.error?.line, 2);
+});
+
+test('a changed actor is detected', () => {
+  const first = JSON.parse(lines[0]);
+  const forged = { ...first, actor: { id: 'u2', name: 'Jemand anderes' } };
+  const result = verifyCopy([JSON.stringify(forged), lines[1], lines[2], lines[3]]);
+  assert.equal(result.valid, false);
+  assert.equal(result.error?.line, 1);
+});
+
+test('a damaged line is reported', () => {
+  const result = verifyCopy([lines[0], '{kein json', lines[2]]);
+  assert.equal(result.valid, false);
+  assert.equal(result.error?.line, 2);
+});
+
+test('queries filter by action prefix and target, newest first', () => {
+  const { entries, total } = queryAuditLog({ action: 'assessment.', target: 'a1' });
+  assert.equal(total, 2);
+  assert.deepEqual(entries.map((entry) => entry.action), ['assessment.status', 'assessment.analyze']);
+});
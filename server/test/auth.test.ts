@@ -0,0 +1,58 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// Every test file runs in its own process, so the sessions file starts empty
+process.env.DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'dsfa-auth-'));
+process.env.SESSION_TTL_HOURS = '2';
+
+import { createSession, deleteSession, deleteUserSessions, getSessionUser } from '../src/auth';
+import { createUser } from '../src/users';
+
+const anna = createUser({ username: 'anna', password: 'anna-password-1' });
+const ben = createUser({ username: 'ben', password: 'ben-password-12' });
+
+const storedSessions = (): Array<{ id: string; userId: string; expiresAt: string }> =>
+  JSON.parse(fs.readFileSync(path.join(process.env.DATA_DIR!, 'sessions.json'), 'utf-8'));
+
+test('a session token signs in its user', () => {
+  const token = createSession(anna.id);
+  assert.equal(getSessionUser(token)?.id, anna.id);
+  assert.equal(getSessionUser(`${token}x`), null);
+});
+
+test('only the SHA-256 hash of the token is stored', () => {
+  const token = createSession(anna.id);
+  const ids = storedSessions().map((session) => session.id);
+  assert.ok(!JSON.stringify(storedSessions()).includes(token));
+  assert.ok(ids.every((id) => /^[0-9a-f]{64}$/.test(id)));
+  // The stored id cannot be used as a token
+  ids.forEach((id) => assert.equal(getSessionUser(id), null));
+});
+
+test('sessions expire after SESSION_TTL_HOURS', (t) => {
+  const token = createSession(anna.id);
+  const now = Date.now();
+  t.mock.method(Date, 'now', () => now + 2 * 60 * 60 * 1000 - 1000);
+  assert.equal(getSessionUser(token)?.id, anna.id);
+  t.mock.method(Date, 'now', () => now + 2 * 60 * 60 * 1000 + 1000);
+  assert.equal(getSessionUser(token), null);
+});
+
+test('logout deletes the session on the server', () => {
+  const token = createSession(anna.id);
+  deleteSession(token);
+  assert.equal(getSessionUser(token), null);
+});
+
+test('signing out everywhere keeps the current session and other users', () => {
+  const current = createSession(anna.id);
+  const other = createSession(anna.id);
+  const bens = createSession(ben.id);
+  deleteUserSessions(anna.id, current);
+  assert.equal(getSessionUser(current)?.id, anna.id);
+  assert.equal(getSessionUser(other), null);
+  assert.equal(getSessionUser(bens)?.id, ben.id);
+});
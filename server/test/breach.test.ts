@@ -0,0 +1,67 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { isUsableBreachResult, parseBreachResponse } from '../src/breach';
+
+const ANSWER = `ZUSAMMENFASSUNG:
+Unbefugte haben Gesundheitsdaten kopiert. Die Verletzung ist dem EDÖB zu melden (Art. 24 Abs. 1 DSG).
+
+SACHVERHALT:
+Am 3. März wurde die Patientendatenbank kopiert, betroffen sind rund 3000 Personen.
+
+RISIKOBEURTEILUNG:
+Gesundheitsdaten sind besonders schützenswert (Art. 5 lit. c DSG), das Risiko ist hoch.
+
+RISK_LEVEL: HIGH
+
+MELDUNG_EDOEB: JA – Voraussichtlich hohes Risiko (Art. 24 Abs. 1 DSG).
+
+INFORMATION_BETROFFENE: [NEIN]: Die Information wäre unverhältnismässig.
+
+SOFORTMASSNAHMEN:
+- Zugänge sperren
+2. Passwörter zurücksetzen
+(a) Logdateien sichern
+
+MELDUNGSENTWURF:
+Sehr geehrte Damen und Herren, wir melden eine Verletzung der Datensicherheit.
+
+INFORMATIONSENTWURF:
+Liebe Patientinnen und Patienten`;
+
+test('every section of the answer is read up to the next label', () => {
+  const result = parseBreachResponse(ANSWER);
+  assert.match(result.summary, /^Unbefugte haben Gesundheitsdaten kopiert/);
+  assert.equal(result.facts, 'Am 3. März wurde die Patientendatenbank kopiert, betroffen sind rund 3000 Personen.');
+  assert.match(result.riskAssessment, /das Risiko ist hoch\.$/);
+  assert.equal(result.riskLevel, 'HIGH');
+  assert.deepEqual(result.immediateMeasures, ['Zugänge sperren', 'Passwörter zurücksetzen', 'Logdateien sichern']);
+  assert.equal(result.authorityDraft, 'Sehr geehrte Damen und Herren, wir melden eine Verletzung der Datensicherheit.');
+  assert.equal(result.subjectDraft, 'Liebe Patientinnen und Patienten');
+  assert.equal(result.analysis, ANSWER);
+  assert.deepEqual(result.legalReferences.map((ref) => ref.text), ['Art. 24 Abs. 1 DSG', 'Art. 5 lit. c DSG']);
+});
+
+test('the two duties are read as JA, NEIN or UNKLAR with their reason', () => {
+  const result = parseBreachResponse(ANSWER);
+  assert.deepEqual(result.authorityNotification, { decision: 'yes', reason: 'Voraussichtlich hohes Risiko (Art. 24 Abs. 1 DSG).' });
+  assert.deepEqual(result.subjectInformation, { decision: 'no', reason: 'Die Information wäre unverhältnismässig.' });
+
+  const unclear = parseBreachResponse('RISK_LEVEL: [medium]\nMELDUNG_EDOEB: unklar - Anzahl Betroffener offen');
+  assert.equal(unclear.riskLevel, 'MEDIUM');
+  assert.deepEqual(unclear.authorityNotification, { decision: 'unclear', reason: 'Anzahl Betroffener offen' });
+});
+
+test('duties without a decision count as unclear', () => {
+  const result = parseBreachResponse('RISK_LEVEL: LOW\nMELDUNG_EDOEB: Eher nicht nötig.');
+  assert.deepEqual(result.authorityNotification, { decision: 'unclear', reason: 'Eher nicht nötig.' });
+  assert.deepEqual(result.subjectInformation, { decision: 'unclear', reason: 'Die Antwort enthält keine Beurteilung.' });
+});
+
+test('answers without a risk level are UNKNOWN and not usable', () => {
+  const result = parseBreachResponse('Ich kann diesen Vorfall nicht beurteilen.');
+  assert.equal(result.riskLevel, 'UNKNOWN');
+  assert.equal(result.summary, 'Keine Zusammenfassung vorhanden.');
+  assert.deepEqual(result.immediateMeasures, []);
+  assert.equal(isUsableBreachResult(result), false);
+  assert.equal(isUsableBreachResult(parseBreachResponse(ANSWER)), true);
+});
@@ -0,0 +1,121 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// The shipped laws plus an Akoma Ntoso export, a second OR excerpt and files that must be ignored
+const LAWS_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'dsfa-laws-'));
+const SHIPPED_LAWS_DIR = path.resolve(__dirname, '../../laws');
+fs.readdirSync(SHIPPED_LAWS_DIR).forEach((file) => fs.copyFileSync(path.join(SHIPPED_LAWS_DIR, file), path.join(LAWS_DIR, file)));
+fs.writeFileSync(
+  path.join(LAWS_DIR, 'verordnung.xml'),
+  `<?xml version="1.0" encoding="UTF-8"?>
+<akomaNtoso>
+  <act>
+    <meta><identification><FRBRWork><FRBRnumber value="235.11"/><FRBRname value="DSV"/></FRBRWork></identification></meta>
+    <body>
+      <article eId="art_4">
+        <num><b>Art. 4</b></num>
+        <heading>Protokollierung</heading>
+        <paragraph eId="art_4/para_1"><num>1</num><content><p>Der Verantwortliche protokolliert<authorialNote>Fussnote</authorialNote>.</p></content></paragraph>
+        <paragraph eId="art_4/para_2_bis"><num>2bis</num><content><p>Die Protokolle werden ein Jahr aufbewahrt.</p></content></paragraph>
+      </article>
+      <article eId="art_5">
+        <num>Art. 5</num>
+        <heading>Bearbeitungsreglement</heading>
+        <content><p>Der Verantwortliche erstellt ein Reglement.</p></content>
+      </article>
+    </body>
+  </act>
+</akomaNtoso>`
+);
+fs.writeFileSync(
+  path.join(LAWS_DIR, 'or_328a.xml'),
+  `<law abbreviation="Obligationenrecht" excerpt="true">
+  <article><number>Art. 328b</number><heading>Andere Fassung</heading><paragraph number="para">Wird ignoriert.</paragraph></article>
+  <article><number>Art. 328</number><heading>Schutz der Persönlichkeit</heading><paragraph number="para_1">Der Arbeitgeber schützt die Persönlichkeit.</paragraph></article>
+</law>`
+);
+fs.writeFileSync(path.join(LAWS_DIR, 'leer.xml'), '<law abbreviation="StGB"></law>');
+fs.writeFileSync(path.join(LAWS_DIR, 'notizen.txt'), '<article><number>Art. 1</number></article>');
+process.env.LAWS_DIR = LAWS_DIR;
+
+import { extractArticles, findArticle, getAllArticles, getArticleNumber, getCorpora, getCorpus } from '../src/corpus';
+
+test('dsg.xml and every XML file in LAWS_DIR are loaded once', (t) => {
+  const log = t.mock.method(console, 'log', () => {});
+  const warn = t.mock.method(console, 'warn', () => {});
+  const summary = getCorpora().map((corpus) => `${corpus.abbreviation} ${corpus.articles.length}`);
+  assert.deepEqual(summary, ['DSG 77', 'BV 1', 'OR 2', 'DSV 2', 'ZGB 1']);
+  assert.equal(getCorpora(), getCorpora());
+  assert.equal(log.mock.callCount(), 1);
+  // Files without articles are skipped with a warning
+  assert.equal(warn.mock.callCount(), 1);
+  assert.match(String(warn.mock.calls[0].arguments[0]), /leer\.xml/);
+  assert.equal(getAllArticles().length, 83);
+});
+
+test('metadata comes from the root element, the FRBR elements or the file name', () => {
+  const dsg = getCorpus('dsg')!;
+  assert.deepEqual(
+    { id: dsg.id, title: dsg.title, srNumber: dsg.srNumber, excerpt: dsg.excerpt },
+    { id: 'dsg', title: 'Bundesgesetz über den Datenschutz', srNumber: '235.1', excerpt: false }
+  );
+  assert.equal(getCorpus('BV')?.srNumber, '101');
+  assert.equal(getCorpus('BV')?.excerpt, true);
+  const dsv = getCorpus('dsv')!;
+  assert.equal(dsv.srNumber, '235.11');
+  assert.equal(dsv.title, 'Verordnung über den Datenschutz');
+  assert.equal(dsv.excerpt, false);
+});
+
+test('laws are found by id, abbreviation or alias', () => {
+  assert.equal(getCorpus('Datenschutzgesetz')?.abbreviation, 'DSG');
+  assert.equal(getCorpus('zivilgesetzbuch')?.abbreviation, 'ZGB');
+  assert.equal(getCorpus('Datenschutzverordnung')?.abbreviation, 'DSV');
+  assert.equal(getCorpus('StGB'), undefined);
+});
+
+test('excerpts of the same law are merged and the first copy of an article wins', () => {
+  const or = getCorpus('OR')!;
+  assert.deepEqual(or.articles.map((article) => article.id), ['Art. 328b', 'Art. 328']);
+  assert.equal(findArticle(or, '328b')?.heading, 'Bei der Bearbeitung von Personendaten');
+  assert.equal(or.excerpt, true);
+  assert.equal(or.srNumber, '220');
+});
+
+test('articles are looked up per law', () => {
+  const dsg = getCorpus('DSG')!;
+  assert.equal(findArticle(dsg, 'Art. 5')?.heading, 'Begriffe');
+  assert.equal(findArticle(dsg, '5')?.law, 'DSG');
+  assert.equal(findArticle(getCorpus('OR')!, 'Art. 328 B')?.id, 'Art. 328b');
+  // Art. 13 exists in both laws, each corpus returns its own
+  assert.equal(findArticle(getCorpus('BV')!, '13')?.heading, 'Schutz der Privatsphäre');
+  assert.equal(findArticle(dsg, '13')?.law, 'DSG');
+  assert.equal(findArticle(getCorpus('BV')!, '5'), undefined);
+  assert.equal(findArticle(dsg, '99'), undefined);
+});
+
+test('Akoma Ntoso paragraphs keep their numbers without footnotes', () => {
+  const article = findArticle(getCorpus('DSV')!, '4')!;
+  assert.equal(article.heading, 'Protokollierung');
+  assert.equal(article.srNumber, '235.11');
+  assert.deepEqual(article.paragraphs, [
+    { number: '1', text: 'Der Verantwortliche protokolliert.' },
+    { number: '2bis', text: 'Die Protokolle werden ein Jahr aufbewahrt.' },
+  ]);
+  assert.equal(article.text, 'Der Verantwortliche protokolliert. Die Protokolle werden ein Jahr aufbewahrt.');
+  // Articles without paragraphs become one unnumbered paragraph
+  assert.deepEqual(findArticle(getCorpus('DSV')!, '5')?.paragraphs, [
+    { number: '', text: 'Der Verantwortliche erstellt ein Reglement.' },
+  ]);
+});
+
+test('articles without number or heading get placeholders', () => {
+  const [article] = extractArticles('<article><paragraph>Text</paragraph></article>', 'DSG', '235.1');
+  assert.equal(article.id, 'Unbekannt');
+  assert.equal(article.heading, 'Ohne Titel');
+  assert.equal(getArticleNumber({ ...article, id: 'Art. 5a' }), '5a');
+  assert.deepEqual(extractArticles('<law></law>', 'DSG', '235.1'), []);
+});
@@ -0,0 +1,44 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { assessTransfers, getLocationAdequacy } from '../src/crossBorder';
+
+test('texts without a disclosure abroad have no transfer section', () => {
+  assert.equal(assessTransfers('Die Daten werden in unserem Rechenzentrum in der Schweiz gespeichert.'), undefined);
+});
+
+test('providers are mapped to their seat', () => {
+  const transfers = assessTransfers('Die Kundendaten werden bei AWS in Frankfurt gespeichert.');
+  const us = transfers?.recipients.find((recipient) => recipient.country === 'US');
+  assert.ok(us);
+  assert.deepEqual(us.providers, ['Amazon Web Services']);
+  assert.equal(us.safeguardInPlace, false);
+  assert.equal(us.mechanism, 'scc');
+});
+
+test('safeguards named in the text count unless negated', () => {
+  const withClauses = assessTransfers('Die Daten gehen an Google. Mit dem Anbieter wurden Standardvertragsklauseln vereinbart.');
+  assert.equal(withClauses?.recipients[0].safeguardInPlace, true);
+  const without = assessTransfers('Die Daten gehen an Google, bisher ohne Standardvertragsklauseln.');
+  assert.equal(without?.recipients[0].safeguardInPlace, false);
+});
+
+test('countries listed in Anhang 1 DSV need no further safeguards', () => {
+  const transfers = assessTransfers('Der Versand erfolgt über einen Dienstleister in Deutschland.');
+  assert.equal(transfers?.recipients[0].mechanism, 'adequacy');
+  assert.equal(transfers?.recipients[0].safeguardInPlace, true);
+});
+
+test('a disclosure abroad without a country is reported as unspecified', () => {
+  const transfers = assessTransfers('Die Daten werden an einen Partner im Ausland übermittelt.');
+  assert.equal(transfers?.recipients.length, 0);
+  assert.equal(transfers?.unspecified, true);
+});
+
+test('locations are classified against the adequacy list', () => {
+  assert.equal(getLocationAdequacy('Zürich').status, 'swiss');
+  assert.equal(getLocationAdequacy('Frankfurt, Deutschland').status, 'adequate');
+  assert.equal(getLocationAdequacy('EU').status, 'adequate');
+  assert.equal(getLocationAdequacy('US').status, 'not_adequate');
+  assert.equal(getLocationAdequacy('US', 'Data Privacy Framework').status, 'adequate');
+  assert.equal(getLocationAdequacy('Atlantis').status, 'unknown');
+});
@@ -0,0 +1,35 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { toCsv } from '../src/csv';
+
+const cells = (csv: string): string => csv.replace(/^\uFEFF/, '').trimEnd();
+
+test('cells with separators, quotes or line breaks are quoted', () => {
+  assert.equal(cells(toCsv(['Titel'], [['a;b'], ['Sag "ja"'], ['Zeile 1\nZeile 2'], ['einfach']])), [
+    'Titel',
+    '"a;b"',
+    '"Sag ""ja"""',
+    '"Zeile 1\nZeile 2"',
+    'einfach',
+  ].join('\r\n'));
+});
+
+test('cells that would run as formulas are neutralised', () => {
+  const csv = cells(
+    toCsv(['Wert'], [['=HYPERLINK("https://example.com";"Klick")'], ['+41 44 000 00 00'], ['-1+1'], ['@SUM(A1)'], ['\tTab'], ['\rCR']])
+  );
+  assert.deepEqual(csv.split('\r\n').slice(1, 5), [
+    `"'=HYPERLINK(""https://example.com"";""Klick"")"`,
+    "'+41 44 000 00 00",
+    "'-1+1",
+    "'@SUM(A1)",
+  ]);
+  assert.ok(csv.includes(`'\tTab`));
+  assert.ok(csv.includes(`"'\rCR"`));
+});
+
+test('the file starts with a byte order mark and ends with CRLF', () => {
+  const csv = toCsv(['A', 'B'], [['1', '2']]);
+  assert.ok(csv.startsWith('\uFEFFA;B\r\n'));
+  assert.ok(csv.endsWith('1;2\r\n'));
+});
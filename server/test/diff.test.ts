@@ -0,0 +1,35 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { diffText } from '../src/diff';
+
+const joined = (lines: (index: number) => string, count: number): string =>
+  Array.from({ length: count }, (_, index) => lines(index)).join('\n');
+
+test('changed words are marked between equal text', () => {
+  assert.deepEqual(diffText('Daten werden gelöscht', 'Daten werden anonymisiert'), [
+    { type: 'equal', text: 'Daten werden ' },
+    { type: 'removed', text: 'gelöscht' },
+    { type: 'added', text: 'anonymisiert' },
+  ]);
+  assert.deepEqual(diffText('', ''), []);
+});
+
+test('long texts are compared by line', () => {
+  const oldText = joined((index) => `Zeile ${index} mit einigen Wörtern`, 500);
+  const newText = oldText.replace('Zeile 250 mit', 'Zeile 250 ohne');
+  const segments = diffText(oldText, newText);
+  assert.deepEqual(segments.filter((segment) => segment.type !== 'equal'), [
+    { type: 'removed', text: 'Zeile 250 mit einigen Wörtern' },
+    { type: 'added', text: 'Zeile 250 ohne einigen Wörtern' },
+  ]);
+});
+
+test('texts too long for a line diff are shown as replaced', () => {
+  const oldText = joined((index) => `alt ${index}`, 3000);
+  const newText = joined((index) => `neu ${index}`, 3000);
+  assert.deepEqual(diffText(oldText, newText), [
+    { type: 'removed', text: oldText },
+    { type: 'added', text: newText },
+  ]);
+  assert.deepEqual(diffText('', newText), [{ type: 'added', text: newText }]);
+});
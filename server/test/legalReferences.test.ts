@@ -0,0 +1,49 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { extractLegalReferences } from '../src/legalReferences';
+
+const find = (text: string, citation: string) => extractLegalReferences(text).find((ref) => ref.text === citation);
+
+test('citations with article, paragraph and law are extracted', () => {
+  const refs = extractLegalReferences('Nach Art. 22 Abs. 1 DSG und Art. 8 DSG sowie Art. 28 ZGB ist ...');
+  assert.deepEqual(refs.map((ref) => ref.text).sort(), ['Art. 22 Abs. 1 DSG', 'Art. 28 ZGB', 'Art. 8 DSG']);
+  const art22 = refs.find((ref) => ref.article === '22');
+  assert.equal(art22?.paragraph, '1');
+  assert.equal(art22?.url, 'https://www.fedlex.admin.ch/eli/cc/2022/491/de#art_22');
+});
+
+test('letters cited with lit. or Bst. are part of the citation', () => {
+  const text = 'Gesundheitsdaten (Art. 5 lit. c DSG) gehen in die USA (Art. 16 Abs. 2 lit. d DSG), vgl. Art. 5 Bst. h DSG.';
+  const refs = extractLegalReferences(text);
+  assert.deepEqual(refs.map((ref) => ref.text), ['Art. 5 lit. c DSG', 'Art. 16 Abs. 2 lit. d DSG', 'Art. 5 Bst. h DSG']);
+  const scc = refs[1];
+  assert.equal(scc.article, '16');
+  assert.equal(scc.paragraph, '2');
+  assert.equal(scc.letter, 'd');
+});
+
+test('the law abbreviation must be a whole word', () => {
+  assert.deepEqual(extractLegalReferences('Art. 6 ordnet die Grundsätze.'), []);
+  assert.deepEqual(extractLegalReferences('Art. 5 DSGVO gilt nicht direkt.'), []);
+});
+
+test('existing articles, paragraphs and letters are verified against the law text', () => {
+  const art22 = find('Art. 22 Abs. 2 lit. a DSG', 'Art. 22 Abs. 2 lit. a DSG');
+  assert.equal(art22?.status, 'verified');
+  assert.match(art22?.sourceText || '', /besonders schützenswerter Personendaten/);
+  assert.equal(find('Art. 5 lit. c DSG', 'Art. 5 lit. c DSG')?.status, 'verified');
+});
+
+test('citations that do not exist in the law are invalid', () => {
+  assert.equal(find('Art. 999 DSG', 'Art. 999 DSG')?.status, 'invalid');
+  const paragraph = find('Art. 22 Abs. 9 DSG', 'Art. 22 Abs. 9 DSG');
+  assert.equal(paragraph?.status, 'invalid');
+  assert.match(paragraph?.statusNote || '', /keinen Abs\. 9/);
+  const letter = find('Art. 22 Abs. 2 lit. f DSG', 'Art. 22 Abs. 2 lit. f DSG');
+  assert.equal(letter?.status, 'invalid');
+  assert.equal(letter?.statusNote, 'Art. 22 Abs. 2 DSG hat keinen Bst. f.');
+});
+
+test('citations of laws that are not loaded are unverifiable', () => {
+  assert.equal(find('Art. 5 DSV', 'Art. 5 DSV')?.status, 'unverifiable');
+});
@@ -0,0 +1,33 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { TrackedMeasure, isDueDate, isMeasureStatus, isOverdue } from '../src/measures';
+
+test('only the listed measure statuses are accepted', () => {
+  assert.equal(isMeasureStatus('in_progress'), true);
+  assert.equal(isMeasureStatus('not_applicable'), true);
+  ['constructor', '__proto__', 'toString', 'hasOwnProperty', ''].forEach((key) => assert.equal(isMeasureStatus(key), false, key));
+  assert.equal(isMeasureStatus(undefined), false);
+});
+
+test('due dates must be calendar dates', () => {
+  assert.equal(isDueDate('2026-03-31'), true);
+  assert.equal(isDueDate('31.03.2026'), false);
+  assert.equal(isDueDate('2026-13-01'), false);
+});
+
+test('only pending measures past their due date are overdue', () => {
+  const measure: TrackedMeasure = {
+    id: 'm1',
+    version: 1,
+    category: 'technisch',
+    description: 'Verschlüsselung der Datenbank',
+    legalBasis: [],
+    riskIds: [],
+    dueDate: '2026-01-31',
+    status: 'open',
+  };
+  assert.equal(isOverdue(measure, '2026-02-01'), true);
+  assert.equal(isOverdue(measure, '2026-01-31'), false);
+  assert.equal(isOverdue({ ...measure, status: 'done' }, '2026-02-01'), false);
+  assert.equal(isOverdue({ ...measure, dueDate: undefined }, '2026-02-01'), false);
+});
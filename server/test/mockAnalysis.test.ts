@@ -0,0 +1,126 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { createMockProvider, MOCK_MODEL } from '../src/providers/mock';
+import { CompletionRequest, LlmProvider } from '../src/providers';
+import { createFollowUpPrompt, createPrompt, parseFollowUpResponse, parseResponse } from '../src/dsfa';
+import { DSFA_RESPONSE_FORMAT, jsonToAnalysisResult, repairDsfaJson, validateDsfaJson } from '../src/structuredOutput';
+import { createBreachPrompt, parseBreachResponse } from '../src/breach';
+
+// The mock provider answers from canned DSFAs selected by keywords, without network access
+const mock = createMockProvider();
+
+const HEALTH_APP =
+  'Wir entwickeln eine App für Patientinnen und Patienten einer Arztpraxis. Die App speichert Gesundheitsdaten wie ' +
+  'Blutdruck, Puls und Medikamente, dazu Name, Geburtsdatum und E-Mail-Adresse. Zweck ist die Betreuung zwischen den ' +
+  'Terminen. Die Daten werden bei einem Cloud-Anbieter in den USA gespeichert und nur vom Praxisteam eingesehen. ' +
+  'Nach Ende der Behandlung werden die Daten nach zehn Jahren gelöscht. Betroffen sind rund 3000 Personen. Der ' +
+  'Zugriff ist durch Passwörter geschützt, die Übertragung ist verschlüsselt und ein Berechtigungskonzept ist in Arbeit.';
+
+const SHORT_TEXT = 'Wir planen einen Newsletter.';
+
+const jsonRequest = (text: string): CompletionRequest => ({
+  model: MOCK_MODEL,
+  messages: [{ role: 'user', content: createPrompt(text, [], 'json') }],
+  responseFormat: DSFA_RESPONSE_FORMAT,
+});
+
+test('structured output of a complete DSFA validates and keeps the register level', async () => {
+  const validation = validateDsfaJson(await mock.complete(jsonRequest(HEALTH_APP)));
+  assert.equal(validation.valid, true);
+  if (!validation.valid) return;
+  const result = jsonToAnalysisResult(validation.data);
+  assert.equal(result.riskLevel, 'HIGH');
+  assert.equal(result.needsMoreInfo, false);
+  assert.equal(result.risks?.length, 3);
+  assert.ok(result.legalReferences.some((ref) => ref.text.startsWith('Art. 22')));
+});
+
+test('the text parser reads the same DSFA from the labelled format', async () => {
+  const content = await mock.complete({ model: MOCK_MODEL, messages: [{ role: 'user', content: createPrompt(HEALTH_APP, []) }] });
+  const parsed = parseResponse(content);
+  const validation = validateDsfaJson(await mock.complete(jsonRequest(HEALTH_APP)));
+  assert.ok(validation.valid);
+  const fromJson = jsonToAnalysisResult(validation.data);
+  assert.equal(parsed.riskLevel, fromJson.riskLevel);
+  assert.deepEqual(parsed.risks, fromJson.risks);
+  assert.deepEqual(parsed.recommendations, fromJson.recommendations);
+  assert.equal(parsed.ergebnis, fromJson.ergebnis);
+});
+
+test('short descriptions ask for the missing information in both formats', async () => {
+  const validation = validateDsfaJson(await mock.complete(jsonRequest(SHORT_TEXT)));
+  assert.ok(validation.valid);
+  assert.equal(jsonToAnalysisResult(validation.data).needsMoreInfo, true);
+
+  const parsed = parseResponse(
+    await mock.complete({ model: MOCK_MODEL, messages: [{ role: 'user', content: createPrompt(SHORT_TEXT, []) }] })
+  );
+  assert.equal(parsed.needsMoreInfo, true);
+  assert.equal(parsed.riskLevel, 'UNKNOWN');
+  assert.equal(parsed.missingInfo?.length, 5);
+});
+
+test('invalid structured output is repaired with a follow-up request', async () => {
+  const requests: CompletionRequest[] = [];
+  // Returns the answer without a risk level once, then answers like the mock
+  const provider: LlmProvider = {
+    ...mock,
+    complete: async (request) => {
+      requests.push(request);
+      return mock.complete(request);
+    },
+  };
+  const request = jsonRequest(HEALTH_APP);
+  const { riskLevel, ...broken } = JSON.parse(await mock.complete(request));
+  assert.equal(riskLevel, 'HIGH');
+
+  const validation = await repairDsfaJson(provider, request, `Hier die DSFA:\n\`\`\`json\n${JSON.stringify(broken)}\n\`\`\``, 1);
+  assert.equal(validation.valid, true);
+  assert.equal(requests.length, 1);
+  const messages = requests[0].messages;
+  assert.equal(messages.length, 3);
+  assert.equal(messages[1].role, 'assistant');
+  assert.match(messages[2].content, /"riskLevel" muss einer von/);
+  // The original request is not changed
+  assert.equal(request.messages.length, 1);
+});
+
+test('output that stays invalid is reported after the last repair', async () => {
+  const provider: LlmProvider = { ...mock, complete: async () => '{"needsMoreInfo": "nein"}' };
+  const validation = await repairDsfaJson(provider, jsonRequest(HEALTH_APP), 'keine JSON-Antwort', 2);
+  assert.equal(validation.valid, false);
+  if (validation.valid) return;
+  assert.ok(validation.errors.includes('"needsMoreInfo" muss ein Boolean sein.'));
+});
+
+test('follow-up questions describing a change return a revised DSFA', async () => {
+  const ask = async (question: string) =>
+    parseFollowUpResponse(
+      await mock.complete({
+        model: MOCK_MODEL,
+        messages: [
+          { role: 'user', content: createPrompt(HEALTH_APP, []) },
+          { role: 'user', content: createFollowUpPrompt(question) },
+        ],
+      })
+    );
+  const answer = await ask('Was bedeutet Art. 8 DSG für uns?');
+  assert.equal(answer.revisedResult, undefined);
+  const revision = await ask('Wir speichern die Newsletter-Daten künftig stattdessen bei einem Cloud-Anbieter.');
+  assert.equal(revision.revisedResult?.riskLevel, 'MEDIUM');
+});
+
+test('breach assessments are parsed into the two duties of Art. 24 DSG', async () => {
+  const assess = async (incident: string) =>
+    parseBreachResponse(
+      await mock.complete({ model: MOCK_MODEL, messages: [{ role: 'user', content: createBreachPrompt(incident, []) }] })
+    );
+  const notifiable = await assess('Ein Hacker hat die Patientendatenbank mit Gesundheitsdaten kopiert.');
+  assert.equal(notifiable.riskLevel, 'HIGH');
+  assert.equal(notifiable.authorityNotification.decision, 'yes');
+  assert.ok(notifiable.immediateMeasures.length > 0);
+  assert.ok(notifiable.authorityDraft);
+
+  const minor = await assess('Eine E-Mail mit einer Adressliste ging an einen falschen Empfänger, der sie gelöscht hat.');
+  assert.equal(minor.authorityNotification.decision, 'no');
+});
@@ -0,0 +1,114 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { createMockProvider, MOCK_MODEL } from '../src/providers/mock';
+import { createPrompt, parseResponse } from '../src/dsfa';
+import { getModelCandidates, getRetryReason, runWithModelFallback } from '../src/modelFallback';
+import { AnalysisResult } from '../src/types';
+
+const mock = createMockProvider();
+
+const HEALTH_APP =
+  'Wir entwickeln eine App für Patientinnen und Patienten einer Arztpraxis. Die App speichert Gesundheitsdaten wie ' +
+  'Blutdruck, Puls und Medikamente, dazu Name, Geburtsdatum und E-Mail-Adresse. Zweck ist die Betreuung zwischen den ' +
+  'Terminen. Die Daten werden bei einem Cloud-Anbieter in den USA gespeichert und nur vom Praxisteam eingesehen. ' +
+  'Nach Ende der Behandlung werden die Daten nach zehn Jahren gelöscht. Betroffen sind rund 3000 Personen. Der ' +
+  'Zugriff ist durch Passwörter geschützt, die Übertragung ist verschlüsselt und ein Berechtigungskonzept ist in Arbeit.';
+
+const OPTIONS = { maxRetries: 2, retryDelayMs: 100 };
+
+const httpError = (status: number) => Object.assign(new Error(`Request failed with status code ${status}`), { response: { status } });
+
+const isUsable = (result: AnalysisResult) => Boolean(result.needsMoreInfo) || result.riskLevel !== 'UNKNOWN';
+
+// Every model fails with the given errors first and then answers like the mock
+const createRun = (failures: Record<string, unknown[]>, calls: string[]) => async (model: string) => {
+  calls.push(model);
+  const error = failures[model]?.shift();
+  if (error) throw error;
+  return parseResponse(await mock.complete({ model: MOCK_MODEL, messages: [{ role: 'user', content: createPrompt(HEALTH_APP, []) }] }));
+};
+
+// Records the backoff delays instead of waiting for them
+const recordDelays = (t: test.TestContext): number[] => {
+  const delays: number[] = [];
+  t.mock.method(global, 'setTimeout', (callback: () => void, ms: number) => {
+    delays.push(ms);
+    callback();
+  });
+  t.mock.method(console, 'warn', () => {});
+  return delays;
+};
+
+test('the requested model is tried first, then the configured order', () => {
+  assert.deepEqual(getModelCandidates('b', ['a', 'b', 'c']), ['b', 'a', 'c']);
+  assert.deepEqual(getModelCandidates('x', ['a', 'b']), ['x', 'a', 'b']);
+});
+
+test('rate limits, server errors and timeouts are retried', () => {
+  assert.equal(getRetryReason(httpError(429)), 'Rate-Limit erreicht (429)');
+  assert.equal(getRetryReason(httpError(503)), 'Serverfehler (503)');
+  assert.equal(getRetryReason(Object.assign(new Error('timeout'), { code: 'ECONNABORTED' })), 'Zeitüberschreitung');
+  assert.equal(getRetryReason(httpError(401)), null);
+  assert.equal(getRetryReason(new Error('Netzwerkfehler')), null);
+});
+
+test('a model is retried with doubling backoff before the next model', async (t) => {
+  const delays = recordDelays(t);
+  const calls: string[] = [];
+  const run = createRun({ a: [httpError(429), httpError(503), httpError(429)], b: [httpError(500)] }, calls);
+
+  const { result, model, failedAttempts } = await runWithModelFallback(['a', 'b', 'c'], run, isUsable, OPTIONS);
+  assert.equal(model, 'b');
+  assert.equal(result.riskLevel, 'HIGH');
+  assert.deepEqual(calls, ['a', 'a', 'a', 'b', 'b']);
+  assert.deepEqual(delays, [100, 200, 100]);
+  assert.deepEqual(failedAttempts, [
+    { model: 'a', attempt: 1, reason: 'Rate-Limit erreicht (429)' },
+    { model: 'a', attempt: 2, reason: 'Serverfehler (503)' },
+    { model: 'a', attempt: 3, reason: 'Rate-Limit erreicht (429)' },
+    { model: 'b', attempt: 1, reason: 'Serverfehler (500)' },
+  ]);
+});
+
+test('errors that would fail again are not retried', async (t) => {
+  const delays = recordDelays(t);
+  const calls: string[] = [];
+  const unauthorized = httpError(401);
+  await assert.rejects(runWithModelFallback(['a', 'b'], createRun({ a: [unauthorized] }, calls), isUsable, OPTIONS), unauthorized);
+  assert.deepEqual(calls, ['a']);
+  assert.deepEqual(delays, []);
+});
+
+test('aborted requests are not retried', async (t) => {
+  recordDelays(t);
+  const calls: string[] = [];
+  const controller = new AbortController();
+  controller.abort();
+  const timeout = Object.assign(new Error('timeout'), { code: 'ECONNRESET' });
+  await assert.rejects(
+    runWithModelFallback(['a'], createRun({ a: [timeout] }, calls), isUsable, { ...OPTIONS, signal: controller.signal }),
+    timeout
+  );
+  assert.deepEqual(calls, ['a']);
+});
+
+test('unusable answers fall back and the last one is returned if no model helps', async (t) => {
+  recordDelays(t);
+  const calls: string[] = [];
+  const { model, failedAttempts } = await runWithModelFallback(
+    ['a', 'b'],
+    createRun({}, calls),
+    () => false,
+    { maxRetries: 0, retryDelayMs: 100 }
+  );
+  assert.equal(model, 'b');
+  assert.deepEqual(calls, ['a', 'b']);
+  assert.ok(failedAttempts.every((attempt) => attempt.reason === 'Antwort konnte nicht ausgewertet werden'));
+});
+
+test('the last error is thrown when every model fails', async (t) => {
+  recordDelays(t);
+  const last = httpError(502);
+  const run = createRun({ a: [httpError(429)], b: [last] }, []);
+  await assert.rejects(runWithModelFallback(['a', 'b'], run, isUsable, { maxRetries: 0, retryDelayMs: 100 }), last);
+});
@@ -0,0 +1,50 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { PrecheckAnswers, evaluatePrecheck, parsePrecheckAnswers } from '../src/precheck';
+
+const answers = (overrides: Partial<PrecheckAnswers>): PrecheckAnswers => ({
+  ...parsePrecheckAnswers({})!,
+  ...overrides,
+});
+
+test('missing answers count as unknown, invalid answers are rejected', () => {
+  assert.equal(parsePrecheckAnswers(undefined)?.sensitiveData, 'unknown');
+  assert.equal(parsePrecheckAnswers({ sensitiveData: 'yes' })?.sensitiveData, 'yes');
+  assert.equal(parsePrecheckAnswers({ sensitiveData: 'vielleicht' }), null);
+});
+
+test('sensitive data on a large scale requires a DSFA', () => {
+  const result = evaluatePrecheck(answers({ sensitiveData: 'yes', largeScale: 'yes', privateController: 'no' }));
+  assert.equal(result.outcome, 'required');
+  assert.equal(result.proceed, true);
+  assert.ok(result.legalReferences.some((ref) => ref.text.startsWith('Art. 22')));
+});
+
+test('systematic monitoring of public areas requires a DSFA', () => {
+  assert.equal(evaluatePrecheck(answers({ publicMonitoring: 'yes' })).outcome, 'required');
+});
+
+test('a legal obligation exempts private controllers (Art. 22 Abs. 4 DSG)', () => {
+  const result = evaluatePrecheck(
+    answers({ sensitiveData: 'yes', largeScale: 'yes', privateController: 'yes', legalObligation: 'yes' })
+  );
+  assert.equal(result.outcome, 'not_required');
+  assert.equal(result.proceed, false);
+});
+
+test('the exemption is only possible for private controllers', () => {
+  const result = evaluatePrecheck(answers({ publicMonitoring: 'yes', privateController: 'no', certified: 'yes' }));
+  assert.equal(result.outcome, 'required');
+});
+
+test('open answers are unclear, clear negative answers not required', () => {
+  assert.equal(evaluatePrecheck(answers({})).outcome, 'unclear');
+  assert.equal(
+    evaluatePrecheck(answers({ sensitiveData: 'no', publicMonitoring: 'no', otherHighRisk: 'no' })).outcome,
+    'not_required'
+  );
+  assert.equal(
+    evaluatePrecheck(answers({ sensitiveData: 'no', publicMonitoring: 'no', otherHighRisk: 'yes' })).outcome,
+    'unclear'
+  );
+});
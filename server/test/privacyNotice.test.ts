@@ -0,0 +1,80 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { NO_TRANSFERS, ProcessingRecord } from '../src/processingRecord';
+import { buildPrivacyNotice, isNoticeSection, toNoticeHtml, toNoticeMarkdown } from '../src/privacyNotice';
+
+const record: ProcessingRecord = {
+  version: 2,
+  fields: {
+    controller: 'Praxis Muster AG, Bern',
+    purpose: 'Betreuung der Patientinnen und Patienten zwischen den Terminen;',
+    dataSubjects: 'Patientinnen und Patienten',
+    dataCategories: 'Name, Geburtsdatum, Gesundheitsdaten',
+    recipients: 'Praxisteam',
+    retention: '10 Jahre nach Ende der Behandlung',
+    security: 'Verschlüsselung',
+    transfers: NO_TRANSFERS,
+  },
+  editedFields: [],
+  generatedAt: '2026-01-01T00:00:00.000Z',
+};
+
+const DATE = new Date('2026-03-01T12:00:00Z');
+
+test('the notice is generated from the register entry', () => {
+  const notice = buildPrivacyNotice('Patienten-App', record);
+  assert.equal(notice.title, 'Datenschutzerklärung: Patienten-App');
+  assert.equal(notice.version, 2);
+  assert.match(notice.sections.intro, /«Patienten-App»/);
+  assert.match(notice.sections.controller, /^Verantwortlich für die Bearbeitung Ihrer Personendaten ist Praxis Muster AG, Bern\./);
+  assert.equal(notice.sections.purpose, 'Wir bearbeiten Ihre Personendaten zu folgendem Zweck: Betreuung der Patientinnen und Patienten zwischen den Terminen.');
+  assert.match(notice.sections.dataCategories, /^Die Bearbeitung betrifft: Patientinnen und Patienten\. /);
+  assert.equal(notice.sections.transfers, 'Eine Bekanntgabe Ihrer Personendaten ins Ausland ist nicht vorgesehen.');
+  assert.match(notice.sections.retention, /^Aufbewahrungsdauer: 10 Jahre nach Ende der Behandlung\./);
+  assert.deepEqual(notice.missingSections, []);
+  assert.deepEqual(notice.editedSections, []);
+});
+
+test('sections without register data are reported as missing', () => {
+  const notice = buildPrivacyNotice('Patienten-App', { ...record, fields: { ...record.fields, recipients: '', controller: ' ' } });
+  assert.deepEqual(notice.missingSections, ['controller', 'recipients']);
+  assert.ok(!toNoticeMarkdown(notice, DATE).includes('## Empfängerinnen und Empfänger'));
+});
+
+test('sections changed by hand replace the generated text', () => {
+  const updatedBy = { id: 'u1', name: 'Dora DPO' };
+  const notice = buildPrivacyNotice('Patienten-App', record, {
+    sections: { recipients: 'Nur das Praxisteam.' },
+    updatedBy,
+    updatedAt: '2026-02-01T00:00:00.000Z',
+  });
+  assert.equal(notice.sections.recipients, 'Nur das Praxisteam.');
+  assert.deepEqual(notice.editedSections, ['recipients']);
+  assert.deepEqual(notice.updatedBy, updatedBy);
+});
+
+test('the Markdown export lists the filled sections in order', () => {
+  const markdown = toNoticeMarkdown(buildPrivacyNotice('Patienten-App', record), DATE);
+  assert.ok(markdown.startsWith('# Datenschutzerklärung: Patienten-App\n\n## Einleitung\n\n'));
+  assert.ok(markdown.indexOf('## Ihre Rechte') > markdown.indexOf('## Aufbewahrungsdauer'));
+  assert.ok(markdown.endsWith('_Stand: 1. März 2026_\n'));
+});
+
+test('user-supplied text is escaped in the HTML export', () => {
+  const notice = buildPrivacyNotice('<script>alert(1)</script>', record, {
+    sections: { purpose: 'Zweck <img src=x onerror="alert(1)"> & mehr\n\nZweiter Absatz\nmit Umbruch' },
+    updatedBy: { id: 'u1', name: 'Dora DPO' },
+    updatedAt: '2026-02-01T00:00:00.000Z',
+  });
+  const html = toNoticeHtml(notice, DATE);
+  assert.ok(!html.includes('<script>'));
+  assert.ok(!html.includes('<img'));
+  assert.ok(html.includes('<title>Datenschutzerklärung: &lt;script&gt;alert(1)&lt;/script&gt;</title>'));
+  assert.ok(html.includes('<p>Zweck &lt;img src=x onerror=&quot;alert(1)&quot;&gt; &amp; mehr</p>\n<p>Zweiter Absatz<br>mit Umbruch</p>'));
+});
+
+test('only the sections of the notice are accepted', () => {
+  assert.equal(isNoticeSection('rights'), true);
+  ['constructor', '__proto__', 'toString', 'valueOf'].forEach((key) => assert.equal(isNoticeSection(key), false, key));
+  assert.equal(isNoticeSection(null), false);
+});
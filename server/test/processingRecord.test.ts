@@ -0,0 +1,56 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { toCsv } from '../src/csv';
+import { REGISTER_EXPORT_HEADER, generateRecordFields, isRecordField, toRegisterRow } from '../src/processingRecord';
+import { RegisterEntry } from '../src/assessments';
+import { AnalysisResult } from '../src/types';
+
+const result: AnalysisResult = {
+  summary: 'Zusammenfassung',
+  riskLevel: 'MEDIUM',
+  analysis: '',
+  recommendations: [],
+  legalReferences: [],
+  description:
+    '- Zweck der Datenbearbeitung: =HYPERLINK("https://example.com";"Details")\n' +
+    '- Betroffene Personen: Kundinnen und Kunden\n' +
+    '- Datenkategorien: Name, E-Mail-Adresse\n' +
+    '- Empfänger: @Versanddienstleister',
+  needsMoreInfo: false,
+};
+
+test('register fields are taken from the labelled lines of the description', () => {
+  const fields = generateRecordFields(result, 'Aufbewahrungsdauer: 2 Jahre', 1);
+  assert.equal(fields.purpose, '=HYPERLINK("https://example.com";"Details")');
+  assert.equal(fields.dataSubjects, 'Kundinnen und Kunden');
+  assert.equal(fields.dataCategories, 'Name, E-Mail-Adresse');
+  assert.equal(fields.retention, '2 Jahre');
+  assert.equal(fields.transfers, 'Keine Bekanntgabe ins Ausland vorgesehen.');
+});
+
+test('model text in the register export cannot run as a formula', () => {
+  const entry: RegisterEntry = {
+    assessmentId: 'a1',
+    assessmentTitle: '+Newsletter',
+    assessmentStatus: 'approved',
+    approvedVersion: 2,
+    version: 2,
+    fields: generateRecordFields(result, '', 2),
+    editedFields: [],
+    generatedAt: '2025-03-01T10:00:00.000Z',
+  };
+  const row = toRegisterRow(entry);
+  assert.equal(row.length, REGISTER_EXPORT_HEADER.length);
+  assert.deepEqual(row.slice(-4), ['Freigegeben', 'V2', 'V2', '2025-03-01']);
+
+  const cells = toCsv(REGISTER_EXPORT_HEADER, [row]).trimEnd().split('\r\n')[1];
+  assert.ok(cells.startsWith("'+Newsletter;"));
+  assert.ok(cells.includes(`"'=HYPERLINK(""https://example.com"";""Details"")"`));
+  assert.ok(cells.includes(";'@Versanddienstleister;"));
+});
+
+test('only the fields of the register are accepted', () => {
+  assert.equal(isRecordField('purpose'), true);
+  ['constructor', '__proto__', 'toString', 'valueOf'].forEach((key) => assert.equal(isRecordField(key), false, key));
+  assert.equal(isRecordField(1), false);
+});
@@ -0,0 +1,121 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { Request, Response } from 'express';
+import { createRateLimiter, getLoginLockout, recordLoginFailure, resetLoginFailures } from '../src/rateLimit';
+
+process.env.LOGIN_MAX_ATTEMPTS = '3';
+process.env.LOGIN_MAX_ATTEMPTS_PER_IP = '5';
+process.env.LOGIN_LOCKOUT_SECONDS = '30';
+process.env.LOGIN_LOCKOUT_MAX_SECONDS = '100';
+
+type Reply = { status: number; headers: Record<string, string>; body?: { error: string; retryAfter: number } };
+
+// Sends one request from the given IP through the middleware; status 0 means it was passed on
+const send = (limiter: ReturnType<typeof createRateLimiter>, ip: string): Reply => {
+  const reply: Reply = { status: 0, headers: {} };
+  const res = {
+    locals: {},
+    setHeader: (name: string, value: string) => {
+      reply.headers[name] = value;
+    },
+    status: (status: number) => {
+      reply.status = status;
+      return { json: (body: Reply['body']) => (reply.body = body) };
+    },
+  };
+  limiter({ ip } as Request, res as unknown as Response, () => {});
+  return reply;
+};
+
+const clock = (t: test.TestContext, start = 1_000_000) => {
+  let now = start;
+  t.mock.method(Date, 'now', () => now);
+  return (ms: number) => {
+    now += ms;
+  };
+};
+
+const limiter = () =>
+  createRateLimiter({
+    maxEnv: 'TEST_RATE_LIMIT_MAX',
+    windowEnv: 'TEST_RATE_LIMIT_WINDOW_SECONDS',
+    defaultMax: 2,
+    defaultWindowSeconds: 60,
+    key: (req) => `ip:${req.ip}`,
+    message: 'Zu viele Anfragen.',
+  });
+
+test('requests above the limit are rejected until the window ends', (t) => {
+  const advance = clock(t);
+  const limit = limiter();
+  assert.equal(send(limit, '10.0.0.1').headers['RateLimit-Remaining'], '1');
+  assert.equal(send(limit, '10.0.0.1').status, 0);
+  const rejected = send(limit, '10.0.0.1');
+  assert.equal(rejected.status, 429);
+  assert.equal(rejected.headers['Retry-After'], '60');
+  assert.deepEqual(rejected.body, { error: 'Zu viele Anfragen.', retryAfter: 60 });
+
+  // Other keys have their own counter
+  assert.equal(send(limit, '10.0.0.2').status, 0);
+
+  advance(59_000);
+  assert.equal(send(limit, '10.0.0.1').headers['Retry-After'], '1');
+  advance(1_000);
+  assert.equal(send(limit, '10.0.0.1').status, 0);
+});
+
+test('limits are read from the environment', (t) => {
+  clock(t);
+  process.env.TEST_RATE_LIMIT_MAX = '1';
+  t.after(() => delete process.env.TEST_RATE_LIMIT_MAX);
+  const limit = limiter();
+  assert.equal(send(limit, '10.0.0.3').status, 0);
+  assert.equal(send(limit, '10.0.0.3').status, 429);
+});
+
+test('requests without a key are not limited', () => {
+  const limit = createRateLimiter({
+    maxEnv: 'TEST_RATE_LIMIT_MAX',
+    windowEnv: 'TEST_RATE_LIMIT_WINDOW_SECONDS',
+    defaultMax: 1,
+    defaultWindowSeconds: 60,
+    key: () => null,
+    message: 'Zu viele Anfragen.',
+  });
+  assert.equal(send(limit, '10.0.0.4').status, 0);
+  assert.equal(send(limit, '10.0.0.4').status, 0);
+});
+
+test('failed logins lock the username with a doubling lockout', (t) => {
+  const advance = clock(t);
+  assert.equal(recordLoginFailure('10.1.0.1', 'anna'), 0);
+  assert.equal(recordLoginFailure('10.1.0.2', 'anna'), 0);
+  assert.equal(getLoginLockout('10.1.0.3', 'anna'), 0);
+  assert.equal(recordLoginFailure('10.1.0.3', 'Anna '), 30_000);
+  // The username is locked from every address
+  assert.equal(getLoginLockout('10.1.0.4', 'anna'), 30_000);
+
+  advance(30_000);
+  assert.equal(getLoginLockout('10.1.0.4', 'anna'), 0);
+  assert.equal(recordLoginFailure('10.1.0.4', 'anna'), 60_000);
+  assert.equal(recordLoginFailure('10.1.0.4', 'anna'), 100_000);
+
+  resetLoginFailures('anna');
+  assert.equal(getLoginLockout('10.1.0.5', 'anna'), 0);
+});
+
+test('an address trying many usernames is locked as well', (t) => {
+  clock(t, 5_000_000);
+  ['a', 'b', 'c', 'd'].forEach((username) => assert.equal(recordLoginFailure('10.2.0.1', username), 0));
+  assert.equal(recordLoginFailure('10.2.0.1', 'e'), 30_000);
+  assert.equal(getLoginLockout('10.2.0.1', 'f'), 30_000);
+  assert.equal(getLoginLockout('10.2.0.2', 'f'), 0);
+});
+
+test('failures are forgotten an hour after the last one', (t) => {
+  const advance = clock(t, 9_000_000);
+  recordLoginFailure('10.3.0.1', 'ben');
+  recordLoginFailure('10.3.0.2', 'ben');
+  advance(60 * 60 * 1000 + 1);
+  assert.equal(recordLoginFailure('10.3.0.3', 'ben'), 0);
+});
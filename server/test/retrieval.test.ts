@@ -0,0 +1,49 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { PINNED_ARTICLES, getLawContext, retrieveLawContext } from '../src/retrieval';
+import { getAllArticles } from '../src/corpus';
+import { LawArticle } from '../src/types';
+
+const paragraphsOf = (article: LawArticle) => article.paragraphs || [];
+
+const ids = (query: string, limit = 5, pinned?: string[]) =>
+  retrieveLawContext(query, limit, pinned).map((article) => `${article.law} ${article.id}`);
+
+test('pinned DSG articles are always included in full', () => {
+  const context = retrieveLawContext('Newsletter an Kundinnen', 3);
+  PINNED_ARTICLES.forEach((id) => {
+    const article = context.find((item) => item.law === 'DSG' && item.id === id);
+    const original = getAllArticles().find((item) => item.law === 'DSG' && item.id === id);
+    assert.ok(article, id);
+    assert.equal(paragraphsOf(article).length, paragraphsOf(original!).length);
+  });
+});
+
+test('other analysis modes pin their own articles', () => {
+  assert.ok(ids('Datenverlust', 0, ['Art. 24']).includes('DSG Art. 24'));
+  assert.ok(!ids('Datenverlust', 0, ['Art. 24']).includes('DSG Art. 22'));
+});
+
+test('retrieved articles only carry the matching paragraphs, up to the limit', () => {
+  const context = retrieveLawContext('Videoüberwachung öffentlicher Plätze', 4);
+  const retrieved = context.filter((article) => !(article.law === 'DSG' && PINNED_ARTICLES.includes(article.id)));
+  const paragraphCount = retrieved.reduce((sum, article) => sum + paragraphsOf(article).length, 0);
+  assert.ok(paragraphCount > 0 && paragraphCount <= 4);
+  retrieved.forEach((article) => {
+    const original = getAllArticles().find((item) => item.law === article.law && item.id === article.id)!;
+    paragraphsOf(article).forEach((paragraph) => assert.ok(paragraphsOf(original).includes(paragraph)));
+  });
+});
+
+test('umlauts, ß and inflections are normalised', () => {
+  assert.deepEqual(ids('Maßnahmen zur Datensicherheit'), ids('Massnahmen zur Datensicherheit'));
+  assert.deepEqual(ids('Arbeitnehmerinnen und Arbeitnehmern'), ids('Arbeitnehmer'));
+});
+
+test('a query without matching terms only returns the pinned articles', () => {
+  assert.deepEqual(ids('xyzzy', 5), PINNED_ARTICLES.map((id) => `DSG ${id}`));
+});
+
+test('the full mode sends every loaded article', () => {
+  assert.equal(getLawContext('egal', 'full', 1).length, getAllArticles().length);
+});
@@ -0,0 +1,52 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { deriveRiskLevel, formatRiskLine, getCellLevel, parseRiskRegister } from '../src/riskRegister';
+import { RiskEntry } from '../src/types';
+
+const risk = (residualLikelihood: 1 | 2 | 3 | 4, residualSeverity: 1 | 2 | 3 | 4): RiskEntry => ({
+  id: 'R1',
+  category: 'primär',
+  description: 'Unbefugter Zugriff',
+  affectedPersons: 'Kundinnen und Kunden',
+  likelihood: 4,
+  severity: 4,
+  measures: ['Verschlüsselung'],
+  residualLikelihood,
+  residualSeverity,
+});
+
+test('cells of the 4x4 matrix are rated by likelihood times severity', () => {
+  assert.equal(getCellLevel(1, 3), 'LOW');
+  assert.equal(getCellLevel(2, 2), 'MEDIUM');
+  assert.equal(getCellLevel(4, 2), 'MEDIUM');
+  assert.equal(getCellLevel(3, 3), 'HIGH');
+  assert.equal(getCellLevel(1, 4), 'MEDIUM');
+});
+
+test('the overall level is the highest residual rating', () => {
+  assert.equal(deriveRiskLevel(undefined), undefined);
+  assert.equal(deriveRiskLevel([]), undefined);
+  assert.equal(deriveRiskLevel([risk(1, 1), risk(2, 2)]), 'MEDIUM');
+  assert.equal(deriveRiskLevel([risk(1, 1), risk(3, 4), risk(2, 2)]), 'HIGH');
+});
+
+test('register lines round-trip through the text format', () => {
+  const entry = { ...risk(2, 3), measures: ['Verschlüsselung', 'Protokollierung'] };
+  assert.deepEqual(parseRiskRegister(formatRiskLine(entry)), [entry]);
+});
+
+test('register lines are parsed leniently and invalid lines skipped', () => {
+  const risks = parseRiskRegister(
+    [
+      '- 1 | Sekundär | Profiling | Nutzer | 3 (wahrscheinlich) | S=2 | Datenminimierung; keine | 1 | 2',
+      'R2 | primär | Fehlende Bewertung | Nutzer | hoch | 3 | - | 2 | 2',
+      'Zu wenige | Felder',
+    ].join('\n')
+  );
+  assert.equal(risks.length, 1);
+  assert.equal(risks[0].id, 'R1');
+  assert.equal(risks[0].category, 'sekundär');
+  assert.equal(risks[0].likelihood, 3);
+  assert.equal(risks[0].severity, 2);
+  assert.deepEqual(risks[0].measures, ['Datenminimierung']);
+});
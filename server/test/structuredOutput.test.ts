@@ -0,0 +1,163 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { createMockProvider } from '../src/providers/mock';
+import { CompletionRequest, LlmProvider } from '../src/providers';
+import { DsfaJson, jsonToAnalysisResult, repairDsfaJson, validateDsfaJson } from '../src/structuredOutput';
+
+const DSFA: DsfaJson = {
+  needsMoreInfo: false,
+  message: '',
+  missingInfo: [],
+  summary: '**Gesundheitsdaten** sind besonders schützenswert (Art. 5 lit. c DSG).',
+  description: 'Eine App speichert Blutdruck und Medikamente.',
+  bruttorisiken: 'Unbefugter Zugriff auf Gesundheitsdaten.',
+  massnahmen: 'Verschlüsselung und Berechtigungskonzept.',
+  nettorisiken: 'Geringes Restrisiko.',
+  ergebnis: 'Eine Konsultation des EDÖB ist nicht nötig (Art. 23 DSG).',
+  risks: [
+    {
+      id: ' ',
+      category: 'primär',
+      description: 'Unbefugter Zugriff',
+      affectedPersons: 'Patientinnen und Patienten',
+      likelihood: 3,
+      severity: 4,
+      measures: ['Verschlüsselung', ' '],
+      residualLikelihood: 2,
+      residualSeverity: 2,
+    },
+  ],
+  riskLevel: 'HIGH',
+  recommendations: [' Berechtigungen prüfen ', ''],
+};
+
+const MISSING_INFO: DsfaJson = {
+  ...DSFA,
+  needsMoreInfo: true,
+  message: 'Bitte ergänzen Sie die Angaben.',
+  missingInfo: [' Zweck ', ''],
+  risks: undefined,
+  riskLevel: 'UNKNOWN',
+  recommendations: [],
+};
+
+const errorsOf = (content: string): string[] => {
+  const validation = validateDsfaJson(content);
+  assert.equal(validation.valid, false);
+  return validation.valid ? [] : validation.errors;
+};
+
+test('JSON in code fences or with surrounding text is accepted', () => {
+  const json = JSON.stringify(DSFA);
+  assert.deepEqual(validateDsfaJson(json), { valid: true, data: DSFA });
+  assert.deepEqual(validateDsfaJson(`\`\`\`json\n${json}\n\`\`\``), { valid: true, data: DSFA });
+  assert.deepEqual(validateDsfaJson(`Hier die DSFA: ${json} Viel Erfolg!`), { valid: true, data: DSFA });
+});
+
+test('answers without a parsable JSON object are rejected', () => {
+  assert.deepEqual(errorsOf('Ich kann keine DSFA erstellen.'), ['Ungültiges JSON: Kein JSON-Objekt in der Antwort gefunden.']);
+  assert.match(errorsOf(JSON.stringify(DSFA).slice(0, -20) + '}')[0], /^Ungültiges JSON: /);
+});
+
+test('missing fields and wrong types are listed', () => {
+  const { summary, riskLevel, ...partial } = DSFA;
+  assert.ok(summary && riskLevel);
+  assert.deepEqual(errorsOf(JSON.stringify(partial)), [
+    '"riskLevel" muss einer von LOW, MEDIUM, HIGH, UNKNOWN sein.',
+    '"summary" muss ein String sein.',
+  ]);
+
+  const errors = errorsOf(JSON.stringify({ ...DSFA, needsMoreInfo: 'nein', missingInfo: [1], recommendations: 'prüfen' }));
+  assert.deepEqual(errors, [
+    '"needsMoreInfo" muss ein Boolean sein.',
+    '"missingInfo" muss eine Liste von Strings sein.',
+    '"recommendations" muss eine Liste von Strings sein.',
+  ]);
+});
+
+test('incomplete knownInfo and risk entries are rejected', () => {
+  assert.match(errorsOf(JSON.stringify({ ...DSFA, knownInfo: { zweck: 'Betreuung' } }))[0], /^"knownInfo" muss ein Objekt/);
+  const risk = DSFA.risks![0];
+  [{ ...risk, likelihood: 5 }, { ...risk, category: 'tertiär' }, { ...risk, measures: 'Verschlüsselung' }].forEach((entry) =>
+    assert.match(errorsOf(JSON.stringify({ ...DSFA, risks: [entry] }))[0], /^"risks" muss eine Liste/)
+  );
+});
+
+test('a complete DSFA needs every section, a rated level and recommendations', () => {
+  assert.deepEqual(errorsOf(JSON.stringify({ ...DSFA, ergebnis: ' ', riskLevel: 'UNKNOWN', recommendations: [] })), [
+    '"ergebnis" darf nicht leer sein.',
+    '"riskLevel" muss LOW, MEDIUM oder HIGH sein.',
+    '"recommendations" darf nicht leer sein.',
+  ]);
+});
+
+test('asking for more information needs the missing items', () => {
+  assert.equal(validateDsfaJson(JSON.stringify({ ...MISSING_INFO, summary: '' })).valid, true);
+  assert.deepEqual(errorsOf(JSON.stringify({ ...MISSING_INFO, missingInfo: [] })), [
+    '"missingInfo" darf nicht leer sein, wenn "needsMoreInfo" true ist.',
+  ]);
+});
+
+test('repair requests stop as soon as the answer is valid', async (t) => {
+  t.mock.method(console, 'warn', () => {});
+  const answers = ['{"needsMoreInfo": false', JSON.stringify(DSFA), 'nicht mehr gefragt'];
+  const requests: CompletionRequest[] = [];
+  const provider: LlmProvider = {
+    ...createMockProvider(),
+    complete: async (request) => {
+      requests.push({ ...request, messages: [...request.messages] });
+      return answers[requests.length - 1];
+    },
+  };
+  const request: CompletionRequest = { model: 'test', messages: [{ role: 'user', content: 'DSFA' }] };
+
+  const validation = await repairDsfaJson(provider, request, 'Keine Angaben.', 3);
+  assert.deepEqual(validation, { valid: true, data: DSFA });
+  assert.equal(requests.length, 2);
+  // Every attempt sees the previous answers and their errors
+  assert.deepEqual(
+    requests[1].messages.map((message) => message.role),
+    ['user', 'assistant', 'user', 'assistant', 'user']
+  );
+  assert.equal(requests[1].messages[3].content, '{"needsMoreInfo": false');
+  assert.match(requests[1].messages[4].content, /Ungültiges JSON/);
+});
+
+test('valid answers and zero attempts make no repair request', async () => {
+  const provider: LlmProvider = {
+    ...createMockProvider(),
+    complete: async () => assert.fail('no repair request expected'),
+  };
+  const request: CompletionRequest = { model: 'test', messages: [] };
+  assert.equal((await repairDsfaJson(provider, request, JSON.stringify(DSFA), 2)).valid, true);
+  assert.equal((await repairDsfaJson(provider, request, '{}', 0)).valid, false);
+});
+
+test('a complete DSFA is cleaned up and rated from the register', () => {
+  const result = jsonToAnalysisResult(DSFA);
+  assert.equal(result.needsMoreInfo, false);
+  assert.equal(result.summary, 'Gesundheitsdaten sind besonders schützenswert (Art. 5 lit. c DSG).');
+  // The residual ratings 2x2 give MEDIUM, whatever the stated level
+  assert.equal(result.riskLevel, 'MEDIUM');
+  assert.match(result.analysis, /RISK_LEVEL: MEDIUM/);
+  assert.deepEqual(result.recommendations, ['Berechtigungen prüfen']);
+  assert.equal(result.risks?.[0].id, 'R1');
+  assert.deepEqual(result.risks?.[0].measures, ['Verschlüsselung']);
+  assert.deepEqual(result.legalReferences.map((ref) => ref.text), ['Art. 5 lit. c DSG', 'Art. 23 DSG']);
+
+  const withoutRegister = jsonToAnalysisResult({ ...DSFA, risks: [], recommendations: [] });
+  assert.equal(withoutRegister.riskLevel, 'HIGH');
+  assert.equal(withoutRegister.risks, undefined);
+  assert.deepEqual(withoutRegister.recommendations, ['Keine Empfehlungen vorhanden.']);
+});
+
+test('a request for more information keeps only the missing items', () => {
+  const result = jsonToAnalysisResult(MISSING_INFO);
+  assert.equal(result.needsMoreInfo, true);
+  assert.equal(result.riskLevel, 'UNKNOWN');
+  assert.deepEqual(result.missingInfo, ['Zweck']);
+  assert.equal(result.knownInfo?.zweck, '');
+  assert.equal(result.message, 'Bitte ergänzen Sie die Angaben.');
+  assert.match(result.analysis, /^INFORMATIONEN_FEHLEN: true/);
+  assert.match(jsonToAnalysisResult({ ...MISSING_INFO, message: ' ' }).message ?? '', /zusätzliche Informationen/);
+});
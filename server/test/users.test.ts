@@ -0,0 +1,65 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// Every test file runs in its own process, so there are no accounts yet
+process.env.DATA_DIR = fs.mkdtempSync(path.join(os.tmpdir(), 'dsfa-users-'));
+delete process.env.ADMIN_PASSWORD;
+delete process.env.APP_PASSWORD;
+
+import { authenticate, createUser, ensureInitialUser, hashPassword, listUsers, verifyPassword } from '../src/users';
+
+test('passwords are stored as salted scrypt hashes', () => {
+  const first = hashPassword('correct horse battery');
+  const second = hashPassword('correct horse battery');
+  assert.match(first, /^scrypt\$[0-9a-f]{32}\$[0-9a-f]{128}$/);
+  assert.notEqual(first, second);
+  assert.ok(!first.includes('correct horse battery'));
+});
+
+test('only the right password verifies against a hash', () => {
+  const hash = hashPassword('correct horse battery');
+  assert.equal(verifyPassword('correct horse battery', hash), true);
+  assert.equal(verifyPassword('correct horse batterY', hash), false);
+  assert.equal(verifyPassword('', hash), false);
+});
+
+test('malformed hashes never verify', () => {
+  const [, salt, hash] = hashPassword('correct horse battery').split('$');
+  assert.equal(verifyPassword('correct horse battery', `bcrypt$${salt}$${hash}`), false);
+  assert.equal(verifyPassword('correct horse battery', 'scrypt$$'), false);
+  assert.equal(verifyPassword('correct horse battery', 'plaintext'), false);
+});
+
+test('no initial account is created without ADMIN_PASSWORD', (t) => {
+  const error = t.mock.method(console, 'error', () => {});
+  ensureInitialUser();
+  assert.equal(listUsers().length, 0);
+  assert.equal(error.mock.callCount(), 1);
+  assert.match(String(error.mock.calls[0].arguments[0]), /ADMIN_PASSWORD is not set/);
+});
+
+test('the initial administrator is created from ADMIN_PASSWORD', (t) => {
+  t.mock.method(console, 'log', () => {});
+  process.env.ADMIN_PASSWORD = 'initial-admin-password';
+  ensureInitialUser();
+  const [admin] = listUsers();
+  assert.equal(admin.username, 'admin');
+  assert.deepEqual(admin.roles, ['admin', 'author']);
+  assert.ok(authenticate('admin', 'initial-admin-password'));
+
+  // Existing accounts are never replaced
+  process.env.ADMIN_PASSWORD = 'another-password';
+  ensureInitialUser();
+  assert.equal(listUsers().length, 1);
+  assert.equal(authenticate('admin', 'another-password'), null);
+});
+
+test('sign-in normalises the username and rejects wrong passwords', () => {
+  createUser({ username: ' Anna.Autorin ', password: 'anna-password-1' });
+  assert.equal(authenticate('ANNA.AUTORIN', 'anna-password-1')?.username, 'anna.autorin');
+  assert.equal(authenticate('anna.autorin', 'wrong-password'), null);
+  assert.equal(authenticate('unbekannt', 'anna-password-1'), null);
+});
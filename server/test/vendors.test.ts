@@ -0,0 +1,80 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { checkVendor, parseVendorProfile } from '../src/vendors';
+import { extractLegalReferences } from '../src/legalReferences';
+import { VendorProfile } from '../src/types';
+
+// A Swiss vendor that meets every requirement of Art. 9 DSG
+const compliant: VendorProfile = {
+  name: 'Hosting AG',
+  seat: 'Schweiz',
+  hostingLocations: ['Zürich'],
+  subProcessors: [],
+  certifications: [],
+  dpaSigned: true,
+  sccSigned: false,
+  securityDocumented: true,
+  subProcessorsApproved: false,
+};
+
+const requirements = (vendor: VendorProfile) => checkVendor(vendor).map((gap) => gap.requirement);
+
+test('a vendor profile is trimmed and completed with defaults', () => {
+  const parsed = parseVendorProfile({ name: ' Hosting AG ', seat: 'Schweiz', hostingLocations: ['Zürich', ' Zürich'] });
+  assert.ok('data' in parsed);
+  assert.deepEqual(parsed.data, { ...compliant, dpaSigned: false, securityDocumented: false });
+});
+
+test('invalid vendor data is rejected', () => {
+  const invalid = [
+    undefined,
+    { seat: 'Schweiz' },
+    { name: 'x'.repeat(101), seat: 'Schweiz' },
+    { name: 'Hosting AG' },
+    { name: 'Hosting AG', seat: 'Schweiz', hostingLocations: 'Zürich' },
+    { name: 'Hosting AG', seat: 'Schweiz', certifications: Array(21).fill('ISO 27001') },
+    { name: 'Hosting AG', seat: 'Schweiz', subProcessors: [{ name: 'Mail GmbH' }] },
+    { name: 'Hosting AG', seat: 'Schweiz', subProcessors: ['Mail GmbH'] },
+    { name: 'Hosting AG', seat: 'Schweiz', dpaSigned: 'ja' },
+  ];
+  invalid.forEach((body) => assert.ok('error' in parseVendorProfile(body), JSON.stringify(body)));
+});
+
+test('fields missing in an update keep their value', () => {
+  const parsed = parseVendorProfile({ dpaSigned: false }, compliant);
+  assert.ok('data' in parsed);
+  assert.deepEqual(parsed.data, { ...compliant, dpaSigned: false });
+});
+
+test('a vendor meeting Art. 9 DSG has no gaps', () => {
+  assert.deepEqual(checkVendor(compliant), []);
+  // Certifications count as evidence of data security
+  assert.deepEqual(checkVendor({ ...compliant, securityDocumented: false, certifications: ['ISO 27001'] }), []);
+});
+
+test('missing contract, security evidence and sub-processor approval are gaps', () => {
+  assert.deepEqual(requirements({ ...compliant, dpaSigned: false }), ['contract']);
+  assert.deepEqual(requirements({ ...compliant, securityDocumented: false }), ['security']);
+  const withSubProcessor = { ...compliant, subProcessors: [{ name: 'Mail GmbH', country: 'Deutschland' }] };
+  assert.deepEqual(requirements(withSubProcessor), ['subprocessors']);
+  assert.match(checkVendor(withSubProcessor)[0].measure, /Mail GmbH; Art\. 9 Abs\. 3 DSG/);
+  assert.deepEqual(requirements({ ...withSubProcessor, subProcessorsApproved: true }), []);
+});
+
+test('transfers to countries without adequate protection need SCC', () => {
+  const us = { ...compliant, subProcessors: [{ name: 'Cloud Inc.', country: 'USA' }], subProcessorsApproved: true };
+  const [gap] = checkVendor(us);
+  assert.equal(gap.requirement, 'transfer');
+  assert.deepEqual(extractLegalReferences(gap.measure).map((ref) => `${ref.text} ${ref.status}`), [
+    'Art. 16 Abs. 2 lit. d DSG verified',
+  ]);
+  assert.deepEqual(checkVendor({ ...us, sccSigned: true }), []);
+  // The Data Privacy Framework makes the USA adequate
+  assert.deepEqual(checkVendor({ ...us, certifications: ['EU-U.S. Data Privacy Framework'] }), []);
+});
+
+test('locations that cannot be assigned to a country are reported', () => {
+  const [gap] = checkVendor({ ...compliant, hostingLocations: ['Atlantis'], sccSigned: true });
+  assert.equal(gap.requirement, 'transfer');
+  assert.match(gap.measure, /Standort Atlantis/);
+});
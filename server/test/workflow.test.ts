@@ -0,0 +1,47 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { getTransitionPermission, isAssessmentStatus, validateTransition } from '../src/workflow';
+
+const check = { riskLevel: 'MEDIUM', needsMoreInfo: false, actorId: 'dpo', authorIds: ['author'] };
+
+test('transitions require the permission of the acting role', () => {
+  assert.equal(getTransitionPermission('draft', 'in_review'), 'assessment:edit');
+  assert.equal(getTransitionPermission('in_review', 'approved'), 'assessment:approve');
+  assert.equal(getTransitionPermission('in_review', 'rejected'), 'assessment:approve');
+  assert.equal(getTransitionPermission('approved', 'revision'), 'assessment:edit');
+  assert.equal(getTransitionPermission('draft', 'approved'), null);
+  assert.equal(getTransitionPermission('revision', 'approved'), null);
+});
+
+test('transitions outside the workflow are rejected', () => {
+  assert.match(validateTransition({ ...check, from: 'draft', to: 'approved' }) || '', /nicht möglich/);
+  assert.match(validateTransition({ ...check, from: 'approved', to: 'in_review' }) || '', /nicht möglich/);
+  assert.equal(validateTransition({ ...check, from: 'draft', to: 'in_review' }), null);
+  assert.equal(validateTransition({ ...check, from: 'rejected', to: 'revision' }), null);
+});
+
+test('incomplete analyses cannot be submitted', () => {
+  assert.notEqual(validateTransition({ ...check, needsMoreInfo: true, from: 'draft', to: 'in_review' }), null);
+});
+
+test('approving a high risk and rejecting need a note', () => {
+  assert.notEqual(validateTransition({ ...check, riskLevel: 'HIGH', from: 'in_review', to: 'approved' }), null);
+  assert.equal(validateTransition({ ...check, riskLevel: 'HIGH', from: 'in_review', to: 'approved', note: 'Art. 23 DSG' }), null);
+  assert.equal(validateTransition({ ...check, from: 'in_review', to: 'approved' }), null);
+  assert.notEqual(validateTransition({ ...check, from: 'in_review', to: 'rejected' }), null);
+  assert.equal(validateTransition({ ...check, from: 'in_review', to: 'rejected', note: 'Massnahmen fehlen' }), null);
+});
+
+test('the submitter or author of a version cannot decide on it', () => {
+  const own = { ...check, actorId: 'author', note: 'Massnahmen fehlen' };
+  assert.match(validateTransition({ ...own, from: 'in_review', to: 'approved' }) || '', /anderen Person/);
+  assert.match(validateTransition({ ...own, from: 'in_review', to: 'rejected' }) || '', /anderen Person/);
+  assert.equal(validateTransition({ ...own, from: 'draft', to: 'in_review' }), null);
+  assert.equal(validateTransition({ ...own, from: 'approved', to: 'revision' }), null);
+});
+
+test('only known statuses are accepted', () => {
+  assert.equal(isAssessmentStatus('in_review'), true);
+  assert.equal(isAssessmentStatus('toString'), false);
+  assert.equal(isAssessmentStatus(undefined), false);
+});
@@ -0,0 +1,44 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import zlib from 'zlib';
+import { toXlsx } from '../src/xlsx';
+
+// Reads the entries of the ZIP container through the central directory
+const unzip = (archive: Buffer): Map<string, string> => {
+  const end = archive.length - 22;
+  assert.equal(archive.readUInt32LE(end), 0x06054b50);
+  const count = archive.readUInt16LE(end + 10);
+  let position = archive.readUInt32LE(end + 16);
+  const files = new Map<string, string>();
+  for (let index = 0; index < count; index++) {
+    assert.equal(archive.readUInt32LE(position), 0x02014b50);
+    const compressedSize = archive.readUInt32LE(position + 20);
+    const size = archive.readUInt32LE(position + 24);
+    const nameLength = archive.readUInt16LE(position + 28);
+    const offset = archive.readUInt32LE(position + 42);
+    const name = archive.toString('utf-8', position + 46, position + 46 + nameLength);
+
+    assert.equal(archive.readUInt32LE(offset), 0x04034b50);
+    const dataStart = offset + 30 + archive.readUInt16LE(offset + 26) + archive.readUInt16LE(offset + 28);
+    const data = zlib.inflateRawSync(archive.subarray(dataStart, dataStart + compressedSize));
+    assert.equal(data.length, size);
+    files.set(name, data.toString('utf-8'));
+    position += 46 + nameLength;
+  }
+  return files;
+};
+
+test('the workbook is a valid ZIP with the Office Open XML parts', () => {
+  const files = unzip(toXlsx('Verzeichnis', ['Zweck'], [['Lohnbuchhaltung']]));
+  ['[Content_Types].xml', 'xl/workbook.xml', 'xl/worksheets/sheet1.xml'].forEach((name) => assert.ok(files.has(name), name));
+  assert.match(files.get('xl/workbook.xml')!, /name="Verzeichnis"/);
+});
+
+test('cells are escaped inline strings', () => {
+  const sheet = unzip(toXlsx('Massnahmen', ['Titel', 'Status'], [['<Verschlüsselung> & "TLS"', '=1+1\u0007']])).get(
+    'xl/worksheets/sheet1.xml'
+  )!;
+  assert.match(sheet, /&lt;Verschlüsselung&gt; &amp; &quot;TLS&quot;/);
+  assert.match(sheet, /<c r="B2" t="inlineStr" s="2"><is><t xml:space="preserve">=1\+1<\/t>/);
+  assert.doesNotMatch(sheet, /<f>/);
+});